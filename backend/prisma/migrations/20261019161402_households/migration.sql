@@ -0,0 +1,101 @@
+-- CreateEnum
+CREATE TYPE "HouseholdRole" AS ENUM ('owner', 'editor', 'viewer');
+
+-- DropIndex
+DROP INDEX "Item_ownerId_idx";
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "householdId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Household" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "inviteCode" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Household_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HouseholdMember" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "HouseholdRole" NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HouseholdMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HouseholdInvite" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "HouseholdRole" NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HouseholdInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Household_inviteCode_key" ON "Household"("inviteCode");
+
+-- CreateIndex
+CREATE INDEX "HouseholdMember_userId_idx" ON "HouseholdMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HouseholdMember_householdId_userId_key" ON "HouseholdMember"("householdId", "userId");
+
+-- CreateIndex
+CREATE INDEX "HouseholdInvite_email_idx" ON "HouseholdInvite"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HouseholdInvite_householdId_email_key" ON "HouseholdInvite"("householdId", "email");
+
+-- CreateIndex
+CREATE INDEX "Item_householdId_idx" ON "Item"("householdId");
+
+-- Everyone gets a household of their own ("Sara's household"), owning it,
+-- and their items go into it
+INSERT INTO "HouseholdMember" ("id", "householdId", "userId", "role")
+SELECT gen_random_uuid()::text, gen_random_uuid()::text, "id", 'owner'
+FROM "User";
+
+INSERT INTO "Household" ("id", "name", "inviteCode", "updatedAt")
+SELECT
+    m."householdId",
+    u."name" || '''s household',
+    (
+        SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 1 + floor(random() * 31)::int, 1), '')
+        FROM generate_series(1, 8)
+        WHERE m."id" IS NOT NULL
+    ),
+    CURRENT_TIMESTAMP
+FROM "HouseholdMember" m
+JOIN "User" u ON u."id" = m."userId";
+
+UPDATE "Item" i
+SET "householdId" = m."householdId"
+FROM "HouseholdMember" m
+WHERE m."userId" = i."ownerId";
+
+ALTER TABLE "Item" ALTER COLUMN "householdId" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdMember" ADD CONSTRAINT "HouseholdMember_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdMember" ADD CONSTRAINT "HouseholdMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdInvite" ADD CONSTRAINT "HouseholdInvite_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdInvite" ADD CONSTRAINT "HouseholdInvite_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "expirySoonDays" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "expiryUrgentDays" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "expiryType" TEXT NOT NULL DEFAULT 'best-before';
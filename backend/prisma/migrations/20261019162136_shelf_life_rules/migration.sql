@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ShelfLifeRule" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "keyword" TEXT,
+    "category" TEXT,
+    "location" TEXT NOT NULL,
+    "days" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShelfLifeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShelfLifeRule_householdId_idx" ON "ShelfLifeRule"("householdId");
+
+-- AddForeignKey
+ALTER TABLE "ShelfLifeRule" ADD CONSTRAINT "ShelfLifeRule_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "locationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Location" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Location_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ItemTransfer" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "fromLocationId" TEXT,
+    "toLocationId" TEXT,
+    "movedById" TEXT NOT NULL,
+    "movedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ItemTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Location_householdId_name_key" ON "Location"("householdId", "name");
+
+-- CreateIndex
+CREATE INDEX "ItemTransfer_itemId_idx" ON "ItemTransfer"("itemId");
+
+-- CreateIndex
+CREATE INDEX "Item_locationId_idx" ON "Item"("locationId");
+
+-- Every household starts with a fridge, a freezer and a pantry, and each
+-- item goes into the one of the kind it was kept in
+INSERT INTO "Location" ("id", "householdId", "name", "kind")
+SELECT gen_random_uuid()::text, h."id", l."name", l."kind"
+FROM "Household" h
+CROSS JOIN (VALUES ('Fridge', 'fridge'), ('Freezer', 'freezer'), ('Pantry', 'pantry')) AS l ("name", "kind");
+
+UPDATE "Item" i
+SET "locationId" = l."id"
+FROM "Location" l
+WHERE l."householdId" = i."householdId"
+AND l."kind" = CASE WHEN i."location" IN ('freezer', 'pantry') THEN i."location" ELSE 'fridge' END;
+
+ALTER TABLE "Item" DROP COLUMN "location",
+ALTER COLUMN "locationId" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "Location" ADD CONSTRAINT "Location_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Item" ADD CONSTRAINT "Item_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemTransfer" ADD CONSTRAINT "ItemTransfer_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemTransfer" ADD CONSTRAINT "ItemTransfer_fromLocationId_fkey" FOREIGN KEY ("fromLocationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemTransfer" ADD CONSTRAINT "ItemTransfer_toLocationId_fkey" FOREIGN KEY ("toLocationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemTransfer" ADD CONSTRAINT "ItemTransfer_movedById_fkey" FOREIGN KEY ("movedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ItemRemoval" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "itemName" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "removedById" TEXT NOT NULL,
+    "removedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ItemRemoval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ItemRemoval_householdId_removedAt_idx" ON "ItemRemoval"("householdId", "removedAt");
+
+-- AddForeignKey
+ALTER TABLE "ItemRemoval" ADD CONSTRAINT "ItemRemoval_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemRemoval" ADD CONSTRAINT "ItemRemoval_removedById_fkey" FOREIGN KEY ("removedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ItemRemoval" ADD COLUMN     "reason" TEXT;
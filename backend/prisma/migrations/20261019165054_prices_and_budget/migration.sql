@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Household" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'EUR',
+ADD COLUMN     "monthlyBudget" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "price" DOUBLE PRECISION,
+ADD COLUMN     "purchaseQuantity" DOUBLE PRECISION,
+ADD COLUMN     "store" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "ItemRemoval" ADD COLUMN     "price" DOUBLE PRECISION,
+ADD COLUMN     "purchasedAt" TIMESTAMP(3),
+ADD COLUMN     "value" DOUBLE PRECISION;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "parLevel" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ShoppingListEntry" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "locationId" TEXT,
+    "itemId" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "checked" BOOLEAN NOT NULL DEFAULT false,
+    "addedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShoppingListEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShoppingListEntry_householdId_idx" ON "ShoppingListEntry"("householdId");
+
+-- CreateIndex
+CREATE INDEX "ShoppingListEntry_itemId_idx" ON "ShoppingListEntry"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "ShoppingListEntry" ADD CONSTRAINT "ShoppingListEntry_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShoppingListEntry" ADD CONSTRAINT "ShoppingListEntry_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShoppingListEntry" ADD CONSTRAINT "ShoppingListEntry_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShoppingListEntry" ADD CONSTRAINT "ShoppingListEntry_addedById_fkey" FOREIGN KEY ("addedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
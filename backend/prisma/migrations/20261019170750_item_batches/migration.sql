@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ItemBatch" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "purchaseDate" DATE,
+    "expiryDate" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ItemBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ItemBatch_itemId_idx" ON "ItemBatch"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "ItemBatch" ADD CONSTRAINT "ItemBatch_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "ActivityEvent" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "itemId" TEXT NOT NULL,
+    "itemName" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'ui',
+    "before" JSONB,
+    "after" JSONB,
+    "note" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ActivityEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_householdId_createdAt_idx" ON "ActivityEvent"("householdId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_householdId_itemId_idx" ON "ActivityEvent"("householdId", "itemId");
+
+-- AddForeignKey
+ALTER TABLE "ActivityEvent" ADD CONSTRAINT "ActivityEvent_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ActivityEvent" ADD CONSTRAINT "ActivityEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+/**
+ * SEED - Fills a fresh database with the data the app expects to exist.
+ * Safe to run more than once (everything is an upsert).
+ *
+ *   npm run db:seed
+ */
+
+import { PrismaClient } from "@prisma/client";
+import bcrypt from "bcryptjs";
+
+const prisma = new PrismaClient();
+
+const categories = [
+  { slug: "meals", name: "Meals" },
+  { slug: "produce", name: "Produce" },
+  { slug: "pantry", name: "Pantry" },
+  { slug: "snacks", name: "Snacks" },
+  { slug: "frozen", name: "Frozen" },
+  { slug: "other", name: "Other" },
+];
+
+async function main() {
+  for (const category of categories) {
+    await prisma.category.upsert({
+      where: { slug: category.slug },
+      update: { name: category.name },
+      create: category,
+    });
+  }
+
+  // A demo account for local development: user@wasteless.com / wasteless123
+  const demoUser = await prisma.user.upsert({
+    where: { email: "user@wasteless.com" },
+    update: {},
+    create: {
+      email: "user@wasteless.com",
+      name: "John Doe",
+      passwordHash: await bcrypt.hash("wasteless123", 10),
+    },
+  });
+  const hasHousehold = await prisma.householdMember.findFirst({
+    where: { userId: demoUser.id },
+  });
+  if (!hasHousehold) {
+    await prisma.household.create({
+      data: {
+        name: "Demo household",
+        inviteCode: "DEMO2345",
+        members: { create: { userId: demoUser.id, role: "owner" } },
+        locations: {
+          create: [
+            { name: "Fridge", kind: "fridge" },
+            { name: "Freezer", kind: "freezer" },
+            { name: "Pantry", kind: "pantry" },
+          ],
+        },
+      },
+    });
+  }
+
+  console.log("✅ Database seeded");
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
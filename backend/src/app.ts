@@ -0,0 +1,50 @@
+/**
+ * EXPRESS APP
+ *
+ * Built in a function (instead of at import time) so it can be started by
+ * src/index.ts or mounted by anything else that needs a fresh instance.
+ */
+
+import express from "express";
+import { activityRouter } from "./routes/activity.js";
+import { authRouter } from "./routes/auth.js";
+import { dataRouter } from "./routes/data.js";
+import { eventsRouter } from "./routes/events.js";
+import { householdsRouter } from "./routes/households.js";
+import { invitesRouter } from "./routes/invites.js";
+import { itemsRouter } from "./routes/items.js";
+import { locationsRouter } from "./routes/locations.js";
+import { removalsRouter } from "./routes/removals.js";
+import { savedViewsRouter } from "./routes/savedViews.js";
+import { shelfLifeRouter } from "./routes/shelfLife.js";
+import { shoppingListRouter } from "./routes/shoppingList.js";
+import { errorHandler, notFound } from "./middleware/errorHandler.js";
+
+export function createApp() {
+  const app = express();
+
+  // A whole inventory can be more than the default 100kb
+  app.use("/api/data/import", express.json({ limit: "10mb" }));
+  app.use(express.json());
+
+  app.get("/api/health", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+  app.use("/api/activity", activityRouter);
+  app.use("/api/auth", authRouter);
+  app.use("/api/data", dataRouter);
+  app.use("/api/events", eventsRouter);
+  app.use("/api/households", householdsRouter);
+  app.use("/api/invites", invitesRouter);
+  app.use("/api/items", itemsRouter);
+  app.use("/api/locations", locationsRouter);
+  app.use("/api/removals", removalsRouter);
+  app.use("/api/saved-views", savedViewsRouter);
+  app.use("/api/shelf-life-rules", shelfLifeRouter);
+  app.use("/api/shopping-list", shoppingListRouter);
+
+  app.use("/api", notFound);
+  app.use(errorHandler);
+
+  return app;
+}
@@ -0,0 +1,7 @@
+import { createApp } from "./app.js";
+
+const port = Number(process.env.PORT ?? 4000);
+
+createApp().listen(port, () => {
+  console.log(`✅ Wasteless API listening on http://localhost:${port}`);
+});
@@ -0,0 +1,134 @@
+/**
+ * ============================================================================
+ * ACTIVITY LOG - Who Changed What in the Inventory
+ * ============================================================================
+ *
+ * Every change to an item is also written to the household's activity log
+ * (the ActivityEvent table), in the same transaction as the change itself:
+ *
+ *   Sara  consumed  Milk   quantity 1 → 0.5   (ui)
+ *   Tom   finished  Bread  wasted (spoiled)   (ui)
+ *
+ * Each event keeps the item's fields BEFORE and AFTER - the whole item when
+ * it was created or removed, only the fields that changed otherwise - and
+ * where the change came from: the client sends an X-Change-Source header
+ * ("quick-add", "import", "receipt"); anything else counts as the normal UI.
+ *
+ * The log is read through routes/activity.ts.
+ */
+
+import type { Item, Prisma } from "@prisma/client";
+import type { Request } from "express";
+
+export const ACTIVITY_ACTIONS = [
+  "created", // Added (by hand, quick-add, import, receipt or check-in)
+  "updated",
+  "moved", // To another location
+  "consumed", // Some used ("Use some", or in a meal)
+  "restocked", // Bought more of it
+  "finished", // Eaten, wasted... and removed
+  "deleted", // Removed by mistake
+  "restored", // Put back by undo
+  "cooked", // A meal made from other items
+] as const;
+export type ActivityAction = (typeof ACTIVITY_ACTIONS)[number];
+
+export const CHANGE_SOURCES = ["ui", "quick-add", "import", "receipt"] as const;
+export type ChangeSource = (typeof CHANGE_SOURCES)[number];
+
+type SnapshotItem = Item & {
+  category: { slug: string };
+  location: { name: string };
+};
+
+const isoDay = (value: Date | null) =>
+  value ? value.toISOString().slice(0, 10) : null;
+
+/**
+ * The item's fields as the log keeps them - the location by name, so the
+ * log still reads right after the location is renamed or deleted.
+ */
+export function itemSnapshot(item: SnapshotItem) {
+  return {
+    name: item.name,
+    category: item.category.slug,
+    quantity: item.quantity,
+    unit: item.unit,
+    location: item.location.name,
+    purchaseDate: isoDay(item.purchaseDate),
+    expiryDate: isoDay(item.expiryDate),
+    expiryType: item.expiryType,
+    notes: item.notes,
+    tags: item.tags,
+    price: item.price,
+    purchaseQuantity: item.purchaseQuantity,
+    store: item.store,
+    parLevel: item.parLevel,
+  };
+}
+type Snapshot = ReturnType<typeof itemSnapshot>;
+
+export interface ActivityEntry {
+  action: ActivityAction;
+  // The item as it was and as it is now: only `after` when it was
+  // created, only `before` when it's gone
+  before?: SnapshotItem;
+  after?: SnapshotItem;
+  note?: string;
+}
+
+// Only the fields that differ, on both sides
+function changedFields(before: Snapshot, after: Snapshot) {
+  const keys = (Object.keys(after) as (keyof Snapshot)[]).filter(
+    (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+  const pick = (snapshot: Snapshot) =>
+    Object.fromEntries(keys.map((key) => [key, snapshot[key]]));
+  return { before: pick(before), after: pick(after) };
+}
+
+export function changeSource(req: Request): ChangeSource {
+  const source = req.header("x-change-source");
+  return CHANGE_SOURCES.find((s) => s === source) ?? "ui";
+}
+
+/**
+ * Write `entries` to the log of the request's household, as done by the
+ * request's user. Call it inside the transaction that makes the change.
+ */
+export async function recordActivity(
+  tx: Prisma.TransactionClient,
+  req: Request,
+  entries: ActivityEntry[]
+) {
+  const { householdId, userId } = req;
+  if (!householdId || entries.length === 0) return;
+  const source = changeSource(req);
+
+  await tx.activityEvent.createMany({
+    data: entries.flatMap(({ action, before, after, note = "" }) => {
+      const item = after ?? before;
+      if (!item) return [];
+      const fields =
+        before && after
+          ? changedFields(itemSnapshot(before), itemSnapshot(after))
+          : {
+              before: before ? itemSnapshot(before) : null,
+              after: after ? itemSnapshot(after) : null,
+            };
+      return {
+        householdId,
+        actorId: userId ?? null,
+        itemId: item.id,
+        itemName: item.name,
+        action,
+        source,
+        ...(fields.before && {
+          before: fields.before as Prisma.InputJsonObject,
+        }),
+        ...(fields.after && { after: fields.after as Prisma.InputJsonObject }),
+        note,
+      };
+    }),
+  });
+}
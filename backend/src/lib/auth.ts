@@ -0,0 +1,78 @@
+/**
+ * ============================================================================
+ * AUTH HELPERS - Password Hashing and Session Tokens
+ * ============================================================================
+ *
+ * PASSWORDS are never stored, only a bcrypt hash of them.
+ *
+ * TOKENS are JWTs signed with JWT_SECRET. A token says "session <sid> of
+ * user <sub>"; requireUser then checks that the session still exists and
+ * hasn't been revoked, so logout works even though tokens are stateless.
+ */
+
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import type { User } from "@prisma/client";
+import { UnauthorizedError } from "./errors.js";
+
+const BCRYPT_ROUNDS = 10;
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+function jwtSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not set (see .env.example)");
+  }
+  return secret;
+}
+
+export function hashPassword(password: string) {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export function verifyPassword(password: string, passwordHash: string) {
+  return bcrypt.compare(password, passwordHash);
+}
+
+export interface SessionClaims {
+  sub: string; // user id
+  sid: string; // session id
+}
+
+export function signSessionToken(claims: SessionClaims, expiresAt: Date) {
+  return jwt.sign(claims, jwtSecret(), {
+    expiresIn: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+  });
+}
+
+export function verifySessionToken(token: string): SessionClaims {
+  try {
+    const payload = jwt.verify(token, jwtSecret());
+    if (
+      typeof payload === "object" &&
+      typeof payload.sub === "string" &&
+      typeof payload.sid === "string"
+    ) {
+      return { sub: payload.sub, sid: payload.sid };
+    }
+  } catch {
+    // Expired or tampered with - fall through
+  }
+  throw new UnauthorizedError("Your session is invalid or has expired");
+}
+
+/**
+ * The public view of a user - everything except the password hash.
+ */
+export function toUserDto(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    settings: {
+      expirySoonDays: user.expirySoonDays,
+      expiryUrgentDays: user.expiryUrgentDays,
+    },
+  };
+}
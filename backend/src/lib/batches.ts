@@ -0,0 +1,140 @@
+/**
+ * ============================================================================
+ * BATCH HELPERS - One Item, Several Purchases
+ * ============================================================================
+ *
+ * Milk bought on Monday and again on Thursday is ONE item ("2 milk") made
+ * of two batches, each with its own amount and dates. The item's quantity
+ * is always the total of its batches and its expiryDate the soonest one,
+ * so everything that only looks at items (the list, the waste log, par
+ * levels) keeps working.
+ *
+ *   Milk: 1 (expires Wed) + 1 (expires Sat)  → "2 milk, expires Wed"
+ *   use 1                                     → "1 milk, expires Sat"
+ *
+ * Taking some away empties the batch that expires FIRST, then the next.
+ * Adding some back (the "+" button, undoing a use) tops that same batch
+ * up again. Emptied batches are deleted.
+ *
+ * Items logged before batches existed get their first batch the first time
+ * their quantity changes.
+ */
+
+import type { Item, Prisma } from "@prisma/client";
+import { NotFoundError } from "./errors.js";
+
+type BatchedItem = Pick<
+  Item,
+  "id" | "quantity" | "purchaseDate" | "expiryDate"
+>;
+type BatchDates = Pick<Item, "purchaseDate" | "expiryDate">;
+
+// Soonest expiry first (no date last), then the oldest
+export const batchOrder = [
+  { expiryDate: { sort: "asc", nulls: "last" } },
+  { createdAt: "asc" },
+] satisfies Prisma.ItemBatchOrderByWithRelationInput[];
+
+// Float noise (0.1 + 0.2) would leave batches of 0.0000000001
+const round = (quantity: number) => Math.round(quantity * 1000) / 1000;
+
+/**
+ * The item's batches in the order they're used up - giving an item that
+ * has none yet one batch of everything it holds.
+ */
+export async function ensureBatches(
+  tx: Prisma.TransactionClient,
+  item: BatchedItem
+) {
+  const batches = await tx.itemBatch.findMany({
+    where: { itemId: item.id },
+    orderBy: batchOrder,
+  });
+  if (batches.length > 0 || item.quantity <= 0) return batches;
+  const batch = await tx.itemBatch.create({
+    data: {
+      itemId: item.id,
+      quantity: item.quantity,
+      purchaseDate: item.purchaseDate,
+      expiryDate: item.expiryDate,
+    },
+  });
+  return [batch];
+}
+
+/**
+ * Take `amount` away, soonest-expiring batch first - or from `batchId`
+ * first when the user picked one.
+ */
+export async function takeFromBatches(
+  tx: Prisma.TransactionClient,
+  item: BatchedItem,
+  amount: number,
+  batchId?: string
+) {
+  const batches = await ensureBatches(tx, item);
+  if (batchId) {
+    const picked = batches.findIndex((batch) => batch.id === batchId);
+    if (picked === -1) {
+      throw new NotFoundError("Batch not found");
+    }
+    batches.unshift(...batches.splice(picked, 1));
+  }
+  let left = amount;
+  for (const batch of batches) {
+    if (left <= 0) break;
+    const taken = Math.min(batch.quantity, left);
+    left = round(left - taken);
+    const quantity = round(batch.quantity - taken);
+    if (quantity <= 0) {
+      await tx.itemBatch.delete({ where: { id: batch.id } });
+    } else {
+      await tx.itemBatch.update({
+        where: { id: batch.id },
+        data: { quantity },
+      });
+    }
+  }
+}
+
+/**
+ * Add `amount` back to the soonest-expiring batch, or start a batch with
+ * `dates` if the item has none left.
+ */
+export async function addToBatches(
+  tx: Prisma.TransactionClient,
+  item: BatchedItem,
+  amount: number,
+  dates: BatchDates
+) {
+  const [first] = await ensureBatches(tx, item);
+  if (first) {
+    await tx.itemBatch.update({
+      where: { id: first.id },
+      data: { quantity: round(first.quantity + amount) },
+    });
+  } else {
+    await tx.itemBatch.create({
+      data: { itemId: item.id, quantity: amount, ...dates },
+    });
+  }
+}
+
+/**
+ * What the item's own quantity and expiryDate should be now, or null when
+ * it has no batches (used up: it keeps its last values).
+ */
+export async function batchTotals(
+  tx: Prisma.TransactionClient,
+  itemId: string
+) {
+  const batches = await tx.itemBatch.findMany({
+    where: { itemId },
+    orderBy: batchOrder,
+  });
+  if (batches.length === 0) return null;
+  return {
+    quantity: round(batches.reduce((sum, batch) => sum + batch.quantity, 0)),
+    expiryDate: batches[0].expiryDate,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * CSV
+ * Rows of values → a CSV file (RFC 4180: fields with a comma, quote or
+ * line break are quoted, quotes doubled).
+ */
+
+export type CsvValue = string | number | boolean | null;
+
+const csvField = (value: CsvValue) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+export function toCsv(header: string[], rows: CsvValue[][]) {
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+}
@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * HTTP ERRORS - Typed Errors That Become JSON Responses
+ * ============================================================================
+ *
+ * Route handlers THROW these instead of writing error responses by hand.
+ * middleware/errorHandler.ts catches them and sends:
+ *
+ *   { "error": { "code": "NOT_FOUND", "message": "Item not found" } }
+ *
+ * so the frontend can always rely on the same error shape.
+ */
+
+export type ErrorCode =
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "INTERNAL_ERROR";
+
+/**
+ * One problem with one field of a request body, e.g.
+ * { path: "quantity", message: "Number must be greater than or equal to 0" }
+ */
+export interface FieldIssue {
+  path: string;
+  message: string;
+}
+
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+
+  constructor(status: number, code: ErrorCode, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code;
+  }
+
+  toJSON() {
+    return { error: { code: this.code, message: this.message } };
+  }
+}
+
+export class ValidationError extends HttpError {
+  readonly issues: FieldIssue[];
+
+  constructor(issues: FieldIssue[]) {
+    super(400, "VALIDATION_ERROR", "Request body is invalid");
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+
+  toJSON() {
+    return {
+      error: { code: this.code, message: this.message, issues: this.issues },
+    };
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = "You must be logged in") {
+    super(401, "UNAUTHORIZED", message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = "You don't have permission to do that") {
+    super(403, "FORBIDDEN", message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "Not found") {
+    super(404, "NOT_FOUND", message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(409, "CONFLICT", message);
+    this.name = "ConflictError";
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * ============================================================================
+ * HOUSEHOLD EVENTS - Live Updates for Everyone in a Household
+ * ============================================================================
+ *
+ * Every open app keeps a Server-Sent Events stream open for its active
+ * household (GET /api/events, routes/events.ts). When an item is added,
+ * changed or removed, the route that did it calls publishItemEvents() and
+ * every OTHER open app in the household gets the new item straight away:
+ *
+ *   id: 3f2c…-42
+ *   event: item.updated
+ *   data: {"item":{...},"actor":{"id":"…","name":"Sara"},"at":"…"}
+ *
+ * The app that made the change is told apart by the X-Client-Id header it
+ * sends with every request - it already has the answer.
+ *
+ * PRESENCE: each time someone opens or closes the app, everyone in the
+ * household gets a "presence" event listing who has it open.
+ *
+ * CATCHING UP: the last 200 events of each household are kept in memory.
+ * An app that lost its connection reconnects with the id of the last event
+ * it saw (the Last-Event-ID header) and gets the ones it missed. Further
+ * behind than that, or the server restarted in between: it gets a
+ * "resync" event and reloads everything instead. (Each stream starts with
+ * a "ready" event carrying the latest id, so even an app that hasn't seen
+ * an event yet knows where it was.)
+ *
+ * LEAVING: streams are only for members. When someone is removed from the
+ * household or leaves it (or it's deleted), and when they log out, the
+ * routes that did it call closeStreams() - their app stops getting the
+ * household's changes at once, and can't reconnect.
+ *
+ * All of this lives in this one process - running several servers would
+ * need a shared channel between them (e.g. Postgres LISTEN/NOTIFY).
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Request } from "express";
+import { prisma } from "./prisma.js";
+
+export type ItemEventType = "item.created" | "item.updated" | "item.deleted";
+
+// The whole item for created/updated (the DTO the routes answer with);
+// only its id and name once it's deleted
+export interface ItemEvent {
+  type: ItemEventType;
+  item: { id: string; name: string };
+}
+
+interface Member {
+  id: string;
+  name: string;
+}
+
+interface StoredEvent {
+  seq: number;
+  type: ItemEventType;
+  data: { item: ItemEvent["item"]; actor: Member; at: string };
+}
+
+export interface EventListener {
+  clientId: string | null; // The app's X-Client-Id
+  sessionId: string | null; // The login it was opened with
+  user: Member;
+  send: (type: string, data: unknown, id?: string) => void;
+  close: () => void; // End the stream
+}
+
+// Whose streams to close: one member's, a whole household's, or one login's
+export type StreamFilter =
+  { householdId: string; userId?: string } | { sessionId: string };
+
+const KEPT_EVENTS = 200; // Per household
+
+// Event ids are "<server start>-<number>", so an id from before a restart
+// is recognised as one we can't catch up from
+const bootId = randomUUID();
+let lastSeq = 0;
+
+const listeners = new Map<string, Set<EventListener>>();
+const recent = new Map<string, StoredEvent[]>();
+// The newest event that no longer fits in `recent`, per household
+const dropped = new Map<string, number>();
+
+const eventId = (seq: number) => `${bootId}-${seq}`;
+
+function sendEvent(listener: EventListener, event: StoredEvent) {
+  listener.send(event.type, event.data, eventId(event.seq));
+}
+
+// Who has the app open, each person once
+function onlineMembers(householdId: string): Member[] {
+  const members = new Map<string, Member>();
+  for (const listener of listeners.get(householdId) ?? []) {
+    members.set(listener.user.id, listener.user);
+  }
+  return [...members.values()];
+}
+
+function broadcastPresence(householdId: string) {
+  const members = onlineMembers(householdId);
+  for (const listener of listeners.get(householdId) ?? []) {
+    listener.send("presence", { members });
+  }
+}
+
+/**
+ * Start sending `householdId`'s events to `listener`, first catching it up
+ * from `lastEventId` (the last one it saw) if it gave one. Returns the
+ * function that stops it again.
+ */
+export function subscribe(
+  householdId: string,
+  listener: EventListener,
+  lastEventId?: string
+) {
+  if (lastEventId) {
+    const [boot, seq] = [
+      lastEventId.slice(0, bootId.length),
+      Number(lastEventId.slice(bootId.length + 1)),
+    ];
+    if (
+      boot !== bootId ||
+      Number.isNaN(seq) ||
+      seq < (dropped.get(householdId) ?? 0)
+    ) {
+      listener.send("resync", {});
+    } else {
+      for (const event of recent.get(householdId) ?? []) {
+        if (event.seq > seq) sendEvent(listener, event);
+      }
+    }
+  }
+  listener.send("ready", {}, eventId(lastSeq));
+
+  const set = listeners.get(householdId) ?? new Set();
+  listeners.set(householdId, set.add(listener));
+  broadcastPresence(householdId);
+
+  return () => {
+    if (!set.delete(listener)) return; // Already closed by closeStreams()
+    if (set.size === 0) listeners.delete(householdId);
+    broadcastPresence(householdId);
+  };
+}
+
+/**
+ * End the streams that `filter` picks out, and tell the rest of their
+ * households who's still online.
+ */
+export function closeStreams(filter: StreamFilter) {
+  for (const [householdId, set] of listeners) {
+    if ("householdId" in filter && filter.householdId !== householdId) {
+      continue;
+    }
+    const closing = [...set].filter((listener) =>
+      "sessionId" in filter
+        ? listener.sessionId === filter.sessionId
+        : !filter.userId || listener.user.id === filter.userId
+    );
+    if (closing.length === 0) continue;
+    for (const listener of closing) {
+      set.delete(listener);
+      listener.close();
+    }
+    if (set.size === 0) listeners.delete(householdId);
+    else broadcastPresence(householdId);
+  }
+}
+
+/**
+ * Tell the rest of the household about item changes made by this request
+ * (one behind requireUser and requireHousehold). Called after the change
+ * is saved; never fails the request - a missed event only means someone's
+ * screen is behind until they reload.
+ */
+export function publishItemEvents(req: Request, events: ItemEvent[]) {
+  const { householdId, userId: actorId } = req;
+  const clientId = req.header("x-client-id");
+  if (!householdId || !actorId || events.length === 0) return;
+  void prisma.user
+    .findUnique({ where: { id: actorId }, select: { id: true, name: true } })
+    .then((actor) => {
+      const at = new Date().toISOString();
+      const kept = recent.get(householdId) ?? [];
+      for (const { type, item } of events) {
+        const event: StoredEvent = {
+          seq: ++lastSeq,
+          type,
+          data: { item, actor: actor ?? { id: actorId, name: "Someone" }, at },
+        };
+        kept.push(event);
+        for (const listener of listeners.get(householdId) ?? []) {
+          if (!clientId || listener.clientId !== clientId) {
+            sendEvent(listener, event);
+          }
+        }
+      }
+      const overflow = kept.splice(0, Math.max(0, kept.length - KEPT_EVENTS));
+      if (overflow.length > 0) {
+        dropped.set(householdId, overflow[overflow.length - 1].seq);
+      }
+      recent.set(householdId, kept);
+    })
+    .catch((err) => console.error("Could not publish item events:", err));
+}
+
+/**
+ * Too many changes to send one by one (an import): tell the rest of the
+ * household to reload everything instead. Anyone catching up from before
+ * this has to reload too.
+ */
+export function publishResync(req: Request) {
+  const { householdId } = req;
+  const clientId = req.header("x-client-id");
+  if (!householdId) return;
+  const seq = ++lastSeq;
+  recent.delete(householdId);
+  dropped.set(householdId, seq);
+  for (const listener of listeners.get(householdId) ?? []) {
+    if (!clientId || listener.clientId !== clientId) {
+      listener.send("resync", {}, eventId(seq));
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * HOUSEHOLD HELPERS
+ * ============================================================================
+ *
+ * Shared by the household, invite and auth routes.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { HouseholdRole, Prisma } from "@prisma/client";
+
+/**
+ * owner > editor > viewer. hasRole("owner", "editor") is true because an
+ * owner can do everything an editor can.
+ */
+const ROLE_RANK: Record<HouseholdRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+export function hasRole(role: HouseholdRole, minimum: HouseholdRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * 8 characters without look-alikes (0/O, 1/I/L), easy to read out loud.
+ */
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+export function generateInviteCode() {
+  return Array.from(
+    randomBytes(8),
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  ).join("");
+}
+
+/**
+ * The storage locations every new household starts with.
+ */
+export const DEFAULT_LOCATIONS = [
+  { name: "Fridge", kind: "fridge" },
+  { name: "Freezer", kind: "freezer" },
+  { name: "Pantry", kind: "pantry" },
+];
+
+/**
+ * Create a household with `userId` as its owner and the default locations.
+ * Takes a transaction client so callers (like registration) can create it
+ * together with other rows.
+ */
+export function createHousehold(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  name: string
+) {
+  return tx.household.create({
+    data: {
+      name,
+      inviteCode: generateInviteCode(),
+      members: { create: { userId, role: "owner" } },
+      locations: { create: DEFAULT_LOCATIONS },
+    },
+  });
+}
+
+/**
+ * What the household list returns: the household plus MY role in it, and
+ * the settings every member needs (the currency prices are shown in).
+ */
+export function toHouseholdSummary(membership: {
+  role: HouseholdRole;
+  household: {
+    id: string;
+    name: string;
+    currency: string;
+    monthlyBudget: number | null;
+    _count: { members: number };
+  };
+}) {
+  return {
+    id: membership.household.id,
+    name: membership.household.name,
+    role: membership.role,
+    memberCount: membership.household._count.members,
+    currency: membership.household.currency,
+    monthlyBudget: membership.household.monthlyBudget,
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * PRISMA CLIENT
+ * One shared client for the whole server - each PrismaClient holds its own
+ * connection pool, so never create them per request.
+ */
+
+import { PrismaClient } from "@prisma/client";
+
+export const prisma = new PrismaClient();
@@ -0,0 +1,67 @@
+/**
+ * ============================================================================
+ * SHOPPING LIST HELPERS - Par Levels
+ * ============================================================================
+ *
+ * An item with a par level ("always have 2 l of milk") gets ONE "par-level"
+ * entry on the shopping list while it's below it, for the shortfall:
+ *
+ *   milk 0.5 l, par level 2 l  → "milk, 1.5 l" on the list
+ *   used some more (0.25 l)    → the same entry becomes 1.75 l
+ *   restocked to 2 l           → the entry is taken off again
+ *
+ * Once someone has checked the entry (it's in their trolley), it's left
+ * alone until it is checked in. The items routes call syncParLevelEntry
+ * after every change to an item, inside the same transaction.
+ */
+
+import type { Item, Prisma } from "@prisma/client";
+
+export const SHOPPING_SOURCES = ["manual", "par-level"] as const;
+export type ShoppingSource = (typeof SHOPPING_SOURCES)[number];
+
+type ParLevelItem = Pick<
+  Item,
+  | "id"
+  | "householdId"
+  | "name"
+  | "quantity"
+  | "unit"
+  | "locationId"
+  | "parLevel"
+> & { category: { slug: string } };
+
+export async function syncParLevelEntry(
+  tx: Prisma.TransactionClient,
+  item: ParLevelItem,
+  userId: string
+) {
+  const entry = await tx.shoppingListEntry.findFirst({
+    where: { itemId: item.id, source: "par-level" },
+  });
+  if (entry?.checked) return;
+
+  const shortfall = item.parLevel === null ? 0 : item.parLevel - item.quantity;
+  if (shortfall <= 0) {
+    if (entry) await tx.shoppingListEntry.delete({ where: { id: entry.id } });
+  } else if (entry) {
+    await tx.shoppingListEntry.update({
+      where: { id: entry.id },
+      data: { quantity: shortfall, unit: item.unit, name: item.name },
+    });
+  } else {
+    await tx.shoppingListEntry.create({
+      data: {
+        householdId: item.householdId,
+        name: item.name,
+        category: item.category.slug,
+        quantity: shortfall,
+        unit: item.unit,
+        locationId: item.locationId,
+        itemId: item.id,
+        source: "par-level",
+        addedById: userId,
+      },
+    });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * ERROR HANDLING
+ *
+ * Registered LAST in app.ts. Express 5 forwards errors thrown (or rejected)
+ * from any handler here, so routes can simply `throw new NotFoundError()`.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { HttpError, NotFoundError } from "../lib/errors.js";
+
+// Any /api route that didn't match
+export function notFound(req: Request) {
+  throw new NotFoundError(`No route for ${req.method} ${req.path}`);
+}
+
+export function errorHandler(
+  err: unknown,
+  _req: Request,
+  res: Response,
+  // Express only treats a middleware as an error handler if it takes 4 args
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  _next: NextFunction
+) {
+  if (err instanceof HttpError) {
+    res.status(err.status).json(err);
+    return;
+  }
+
+  // express.json() rejects malformed JSON with a SyntaxError + status 400
+  if (err instanceof SyntaxError && "status" in err && err.status === 400) {
+    res.status(400).json({
+      error: { code: "VALIDATION_ERROR", message: "Malformed JSON body" },
+    });
+    return;
+  }
+
+  console.error(err);
+  res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: "Something went wrong" },
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * REQUIRE HOUSEHOLD
+ *
+ * The inventory belongs to a household, and a user can be in several.
+ * The client says which one it is working in with a header:
+ *
+ *   X-Household-Id: <household id>
+ *
+ * This middleware (which runs AFTER requireUser) checks the user is a member
+ * and sets req.householdId + req.householdRole. Not a member → 404, so
+ * nobody can probe which household ids exist.
+ *
+ * requireHouseholdRole("editor") then guards the routes that change data.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import type { HouseholdRole } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { hasRole } from "../lib/households.js";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../lib/errors.js";
+import { currentUserId } from "./requireUser.js";
+
+export async function requireHousehold(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) {
+  const householdId = req.header("x-household-id");
+  if (!householdId) {
+    throw new ValidationError([
+      { path: "X-Household-Id", message: "Header is required" },
+    ]);
+  }
+
+  const membership = await prisma.householdMember.findUnique({
+    where: {
+      householdId_userId: { householdId, userId: currentUserId(req) },
+    },
+  });
+  if (!membership) {
+    throw new NotFoundError("Household not found");
+  }
+
+  req.householdId = membership.householdId;
+  req.householdRole = membership.role;
+  next();
+}
+
+export function requireHouseholdRole(minimum: HouseholdRole) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.householdRole || !hasRole(req.householdRole, minimum)) {
+      throw new ForbiddenError(
+        `You need to be a household ${minimum} to do that`
+      );
+    }
+    next();
+  };
+}
+
+/**
+ * Read req.householdId inside a route that is behind requireHousehold.
+ */
+export function currentHouseholdId(req: Request): string {
+  if (!req.householdId) {
+    throw new NotFoundError("Household not found");
+  }
+  return req.householdId;
+}
@@ -0,0 +1,54 @@
+/**
+ * REQUIRE USER
+ *
+ * Runs before every route that needs a logged-in user and sets req.userId
+ * and req.sessionId.
+ *
+ * The client sends the token it got from /api/auth/login:
+ *   Authorization: Bearer <token>
+ *
+ * The token's signature is checked first (cheap), then the session it
+ * points at must still be active in the database.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { prisma } from "../lib/prisma.js";
+import { verifySessionToken } from "../lib/auth.js";
+import { UnauthorizedError } from "../lib/errors.js";
+
+export async function requireUser(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) {
+  const [scheme, token] = (req.header("authorization") ?? "").split(" ");
+  if (scheme !== "Bearer" || !token) {
+    throw new UnauthorizedError();
+  }
+
+  const { sub, sid } = verifySessionToken(token);
+  const session = await prisma.session.findUnique({ where: { id: sid } });
+  if (
+    !session ||
+    session.userId !== sub ||
+    session.revokedAt ||
+    session.expiresAt < new Date()
+  ) {
+    throw new UnauthorizedError("Your session is invalid or has expired");
+  }
+
+  req.userId = session.userId;
+  req.sessionId = session.id;
+  next();
+}
+
+/**
+ * Read req.userId inside a route that is behind requireUser.
+ * Throws (instead of returning undefined) so handlers never have to check.
+ */
+export function currentUserId(req: Request): string {
+  if (!req.userId) {
+    throw new UnauthorizedError();
+  }
+  return req.userId;
+}
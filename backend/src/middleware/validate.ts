@@ -0,0 +1,35 @@
+/**
+ * VALIDATE BODY
+ *
+ * Route middleware that checks req.body against a zod schema:
+ *
+ *   router.post("/", validateBody(itemCreateSchema), handler)
+ *
+ * On success req.body is REPLACED with the parsed value (unknown fields
+ * stripped, defaults filled in). On failure a ValidationError listing every
+ * bad field is thrown, which the error handler turns into a 400.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import type { ZodError, ZodTypeAny } from "zod";
+import { ValidationError } from "../lib/errors.js";
+
+export function toValidationError(error: ZodError) {
+  return new ValidationError(
+    error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+    }))
+  );
+}
+
+export function validateBody(schema: ZodTypeAny) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      throw toValidationError(result.error);
+    }
+    req.body = result.data;
+    next();
+  };
+}
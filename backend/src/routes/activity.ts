@@ -0,0 +1,158 @@
+/**
+ * ============================================================================
+ * ACTIVITY ROUTES - The Household's Audit Log
+ * ============================================================================
+ *
+ *   GET /api/activity?member=&item=&from=&to=&cursor=&limit=
+ *        → { events, nextCursor }: changes to items, newest first, a page
+ *          at a time (pass nextCursor back as `cursor` for the next page)
+ *   GET /api/activity/export?format=csv|json&member=&item=&from=&to=
+ *        → the whole (filtered) log as a file download (owners only)
+ *
+ * The events are written by the items and shopping list routes as they
+ * make each change (lib/activity.ts); they're read-only here. Any member
+ * can read the log.
+ */
+
+import { Router } from "express";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { toCsv } from "../lib/csv.js";
+import { requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+  requireHouseholdRole,
+} from "../middleware/requireHousehold.js";
+import { toValidationError } from "../middleware/validate.js";
+import {
+  activityExportSchema,
+  activityQuerySchema,
+  type ActivityFilters,
+} from "../validation/activity.js";
+
+export const activityRouter = Router();
+
+activityRouter.use(requireUser, requireHousehold);
+
+// More than this in one export is more than anyone will read
+const MAX_EXPORT = 10_000;
+
+const activityInclude = {
+  actor: { select: { id: true, name: true } },
+} satisfies Prisma.ActivityEventInclude;
+type ActivityWithActor = Prisma.ActivityEventGetPayload<{
+  include: typeof activityInclude;
+}>;
+
+function toActivityDto(event: ActivityWithActor) {
+  return {
+    id: event.id,
+    itemId: event.itemId,
+    itemName: event.itemName,
+    action: event.action,
+    source: event.source,
+    before: event.before,
+    after: event.after,
+    note: event.note,
+    actor: event.actor, // null once that member's account is gone
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+function activityWhere(
+  householdId: string,
+  { member, item, from, to }: ActivityFilters
+): Prisma.ActivityEventWhereInput {
+  return {
+    householdId,
+    ...(member && { actorId: member }),
+    ...(item && { itemName: { contains: item, mode: "insensitive" } }),
+    ...((from || to) && {
+      createdAt: {
+        ...(from && { gte: new Date(`${from}T00:00:00.000Z`) }),
+        // Up to the END of the `to` day
+        ...(to && { lt: new Date(Date.parse(`${to}T00:00:00.000Z`) + 864e5) }),
+      },
+    }),
+  };
+}
+
+// Newest first; the id breaks ties between events made together
+const newestFirst = [
+  { createdAt: "desc" },
+  { id: "desc" },
+] satisfies Prisma.ActivityEventOrderByWithRelationInput[];
+
+activityRouter.get("/", async (req, res) => {
+  const parsed = activityQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw toValidationError(parsed.error);
+  }
+  const { cursor, limit, ...filters } = parsed.data;
+
+  // One extra, to know whether there's another page
+  const events = await prisma.activityEvent.findMany({
+    where: activityWhere(currentHouseholdId(req), filters),
+    include: activityInclude,
+    orderBy: newestFirst,
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  });
+  const page = events.slice(0, limit);
+  res.json({
+    events: page.map(toActivityDto),
+    nextCursor: events.length > limit ? page[page.length - 1].id : null,
+  });
+});
+
+activityRouter.get(
+  "/export",
+  requireHouseholdRole("owner"),
+  async (req, res) => {
+    const parsed = activityExportSchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw toValidationError(parsed.error);
+    }
+    const { format, ...filters } = parsed.data;
+
+    const events = await prisma.activityEvent.findMany({
+      where: activityWhere(currentHouseholdId(req), filters),
+      include: activityInclude,
+      orderBy: newestFirst,
+      take: MAX_EXPORT,
+    });
+    const dtos = events.map(toActivityDto);
+    const filename = `activity-${new Date().toISOString().slice(0, 10)}`;
+
+    res.attachment(`${filename}.${format}`);
+    if (format === "json") {
+      res.json(dtos);
+      return;
+    }
+    res.type("text/csv").send(
+      toCsv(
+        [
+          "time",
+          "member",
+          "action",
+          "item",
+          "source",
+          "note",
+          "before",
+          "after",
+        ],
+        dtos.map((event) => [
+          event.createdAt,
+          event.actor?.name ?? "",
+          event.action,
+          event.itemName,
+          event.source,
+          event.note,
+          event.before === null ? "" : JSON.stringify(event.before),
+          event.after === null ? "" : JSON.stringify(event.after),
+        ])
+      )
+    );
+  }
+);
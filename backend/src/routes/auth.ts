@@ -0,0 +1,132 @@
+/**
+ * ============================================================================
+ * AUTH ROUTES
+ * ============================================================================
+ *
+ *   POST /api/auth/register  → create an account (and a household of their
+ *                              own), responds { user, token }
+ *   POST /api/auth/login     → responds { user, token }
+ *   POST /api/auth/logout    → revoke the current session, responds 204
+ *   GET  /api/auth/me        → { user } for the token in the header
+ *   PATCH /api/auth/me/settings → update my settings, responds { user }
+ *
+ * Wrong email and wrong password get the SAME error, so the login form
+ * can't be used to find out who has an account.
+ */
+
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { createHousehold } from "../lib/households.js";
+import { closeStreams } from "../lib/events.js";
+import {
+  hashPassword,
+  SESSION_TTL_MS,
+  signSessionToken,
+  toUserDto,
+  verifyPassword,
+} from "../lib/auth.js";
+import {
+  ConflictError,
+  UnauthorizedError,
+  ValidationError,
+} from "../lib/errors.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+import { validateBody } from "../middleware/validate.js";
+import {
+  loginSchema,
+  registerSchema,
+  settingsSchema,
+  type LoginInput,
+  type RegisterInput,
+  type SettingsInput,
+} from "../validation/auth.js";
+
+export const authRouter = Router();
+
+async function startSession(userId: string) {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const session = await prisma.session.create({
+    data: { userId, expiresAt },
+  });
+  return signSessionToken({ sub: userId, sid: session.id }, expiresAt);
+}
+
+authRouter.post("/register", validateBody(registerSchema), async (req, res) => {
+  const { name, email, password } = req.body as RegisterInput;
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    throw new ConflictError("An account with this email already exists");
+  }
+
+  const passwordHash = await hashPassword(password);
+  const user = await prisma.$transaction(async (tx) => {
+    const created = await tx.user.create({
+      data: { name, email, passwordHash },
+    });
+    // Everyone starts with a household, so there's always somewhere to put food
+    await createHousehold(tx, created.id, `${name}'s household`);
+    return created;
+  });
+  const token = await startSession(user.id);
+  res.status(201).json({ user: toUserDto(user), token });
+});
+
+authRouter.post("/login", validateBody(loginSchema), async (req, res) => {
+  const { email, password } = req.body as LoginInput;
+
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new UnauthorizedError("Incorrect email or password");
+  }
+
+  const token = await startSession(user.id);
+  res.json({ user: toUserDto(user), token });
+});
+
+authRouter.post("/logout", requireUser, async (req, res) => {
+  await prisma.session.update({
+    where: { id: req.sessionId },
+    data: { revokedAt: new Date() },
+  });
+  if (req.sessionId) closeStreams({ sessionId: req.sessionId });
+  res.status(204).end();
+});
+
+authRouter.get("/me", requireUser, async (req, res) => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: currentUserId(req) },
+  });
+  res.json({ user: toUserDto(user) });
+});
+
+authRouter.patch(
+  "/me/settings",
+  requireUser,
+  validateBody(settingsSchema),
+  async (req, res) => {
+    const changes = req.body as SettingsInput;
+    const userId = currentUserId(req);
+    const current = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
+
+    // Check the pair AFTER merging, so changing one value can't break the rule
+    const soon = changes.expirySoonDays ?? current.expirySoonDays;
+    const urgent = changes.expiryUrgentDays ?? current.expiryUrgentDays;
+    if (urgent > soon) {
+      throw new ValidationError([
+        {
+          path: "expiryUrgentDays",
+          message: "Urgent days can't be more than soon days",
+        },
+      ]);
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: changes,
+    });
+    res.json({ user: toUserDto(user) });
+  }
+);
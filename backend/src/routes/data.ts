@@ -0,0 +1,609 @@
+/**
+ * ============================================================================
+ * DATA ROUTES - Import and Export of the Whole Inventory
+ * ============================================================================
+ *
+ *   GET  /api/data/export?format=json
+ *        → everything as one versioned document (a backup, or to move to
+ *          another household): the currency and budget, locations, items
+ *          with their batches, and the waste log
+ *   GET  /api/data/export?format=csv&table=items|batches|locations|removals
+ *        → one of those as a spreadsheet
+ *   POST /api/data/import (body: ImportInput)
+ *        → { items, removals, summary }: what happened to each row. With
+ *          `dryRun` nothing is saved - it's the preview.
+ *
+ * The document refers to locations by NAME, not id, so it imports into any
+ * household: a location the household doesn't have yet is created (with
+ * the kind the document gives it, else one guessed from its name).
+ *
+ *   merge:   items with the same name, unit and location as one already
+ *            there (or earlier in the file) become more batches of it, and
+ *            take the file's price, store, notes and par level where it
+ *            has them
+ *   replace: every item is deleted first (owners only), with its par-level
+ *            shopping list entry
+ *
+ * An owner's import also takes the file's currency and monthly budget -
+ * the settings only they can change. Others keep the household's.
+ *
+ * The waste log is always added to - entries already there (same item and
+ * time) are skipped, so importing the same file twice doesn't count the
+ * waste twice. Who removed them isn't kept across households: they're
+ * logged as removed by the importing user.
+ *
+ * A file with any bad row isn't imported at all: the preview lists every
+ * row's problems, and the app leaves those rows out before importing.
+ */
+
+import { Router } from "express";
+import type { Location } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { ForbiddenError, ValidationError } from "../lib/errors.js";
+import { toCsv } from "../lib/csv.js";
+import { hasRole } from "../lib/households.js";
+import { recordActivity, type ActivityEntry } from "../lib/activity.js";
+import { batchTotals, ensureBatches } from "../lib/batches.js";
+import { publishResync } from "../lib/events.js";
+import { syncParLevelEntry } from "../lib/shoppingList.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+  requireHouseholdRole,
+} from "../middleware/requireHousehold.js";
+import { toValidationError, validateBody } from "../middleware/validate.js";
+import {
+  fromDate,
+  itemInclude,
+  toDate,
+  type ItemWithRelations,
+} from "./items.js";
+import { STORAGE_LOCATIONS } from "../validation/items.js";
+import {
+  EXPORT_VERSION,
+  exportQuerySchema,
+  importItemSchema,
+  importRemovalSchema,
+  importSchema,
+  type ExportQuery,
+  type ImportInput,
+  type ImportItemInput,
+  type ImportRemovalInput,
+} from "../validation/data.js";
+import type { HouseholdSettingsInput } from "../validation/households.js";
+
+export const dataRouter = Router();
+
+dataRouter.use(requireUser, requireHousehold);
+
+const canEdit = requireHouseholdRole("editor");
+
+// Thousands of rows take longer than a normal transaction is allowed to
+const IMPORT_TIMEOUT_MS = 120_000;
+
+/**
+ * The household's data as a version EXPORT_VERSION document.
+ */
+async function exportDocument(householdId: string) {
+  const [household, locations, items, removals] = await Promise.all([
+    prisma.household.findUniqueOrThrow({ where: { id: householdId } }),
+    prisma.location.findMany({
+      where: { householdId },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.item.findMany({
+      where: { householdId },
+      include: itemInclude,
+      orderBy: { name: "asc" },
+    }),
+    prisma.itemRemoval.findMany({
+      where: { householdId },
+      include: { removedBy: { select: { name: true } } },
+      orderBy: { removedAt: "desc" },
+    }),
+  ]);
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    household: {
+      name: household.name,
+      currency: household.currency,
+      monthlyBudget: household.monthlyBudget,
+    },
+    locations: locations.map(({ name, kind }) => ({ name, kind })),
+    items: items.map((item) => ({
+      name: item.name,
+      category: item.category.slug,
+      quantity: item.quantity,
+      unit: item.unit,
+      location: item.location.name,
+      purchaseDate: fromDate(item.purchaseDate),
+      expiryDate: fromDate(item.expiryDate),
+      expiryType: item.expiryType,
+      notes: item.notes,
+      tags: item.tags,
+      price: item.price,
+      purchaseQuantity: item.purchaseQuantity,
+      store: item.store,
+      parLevel: item.parLevel,
+      batches: item.batches.map((batch) => ({
+        quantity: batch.quantity,
+        purchaseDate: fromDate(batch.purchaseDate),
+        expiryDate: fromDate(batch.expiryDate),
+      })),
+      createdAt: item.createdAt.toISOString(),
+    })),
+    removals: removals.map((removal) => ({
+      itemName: removal.itemName,
+      category: removal.category,
+      quantity: removal.quantity,
+      unit: removal.unit,
+      outcome: removal.outcome,
+      reason: removal.reason,
+      price: removal.price,
+      value: removal.value,
+      purchasedAt: removal.purchasedAt?.toISOString() ?? null,
+      removedAt: removal.removedAt.toISOString(),
+      removedBy: removal.removedBy.name, // For reading only
+    })),
+  };
+}
+type ExportDocument = Awaited<ReturnType<typeof exportDocument>>;
+
+// One table of the document as CSV. The items table's columns are the
+// import's field names, so it imports back without mapping anything.
+function exportCsv(document: ExportDocument, table: ExportQuery["table"]) {
+  switch (table) {
+    case "batches":
+      return toCsv(
+        ["item", "location", "unit", "quantity", "purchaseDate", "expiryDate"],
+        document.items.flatMap((item) =>
+          item.batches.map((batch) => [
+            item.name,
+            item.location,
+            item.unit,
+            batch.quantity,
+            batch.purchaseDate,
+            batch.expiryDate,
+          ])
+        )
+      );
+    case "locations":
+      return toCsv(
+        ["name", "kind"],
+        document.locations.map((location) => [location.name, location.kind])
+      );
+    case "removals":
+      return toCsv(
+        [
+          "removedAt",
+          "itemName",
+          "category",
+          "quantity",
+          "unit",
+          "outcome",
+          "reason",
+          "price",
+          "value",
+          "purchasedAt",
+          "removedBy",
+        ],
+        document.removals.map((removal) => [
+          removal.removedAt,
+          removal.itemName,
+          removal.category,
+          removal.quantity,
+          removal.unit,
+          removal.outcome,
+          removal.reason,
+          removal.price,
+          removal.value,
+          removal.purchasedAt,
+          removal.removedBy,
+        ])
+      );
+    default:
+      return toCsv(
+        [
+          "name",
+          "category",
+          "quantity",
+          "unit",
+          "location",
+          "purchaseDate",
+          "expiryDate",
+          "expiryType",
+          "notes",
+          "tags",
+          "price",
+          "purchaseQuantity",
+          "store",
+          "parLevel",
+        ],
+        document.items.map((item) => [
+          item.name,
+          item.category,
+          item.quantity,
+          item.unit,
+          item.location,
+          item.purchaseDate,
+          item.expiryDate,
+          item.expiryType,
+          item.notes,
+          item.tags.join("; "),
+          item.price,
+          item.purchaseQuantity,
+          item.store,
+          item.parLevel,
+        ])
+      );
+  }
+}
+
+dataRouter.get("/export", async (req, res) => {
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw toValidationError(parsed.error);
+  }
+  const { format, table } = parsed.data;
+
+  const document = await exportDocument(currentHouseholdId(req));
+  const filename = `wasteless-${document.exportedAt.slice(0, 10)}`;
+  if (format === "json") {
+    res.attachment(`${filename}.json`).json(document);
+    return;
+  }
+  res
+    .attachment(`${filename}-${table}.csv`)
+    .type("text/csv")
+    .send(exportCsv(document, table));
+});
+
+interface RowIssue {
+  path: string;
+  message: string;
+}
+
+// What the import does (or would do) with one row of the file
+interface RowResult {
+  row: number; // Its index in the file
+  name: string;
+  action: "create" | "merge" | "skip" | "invalid";
+  errors: RowIssue[];
+}
+
+// Best effort, for naming rows that didn't pass
+const rowName = (row: unknown, field: string) =>
+  typeof row === "object" && row !== null && field in row
+    ? String((row as Record<string, unknown>)[field])
+    : "";
+
+// The same item: same name (in any case), unit and location
+const itemKey = (name: string, unit: string, location: string) =>
+  [name.toLowerCase(), unit, location.toLowerCase()].join("\n");
+
+// Waste log entries already there
+const removalKey = (removal: { itemName: string; removedAt: Date | string }) =>
+  `${removal.itemName}\n${new Date(removal.removedAt).toISOString()}`;
+
+// A location the document doesn't describe: "Garage freezer" is a freezer
+const guessKind = (name: string) =>
+  STORAGE_LOCATIONS.find((kind) => name.toLowerCase().includes(kind)) ??
+  "pantry";
+
+dataRouter.post(
+  "/import",
+  canEdit,
+  validateBody(importSchema),
+  async (req, res) => {
+    const { mode, dryRun, data } = req.body as ImportInput;
+    const householdId = currentHouseholdId(req);
+    const userId = currentUserId(req);
+    const isOwner = !!req.householdRole && hasRole(req.householdRole, "owner");
+    if (mode === "replace" && !isOwner) {
+      throw new ForbiddenError(
+        "You need to be a household owner to replace the inventory"
+      );
+    }
+
+    const [household, locations, existingItems, existingRemovals] =
+      await Promise.all([
+        prisma.household.findUniqueOrThrow({ where: { id: householdId } }),
+        prisma.location.findMany({ where: { householdId } }),
+        prisma.item.findMany({ where: { householdId }, include: itemInclude }),
+        prisma.itemRemoval.findMany({
+          where: { householdId },
+          select: { itemName: true, removedAt: true },
+        }),
+      ]);
+
+    // Locations by (lowercase) name, and the ones the import adds
+    const locationByName = new Map(
+      locations.map((location) => [location.name.toLowerCase(), location])
+    );
+    const kindByName = new Map(
+      data.locations.map((location) => [
+        location.name.toLowerCase(),
+        location.kind,
+      ])
+    );
+    const newLocations = new Map<string, string>(); // lowercase → as written
+    const addLocation = (name: string) => {
+      const key = name.toLowerCase();
+      if (!locationByName.has(key) && !newLocations.has(key)) {
+        newLocations.set(key, name);
+      }
+    };
+    data.locations.forEach((location) => addLocation(location.name));
+
+    // Check each row, and work out what happens to it
+    const itemKeys = new Set(
+      mode === "merge"
+        ? existingItems.map((item) =>
+            itemKey(item.name, item.unit, item.location.name)
+          )
+        : []
+    );
+    const validItems: ImportItemInput[] = [];
+    const itemResults = data.items.map((row, index): RowResult => {
+      const parsed = importItemSchema.safeParse(row);
+      if (!parsed.success) {
+        return {
+          row: index,
+          name: rowName(row, "name"),
+          action: "invalid",
+          errors: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        };
+      }
+      const item = parsed.data;
+      const key = itemKey(item.name, item.unit, item.location);
+      const action = itemKeys.has(key) ? "merge" : "create";
+      itemKeys.add(key);
+      addLocation(item.location);
+      validItems.push(item);
+      return { row: index, name: item.name, action, errors: [] };
+    });
+
+    // The settings the file changes (that the importer may change)
+    const settings: Partial<HouseholdSettingsInput> = {};
+    if (isOwner && data.household) {
+      const { currency, monthlyBudget } = data.household;
+      if (currency !== undefined && currency !== household.currency) {
+        settings.currency = currency;
+      }
+      if (
+        monthlyBudget !== undefined &&
+        monthlyBudget !== household.monthlyBudget
+      ) {
+        settings.monthlyBudget = monthlyBudget;
+      }
+    }
+
+    const removalKeys = new Set(existingRemovals.map(removalKey));
+    const validRemovals: ImportRemovalInput[] = [];
+    const removalResults = data.removals.map((row, index): RowResult => {
+      const parsed = importRemovalSchema.safeParse(row);
+      if (!parsed.success) {
+        return {
+          row: index,
+          name: rowName(row, "itemName"),
+          action: "invalid",
+          errors: parsed.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        };
+      }
+      const removal = parsed.data;
+      const key = removalKey(removal);
+      if (removalKeys.has(key)) {
+        return {
+          row: index,
+          name: removal.itemName,
+          action: "skip",
+          errors: [],
+        };
+      }
+      removalKeys.add(key);
+      validRemovals.push(removal);
+      return {
+        row: index,
+        name: removal.itemName,
+        action: "create",
+        errors: [],
+      };
+    });
+
+    const count = (results: RowResult[], action: RowResult["action"]) =>
+      results.filter((result) => result.action === action).length;
+    const result = {
+      dryRun,
+      mode,
+      items: itemResults,
+      removals: removalResults,
+      summary: {
+        created: count(itemResults, "create"),
+        merged: count(itemResults, "merge"),
+        invalid:
+          count(itemResults, "invalid") + count(removalResults, "invalid"),
+        deleted: mode === "replace" ? existingItems.length : 0,
+        removals: count(removalResults, "create"),
+        newLocations: [...newLocations.values()],
+        household: Object.keys(settings).length > 0 ? settings : null,
+      },
+    };
+    if (dryRun) {
+      res.json(result);
+      return;
+    }
+
+    const issues = [
+      ...itemResults.flatMap(({ row, errors }) =>
+        errors.map((error) => ({
+          ...error,
+          path: `items.${row}.${error.path}`,
+        }))
+      ),
+      ...removalResults.flatMap(({ row, errors }) =>
+        errors.map((error) => ({
+          ...error,
+          path: `removals.${row}.${error.path}`,
+        }))
+      ),
+    ];
+    if (issues.length > 0) {
+      throw new ValidationError(issues);
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        const activity: ActivityEntry[] = [];
+        const itemsByKey = new Map<string, ItemWithRelations>();
+
+        if (result.summary.household) {
+          await tx.household.update({
+            where: { id: householdId },
+            data: result.summary.household,
+          });
+        }
+
+        if (mode === "replace") {
+          // Their par-level entries go with them (the imported items get
+          // their own below) - unless they're already in someone's trolley
+          await tx.shoppingListEntry.deleteMany({
+            where: { householdId, source: "par-level", checked: false },
+          });
+          await tx.item.deleteMany({ where: { householdId } });
+          activity.push(
+            ...existingItems.map((item): ActivityEntry => ({
+              action: "deleted",
+              before: item,
+              note: "replaced by an import",
+            }))
+          );
+        } else {
+          for (const item of existingItems) {
+            itemsByKey.set(
+              itemKey(item.name, item.unit, item.location.name),
+              item
+            );
+          }
+        }
+
+        for (const [key, name] of newLocations) {
+          const location: Location = await tx.location.create({
+            data: {
+              householdId,
+              name,
+              kind: kindByName.get(key) ?? guessKind(name),
+            },
+          });
+          locationByName.set(key, location);
+        }
+
+        for (const {
+          location: locationName,
+          category,
+          batches,
+          createdAt,
+          purchaseDate,
+          expiryDate,
+          ...fields
+        } of validItems) {
+          const location = locationByName.get(locationName.toLowerCase());
+          if (!location) continue; // Never: they were all found or created
+          // An item without batches (a spreadsheet row) is one batch
+          const purchases =
+            batches.length > 0
+              ? batches
+              : fields.quantity > 0
+                ? [{ quantity: fields.quantity, purchaseDate, expiryDate }]
+                : [];
+          const batchData = purchases.map((batch) => ({
+            quantity: batch.quantity,
+            purchaseDate: toDate(batch.purchaseDate),
+            expiryDate: toDate(batch.expiryDate),
+          }));
+
+          const key = itemKey(fields.name, fields.unit, location.name);
+          const same = itemsByKey.get(key);
+          let saved: ItemWithRelations;
+          if (same) {
+            // Bought more of it: its batches join the item's (one from
+            // before batches first gets a batch of what it holds), and
+            // what the file knows about it replaces what's there - a blank
+            // doesn't (older files and spreadsheets leave columns out)
+            await ensureBatches(tx, same);
+            await tx.itemBatch.createMany({
+              data: batchData.map((batch) => ({ ...batch, itemId: same.id })),
+            });
+            const totals = await batchTotals(tx, same.id);
+            saved = await tx.item.update({
+              where: { id: same.id },
+              data: {
+                ...totals,
+                // The price is for its purchase quantity: they go together
+                ...(fields.price !== null && {
+                  price: fields.price,
+                  purchaseQuantity: fields.purchaseQuantity,
+                }),
+                ...(fields.store && { store: fields.store }),
+                ...(fields.notes && { notes: fields.notes }),
+                ...(fields.parLevel !== null && { parLevel: fields.parLevel }),
+              },
+              include: itemInclude,
+            });
+            activity.push({
+              action: "restocked",
+              before: same,
+              after: saved,
+              note: "from an import",
+            });
+          } else {
+            const created = await tx.item.create({
+              data: {
+                ...fields,
+                ...(createdAt && { createdAt: new Date(createdAt) }),
+                purchaseDate: toDate(purchaseDate),
+                expiryDate: toDate(expiryDate),
+                household: { connect: { id: householdId } },
+                owner: { connect: { id: userId } },
+                category: { connect: { slug: category } },
+                location: { connect: { id: location.id } },
+                batches: { create: batchData },
+              },
+            });
+            const totals = await batchTotals(tx, created.id);
+            saved = await tx.item.update({
+              where: { id: created.id },
+              data: totals ?? {},
+              include: itemInclude,
+            });
+            activity.push({ action: "created", after: saved });
+          }
+          itemsByKey.set(key, saved);
+          await syncParLevelEntry(tx, saved, userId);
+        }
+
+        await tx.itemRemoval.createMany({
+          data: validRemovals.map((removal) => ({
+            ...removal,
+            householdId,
+            removedById: userId,
+            purchasedAt: removal.purchasedAt && new Date(removal.purchasedAt),
+            removedAt: new Date(removal.removedAt),
+          })),
+        });
+        await recordActivity(tx, req, activity);
+      },
+      { timeout: IMPORT_TIMEOUT_MS }
+    );
+
+    res.json(result);
+    publishResync(req);
+  }
+);
@@ -0,0 +1,69 @@
+/**
+ * ============================================================================
+ * EVENT ROUTES - The Household's Live Update Stream
+ * ============================================================================
+ *
+ *   GET /api/events → a Server-Sent Events stream of the household's item
+ *                     changes and who's online (see lib/events.ts)
+ *
+ * Stays open until the app closes it - or the user logs out or stops being
+ * a member. Send Last-Event-ID to catch up after a dropped connection. A
+ * comment line every 25 seconds keeps proxies from closing a quiet stream.
+ */
+
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { NotFoundError } from "../lib/errors.js";
+import { subscribe } from "../lib/events.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+} from "../middleware/requireHousehold.js";
+
+export const eventsRouter = Router();
+
+eventsRouter.use(requireUser, requireHousehold);
+
+const HEARTBEAT_MS = 25_000;
+
+eventsRouter.get("/", async (req, res) => {
+  const user = await prisma.user.findUnique({
+    where: { id: currentUserId(req) },
+    select: { id: true, name: true },
+  });
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // nginx: don't hold events back
+  });
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  const unsubscribe = subscribe(
+    currentHouseholdId(req),
+    {
+      clientId: req.header("x-client-id") ?? null,
+      sessionId: req.sessionId ?? null,
+      user,
+      send: (type, data, id) =>
+        res.write(
+          `${id ? `id: ${id}\n` : ""}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+        ),
+      close: () => {
+        clearInterval(heartbeat);
+        res.end();
+      },
+    },
+    req.header("last-event-id")
+  );
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
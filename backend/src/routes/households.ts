@@ -0,0 +1,324 @@
+/**
+ * ============================================================================
+ * HOUSEHOLD ROUTES - Shared Inventories, Members and Invites
+ * ============================================================================
+ *
+ *   GET    /api/households                      → my households + my role
+ *   POST   /api/households                      → create one (I'm the owner)
+ *   POST   /api/households/join                 → join with an invite code
+ *   GET    /api/households/:id                  → members, invites, code
+ *   PATCH  /api/households/:id                  → rename, currency, budget (owner)
+ *   DELETE /api/households/:id                  → delete with all its food (owner)
+ *   POST   /api/households/:id/invite-code      → new invite code (owner)
+ *   POST   /api/households/:id/invites          → invite an email (owner)
+ *   DELETE /api/households/:id/invites/:inviteId → cancel invite  (owner)
+ *   PATCH  /api/households/:id/members/:userId  → change a role   (owner)
+ *   DELETE /api/households/:id/members/:userId  → remove someone  (owner)
+ *   POST   /api/households/:id/leave            → leave
+ *
+ * A household must always keep at least one owner while it has members.
+ *
+ * Email addresses aren't verified - whoever registers with one gets its
+ * invites - so an email invite makes an editor or a viewer, never an
+ * owner. An owner can promote them once they've joined.
+ */
+
+import { Router } from "express";
+import type { Request } from "express";
+import type { HouseholdRole } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { ConflictError, ForbiddenError, NotFoundError } from "../lib/errors.js";
+import {
+  createHousehold,
+  generateInviteCode,
+  hasRole,
+  toHouseholdSummary,
+} from "../lib/households.js";
+import { closeStreams } from "../lib/events.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+import { validateBody } from "../middleware/validate.js";
+import {
+  householdSchema,
+  householdUpdateSchema,
+  inviteSchema,
+  joinSchema,
+  memberRoleSchema,
+  type HouseholdInput,
+  type HouseholdUpdateInput,
+  type InviteInput,
+  type JoinInput,
+  type MemberRoleInput,
+} from "../validation/households.js";
+
+export const householdsRouter = Router();
+
+householdsRouter.use(requireUser);
+
+const summaryInclude = {
+  household: { include: { _count: { select: { members: true } } } },
+} as const;
+
+/**
+ * Load MY membership of household :id, requiring at least `minimum` role.
+ * Not a member → 404 (don't reveal the household exists).
+ */
+async function membershipFor(req: Request, minimum: HouseholdRole = "viewer") {
+  const membership = await prisma.householdMember.findUnique({
+    where: {
+      householdId_userId: {
+        householdId: String(req.params.id),
+        userId: currentUserId(req),
+      },
+    },
+  });
+  if (!membership) {
+    throw new NotFoundError("Household not found");
+  }
+  if (!hasRole(membership.role, minimum)) {
+    throw new ForbiddenError(`Only a household ${minimum} can do that`);
+  }
+  return membership;
+}
+
+async function ownerCount(householdId: string) {
+  return prisma.householdMember.count({
+    where: { householdId, role: "owner" },
+  });
+}
+
+householdsRouter.get("/", async (req, res) => {
+  const memberships = await prisma.householdMember.findMany({
+    where: { userId: currentUserId(req) },
+    include: summaryInclude,
+    orderBy: { joinedAt: "asc" },
+  });
+  res.json(memberships.map(toHouseholdSummary));
+});
+
+householdsRouter.post("/", validateBody(householdSchema), async (req, res) => {
+  const { name } = req.body as HouseholdInput;
+  const userId = currentUserId(req);
+  const household = await prisma.$transaction((tx) =>
+    createHousehold(tx, userId, name)
+  );
+  res.status(201).json({
+    id: household.id,
+    name: household.name,
+    role: "owner",
+    memberCount: 1,
+    currency: household.currency,
+    monthlyBudget: household.monthlyBudget,
+  });
+});
+
+householdsRouter.post("/join", validateBody(joinSchema), async (req, res) => {
+  const { code } = req.body as JoinInput;
+  const userId = currentUserId(req);
+
+  const household = await prisma.household.findUnique({
+    where: { inviteCode: code },
+  });
+  if (!household) {
+    throw new NotFoundError("No household has that invite code");
+  }
+
+  const membership = await prisma.householdMember.upsert({
+    where: { householdId_userId: { householdId: household.id, userId } },
+    update: {},
+    create: { householdId: household.id, userId, role: "editor" },
+    include: summaryInclude,
+  });
+  res.json(toHouseholdSummary(membership));
+});
+
+householdsRouter.get("/:id", async (req, res) => {
+  const membership = await membershipFor(req);
+  const isOwner = membership.role === "owner";
+
+  const household = await prisma.household.findUniqueOrThrow({
+    where: { id: membership.householdId },
+    include: {
+      members: { include: { user: true }, orderBy: { joinedAt: "asc" } },
+      invites: isOwner ? { orderBy: { createdAt: "asc" } } : false,
+    },
+  });
+
+  res.json({
+    id: household.id,
+    name: household.name,
+    role: membership.role,
+    currency: household.currency,
+    monthlyBudget: household.monthlyBudget,
+    // Only owners can see (and share) the code and pending invites
+    inviteCode: isOwner ? household.inviteCode : null,
+    members: household.members.map((member) => ({
+      userId: member.userId,
+      name: member.user.name,
+      email: member.user.email,
+      role: member.role,
+      joinedAt: member.joinedAt.toISOString(),
+    })),
+    invites: (household.invites ?? []).map((invite) => ({
+      id: invite.id,
+      email: invite.email,
+      role: invite.role,
+      createdAt: invite.createdAt.toISOString(),
+    })),
+  });
+});
+
+householdsRouter.patch(
+  "/:id",
+  validateBody(householdUpdateSchema),
+  async (req, res) => {
+    const membership = await membershipFor(req, "owner");
+    await prisma.household.update({
+      where: { id: membership.householdId },
+      data: req.body as HouseholdUpdateInput,
+    });
+    res.status(204).end();
+  }
+);
+
+householdsRouter.delete("/:id", async (req, res) => {
+  const membership = await membershipFor(req, "owner");
+  await prisma.household.delete({ where: { id: membership.householdId } });
+  closeStreams({ householdId: membership.householdId });
+  res.status(204).end();
+});
+
+householdsRouter.post("/:id/invite-code", async (req, res) => {
+  const membership = await membershipFor(req, "owner");
+  const household = await prisma.household.update({
+    where: { id: membership.householdId },
+    data: { inviteCode: generateInviteCode() },
+  });
+  res.json({ inviteCode: household.inviteCode });
+});
+
+householdsRouter.post(
+  "/:id/invites",
+  validateBody(inviteSchema),
+  async (req, res) => {
+    const membership = await membershipFor(req, "owner");
+    const { email, role } = req.body as InviteInput;
+
+    const alreadyMember = await prisma.householdMember.findFirst({
+      where: { householdId: membership.householdId, user: { email } },
+    });
+    if (alreadyMember) {
+      throw new ConflictError(`${email} is already a member`);
+    }
+
+    const invite = await prisma.householdInvite.upsert({
+      where: {
+        householdId_email: { householdId: membership.householdId, email },
+      },
+      update: { role, invitedById: membership.userId },
+      create: {
+        householdId: membership.householdId,
+        email,
+        role,
+        invitedById: membership.userId,
+      },
+    });
+    res.status(201).json({
+      id: invite.id,
+      email: invite.email,
+      role: invite.role,
+      createdAt: invite.createdAt.toISOString(),
+    });
+  }
+);
+
+householdsRouter.delete("/:id/invites/:inviteId", async (req, res) => {
+  const membership = await membershipFor(req, "owner");
+  const { count } = await prisma.householdInvite.deleteMany({
+    where: { id: req.params.inviteId, householdId: membership.householdId },
+  });
+  if (count === 0) {
+    throw new NotFoundError("Invite not found");
+  }
+  res.status(204).end();
+});
+
+householdsRouter.patch(
+  "/:id/members/:userId",
+  validateBody(memberRoleSchema),
+  async (req, res) => {
+    const membership = await membershipFor(req, "owner");
+    const { role } = req.body as MemberRoleInput;
+
+    const target = await prisma.householdMember.findUnique({
+      where: {
+        householdId_userId: {
+          householdId: membership.householdId,
+          userId: String(req.params.userId),
+        },
+      },
+    });
+    if (!target) {
+      throw new NotFoundError("Member not found");
+    }
+    if (
+      target.role === "owner" &&
+      role !== "owner" &&
+      (await ownerCount(membership.householdId)) === 1
+    ) {
+      throw new ConflictError("A household needs at least one owner");
+    }
+
+    await prisma.householdMember.update({
+      where: { id: target.id },
+      data: { role },
+    });
+    res.status(204).end();
+  }
+);
+
+householdsRouter.delete("/:id/members/:userId", async (req, res) => {
+  const membership = await membershipFor(req, "owner");
+  if (req.params.userId === membership.userId) {
+    throw new ConflictError("Use “leave” to leave a household yourself");
+  }
+  const { count } = await prisma.householdMember.deleteMany({
+    where: { householdId: membership.householdId, userId: req.params.userId },
+  });
+  if (count === 0) {
+    throw new NotFoundError("Member not found");
+  }
+  closeStreams({
+    householdId: membership.householdId,
+    userId: String(req.params.userId),
+  });
+  res.status(204).end();
+});
+
+householdsRouter.post("/:id/leave", async (req, res) => {
+  const membership = await membershipFor(req);
+  const memberCount = await prisma.householdMember.count({
+    where: { householdId: membership.householdId },
+  });
+
+  // Last one out: the household (and its food) goes with them
+  if (memberCount === 1) {
+    await prisma.household.delete({ where: { id: membership.householdId } });
+    closeStreams({ householdId: membership.householdId });
+    res.status(204).end();
+    return;
+  }
+
+  if (
+    membership.role === "owner" &&
+    (await ownerCount(membership.householdId)) === 1
+  ) {
+    throw new ConflictError("Make someone else an owner before you leave");
+  }
+
+  await prisma.householdMember.delete({ where: { id: membership.id } });
+  closeStreams({
+    householdId: membership.householdId,
+    userId: membership.userId,
+  });
+  res.status(204).end();
+});
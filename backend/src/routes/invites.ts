@@ -0,0 +1,88 @@
+/**
+ * ============================================================================
+ * INVITE ROUTES - Invites Sent TO the Logged-in User
+ * ============================================================================
+ *
+ *   GET  /api/invites             → pending invites for my email address
+ *   POST /api/invites/:id/accept  → join that household, responds with it
+ *   POST /api/invites/:id/decline → throw the invite away
+ *
+ * (Owners create invites with POST /api/households/:id/invites.)
+ */
+
+import { Router } from "express";
+import type { Request } from "express";
+import { prisma } from "../lib/prisma.js";
+import { NotFoundError } from "../lib/errors.js";
+import { toHouseholdSummary } from "../lib/households.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+
+export const invitesRouter = Router();
+
+invitesRouter.use(requireUser);
+
+async function currentUserEmail(req: Request) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: currentUserId(req) },
+  });
+  return user.email;
+}
+
+// An invite only counts if it was sent to MY email address
+async function findMyInvite(req: Request) {
+  const invite = await prisma.householdInvite.findFirst({
+    where: { id: String(req.params.id), email: await currentUserEmail(req) },
+  });
+  if (!invite) {
+    throw new NotFoundError("Invite not found");
+  }
+  return invite;
+}
+
+invitesRouter.get("/", async (req, res) => {
+  const invites = await prisma.householdInvite.findMany({
+    where: { email: await currentUserEmail(req) },
+    include: { household: true, invitedBy: true },
+    orderBy: { createdAt: "asc" },
+  });
+  res.json(
+    invites.map((invite) => ({
+      id: invite.id,
+      household: { id: invite.household.id, name: invite.household.name },
+      role: invite.role,
+      invitedBy: invite.invitedBy.name,
+      createdAt: invite.createdAt.toISOString(),
+    }))
+  );
+});
+
+invitesRouter.post("/:id/accept", async (req, res) => {
+  const invite = await findMyInvite(req);
+  const userId = currentUserId(req);
+
+  const membership = await prisma.$transaction(async (tx) => {
+    await tx.householdInvite.delete({ where: { id: invite.id } });
+    return tx.householdMember.upsert({
+      where: {
+        householdId_userId: { householdId: invite.householdId, userId },
+      },
+      update: {},
+      create: {
+        householdId: invite.householdId,
+        userId,
+        // An owner invite sent before they were turned away joins as editor
+        role: invite.role === "owner" ? "editor" : invite.role,
+      },
+      include: {
+        household: { include: { _count: { select: { members: true } } } },
+      },
+    });
+  });
+  res.json(toHouseholdSummary(membership));
+});
+
+invitesRouter.post("/:id/decline", async (req, res) => {
+  const invite = await findMyInvite(req);
+  await prisma.householdInvite.delete({ where: { id: invite.id } });
+  res.status(204).end();
+});
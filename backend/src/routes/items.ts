@@ -0,0 +1,844 @@
+/**
+ * ============================================================================
+ * ITEMS ROUTES - CRUD for the Logged-in User's Food Items
+ * ============================================================================
+ *
+ *   GET    /api/items       → all of the household's items (alphabetical)
+ *   GET    /api/items/:id   → one item
+ *   GET    /api/items/:id/transfers → where it has been moved, newest first
+ *   POST   /api/items       → create (body: ItemAddInput)
+ *   POST   /api/items/restore → put a deleted item back (undo), same id
+ *   POST   /api/items/meals → log a cooked meal, taking its ingredients
+ *                             out of the inventory
+ *   PATCH  /api/items/:id   → partial update (body: ItemUpdateInput)
+ *   POST   /api/items/:id/consume → use some, soonest-expiring batch first
+ *   POST   /api/items/:id/batches → bought more: add a batch
+ *   POST   /api/items/:id/batches/restore → undo "use some", batch by batch
+ *   PATCH  /api/items/:id/batches/:batchId → change a batch (0 = remove it)
+ *   DELETE /api/items/:id/batches/:batchId → remove a batch
+ *   POST   /api/items/:id/finish → log what happened to it (eaten, wasted...),
+ *                                   maybe put it on the shopping list, then
+ *                                   delete (204)
+ *   DELETE /api/items/:id   → delete (e.g. added by mistake), responds 204
+ *
+ * Items belong to a HOUSEHOLD (picked with the X-Household-Id header, see
+ * middleware/requireHousehold.ts). EVERY query filters by householdId, so
+ * nobody can read or change another household's food - asking for it is a
+ * plain 404. Viewers can read; changing anything needs an editor or owner.
+ *
+ * Changing an item's locationId is a MOVE: it is recorded in the item's
+ * transfer history.
+ *
+ * An item is made of BATCHES (lib/batches.ts), one per purchase. Its
+ * quantity and expiryDate follow from them: a PATCHed quantity takes from
+ * or tops up the batch that expires first, and a PATCHed expiryDate is
+ * that batch's - except on a move, where every batch gets the new date.
+ * The batch routes answer with the whole updated item.
+ *
+ * An item with a par level is kept on the shopping list while it's below
+ * it (see lib/shoppingList.ts) - every change below re-checks that.
+ */
+
+import { Router } from "express";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../lib/errors.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+  requireHouseholdRole,
+} from "../middleware/requireHousehold.js";
+import { validateBody } from "../middleware/validate.js";
+import { syncParLevelEntry } from "../lib/shoppingList.js";
+import { publishItemEvents } from "../lib/events.js";
+import { recordActivity, type ActivityEntry } from "../lib/activity.js";
+import {
+  addToBatches,
+  batchOrder,
+  batchTotals,
+  ensureBatches,
+  takeFromBatches,
+} from "../lib/batches.js";
+import {
+  batchCreateSchema,
+  batchRestoreSchema,
+  batchUpdateSchema,
+  itemConsumeSchema,
+  itemAddSchema,
+  itemFinishSchema,
+  itemRestoreSchema,
+  itemUpdateSchema,
+  mealCreateSchema,
+  type BatchCreateInput,
+  type BatchRestoreInput,
+  type BatchUpdateInput,
+  type ItemConsumeInput,
+  type ItemAddInput,
+  type ItemFinishInput,
+  type ItemRestoreInput,
+  type ItemUpdateInput,
+  type MealCreateInput,
+} from "../validation/items.js";
+
+export const itemsRouter = Router();
+
+itemsRouter.use(requireUser, requireHousehold);
+
+const canEdit = requireHouseholdRole("editor");
+
+export const itemInclude = {
+  category: true,
+  location: true,
+  batches: { orderBy: batchOrder },
+} satisfies Prisma.ItemInclude;
+export type ItemWithRelations = Prisma.ItemGetPayload<{
+  include: typeof itemInclude;
+}>;
+
+// "2025-01-31" ⇄ Date. Postgres DATE columns come back as UTC midnight.
+export const toDate = (value: string | null | undefined) =>
+  value == null ? value : new Date(`${value}T00:00:00.000Z`);
+export const fromDate = (value: Date | null) =>
+  value ? value.toISOString().slice(0, 10) : null;
+
+/**
+ * The JSON shape the frontend's FoodItem type expects.
+ */
+export function toItemDto(item: ItemWithRelations) {
+  return {
+    id: item.id,
+    householdId: item.householdId,
+    ownerId: item.ownerId,
+    name: item.name,
+    category: item.category.slug,
+    quantity: item.quantity,
+    unit: item.unit,
+    purchaseDate: fromDate(item.purchaseDate),
+    expiryDate: fromDate(item.expiryDate),
+    expiryType: item.expiryType,
+    locationId: item.locationId,
+    location: item.location.kind, // fridge | freezer | pantry
+
+    notes: item.notes,
+    tags: item.tags,
+    price: item.price,
+    purchaseQuantity: item.purchaseQuantity,
+    store: item.store,
+    parLevel: item.parLevel,
+    // Soonest-expiring first. Empty for items logged before batches.
+    batches: item.batches.map((batch) => ({
+      id: batch.id,
+      quantity: batch.quantity,
+      purchaseDate: fromDate(batch.purchaseDate),
+      expiryDate: fromDate(batch.expiryDate),
+    })),
+    createdAt: item.createdAt.toISOString(),
+    updatedAt: item.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * What `quantity` of the item is worth, from what was paid for it (null if
+ * no price was entered). Without a purchaseQuantity the price is taken to
+ * be for what's left now.
+ */
+function valueOf(item: ItemWithRelations, quantity = item.quantity) {
+  if (item.price === null) return null;
+  const bought = item.purchaseQuantity ?? item.quantity;
+  return bought > 0 ? (item.price * quantity) / bought : 0;
+}
+
+/**
+ * Log what happened to an item in the waste log, then delete it. Its
+ * par-level entry (if it's below par) outlives the item when it's to be
+ * bought again, and goes with it otherwise.
+ */
+async function finishItem(
+  tx: Prisma.TransactionClient,
+  item: ItemWithRelations,
+  { outcome, reason, restock }: ItemFinishInput,
+  userId: string
+) {
+  await tx.itemRemoval.create({
+    data: {
+      householdId: item.householdId,
+      itemName: item.name,
+      category: item.category.slug,
+      quantity: item.quantity,
+      unit: item.unit,
+      outcome,
+      reason,
+      price: item.price,
+      value: valueOf(item),
+      purchasedAt: item.purchaseDate ?? item.createdAt,
+      removedById: userId,
+    },
+  });
+  const listed = await tx.shoppingListEntry.findFirst({
+    where: { itemId: item.id, checked: false },
+  });
+  if (restock && !listed) {
+    await tx.shoppingListEntry.create({
+      data: {
+        householdId: item.householdId,
+        name: item.name,
+        category: item.category.slug,
+        quantity: item.parLevel ?? item.purchaseQuantity ?? 1,
+        unit: item.unit,
+        locationId: item.locationId,
+        addedById: userId,
+      },
+    });
+  } else if (!restock) {
+    await tx.shoppingListEntry.deleteMany({
+      where: { itemId: item.id, source: "par-level", checked: false },
+    });
+  }
+  await tx.item.delete({ where: { id: item.id } });
+}
+
+// "wasted (expired)", "eaten, back on the shopping list"
+function describeFinish({ outcome, reason, restock }: ItemFinishInput) {
+  return [
+    reason ? `${outcome} (${reason})` : outcome,
+    ...(restock ? ["back on the shopping list"] : []),
+  ].join(", ");
+}
+
+async function findHouseholdItem(id: string, householdId: string) {
+  const item = await prisma.item.findFirst({
+    where: { id, householdId },
+    include: itemInclude,
+  });
+  if (!item) {
+    throw new NotFoundError("Item not found");
+  }
+  return item;
+}
+
+async function findItemBatch(itemId: string, batchId: string) {
+  const batch = await prisma.itemBatch.findFirst({
+    where: { id: batchId, itemId },
+  });
+  if (!batch) {
+    throw new NotFoundError("Batch not found");
+  }
+  return batch;
+}
+
+/**
+ * After its batches changed: bring the item's quantity and expiryDate in
+ * line (0 once the last batch is gone) and re-check its par level.
+ */
+async function saveBatchTotals(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  userId: string
+) {
+  const updated = await tx.item.update({
+    where: { id: itemId },
+    data: (await batchTotals(tx, itemId)) ?? { quantity: 0 },
+    include: itemInclude,
+  });
+  await syncParLevelEntry(tx, updated, userId);
+  return updated;
+}
+
+/**
+ * The location must belong to the same household as the item.
+ */
+async function assertHouseholdLocation(id: string, householdId: string) {
+  const location = await prisma.location.findFirst({
+    where: { id, householdId },
+  });
+  if (!location) {
+    throw new ValidationError([
+      { path: "locationId", message: "No such location in this household" },
+    ]);
+  }
+}
+
+itemsRouter.get("/", async (req, res) => {
+  const items = await prisma.item.findMany({
+    where: { householdId: currentHouseholdId(req) },
+    include: itemInclude,
+    orderBy: { name: "asc" },
+  });
+  res.json(items.map(toItemDto));
+});
+
+itemsRouter.get("/:id", async (req, res) => {
+  const item = await findHouseholdItem(req.params.id, currentHouseholdId(req));
+  res.json(toItemDto(item));
+});
+
+itemsRouter.get("/:id/transfers", async (req, res) => {
+  const item = await findHouseholdItem(req.params.id, currentHouseholdId(req));
+  const transfers = await prisma.itemTransfer.findMany({
+    where: { itemId: item.id },
+    include: {
+      fromLocation: { select: { id: true, name: true } },
+      toLocation: { select: { id: true, name: true } },
+      movedBy: { select: { id: true, name: true } },
+    },
+    orderBy: { movedAt: "desc" },
+  });
+  res.json(
+    transfers.map((transfer) => ({
+      id: transfer.id,
+      itemId: transfer.itemId,
+      from: transfer.fromLocation,
+      to: transfer.toLocation,
+      movedBy: transfer.movedBy,
+      movedAt: transfer.movedAt.toISOString(),
+    }))
+  );
+});
+
+itemsRouter.post(
+  "/",
+  canEdit,
+  validateBody(itemAddSchema),
+  async (req, res) => {
+    const { category, locationId, purchaseDate, expiryDate, ...fields } =
+      req.body as ItemAddInput;
+    const householdId = currentHouseholdId(req);
+    const userId = currentUserId(req);
+    await assertHouseholdLocation(locationId, householdId);
+    // Sent again after the connection dropped before the answer came back
+    if (
+      fields.id &&
+      (await prisma.item.findUnique({ where: { id: fields.id } }))
+    ) {
+      throw new ConflictError("That item already exists");
+    }
+    const item = await prisma.$transaction(async (tx) => {
+      const created = await tx.item.create({
+        data: {
+          ...fields,
+          purchaseDate: toDate(purchaseDate),
+          expiryDate: toDate(expiryDate),
+          household: { connect: { id: householdId } },
+          owner: { connect: { id: userId } },
+          category: { connect: { slug: category } },
+          location: { connect: { id: locationId } },
+        },
+        include: itemInclude,
+      });
+      const batches = await ensureBatches(tx, created);
+      await syncParLevelEntry(tx, created, userId);
+      await recordActivity(tx, req, [{ action: "created", after: created }]);
+      return { ...created, batches };
+    });
+    const dto = toItemDto(item);
+    res.status(201).json(dto);
+    publishItemEvents(req, [{ type: "item.created", item: dto }]);
+  }
+);
+
+/**
+ * Undoing a delete puts the item back with its OLD id, so the frontend's
+ * undo history (which refers to items by id) keeps working. The original
+ * owner is kept if they're still in the household.
+ */
+itemsRouter.post(
+  "/restore",
+  canEdit,
+  validateBody(itemRestoreSchema),
+  async (req, res) => {
+    const {
+      id,
+      ownerId,
+      createdAt,
+      category,
+      locationId,
+      purchaseDate,
+      expiryDate,
+      batches,
+      ...fields
+    } = req.body as ItemRestoreInput;
+    const householdId = currentHouseholdId(req);
+    await assertHouseholdLocation(locationId, householdId);
+
+    const existing = await prisma.item.findUnique({ where: { id } });
+    if (existing) {
+      throw new ConflictError("That item already exists");
+    }
+    const ownerIsMember = await prisma.householdMember.findUnique({
+      where: { householdId_userId: { householdId, userId: ownerId } },
+    });
+
+    const item = await prisma.$transaction(async (tx) => {
+      const restored = await tx.item.create({
+        data: {
+          ...fields,
+          id,
+          createdAt: new Date(createdAt),
+          purchaseDate: toDate(purchaseDate),
+          expiryDate: toDate(expiryDate),
+          household: { connect: { id: householdId } },
+          owner: {
+            connect: { id: ownerIsMember ? ownerId : currentUserId(req) },
+          },
+          category: { connect: { slug: category } },
+          location: { connect: { id: locationId } },
+          batches: {
+            create: batches.map((batch) => ({
+              ...batch,
+              purchaseDate: toDate(batch.purchaseDate),
+              expiryDate: toDate(batch.expiryDate),
+            })),
+          },
+        },
+        include: itemInclude,
+      });
+      await syncParLevelEntry(tx, restored, currentUserId(req));
+      await recordActivity(tx, req, [{ action: "restored", after: restored }]);
+      return {
+        ...restored,
+        batches: await ensureBatches(tx, restored),
+      };
+    });
+    const dto = toItemDto(item);
+    res.status(201).json(dto);
+    publishItemEvents(req, [{ type: "item.created", item: dto }]);
+  }
+);
+
+/**
+ * A cooked meal: each ingredient's amount comes off its item, and the meal
+ * becomes a new "meals" item counted in portions - unless there are none
+ * left to keep. Ingredients used up completely are logged as eaten (they
+ * were - in the meal), like answering "Eaten" for them. All or nothing.
+ */
+itemsRouter.post(
+  "/meals",
+  canEdit,
+  validateBody(mealCreateSchema),
+  async (req, res) => {
+    const {
+      portions,
+      ingredients,
+      locationId,
+      purchaseDate,
+      expiryDate,
+      ...fields
+    } = req.body as MealCreateInput;
+    const householdId = currentHouseholdId(req);
+    const userId = currentUserId(req);
+    await assertHouseholdLocation(locationId, householdId);
+
+    const used = await prisma.item.findMany({
+      where: { id: { in: ingredients.map((i) => i.itemId) }, householdId },
+      include: itemInclude,
+    });
+    if (used.length !== ingredients.length) {
+      throw new NotFoundError("Item not found");
+    }
+    const amounts = new Map(ingredients.map((i) => [i.itemId, i.amount]));
+    const tooMuch = used.filter(
+      (item) => (amounts.get(item.id) ?? 0) > item.quantity
+    );
+    if (tooMuch.length > 0) {
+      throw new ValidationError(
+        tooMuch.map((item) => ({
+          path: `ingredients.${ingredients.findIndex((i) => i.itemId === item.id)}.amount`,
+          message: `Only ${item.quantity} ${item.unit} of ${item.name} left`,
+        }))
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = [];
+      const finishedIds = [];
+      const activity: ActivityEntry[] = [];
+      const inMeal = `in a meal: ${fields.name}`;
+      for (const item of used) {
+        // Rounded, so 0.1 + 0.2 of a 0.3 l carton leaves nothing
+        const quantity =
+          Math.round((item.quantity - (amounts.get(item.id) ?? 0)) * 1000) /
+          1000;
+        if (quantity <= 0) {
+          // All of what was left went in: that's what's logged as eaten
+          await finishItem(
+            tx,
+            item,
+            { outcome: "eaten", reason: null, restock: item.parLevel !== null },
+            userId
+          );
+          finishedIds.push(item.id);
+          activity.push({ action: "finished", before: item, note: inMeal });
+        } else {
+          await takeFromBatches(tx, item, amounts.get(item.id) ?? 0);
+          const ingredient = await tx.item.update({
+            where: { id: item.id },
+            data: { quantity, ...(await batchTotals(tx, item.id)) },
+            include: itemInclude,
+          });
+          await syncParLevelEntry(tx, ingredient, userId);
+          updated.push(ingredient);
+          activity.push({
+            action: "consumed",
+            before: item,
+            after: ingredient,
+            note: inMeal,
+          });
+        }
+      }
+      if (portions === 0) {
+        await recordActivity(tx, req, activity);
+        return { meal: null, updated, finishedIds };
+      }
+      const meal = await tx.item.create({
+        data: {
+          ...fields,
+          quantity: portions,
+          unit: "portion",
+          purchaseDate: toDate(purchaseDate),
+          expiryDate: toDate(expiryDate),
+          household: { connect: { id: householdId } },
+          owner: { connect: { id: userId } },
+          category: { connect: { slug: "meals" } },
+          location: { connect: { id: locationId } },
+        },
+        include: itemInclude,
+      });
+      await recordActivity(tx, req, [
+        ...activity,
+        { action: "cooked", after: meal },
+      ]);
+      return {
+        meal: { ...meal, batches: await ensureBatches(tx, meal) },
+        updated,
+        finishedIds,
+      };
+    });
+    const meal = result.meal && toItemDto(result.meal);
+    const updated = result.updated.map(toItemDto);
+    res.status(201).json({
+      meal,
+      ingredients: updated,
+      finishedIds: result.finishedIds,
+    });
+    publishItemEvents(req, [
+      ...used
+        .filter((item) => result.finishedIds.includes(item.id))
+        .map(({ id, name }) => ({
+          type: "item.deleted" as const,
+          item: { id, name },
+        })),
+      ...updated.map((item) => ({ type: "item.updated" as const, item })),
+      ...(meal ? [{ type: "item.created" as const, item: meal }] : []),
+    ]);
+  }
+);
+
+itemsRouter.patch(
+  "/:id",
+  canEdit,
+  validateBody(itemUpdateSchema),
+  async (req, res) => {
+    const householdId = currentHouseholdId(req);
+    const existing = await findHouseholdItem(
+      String(req.params.id),
+      householdId
+    );
+    const { category, locationId, purchaseDate, expiryDate, ...fields } =
+      req.body as ItemUpdateInput;
+    const isMove =
+      locationId !== undefined && locationId !== existing.locationId;
+    if (isMove) {
+      await assertHouseholdLocation(locationId, householdId);
+    }
+
+    const item = await prisma.$transaction(async (tx) => {
+      if (isMove) {
+        await tx.itemTransfer.create({
+          data: {
+            itemId: existing.id,
+            fromLocationId: existing.locationId,
+            toLocationId: locationId,
+            movedById: currentUserId(req),
+          },
+        });
+      }
+
+      await ensureBatches(tx, existing);
+      const change =
+        fields.quantity === undefined ? 0 : fields.quantity - existing.quantity;
+      if (change < 0) {
+        await takeFromBatches(tx, existing, -change);
+      } else if (change > 0) {
+        await addToBatches(tx, existing, change, {
+          purchaseDate: existing.purchaseDate,
+          expiryDate: existing.expiryDate,
+        });
+      }
+      if (expiryDate !== undefined) {
+        // Moving re-dates everything (thawed food keeps a day or two);
+        // otherwise it's the date of the batch that's shown
+        const shown = isMove
+          ? null
+          : await tx.itemBatch.findFirst({
+              where: { itemId: existing.id },
+              orderBy: batchOrder,
+            });
+        await tx.itemBatch.updateMany({
+          where: shown ? { id: shown.id } : { itemId: existing.id },
+          data: { expiryDate: toDate(expiryDate) },
+        });
+      }
+
+      const updated = await tx.item.update({
+        where: { id: existing.id },
+        data: {
+          ...fields,
+          purchaseDate: toDate(purchaseDate),
+          expiryDate: toDate(expiryDate),
+          ...(await batchTotals(tx, existing.id)),
+          ...(category && { category: { connect: { slug: category } } }),
+          ...(isMove && { location: { connect: { id: locationId } } }),
+        },
+        include: itemInclude,
+      });
+      await syncParLevelEntry(tx, updated, currentUserId(req));
+      await recordActivity(tx, req, [
+        {
+          action: isMove ? "moved" : "updated",
+          before: existing,
+          after: updated,
+        },
+      ]);
+      return updated;
+    });
+    const dto = toItemDto(item);
+    res.json(dto);
+    publishItemEvents(req, [{ type: "item.updated", item: dto }]);
+  }
+);
+
+itemsRouter.post(
+  "/:id/consume",
+  canEdit,
+  validateBody(itemConsumeSchema),
+  async (req, res) => {
+    const { amount, batchId } = req.body as ItemConsumeInput;
+    const existing = await findHouseholdItem(
+      String(req.params.id),
+      currentHouseholdId(req)
+    );
+    const item = await prisma.$transaction(async (tx) => {
+      await takeFromBatches(
+        tx,
+        existing,
+        Math.min(amount, existing.quantity),
+        batchId
+      );
+      const updated = await saveBatchTotals(
+        tx,
+        existing.id,
+        currentUserId(req)
+      );
+      await recordActivity(tx, req, [
+        { action: "consumed", before: existing, after: updated },
+      ]);
+      return updated;
+    });
+    const dto = toItemDto(item);
+    res.json(dto);
+    publishItemEvents(req, [{ type: "item.updated", item: dto }]);
+  }
+);
+
+itemsRouter.post(
+  "/:id/batches",
+  canEdit,
+  validateBody(batchCreateSchema),
+  async (req, res) => {
+    const { quantity, purchaseDate, expiryDate } = req.body as BatchCreateInput;
+    const existing = await findHouseholdItem(
+      String(req.params.id),
+      currentHouseholdId(req)
+    );
+    const item = await prisma.$transaction(async (tx) => {
+      await ensureBatches(tx, existing);
+      await tx.itemBatch.create({
+        data: {
+          itemId: existing.id,
+          quantity,
+          purchaseDate: toDate(purchaseDate),
+          expiryDate: toDate(expiryDate),
+        },
+      });
+      const updated = await saveBatchTotals(
+        tx,
+        existing.id,
+        currentUserId(req)
+      );
+      await recordActivity(tx, req, [
+        { action: "restocked", before: existing, after: updated },
+      ]);
+      return updated;
+    });
+    const dto = toItemDto(item);
+    res.status(201).json(dto);
+    publishItemEvents(req, [{ type: "item.updated", item: dto }]);
+  }
+);
+
+/**
+ * Undoing "use some" gives each batch back exactly what was taken from it;
+ * one that was used up comes back with its old id and dates.
+ */
+itemsRouter.post(
+  "/:id/batches/restore",
+  canEdit,
+  validateBody(batchRestoreSchema),
+  async (req, res) => {
+    const { batches } = req.body as BatchRestoreInput;
+    const existing = await findHouseholdItem(
+      String(req.params.id),
+      currentHouseholdId(req)
+    );
+    const item = await prisma.$transaction(async (tx) => {
+      await ensureBatches(tx, existing);
+      for (const { id, quantity, purchaseDate, expiryDate } of batches) {
+        const { count } = await tx.itemBatch.updateMany({
+          where: { id, itemId: existing.id },
+          data: { quantity: { increment: quantity } },
+        });
+        if (count > 0) continue;
+        if (await tx.itemBatch.findUnique({ where: { id } })) {
+          throw new ConflictError("That batch belongs to another item");
+        }
+        await tx.itemBatch.create({
+          data: {
+            id,
+            itemId: existing.id,
+            quantity,
+            purchaseDate: toDate(purchaseDate),
+            expiryDate: toDate(expiryDate),
+          },
+        });
+      }
+      const updated = await saveBatchTotals(
+        tx,
+        existing.id,
+        currentUserId(req)
+      );
+      await recordActivity(tx, req, [
+        { action: "updated", before: existing, after: updated },
+      ]);
+      return updated;
+    });
+    const dto = toItemDto(item);
+    res.json(dto);
+    publishItemEvents(req, [{ type: "item.updated", item: dto }]);
+  }
+);
+
+itemsRouter.patch(
+  "/:id/batches/:batchId",
+  canEdit,
+  validateBody(batchUpdateSchema),
+  async (req, res) => {
+    const { quantity, purchaseDate, expiryDate } = req.body as BatchUpdateInput;
+    const existing = await findHouseholdItem(
+      String(req.params.id),
+      currentHouseholdId(req)
+    );
+    const batch = await findItemBatch(existing.id, String(req.params.batchId));
+    const item = await prisma.$transaction(async (tx) => {
+      if (quantity === 0) {
+        await tx.itemBatch.delete({ where: { id: batch.id } });
+      } else {
+        await tx.itemBatch.update({
+          where: { id: batch.id },
+          data: {
+            quantity,
+            purchaseDate: toDate(purchaseDate),
+            expiryDate: toDate(expiryDate),
+          },
+        });
+      }
+      const updated = await saveBatchTotals(
+        tx,
+        existing.id,
+        currentUserId(req)
+      );
+      await recordActivity(tx, req, [
+        { action: "updated", before: existing, after: updated },
+      ]);
+      return updated;
+    });
+    const dto = toItemDto(item);
+    res.json(dto);
+    publishItemEvents(req, [{ type: "item.updated", item: dto }]);
+  }
+);
+
+itemsRouter.delete("/:id/batches/:batchId", canEdit, async (req, res) => {
+  const existing = await findHouseholdItem(
+    String(req.params.id),
+    currentHouseholdId(req)
+  );
+  const batch = await findItemBatch(existing.id, String(req.params.batchId));
+  const item = await prisma.$transaction(async (tx) => {
+    await tx.itemBatch.delete({ where: { id: batch.id } });
+    const updated = await saveBatchTotals(tx, existing.id, currentUserId(req));
+    await recordActivity(tx, req, [
+      { action: "updated", before: existing, after: updated },
+    ]);
+    return updated;
+  });
+  const dto = toItemDto(item);
+  res.json(dto);
+  publishItemEvents(req, [{ type: "item.updated", item: dto }]);
+});
+
+itemsRouter.post(
+  "/:id/finish",
+  canEdit,
+  validateBody(itemFinishSchema),
+  async (req, res) => {
+    const finish = req.body as ItemFinishInput;
+    const userId = currentUserId(req);
+    const item = await findHouseholdItem(
+      String(req.params.id),
+      currentHouseholdId(req)
+    );
+    await prisma.$transaction(async (tx) => {
+      await finishItem(tx, item, finish, userId);
+      await recordActivity(tx, req, [
+        { action: "finished", before: item, note: describeFinish(finish) },
+      ]);
+    });
+    res.status(204).end();
+    publishItemEvents(req, [
+      { type: "item.deleted", item: { id: item.id, name: item.name } },
+    ]);
+  }
+);
+
+itemsRouter.delete("/:id", canEdit, async (req, res) => {
+  const id = String(req.params.id);
+  const householdId = currentHouseholdId(req);
+  const item = await findHouseholdItem(id, householdId);
+  await prisma.$transaction(async (tx) => {
+    // Added by mistake, so it was never really running low either
+    await tx.shoppingListEntry.deleteMany({
+      where: { itemId: id, householdId, source: "par-level", checked: false },
+    });
+    await tx.item.delete({ where: { id: item.id } });
+    await recordActivity(tx, req, [{ action: "deleted", before: item }]);
+  });
+  res.status(204).end();
+  publishItemEvents(req, [
+    { type: "item.deleted", item: { id: item.id, name: item.name } },
+  ]);
+});
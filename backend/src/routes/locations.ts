@@ -0,0 +1,128 @@
+/**
+ * ============================================================================
+ * LOCATION ROUTES - Where the Household Keeps Its Food
+ * ============================================================================
+ *
+ *   GET    /api/locations       → the household's locations
+ *   POST   /api/locations       → add one, e.g. { name: "Garage freezer", kind: "freezer" }
+ *   PATCH  /api/locations/:id   → rename
+ *   DELETE /api/locations/:id   → delete an EMPTY location, responds 204
+ *
+ * Scoped to the X-Household-Id household like /api/items. Every household
+ * starts with a Fridge, Freezer and Pantry (lib/households.ts).
+ */
+
+import { Router } from "express";
+import type { Location } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { ConflictError, NotFoundError } from "../lib/errors.js";
+import { requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+  requireHouseholdRole,
+} from "../middleware/requireHousehold.js";
+import { validateBody } from "../middleware/validate.js";
+import {
+  locationRenameSchema,
+  locationSchema,
+  type LocationInput,
+  type LocationRenameInput,
+} from "../validation/locations.js";
+
+export const locationsRouter = Router();
+
+locationsRouter.use(requireUser, requireHousehold);
+
+const canEdit = requireHouseholdRole("editor");
+
+function toLocationDto(location: Location) {
+  return {
+    id: location.id,
+    householdId: location.householdId,
+    name: location.name,
+    kind: location.kind,
+  };
+}
+
+// Two locations in one household can't share a name
+async function assertNameFree(householdId: string, name: string) {
+  const taken = await prisma.location.findUnique({
+    where: { householdId_name: { householdId, name } },
+  });
+  if (taken) {
+    throw new ConflictError(`There is already a location called ${name}`);
+  }
+}
+
+async function findHouseholdLocation(id: string, householdId: string) {
+  const location = await prisma.location.findFirst({
+    where: { id, householdId },
+  });
+  if (!location) {
+    throw new NotFoundError("Location not found");
+  }
+  return location;
+}
+
+locationsRouter.get("/", async (req, res) => {
+  const locations = await prisma.location.findMany({
+    where: { householdId: currentHouseholdId(req) },
+    orderBy: { createdAt: "asc" },
+  });
+  res.json(locations.map(toLocationDto));
+});
+
+locationsRouter.post(
+  "/",
+  canEdit,
+  validateBody(locationSchema),
+  async (req, res) => {
+    const { name, kind } = req.body as LocationInput;
+    const householdId = currentHouseholdId(req);
+    await assertNameFree(householdId, name);
+    const location = await prisma.location.create({
+      data: { name, kind, householdId },
+    });
+    res.status(201).json(toLocationDto(location));
+  }
+);
+
+locationsRouter.patch(
+  "/:id",
+  canEdit,
+  validateBody(locationRenameSchema),
+  async (req, res) => {
+    const { name } = req.body as LocationRenameInput;
+    const householdId = currentHouseholdId(req);
+    const existing = await findHouseholdLocation(
+      String(req.params.id),
+      householdId
+    );
+    if (name !== existing.name) {
+      await assertNameFree(householdId, name);
+    }
+    const location = await prisma.location.update({
+      where: { id: existing.id },
+      data: { name },
+    });
+    res.json(toLocationDto(location));
+  }
+);
+
+locationsRouter.delete("/:id", canEdit, async (req, res) => {
+  const location = await findHouseholdLocation(
+    String(req.params.id),
+    currentHouseholdId(req)
+  );
+  const itemCount = await prisma.item.count({
+    where: { locationId: location.id },
+  });
+  if (itemCount > 0) {
+    throw new ConflictError(
+      `Move the ${itemCount} item(s) out of ${location.name} first`
+    );
+  }
+  await prisma.location.delete({ where: { id: location.id } });
+  res.status(204).end();
+});
@@ -0,0 +1,61 @@
+/**
+ * ============================================================================
+ * REMOVAL ROUTES - The Household's Waste Log
+ * ============================================================================
+ *
+ *   GET    /api/removals?since=2025-01-01 → what happened to removed items,
+ *                                           newest first
+ *
+ * One entry per item finished with POST /api/items/:id/finish: eaten,
+ * wasted, donated or composted, why if it was thrown away, and (when it
+ * had a price) what it cost and what the part thrown out was worth. The
+ * entries are read-only - the Analytics page adds them up (by week,
+ * category...) itself, so this only filters by date.
+ */
+
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+} from "../middleware/requireHousehold.js";
+import { toValidationError } from "../middleware/validate.js";
+import { removalQuerySchema } from "../validation/removals.js";
+
+export const removalsRouter = Router();
+
+removalsRouter.use(requireUser, requireHousehold);
+
+removalsRouter.get("/", async (req, res) => {
+  const parsed = removalQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    throw toValidationError(parsed.error);
+  }
+  const { since } = parsed.data;
+
+  const removals = await prisma.itemRemoval.findMany({
+    where: {
+      householdId: currentHouseholdId(req),
+      ...(since && { removedAt: { gte: new Date(since) } }),
+    },
+    include: { removedBy: { select: { id: true, name: true } } },
+    orderBy: { removedAt: "desc" },
+  });
+  res.json(
+    removals.map((removal) => ({
+      id: removal.id,
+      itemName: removal.itemName,
+      category: removal.category,
+      quantity: removal.quantity,
+      unit: removal.unit,
+      outcome: removal.outcome,
+      reason: removal.reason,
+      price: removal.price,
+      value: removal.value,
+      purchasedAt: removal.purchasedAt?.toISOString() ?? null,
+      removedBy: removal.removedBy,
+      removedAt: removal.removedAt.toISOString(),
+    }))
+  );
+});
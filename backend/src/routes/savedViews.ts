@@ -0,0 +1,76 @@
+/**
+ * ============================================================================
+ * SAVED VIEW ROUTES - Named Dashboard Filters
+ * ============================================================================
+ *
+ *   GET    /api/saved-views       → my views in this household
+ *   POST   /api/saved-views       → save one (body: { name, query })
+ *   DELETE /api/saved-views/:id   → delete, responds 204
+ *
+ * Views belong to the logged-in user AND the X-Household-Id household
+ * (their filters can name that household's locations). Viewers can save
+ * views too - they only read the inventory.
+ */
+
+import { Router } from "express";
+import type { SavedView } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { ConflictError, NotFoundError } from "../lib/errors.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+} from "../middleware/requireHousehold.js";
+import { validateBody } from "../middleware/validate.js";
+import {
+  savedViewSchema,
+  type SavedViewInput,
+} from "../validation/savedViews.js";
+
+export const savedViewsRouter = Router();
+
+savedViewsRouter.use(requireUser, requireHousehold);
+
+function toSavedViewDto(view: SavedView) {
+  return { id: view.id, name: view.name, query: view.query };
+}
+
+savedViewsRouter.get("/", async (req, res) => {
+  const views = await prisma.savedView.findMany({
+    where: { householdId: currentHouseholdId(req), userId: currentUserId(req) },
+    orderBy: { name: "asc" },
+  });
+  res.json(views.map(toSavedViewDto));
+});
+
+savedViewsRouter.post("/", validateBody(savedViewSchema), async (req, res) => {
+  const { name, query } = req.body as SavedViewInput;
+  const householdId = currentHouseholdId(req);
+  const userId = currentUserId(req);
+
+  const existing = await prisma.savedView.findUnique({
+    where: { householdId_userId_name: { householdId, userId, name } },
+  });
+  if (existing) {
+    throw new ConflictError(`You already have a view called ${name}`);
+  }
+
+  const view = await prisma.savedView.create({
+    data: { householdId, userId, name, query },
+  });
+  res.status(201).json(toSavedViewDto(view));
+});
+
+savedViewsRouter.delete("/:id", async (req, res) => {
+  const { count } = await prisma.savedView.deleteMany({
+    where: {
+      id: req.params.id,
+      householdId: currentHouseholdId(req),
+      userId: currentUserId(req),
+    },
+  });
+  if (count === 0) {
+    throw new NotFoundError("View not found");
+  }
+  res.status(204).end();
+});
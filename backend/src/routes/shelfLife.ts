@@ -0,0 +1,116 @@
+/**
+ * ============================================================================
+ * SHELF-LIFE RULE ROUTES - A Household's Own Expiry Defaults
+ * ============================================================================
+ *
+ *   GET    /api/shelf-life-rules       → the household's rules
+ *   POST   /api/shelf-life-rules       → add one (body: ShelfLifeRuleInput)
+ *   PATCH  /api/shelf-life-rules/:id   → change the number of days
+ *   DELETE /api/shelf-life-rules/:id   → delete, responds 204
+ *
+ * The rules engine itself runs in the browser (frontend/src/lib/shelfLife.ts)
+ * so suggestions work offline; the server only stores the overrides.
+ * Scoped to the X-Household-Id household like /api/items.
+ */
+
+import { Router } from "express";
+import type { ShelfLifeRule } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { ConflictError, NotFoundError } from "../lib/errors.js";
+import { requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+  requireHouseholdRole,
+} from "../middleware/requireHousehold.js";
+import { validateBody } from "../middleware/validate.js";
+import {
+  shelfLifeRuleSchema,
+  shelfLifeRuleUpdateSchema,
+  type ShelfLifeRuleInput,
+  type ShelfLifeRuleUpdateInput,
+} from "../validation/shelfLife.js";
+
+export const shelfLifeRouter = Router();
+
+shelfLifeRouter.use(requireUser, requireHousehold);
+
+const canEdit = requireHouseholdRole("editor");
+
+function toRuleDto(rule: ShelfLifeRule) {
+  return {
+    id: rule.id,
+    householdId: rule.householdId,
+    keyword: rule.keyword,
+    category: rule.category,
+    location: rule.location,
+    days: rule.days,
+  };
+}
+
+shelfLifeRouter.get("/", async (req, res) => {
+  const rules = await prisma.shelfLifeRule.findMany({
+    where: { householdId: currentHouseholdId(req) },
+    orderBy: [{ keyword: "asc" }, { category: "asc" }, { location: "asc" }],
+  });
+  res.json(rules.map(toRuleDto));
+});
+
+shelfLifeRouter.post(
+  "/",
+  canEdit,
+  validateBody(shelfLifeRuleSchema),
+  async (req, res) => {
+    const input = req.body as ShelfLifeRuleInput;
+    const householdId = currentHouseholdId(req);
+    const { keyword, category, location } = input;
+
+    // keyword/category are nullable, so a unique index can't catch this
+    const duplicate = await prisma.shelfLifeRule.findFirst({
+      where: { householdId, keyword, category, location },
+    });
+    if (duplicate) {
+      throw new ConflictError(
+        `There is already a rule for ${keyword ?? category} in the ${location}`
+      );
+    }
+
+    const rule = await prisma.shelfLifeRule.create({
+      data: { ...input, householdId },
+    });
+    res.status(201).json(toRuleDto(rule));
+  }
+);
+
+shelfLifeRouter.patch(
+  "/:id",
+  canEdit,
+  validateBody(shelfLifeRuleUpdateSchema),
+  async (req, res) => {
+    const { days } = req.body as ShelfLifeRuleUpdateInput;
+    const { count } = await prisma.shelfLifeRule.updateMany({
+      where: {
+        id: String(req.params.id),
+        householdId: currentHouseholdId(req),
+      },
+      data: { days },
+    });
+    if (count === 0) {
+      throw new NotFoundError("Rule not found");
+    }
+    const rule = await prisma.shelfLifeRule.findUniqueOrThrow({
+      where: { id: String(req.params.id) },
+    });
+    res.json(toRuleDto(rule));
+  }
+);
+
+shelfLifeRouter.delete("/:id", canEdit, async (req, res) => {
+  const { count } = await prisma.shelfLifeRule.deleteMany({
+    where: { id: String(req.params.id), householdId: currentHouseholdId(req) },
+  });
+  if (count === 0) {
+    throw new NotFoundError("Rule not found");
+  }
+  res.status(204).end();
+});
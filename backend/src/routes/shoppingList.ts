@@ -0,0 +1,252 @@
+/**
+ * ============================================================================
+ * SHOPPING LIST ROUTES - The Household's Shared List
+ * ============================================================================
+ *
+ *   GET    /api/shopping-list           → every entry, still-to-buy first
+ *   POST   /api/shopping-list           → add an entry by hand
+ *   PATCH  /api/shopping-list/:id       → edit, or (un)check it
+ *   DELETE /api/shopping-list/:id       → take it off, responds 204
+ *   POST   /api/shopping-list/check-in  → bought: turn entries into items
+ *
+ * Entries also appear by themselves: items below their par level are kept
+ * on the list by the items routes (lib/shoppingList.ts), and "Used up..."
+ * can put an item back on it.
+ *
+ * CHECKING IN
+ * Each checked entry comes with the item to log for it - the frontend fills
+ * in the category, location and a suggested expiry date. An entry for an
+ * item that's still there (a par-level entry, or one kept at zero with
+ * "I'll restock") restocks that item instead of adding a second one:
+ * - still some left: the purchase is one more batch of it
+ * - kept at zero: it's refilled, with the purchase as its only batch
+ * Only an entry whose item is gone becomes a new item. Either way the item's
+ * par level is checked again afterwards. It all happens in one transaction.
+ */
+
+import { Router } from "express";
+import type { ShoppingListEntry } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { NotFoundError, ValidationError } from "../lib/errors.js";
+import { syncParLevelEntry } from "../lib/shoppingList.js";
+import { batchTotals, ensureBatches } from "../lib/batches.js";
+import { publishItemEvents } from "../lib/events.js";
+import { recordActivity } from "../lib/activity.js";
+import { currentUserId, requireUser } from "../middleware/requireUser.js";
+import {
+  currentHouseholdId,
+  requireHousehold,
+  requireHouseholdRole,
+} from "../middleware/requireHousehold.js";
+import { validateBody } from "../middleware/validate.js";
+import {
+  checkInSchema,
+  shoppingEntryCreateSchema,
+  shoppingEntryUpdateSchema,
+  type CheckInInput,
+  type ShoppingEntryCreateInput,
+  type ShoppingEntryUpdateInput,
+} from "../validation/shoppingList.js";
+import { itemInclude, toDate, toItemDto } from "./items.js";
+
+export const shoppingListRouter = Router();
+
+shoppingListRouter.use(requireUser, requireHousehold);
+
+const canEdit = requireHouseholdRole("editor");
+
+function toEntryDto(entry: ShoppingListEntry) {
+  return {
+    id: entry.id,
+    name: entry.name,
+    category: entry.category,
+    quantity: entry.quantity,
+    unit: entry.unit,
+    locationId: entry.locationId,
+    itemId: entry.itemId,
+    source: entry.source,
+    checked: entry.checked,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+async function findHouseholdEntry(id: string, householdId: string) {
+  const entry = await prisma.shoppingListEntry.findFirst({
+    where: { id, householdId },
+  });
+  if (!entry) {
+    throw new NotFoundError("Shopping list entry not found");
+  }
+  return entry;
+}
+
+/**
+ * The location (if any) must belong to the household.
+ */
+async function assertHouseholdLocation(
+  id: string | null | undefined,
+  householdId: string
+) {
+  if (!id) return;
+  const location = await prisma.location.findFirst({
+    where: { id, householdId },
+  });
+  if (!location) {
+    throw new ValidationError([
+      { path: "locationId", message: "No such location in this household" },
+    ]);
+  }
+}
+
+shoppingListRouter.get("/", async (req, res) => {
+  const entries = await prisma.shoppingListEntry.findMany({
+    where: { householdId: currentHouseholdId(req) },
+    orderBy: [{ checked: "asc" }, { category: "asc" }, { name: "asc" }],
+  });
+  res.json(entries.map(toEntryDto));
+});
+
+shoppingListRouter.post(
+  "/",
+  canEdit,
+  validateBody(shoppingEntryCreateSchema),
+  async (req, res) => {
+    const data = req.body as ShoppingEntryCreateInput;
+    const householdId = currentHouseholdId(req);
+    await assertHouseholdLocation(data.locationId, householdId);
+    const entry = await prisma.shoppingListEntry.create({
+      data: { ...data, householdId, addedById: currentUserId(req) },
+    });
+    res.status(201).json(toEntryDto(entry));
+  }
+);
+
+shoppingListRouter.patch(
+  "/:id",
+  canEdit,
+  validateBody(shoppingEntryUpdateSchema),
+  async (req, res) => {
+    const householdId = currentHouseholdId(req);
+    const existing = await findHouseholdEntry(
+      String(req.params.id),
+      householdId
+    );
+    const changes = req.body as ShoppingEntryUpdateInput;
+    await assertHouseholdLocation(changes.locationId, householdId);
+    const entry = await prisma.shoppingListEntry.update({
+      where: { id: existing.id },
+      data: changes,
+    });
+    res.json(toEntryDto(entry));
+  }
+);
+
+shoppingListRouter.delete("/:id", canEdit, async (req, res) => {
+  const { count } = await prisma.shoppingListEntry.deleteMany({
+    where: { id: String(req.params.id), householdId: currentHouseholdId(req) },
+  });
+  if (count === 0) {
+    throw new NotFoundError("Shopping list entry not found");
+  }
+  res.status(204).end();
+});
+
+shoppingListRouter.post(
+  "/check-in",
+  canEdit,
+  validateBody(checkInSchema),
+  async (req, res) => {
+    const { entries } = req.body as CheckInInput;
+    const householdId = currentHouseholdId(req);
+    const userId = currentUserId(req);
+
+    const found = await prisma.shoppingListEntry.findMany({
+      where: { id: { in: entries.map((e) => e.id) }, householdId },
+    });
+    if (found.length !== entries.length) {
+      throw new NotFoundError("Shopping list entry not found");
+    }
+    for (const { item } of entries) {
+      await assertHouseholdLocation(item.locationId, householdId);
+    }
+    const entriesById = new Map(found.map((entry) => [entry.id, entry]));
+
+    const note = "from the shopping list";
+    const items = await prisma.$transaction(async (tx) => {
+      const checkedIn = [];
+      for (const { id, item: bought } of entries) {
+        const { category, locationId, purchaseDate, expiryDate, ...fields } =
+          bought;
+        const data = {
+          ...fields,
+          purchaseDate: toDate(purchaseDate),
+          expiryDate: toDate(expiryDate),
+          category: { connect: { slug: category } },
+          location: { connect: { id: locationId } },
+        };
+        const itemId = entriesById.get(id)?.itemId;
+        const linked = itemId
+          ? await tx.item.findFirst({
+              where: { id: itemId, householdId },
+              include: itemInclude,
+            })
+          : null;
+
+        let item;
+        if (linked && linked.quantity > 0) {
+          await ensureBatches(tx, linked);
+          await tx.itemBatch.create({
+            data: {
+              itemId: linked.id,
+              quantity: bought.quantity,
+              purchaseDate: data.purchaseDate,
+              expiryDate: data.expiryDate,
+            },
+          });
+          item = await tx.item.update({
+            where: { id: linked.id },
+            data: (await batchTotals(tx, linked.id)) ?? {},
+            include: itemInclude,
+          });
+        } else if (linked) {
+          // Whatever was left of the old purchase is long gone
+          await tx.itemBatch.deleteMany({ where: { itemId: linked.id } });
+          item = await tx.item.update({
+            where: { id: linked.id },
+            data: { ...data, parLevel: data.parLevel ?? linked.parLevel },
+            include: itemInclude,
+          });
+        } else {
+          item = await tx.item.create({
+            data: {
+              ...data,
+              household: { connect: { id: householdId } },
+              owner: { connect: { id: userId } },
+            },
+            include: itemInclude,
+          });
+        }
+        await tx.shoppingListEntry.delete({ where: { id } });
+        await syncParLevelEntry(tx, item, userId);
+        await recordActivity(tx, req, [
+          linked
+            ? { action: "restocked", before: linked, after: item, note }
+            : { action: "created", after: item, note },
+        ]);
+        checkedIn.push({
+          item: { ...item, batches: await ensureBatches(tx, item) },
+          refilled: linked !== null,
+        });
+      }
+      return checkedIn;
+    });
+    res.json(items.map(({ item }) => toItemDto(item)));
+    publishItemEvents(
+      req,
+      items.map(({ item, refilled }) => ({
+        type: refilled ? "item.updated" : "item.created",
+        item: toItemDto(item),
+      }))
+    );
+  }
+);
@@ -0,0 +1,10 @@
+// Fields our middleware adds to every request
+// (see middleware/requireUser.ts and middleware/requireHousehold.ts)
+declare namespace Express {
+  interface Request {
+    userId?: string;
+    sessionId?: string;
+    householdId?: string;
+    householdRole?: import("@prisma/client").HouseholdRole;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * ACTIVITY LOG QUERY SCHEMAS
+ *
+ * GET /api/activity?member=<user id>&item=milk&from=2025-01-01&to=2025-01-31
+ * - the query string, not a body. Every filter is optional.
+ */
+
+import { z } from "zod";
+import { isoDate } from "./items.js";
+
+const activityFilters = z.object({
+  member: z.string().uuid().optional(), // Who made the change
+  item: z.string().trim().max(100).optional(), // Part of the item's name
+  from: isoDate.optional(), // On or after this day
+  to: isoDate.optional(), // On or before this day
+});
+
+export const activityQuerySchema = activityFilters.extend({
+  // The last event of the previous page, to get the next one
+  cursor: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const activityExportSchema = activityFilters.extend({
+  format: z.enum(["csv", "json"]).default("csv"),
+});
+
+export type ActivityFilters = z.infer<typeof activityFilters>;
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+export type ActivityExportQuery = z.infer<typeof activityExportSchema>;
@@ -0,0 +1,34 @@
+/**
+ * AUTH REQUEST SCHEMAS
+ */
+
+import { z } from "zod";
+
+const email = z.string().trim().toLowerCase().email("Enter a valid email");
+
+export const registerSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  email,
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const loginSchema = z.object({
+  email,
+  password: z.string().min(1, "Password is required"),
+});
+
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+
+/**
+ * Expiry alert thresholds. (The route checks that "urgent" stays inside
+ * the "soon" window once merged with the current values.)
+ */
+export const settingsSchema = z
+  .object({
+    expirySoonDays: z.number().int().min(1).max(60),
+    expiryUrgentDays: z.number().int().min(0).max(60),
+  })
+  .partial();
+
+export type SettingsInput = z.infer<typeof settingsSchema>;
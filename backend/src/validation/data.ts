@@ -0,0 +1,95 @@
+/**
+ * DATA IMPORT/EXPORT SCHEMAS
+ *
+ * GET /api/data/export's query, and the body of POST /api/data/import: the
+ * same versioned document the JSON export produces, plus how to import it.
+ * Items and waste log entries are only checked as an array here - each row
+ * is checked on its own by the route, so one bad row doesn't hide the rest.
+ */
+
+import { z } from "zod";
+import {
+  EXPIRY_TYPES,
+  FOOD_CATEGORIES,
+  FOOD_UNITS,
+  ITEM_OUTCOMES,
+  WASTE_REASONS,
+  batchCreateSchema,
+  itemCreateSchema,
+} from "./items.js";
+import { householdSettingsSchema } from "./households.js";
+import { locationSchema } from "./locations.js";
+
+// Bump when the document changes shape; older versions must still import
+export const EXPORT_VERSION = 1;
+export const EXPORT_TABLES = [
+  "items",
+  "batches",
+  "locations",
+  "removals",
+] as const;
+export const IMPORT_MODES = ["merge", "replace"] as const;
+
+// More than this is a bulk migration, not an import
+export const MAX_IMPORT_ITEMS = 2000;
+const MAX_IMPORT_REMOVALS = 10_000;
+
+export const exportQuerySchema = z.object({
+  format: z.enum(["json", "csv"]).default("json"),
+  table: z.enum(EXPORT_TABLES).default("items"), // CSV only: one per file
+});
+
+// Spreadsheets say "Produce" and " KG " - those still count
+const looseEnum = <T extends [string, ...string[]]>(values: T) =>
+  z.string().trim().toLowerCase().pipe(z.enum(values));
+
+// An item as exported: its location by name (created if the household
+// doesn't have one by that name) and its batches, if it had any
+export const importItemSchema = itemCreateSchema
+  .omit({ locationId: true })
+  .extend({
+    category: looseEnum([...FOOD_CATEGORIES]),
+    unit: looseEnum([...FOOD_UNITS]),
+    expiryType: looseEnum([...EXPIRY_TYPES]).default("best-before"),
+    location: z.string().trim().min(1, "Location is required").max(40),
+    batches: z.array(batchCreateSchema).max(100).default([]),
+    createdAt: z.string().datetime().optional(),
+  });
+
+export const importRemovalSchema = z.object({
+  itemName: z.string().trim().min(1, "Name is required").max(120),
+  category: z.string().max(40),
+  quantity: z.number().finite().min(0),
+  unit: z.string().max(20),
+  outcome: z.enum(ITEM_OUTCOMES),
+  reason: z.enum(WASTE_REASONS).nullable().default(null),
+  price: z.number().finite().min(0).nullable().default(null),
+  value: z.number().finite().min(0).nullable().default(null),
+  purchasedAt: z.string().datetime().nullable().default(null),
+  removedAt: z.string().datetime(),
+});
+
+export const importSchema = z.object({
+  // merge: add to what's there, topping up items with the same name, unit
+  // and location. replace: delete every item first (owners only).
+  mode: z.enum(IMPORT_MODES),
+  // Only check it and say what would happen
+  dryRun: z.boolean().default(false),
+  data: z.object({
+    version: z
+      .number()
+      .int()
+      .positive()
+      .max(EXPORT_VERSION, "This file is from a newer version of Wasteless"),
+    // Its name stays the importing household's own
+    household: householdSettingsSchema.partial().optional(),
+    locations: z.array(locationSchema).max(100).default([]),
+    items: z.array(z.unknown()).max(MAX_IMPORT_ITEMS),
+    removals: z.array(z.unknown()).max(MAX_IMPORT_REMOVALS).default([]),
+  }),
+});
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type ImportItemInput = z.infer<typeof importItemSchema>;
+export type ImportRemovalInput = z.infer<typeof importRemovalSchema>;
+export type ImportInput = z.infer<typeof importSchema>;
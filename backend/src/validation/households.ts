@@ -0,0 +1,52 @@
+/**
+ * HOUSEHOLD REQUEST SCHEMAS
+ */
+
+import { z } from "zod";
+
+export const HOUSEHOLD_ROLES = ["owner", "editor", "viewer"] as const;
+// What an email invite can make someone: owners are only ever promoted
+export const INVITE_ROLES = ["editor", "viewer"] as const;
+
+export const householdSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+});
+
+// What prices are in, and what's meant to be spent on them
+export const householdSettingsSchema = z.object({
+  // ISO 4217, e.g. "EUR"
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Expected a currency code like EUR"),
+  monthlyBudget: z.number().finite().positive().nullable(),
+});
+
+// PATCH /api/households/:id - any of the household's settings
+export const householdUpdateSchema = householdSchema
+  .merge(householdSettingsSchema)
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, {
+    message: "Nothing to update",
+  });
+
+export const inviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  role: z.enum(INVITE_ROLES).default("editor"),
+});
+
+export const memberRoleSchema = z.object({
+  role: z.enum(HOUSEHOLD_ROLES),
+});
+
+export const joinSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1, "Invite code is required"),
+});
+
+export type HouseholdInput = z.infer<typeof householdSchema>;
+export type HouseholdSettingsInput = z.infer<typeof householdSettingsSchema>;
+export type HouseholdUpdateInput = z.infer<typeof householdUpdateSchema>;
+export type InviteInput = z.infer<typeof inviteSchema>;
+export type MemberRoleInput = z.infer<typeof memberRoleSchema>;
+export type JoinInput = z.infer<typeof joinSchema>;
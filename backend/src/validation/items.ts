@@ -0,0 +1,186 @@
+/**
+ * ITEM REQUEST SCHEMAS
+ *
+ * The shape of POST/PATCH /api/items bodies. These mirror the FoodItem
+ * type in frontend/src/types/inventory.ts - keep the two lists in sync.
+ */
+
+import { z } from "zod";
+
+export const FOOD_CATEGORIES = [
+  "meals",
+  "produce",
+  "pantry",
+  "snacks",
+  "frozen",
+  "other",
+] as const;
+export const STORAGE_LOCATIONS = ["fridge", "freezer", "pantry"] as const;
+export const FOOD_UNITS = [
+  "count",
+  "g",
+  "kg",
+  "ml",
+  "l",
+  "pack",
+  "portion",
+] as const;
+export const EXPIRY_TYPES = ["best-before", "use-by"] as const;
+export const ITEM_OUTCOMES = [
+  "eaten",
+  "wasted",
+  "donated",
+  "composted",
+] as const;
+// The outcomes that count as waste - only these get a reason
+export const WASTE_OUTCOMES = ["wasted", "composted"] as const;
+export const WASTE_REASONS = [
+  "expired",
+  "spoiled",
+  "forgot",
+  "too-much",
+] as const;
+
+// "2025-01-31" - dates without a time, like <input type="date"> produces
+export const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2025-01-31")
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+export const itemCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  category: z.enum(FOOD_CATEGORIES),
+  quantity: z.number().finite().min(0),
+  unit: z.enum(FOOD_UNITS),
+  purchaseDate: isoDate.nullable().default(null),
+  expiryDate: isoDate.nullable().default(null),
+  expiryType: z.enum(EXPIRY_TYPES).default("best-before"),
+  locationId: z.string().uuid("Pick a location"),
+  notes: z.string().max(500).default(""),
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(30))
+    .max(20)
+    .transform((tags) => [...new Set(tags)])
+    .default([]),
+  // What was paid for `purchaseQuantity` of it (the frontend turns a price
+  // per unit into this), in the household's currency
+  price: z.number().finite().min(0).nullable().default(null),
+  purchaseQuantity: z.number().finite().positive().nullable().default(null),
+  store: z.string().trim().max(80).default(""),
+  // Below this quantity it goes on the shopping list
+  parLevel: z.number().finite().positive().nullable().default(null),
+});
+
+// POST /api/items - an item added offline comes with the id the device
+// gave it, so the changes queued after it still find it
+export const itemAddSchema = itemCreateSchema.extend({
+  id: z.string().uuid().optional(),
+});
+
+export const itemUpdateSchema = itemCreateSchema
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, {
+    message: "Nothing to update",
+  });
+
+// POST /api/items/:id/batches - more of an item bought ("another carton")
+export const batchCreateSchema = z.object({
+  quantity: z.number().finite().positive(),
+  purchaseDate: isoDate.nullable().default(null),
+  expiryDate: isoDate.nullable().default(null),
+});
+
+// PATCH /api/items/:id/batches/:batchId - a quantity of 0 removes it
+export const batchUpdateSchema = batchCreateSchema
+  .extend({ quantity: z.number().finite().min(0) })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, {
+    message: "Nothing to update",
+  });
+
+// POST /api/items/:id/batches/restore - what a "use some" took out of each
+// batch going back in (undo): `quantity` is the amount taken
+export const batchRestoreSchema = z.object({
+  batches: z
+    .array(batchCreateSchema.extend({ id: z.string().uuid() }))
+    .min(1)
+    .max(100),
+});
+
+// POST /api/items/:id/consume - use some of it, from the batch that
+// expires first unless one is picked
+export const itemConsumeSchema = z.object({
+  amount: z.number().finite().positive(),
+  batchId: z.string().uuid().optional(),
+});
+
+// POST /api/items/restore - a deleted item coming back (undo), with the
+// id, owner, creation time and batches it had before
+export const itemRestoreSchema = itemCreateSchema.extend({
+  id: z.string().uuid(),
+  ownerId: z.string().uuid(),
+  createdAt: z.string().datetime(),
+  batches: z
+    .array(batchCreateSchema.extend({ id: z.string().uuid() }))
+    .max(100)
+    .default([]),
+});
+
+// POST /api/items/:id/finish - what happened to the rest of the item, and
+// why if it was thrown away
+export const itemFinishSchema = z
+  .object({
+    outcome: z.enum(ITEM_OUTCOMES),
+    reason: z.enum(WASTE_REASONS).nullable().default(null),
+    // Put it on the shopping list to buy again
+    restock: z.boolean().default(false),
+  })
+  .refine(
+    ({ outcome, reason }) =>
+      reason === null ||
+      (WASTE_OUTCOMES as readonly string[]).includes(outcome),
+    { message: "Only wasted food has a reason", path: ["reason"] }
+  );
+
+// POST /api/items/meals - a cooked meal, made from `amount` (in each
+// item's own unit) of some inventory items. It becomes a "meals" item
+// counted in portions.
+export const mealCreateSchema = itemCreateSchema
+  .pick({
+    name: true,
+    purchaseDate: true,
+    expiryDate: true,
+    expiryType: true,
+    locationId: true,
+    notes: true,
+    tags: true,
+  })
+  .extend({
+    // 0: all eaten straight away, so only the ingredients change
+    portions: z.number().int().min(0).max(100),
+    ingredients: z
+      .array(
+        z.object({
+          itemId: z.string().uuid(),
+          amount: z.number().finite().positive(),
+        })
+      )
+      .min(1, "Pick at least one ingredient")
+      .max(30)
+      .refine(
+        (ingredients) =>
+          new Set(ingredients.map((i) => i.itemId)).size === ingredients.length,
+        "Each item can only be picked once"
+      ),
+  });
+
+export type ItemCreateInput = z.infer<typeof itemCreateSchema>;
+export type ItemAddInput = z.infer<typeof itemAddSchema>;
+export type ItemUpdateInput = z.infer<typeof itemUpdateSchema>;
+export type ItemRestoreInput = z.infer<typeof itemRestoreSchema>;
+export type ItemFinishInput = z.infer<typeof itemFinishSchema>;
+export type MealCreateInput = z.infer<typeof mealCreateSchema>;
+export type BatchCreateInput = z.infer<typeof batchCreateSchema>;
+export type BatchUpdateInput = z.infer<typeof batchUpdateSchema>;
+export type BatchRestoreInput = z.infer<typeof batchRestoreSchema>;
+export type ItemConsumeInput = z.infer<typeof itemConsumeSchema>;
@@ -0,0 +1,18 @@
+/**
+ * LOCATION REQUEST SCHEMAS
+ */
+
+import { z } from "zod";
+import { STORAGE_LOCATIONS } from "./items.js";
+
+const name = z.string().trim().min(1, "Name is required").max(40);
+
+export const locationSchema = z.object({
+  name,
+  kind: z.enum(STORAGE_LOCATIONS),
+});
+
+export const locationRenameSchema = z.object({ name });
+
+export type LocationInput = z.infer<typeof locationSchema>;
+export type LocationRenameInput = z.infer<typeof locationRenameSchema>;
@@ -0,0 +1,14 @@
+/**
+ * WASTE LOG QUERY SCHEMA
+ *
+ * GET /api/removals?since=2025-01-01 - the query string, not a body.
+ */
+
+import { z } from "zod";
+import { isoDate } from "./items.js";
+
+export const removalQuerySchema = z.object({
+  since: isoDate.optional(), // Only removals on or after this day
+});
+
+export type RemovalQuery = z.infer<typeof removalQuerySchema>;
@@ -0,0 +1,13 @@
+/**
+ * SAVED VIEW SCHEMAS
+ */
+
+import { z } from "zod";
+
+export const savedViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  // The Dashboard's query string, e.g. "location=<id>&tag=meat&sort=expiry"
+  query: z.string().max(2000),
+});
+
+export type SavedViewInput = z.infer<typeof savedViewSchema>;
@@ -0,0 +1,37 @@
+/**
+ * SHELF-LIFE RULE SCHEMAS
+ *
+ * A rule matches a keyword in the item name OR a whole category - exactly
+ * one of the two - in one storage location.
+ */
+
+import { z } from "zod";
+import { FOOD_CATEGORIES, STORAGE_LOCATIONS } from "./items.js";
+
+const days = z.number().int().min(0).max(3650);
+
+export const shelfLifeRuleSchema = z
+  .object({
+    keyword: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1)
+      .max(60)
+      .nullable()
+      .default(null),
+    category: z.enum(FOOD_CATEGORIES).nullable().default(null),
+    location: z.enum(STORAGE_LOCATIONS),
+    days,
+  })
+  .refine((rule) => (rule.keyword === null) !== (rule.category === null), {
+    message: "Give either a keyword or a category",
+    path: ["keyword"],
+  });
+
+export const shelfLifeRuleUpdateSchema = z.object({ days });
+
+export type ShelfLifeRuleInput = z.infer<typeof shelfLifeRuleSchema>;
+export type ShelfLifeRuleUpdateInput = z.infer<
+  typeof shelfLifeRuleUpdateSchema
+>;
@@ -0,0 +1,38 @@
+/**
+ * SHOPPING LIST REQUEST SCHEMAS
+ */
+
+import { z } from "zod";
+import { FOOD_CATEGORIES, FOOD_UNITS, itemCreateSchema } from "./items.js";
+
+export const shoppingEntryCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  category: z.enum(FOOD_CATEGORIES).default("other"),
+  quantity: z.number().finite().positive().default(1),
+  unit: z.enum(FOOD_UNITS).default("count"),
+  locationId: z.string().uuid().nullable().default(null),
+});
+
+export const shoppingEntryUpdateSchema = shoppingEntryCreateSchema
+  .extend({ checked: z.boolean() })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, {
+    message: "Nothing to update",
+  });
+
+// POST /api/shopping-list/check-in - the bought entries, each with the
+// inventory item to log for it (the frontend suggests the expiry date)
+export const checkInSchema = z.object({
+  entries: z
+    .array(z.object({ id: z.string().uuid(), item: itemCreateSchema }))
+    .min(1, "Nothing to check in")
+    .max(100),
+});
+
+export type ShoppingEntryCreateInput = z.infer<
+  typeof shoppingEntryCreateSchema
+>;
+export type ShoppingEntryUpdateInput = z.infer<
+  typeof shoppingEntryUpdateSchema
+>;
+export type CheckInInput = z.infer<typeof checkInSchema>;
@@ -1,29 +1,74 @@
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { Provider } from "react-redux";
 import Home from "./pages/Home";
 import Dashboard from "./pages/Dashboard";
+import Login from "./pages/Login";
+import Register from "./pages/Register";
+import Household from "./pages/Household";
+import Settings from "./pages/Settings";
+import Analytics from "./pages/Analytics";
+import Activity from "./pages/Activity";
+import ImportExport from "./pages/ImportExport";
+import ShoppingList from "./pages/ShoppingList";
+import Recipes from "./pages/Recipes";
+import NotFound from "./pages/NotFound";
 import Navbar from "./components/Navbar";
 import ToastContainer from "./components/ToastContainer";
+import LoadingOverlay from "./components/LoadingOverlay";
+import RequireAuth from "./components/RequireAuth";
+import DevOnly from "./components/DevOnly";
+import InventoryLoader from "./components/InventoryLoader";
+import OfflineSync from "./components/OfflineSync";
+import HouseholdLive from "./components/HouseholdLive";
 import { AuthProvider } from "./contexts/AuthContext";
 import { UIProvider } from "./contexts/UIContext";
 import ContextDummy from "./pages/contextDummy";
+import { store } from "./store";
 
 export default function App() {
   return (
     // 🎯 Wrap your app with Context Providers
+    // The Redux store goes outermost so every context can dispatch to it
     // Order matters: AuthProvider first, then UIProvider
     // This makes auth available to UI logic if needed
-    <AuthProvider>
-      <UIProvider>
-        <BrowserRouter>
-          <Navbar />
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="contextTest" element={<ContextDummy />} />
-          </Routes>
-          <ToastContainer />
-        </BrowserRouter>
-      </UIProvider>
-    </AuthProvider>
+    <Provider store={store}>
+      <AuthProvider>
+        <UIProvider>
+          <BrowserRouter>
+            <Navbar />
+            <InventoryLoader />
+            <OfflineSync />
+            <HouseholdLive />
+            <Routes>
+              {/* Public pages */}
+              <Route path="/" element={<Home />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+
+              {/* Logged-in users only (admin pages: <RequireAuth role="admin" />) */}
+              <Route element={<RequireAuth />}>
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/shopping-list" element={<ShoppingList />} />
+                <Route path="/recipes" element={<Recipes />} />
+                <Route path="/analytics" element={<Analytics />} />
+                <Route path="/activity" element={<Activity />} />
+                <Route path="/import-export" element={<ImportExport />} />
+                <Route path="/household" element={<Household />} />
+                <Route path="/settings" element={<Settings />} />
+              </Route>
+
+              {/* Development builds only */}
+              <Route element={<DevOnly />}>
+                <Route path="/contextTest" element={<ContextDummy />} />
+              </Route>
+
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+            <ToastContainer />
+            <LoadingOverlay />
+          </BrowserRouter>
+        </UIProvider>
+      </AuthProvider>
+    </Provider>
   );
 }
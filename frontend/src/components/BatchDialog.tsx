@@ -0,0 +1,103 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAppSelector } from "../store/hooks";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import type { FoodItem, NewItemBatch } from "../types/inventory";
+import { todayIso } from "../lib/expiry";
+import { describeSuggestion, suggestExpiry } from "../lib/shelfLife";
+import { UNIT_STEP } from "../lib/units";
+
+interface BatchDialogProps {
+  item: FoodItem;
+  onSave: (batch: NewItemBatch) => void | Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * "Bought more": another batch of an item, with its own dates. The expiry
+ * date is suggested the same way as for a new item, counting from the day
+ * it was bought.
+ */
+export default function BatchDialog({
+  item,
+  onSave,
+  onClose,
+}: BatchDialogProps) {
+  const rules = useAppSelector(selectShelfLifeRules);
+
+  const [quantity, setQuantity] = useState(
+    item.purchaseQuantity ?? UNIT_STEP[item.unit]
+  );
+  const [purchaseDate, setPurchaseDate] = useState(todayIso());
+  // null until the user picks a date themselves
+  const [expiryDate, setExpiryDate] = useState<string | null>(null);
+
+  const suggestion = suggestExpiry(item, rules, purchaseDate || todayIso());
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    await onSave({
+      quantity,
+      purchaseDate: purchaseDate || null,
+      expiryDate: expiryDate ?? suggestion?.expiryDate ?? null,
+    });
+  };
+
+  return (
+    <div className="modal modal-open" role="dialog">
+      <form className="modal-box flex flex-col gap-3" onSubmit={handleSubmit}>
+        <h3 className="font-bold text-lg">Bought more {item.name}</h3>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="form-control col-span-2">
+            <span className="label-text">How much ({item.unit})</span>
+            <input
+              type="number"
+              min={0.001}
+              step="any"
+              className="input input-bordered w-full"
+              value={quantity}
+              onChange={(e) => setQuantity(Number(e.target.value))}
+              autoFocus
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">Bought on</span>
+            <input
+              type="date"
+              className="input input-bordered w-full"
+              value={purchaseDate}
+              onChange={(e) => setPurchaseDate(e.target.value)}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">Expires</span>
+            <input
+              type="date"
+              className="input input-bordered w-full"
+              value={expiryDate ?? suggestion?.expiryDate ?? ""}
+              onChange={(e) => setExpiryDate(e.target.value || null)}
+            />
+          </label>
+          {expiryDate === null && suggestion && (
+            <span className="label-text-alt opacity-60 col-span-2">
+              {describeSuggestion(suggestion)}
+            </span>
+          )}
+        </div>
+        <div className="modal-action">
+          <button type="button" className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={!quantity}
+          >
+            Add
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
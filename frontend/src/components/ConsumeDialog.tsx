@@ -0,0 +1,125 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import type { FoodItem, FoodUnit, ItemBatch } from "../types/inventory";
+import { compatibleUnits, formatQuantity } from "../lib/units";
+
+interface ConsumeDialogProps {
+  item: FoodItem;
+  onConsume: (
+    amount: number,
+    unit: FoodUnit,
+    batchId?: ItemBatch["id"]
+  ) => void | Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * "Use part of" an item, e.g. 250 g of a 1 kg bag or half a pack. The
+ * amount can be in any unit that converts to the item's own. It comes out
+ * of the batch that expires first, unless the user picks another one.
+ */
+export default function ConsumeDialog({
+  item,
+  onConsume,
+  onClose,
+}: ConsumeDialogProps) {
+  const [amount, setAmount] = useState(0);
+  const [unit, setUnit] = useState<FoodUnit>(item.unit);
+  // "" = soonest-expiring first
+  const [batchId, setBatchId] = useState<ItemBatch["id"]>("");
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    await onConsume(amount, unit, batchId || undefined);
+  };
+
+  // Quick picks, in the item's own unit
+  const pickFraction = (fraction: number) => {
+    setUnit(item.unit);
+    setAmount(Math.round(item.quantity * fraction * 1000) / 1000);
+  };
+
+  return (
+    <div className="modal modal-open" role="dialog">
+      <form className="modal-box flex flex-col gap-3" onSubmit={handleSubmit}>
+        <h3 className="font-bold text-lg">Use some {item.name}</h3>
+        <p className="opacity-70">
+          {formatQuantity(item.quantity, item.unit)} left
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            className="input input-bordered flex-1"
+            value={amount}
+            onChange={(e) => setAmount(Number(e.target.value))}
+            autoFocus
+            required
+          />
+          <select
+            className="select select-bordered"
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as FoodUnit)}
+          >
+            {compatibleUnits(item.unit).map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+        </div>
+        {item.batches.length > 1 && (
+          <label className="form-control">
+            <span className="label-text">Take it from</span>
+            <select
+              className="select select-bordered"
+              value={batchId}
+              onChange={(e) => setBatchId(e.target.value)}
+            >
+              <option value="">Soonest to expire first</option>
+              {item.batches.map((batch) => (
+                <option key={batch.id} value={batch.id}>
+                  {formatQuantity(batch.quantity, item.unit)}
+                  {batch.purchaseDate && `, bought ${batch.purchaseDate}`}
+                  {batch.expiryDate && `, expires ${batch.expiryDate}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className="btn btn-xs"
+            onClick={() => pickFraction(0.25)}
+          >
+            A quarter
+          </button>
+          <button
+            type="button"
+            className="btn btn-xs"
+            onClick={() => pickFraction(0.5)}
+          >
+            Half
+          </button>
+          <button
+            type="button"
+            className="btn btn-xs"
+            onClick={() => pickFraction(1)}
+          >
+            All of it
+          </button>
+        </div>
+        <div className="modal-action">
+          <button type="button" className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={!amount}>
+            Use
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
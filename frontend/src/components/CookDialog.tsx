@@ -0,0 +1,170 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAppSelector } from "../store/hooks";
+import { selectAllLocations } from "../store/locationsSlice";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import type { FoodItem, NewMeal } from "../types/inventory";
+import { todayIso } from "../lib/expiry";
+import type { RecipeSuggestion } from "../lib/recipes";
+import { suggestExpiry } from "../lib/shelfLife";
+import { formatQuantity, roundQuantity } from "../lib/units";
+
+interface CookDialogProps {
+  suggestion: RecipeSuggestion;
+  onCook: (meal: NewMeal) => void | Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * "Cook this": how much of each item goes into the recipe, filled in from
+ * the match and editable - recipes are rarely followed to the gram. Amounts
+ * the match couldn't work out (a pack of spinach for "150 g") start empty.
+ * It's logged as a meal, all at once; leftover portions are kept as a
+ * "meals" item in the fridge.
+ */
+export default function CookDialog({
+  suggestion,
+  onCook,
+  onClose,
+}: CookDialogProps) {
+  const locations = useAppSelector(selectAllLocations);
+  const rules = useAppSelector(selectShelfLifeRules);
+  const [leftovers, setLeftovers] = useState(0);
+  const [locationId, setLocationId] = useState(
+    () => (locations.find((l) => l.kind === "fridge") ?? locations[0])?.id ?? ""
+  );
+
+  // One row per item, even if it's in two ingredients ("onion", "red onion")
+  const items = [
+    ...new Map(
+      suggestion.ingredients
+        .flatMap(({ uses }) => uses)
+        .map(({ item }) => [item.id, item])
+    ).values(),
+  ];
+  // Typed as text, by item id; empty = don't take any
+  const [amounts, setAmounts] = useState<Record<FoodItem["id"], string>>(() => {
+    const initial: Record<FoodItem["id"], string> = {};
+    for (const { uses } of suggestion.ingredients) {
+      for (const { item, amount } of uses) {
+        const sum = Number(initial[item.id] || 0) + (amount ?? 0);
+        initial[item.id] = sum > 0 ? String(roundQuantity(sum)) : "";
+      }
+    }
+    return initial;
+  });
+
+  const uses = items
+    .map((item) => ({ item, amount: Number(amounts[item.id] || 0) }))
+    .filter(({ amount }) => amount > 0);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const name = suggestion.recipe.name;
+    const kind = locations.find((l) => l.id === locationId)?.kind;
+    const expiry = kind
+      ? suggestExpiry({ name, category: "meals", location: kind }, rules)
+      : null;
+    await onCook({
+      name,
+      portions: leftovers,
+      locationId,
+      purchaseDate: todayIso(),
+      expiryDate: expiry?.expiryDate ?? null,
+      expiryType: expiry?.expiryType ?? "use-by",
+      notes: `Made with ${uses.map(({ item }) => item.name).join(", ")}`,
+      tags: [],
+      ingredients: uses.map(({ item, amount }) => ({
+        itemId: item.id,
+        amount,
+      })),
+    });
+  };
+
+  return (
+    <div className="modal modal-open" role="dialog">
+      <form className="modal-box flex flex-col gap-3" onSubmit={handleSubmit}>
+        <h3 className="font-bold text-lg">Cook {suggestion.recipe.name}</h3>
+        {items.length === 0 ? (
+          <p>Nothing in the inventory to take out for this one.</p>
+        ) : (
+          <>
+            <p className="opacity-70">Take out of the inventory:</p>
+            <ul className="flex flex-col gap-2">
+              {items.map((item) => (
+                <li key={item.id} className="flex items-center gap-2">
+                  <span className="flex-1">
+                    {item.name}
+                    <span className="text-sm opacity-60">
+                      {" "}
+                      ({formatQuantity(item.quantity, item.unit)} left)
+                    </span>
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={item.quantity}
+                    step="any"
+                    className="input input-bordered input-sm w-24"
+                    placeholder="How much?"
+                    value={amounts[item.id]}
+                    onChange={(e) =>
+                      setAmounts({ ...amounts, [item.id]: e.target.value })
+                    }
+                    aria-label={`${item.name} used`}
+                  />
+                  <span className="w-10 text-sm">{item.unit}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-2">
+              <label className="form-control">
+                <span className="label-text">Portions left over</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={1}
+                  className="input input-bordered input-sm w-24"
+                  value={leftovers}
+                  onChange={(e) => setLeftovers(Number(e.target.value))}
+                />
+              </label>
+              {leftovers > 0 && (
+                <label className="form-control">
+                  <span className="label-text">Kept in</span>
+                  <select
+                    className="select select-bordered select-sm"
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                  >
+                    {locations.map((location) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            <p className="text-xs opacity-60">
+              Anything used up is logged as eaten.
+            </p>
+          </>
+        )}
+        <div className="modal-action">
+          <button type="button" className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={uses.length === 0}
+          >
+            Cook it
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
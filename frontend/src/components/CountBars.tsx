@@ -0,0 +1,40 @@
+import type { WasteCount } from "../lib/wasteStats";
+
+interface CountBarsProps {
+  counts: WasteCount[]; // Biggest first
+  label?: (name: string) => string; // How to show each name
+  emptyMessage: string;
+}
+
+/**
+ * A ranked list with a bar for each count, e.g. the categories wasted most
+ * often. Bars are relative to the biggest count.
+ */
+export default function CountBars({
+  counts,
+  label = (name) => name,
+  emptyMessage,
+}: CountBarsProps) {
+  if (counts.length === 0) {
+    return <p className="text-sm opacity-70">{emptyMessage}</p>;
+  }
+  const biggest = counts[0].count;
+
+  return (
+    <ul className="flex flex-col gap-2">
+      {counts.map(({ name, count }) => (
+        <li key={name} className="flex flex-col gap-1">
+          <div className="flex justify-between text-sm">
+            <span className="capitalize">{label(name)}</span>
+            <span className="opacity-70">{count}</span>
+          </div>
+          <progress
+            className="progress progress-error"
+            value={count}
+            max={biggest}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+}
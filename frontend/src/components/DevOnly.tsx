@@ -0,0 +1,20 @@
+/**
+ * DEV ONLY - Route Wrapper for Development Pages
+ *
+ * Pages like the Context API playground are handy while building the app
+ * but must not ship. Nest them under this wrapper (see App.tsx):
+ *
+ *   <Route element={<DevOnly />}>
+ *     <Route path="/contextTest" element={<ContextDummy />} />
+ *   </Route>
+ *
+ * import.meta.env.DEV is true under `npm run dev` and false in
+ * `npm run build`, so production users get the normal 404 page.
+ */
+
+import { Outlet } from "react-router-dom";
+import NotFound from "../pages/NotFound";
+
+export default function DevOnly() {
+  return import.meta.env.DEV ? <Outlet /> : <NotFound />;
+}
@@ -0,0 +1,56 @@
+import { Link } from "react-router-dom";
+import type { FoodItem } from "../types/inventory";
+import type { UserSettings } from "../types/user";
+import { useAppSelector } from "../store/hooks";
+import { selectLocationEntities } from "../store/locationsSlice";
+import {
+  EXPIRY_BADGE_CLASS,
+  describeExpiry,
+  getExpiryStatus,
+} from "../lib/expiry";
+import { formatQuantity } from "../lib/units";
+
+interface ExpiringSoonProps {
+  items: FoodItem[]; // Already filtered + sorted (selectItemsNeedingAttention)
+  settings: UserSettings;
+}
+
+export default function ExpiringSoon({ items, settings }: ExpiringSoonProps) {
+  const locationsById = useAppSelector(selectLocationEntities);
+
+  if (items.length === 0) {
+    return (
+      <div className="alert alert-success">
+        Nothing expires in the next {settings.expirySoonDays} days 🎉
+      </div>
+    );
+  }
+
+  return (
+    <div className="card bg-base-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">Expiring soon / Expired</h3>
+        <Link to="/recipes" className="link link-primary text-sm">
+          What can I cook?
+        </Link>
+      </div>
+      <ul className="flex flex-col gap-2">
+        {items.map((item) => {
+          const status = getExpiryStatus(item, settings);
+          return (
+            <li key={item.id} className="flex items-center gap-2">
+              <span className={`badge ${EXPIRY_BADGE_CLASS[status]}`}>
+                {describeExpiry(item)}
+              </span>
+              <span className="font-medium">{item.name}</span>
+              <span className="text-sm opacity-60">
+                {formatQuantity(item.quantity, item.unit)} ·{" "}
+                {locationsById[item.locationId]?.name}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import {
+  ITEM_OUTCOMES,
+  WASTE_REASONS,
+  WASTE_REASON_LABELS,
+  isWaste,
+} from "../types/inventory";
+import type {
+  FoodItem,
+  ItemFinish,
+  ItemOutcome,
+  WasteReason,
+} from "../types/inventory";
+
+interface FinishItemDialogProps {
+  item: FoodItem;
+  onFinish: (finish: ItemFinish) => void | Promise<void>;
+  onKeep: () => void; // Leave it in the inventory (at zero, or as it was)
+}
+
+const OUTCOME_BUTTONS: Record<
+  ItemOutcome,
+  { label: string; className: string }
+> = {
+  eaten: { label: "Eaten", className: "btn-success" },
+  donated: { label: "Donated", className: "btn-info" },
+  composted: { label: "Composted", className: "btn-warning" },
+  wasted: { label: "Wasted", className: "btn-error" },
+};
+
+/**
+ * Shown when an item reaches zero, or is removed with some still left,
+ * instead of silently deleting it: what happened to it? For food that was
+ * thrown away it also asks why. Those answers are the waste log the
+ * Analytics page is built from.
+ */
+export default function FinishItemDialog({
+  item,
+  onFinish,
+  onKeep,
+}: FinishItemDialogProps) {
+  const [outcome, setOutcome] = useState<ItemOutcome | null>(null);
+  const [reason, setReason] = useState<WasteReason | null>(null);
+  // Items with a par level are usually bought again
+  const [restock, setRestock] = useState(item.parLevel !== null);
+
+  const usedUp = item.quantity === 0;
+
+  return (
+    <div className="modal modal-open" role="dialog">
+      <div className="modal-box flex flex-col gap-3">
+        <h3 className="font-bold text-lg">
+          {usedUp ? `${item.name} is used up` : `Remove ${item.name}`}
+        </h3>
+        <p>
+          {usedUp
+            ? "Was it eaten, or did some of it go to waste?"
+            : `What happened to the ${item.quantity} ${item.unit} that was left?`}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {ITEM_OUTCOMES.map((value) => (
+            <button
+              key={value}
+              className={`btn btn-sm ${outcome === value ? OUTCOME_BUTTONS[value].className : "btn-outline"}`}
+              onClick={() => {
+                setOutcome(value);
+                if (!isWaste(value)) setReason(null);
+              }}
+            >
+              {OUTCOME_BUTTONS[value].label}
+            </button>
+          ))}
+        </div>
+        {outcome && isWaste(outcome) && (
+          <label className="form-control">
+            <span className="label-text">Why was it thrown away?</span>
+            <select
+              className="select select-bordered w-full"
+              value={reason ?? ""}
+              onChange={(e) =>
+                setReason((e.target.value || null) as WasteReason | null)
+              }
+            >
+              <option value="">Not sure</option>
+              {WASTE_REASONS.map((value) => (
+                <option key={value} value={value}>
+                  {WASTE_REASON_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="label cursor-pointer justify-start gap-2">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-sm"
+            checked={restock}
+            onChange={(e) => setRestock(e.target.checked)}
+          />
+          <span className="label-text">Put it on the shopping list</span>
+        </label>
+        <div className="modal-action">
+          <button className="btn btn-ghost" onClick={onKeep}>
+            {usedUp ? "Keep it (I'll restock)" : "Cancel"}
+          </button>
+          <button
+            className="btn btn-primary"
+            disabled={!outcome}
+            onClick={() => outcome && onFinish({ outcome, reason, restock })}
+          >
+            Log it
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
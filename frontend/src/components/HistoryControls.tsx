@@ -0,0 +1,66 @@
+import { useEffect } from "react";
+import { useAppSelector } from "../store/hooks";
+import {
+  selectHistoryApplying,
+  selectLastCommand,
+  selectNextRedo,
+} from "../store/historySlice";
+import { isEditingText } from "../lib/keyboard";
+
+interface HistoryControlsProps {
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+/**
+ * Undo / Redo buttons for inventory changes, plus the keyboard shortcuts:
+ * Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo - Cmd on a Mac.
+ */
+export default function HistoryControls({
+  onUndo,
+  onRedo,
+}: HistoryControlsProps) {
+  const lastCommand = useAppSelector(selectLastCommand);
+  const nextRedo = useAppSelector(selectNextRedo);
+  const applying = useAppSelector(selectHistoryApplying);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Typing in a field? Ctrl+Z belongs to the field, not the inventory
+      if (!(event.ctrlKey || event.metaKey) || isEditingText(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        onUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  return (
+    <div className="join">
+      <button
+        className="btn btn-sm join-item"
+        onClick={onUndo}
+        disabled={!lastCommand || applying}
+        title={lastCommand ? `Undo: ${lastCommand.label} (Ctrl+Z)` : undefined}
+      >
+        ↶ Undo
+      </button>
+      <button
+        className="btn btn-sm join-item"
+        onClick={onRedo}
+        disabled={!nextRedo || applying}
+        title={nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Shift+Z)` : undefined}
+      >
+        Redo ↷
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * ============================================================================
+ * HOUSEHOLD LIVE - Other Members' Changes, As They Happen
+ * ============================================================================
+ *
+ * Rendered once in App.tsx (it draws nothing). While someone is logged in
+ * it listens to the active household's live update stream
+ * (services/eventService.ts) and:
+ * 1. Puts items the others added or changed into Redux, and takes out the
+ *    ones they removed - no reload needed to see the last egg is gone
+ * 2. Says so in a short toast: "Sara used 2 eggs"
+ * 3. Keeps the Navbar's "who's online" up to date
+ * 4. Reloads the items when it missed more than it can catch up on
+ */
+
+import { useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppStore } from "../store/hooks";
+import {
+  fetchItems,
+  itemsChanged,
+  selectItemById,
+} from "../store/inventorySlice";
+import {
+  liveConnectionChanged,
+  membersOnlineChanged,
+} from "../store/presenceSlice";
+import { listenToHousehold } from "../services/eventService";
+import type { ItemEvent } from "../types/events";
+import type { FoodItem } from "../types/inventory";
+import { formatQuantity, roundQuantity } from "../lib/units";
+
+// "2 eggs", "250 g of chicken"
+const amountOf = (amount: number, item: Pick<FoodItem, "unit" | "name">) =>
+  item.unit === "count"
+    ? `${formatQuantity(amount, item.unit)} ${item.name}`
+    : `${formatQuantity(amount, item.unit)} of ${item.name}`;
+
+/**
+ * What happened, in a few words - comparing with the item as we had it.
+ */
+function describe(event: ItemEvent, before: FoodItem | undefined) {
+  const who = event.actor.name;
+  const { item } = event;
+  if (event.type === "item.deleted") return `${who} removed ${item.name}`;
+  if (event.type === "item.created" || !before) {
+    return `${who} added ${amountOf(event.item.quantity, event.item)}`;
+  }
+  const change = roundQuantity(event.item.quantity - before.quantity);
+  if (change < 0) return `${who} used ${amountOf(-change, event.item)}`;
+  if (change > 0) return `${who} added ${amountOf(change, event.item)}`;
+  if (event.item.locationId !== before.locationId) {
+    return `${who} moved ${item.name}`;
+  }
+  return `${who} updated ${item.name}`;
+}
+
+export default function HouseholdLive() {
+  const { user, activeHousehold } = useAuth();
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const store = useAppStore();
+
+  const householdId = activeHousehold?.id;
+  const userId = user?.id;
+  useEffect(() => {
+    if (!householdId || !userId) return;
+    const stop = listenToHousehold(householdId, {
+      onItem: (event) => {
+        const state = store.getState();
+        // Still loading another household's items
+        if (state.inventory.householdId !== householdId) return;
+        const before = selectItemById(state, event.item.id);
+        dispatch(
+          itemsChanged(
+            event.type === "item.deleted"
+              ? { removed: [event.item.id] }
+              : { upserted: [event.item] }
+          )
+        );
+        // Our own change, made on another device: nothing to tell
+        if (event.actor.id !== userId) {
+          showToast(describe(event, before), "info");
+        }
+      },
+      onPresence: (members) => dispatch(membersOnlineChanged(members)),
+      onResync: () => void dispatch(fetchItems(householdId)),
+      onConnectionChange: (connected) =>
+        dispatch(liveConnectionChanged(connected)),
+    });
+    return () => {
+      stop();
+      dispatch(liveConnectionChanged(false));
+    };
+  }, [householdId, userId, dispatch, store, showToast]);
+
+  return null;
+}
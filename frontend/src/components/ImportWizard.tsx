@@ -0,0 +1,406 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchItems } from "../store/inventorySlice";
+import { fetchLocations, selectAllLocations } from "../store/locationsSlice";
+import * as dataService from "../services/dataService";
+import { ApiError } from "../services/http";
+import { EXPORT_VERSION } from "../types/dataTransfer";
+import type {
+  ImportDocument,
+  ImportMode,
+  ImportResult,
+  ImportRowResult,
+} from "../types/dataTransfer";
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  parseCsv,
+  toImportItems,
+} from "../lib/csvImport";
+import type { ColumnMapping } from "../lib/csvImport";
+import { formatMoney } from "../lib/money";
+
+type Step = "file" | "map" | "preview";
+
+interface CsvFile {
+  header: string[];
+  rows: string[][];
+}
+
+const ACTION_BADGES: Record<ImportRowResult["action"], string> = {
+  create: "badge-success",
+  merge: "badge-info",
+  skip: "badge-ghost",
+  invalid: "badge-error",
+};
+
+const ACTION_LABELS: Record<ImportRowResult["action"], string> = {
+  create: "new",
+  merge: "adds to existing",
+  skip: "already there",
+  invalid: "error",
+};
+
+const invalidRows = (results: ImportRowResult[]) =>
+  new Set(results.filter((r) => r.action === "invalid").map((r) => r.row));
+
+// A JSON export, as far as can be told without the server
+const isImportDocument = (value: unknown): value is ImportDocument =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ImportDocument).version === "number" &&
+  Array.isArray((value as ImportDocument).items);
+
+/**
+ * Importing a file into the household, in three steps:
+ * 1. Pick a file - a Wasteless JSON export, or any spreadsheet saved as CSV
+ * 2. (CSV only) Say which column is which field
+ * 3. Check the preview: what happens to each row and what's wrong with the
+ *    ones that can't be imported, merge or replace, then import. Rows with
+ *    errors are left out.
+ */
+export default function ImportWizard() {
+  const { activeHousehold, refreshHouseholds } = useAuth();
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const locations = useAppSelector(selectAllLocations);
+
+  const [step, setStep] = useState<Step>("file");
+  const [csv, setCsv] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultLocation, setDefaultLocation] = useState("");
+  const [data, setData] = useState<ImportDocument | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = activeHousehold?.role === "owner";
+
+  const reset = () => {
+    setStep("file");
+    setCsv(null);
+    setMapping(null);
+    setData(null);
+    setResult(null);
+    setError(null);
+  };
+
+  // Ask the server what importing `data` would do
+  const preview = async (file: ImportDocument, importMode: ImportMode) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setResult(await dataService.importData(file, importMode, true));
+      setData(file);
+      setMode(importMode);
+      setStep("preview");
+    } catch (err) {
+      const issues =
+        err instanceof ApiError && err.issues.length > 0
+          ? `: ${err.issues.map((issue) => issue.message).join(", ")}`
+          : "";
+      setError(`${(err as Error).message}${issues}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // So picking the same file again still works
+    if (!file) return;
+    setError(null);
+    const text = await file.text();
+
+    if (file.name.toLowerCase().endsWith(".json")) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        parsed = null;
+      }
+      if (!isImportDocument(parsed)) {
+        setError(`${file.name} isn't a Wasteless export`);
+        return;
+      }
+      await preview(parsed, mode);
+      return;
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    if (!header || rows.length === 0) {
+      setError(`${file.name} has no rows under its header`);
+      return;
+    }
+    setCsv({ header, rows });
+    setMapping(guessMapping(header));
+    setDefaultLocation(locations[0]?.name ?? "");
+    setStep("map");
+  };
+
+  const checkRows = () => {
+    if (!csv || !mapping) return;
+    void preview(
+      {
+        version: EXPORT_VERSION,
+        items: toImportItems(csv.rows, mapping, defaultLocation),
+      },
+      mode
+    );
+  };
+
+  const handleImport = async () => {
+    if (!data || !result || !activeHousehold) return;
+    const { summary } = result;
+    if (
+      mode === "replace" &&
+      !window.confirm(
+        `Delete all ${summary.deleted} items in ${activeHousehold.name} and import these instead?`
+      )
+    ) {
+      return;
+    }
+    const badItems = invalidRows(result.items);
+    const badRemovals = invalidRows(result.removals);
+    setIsBusy(true);
+    try {
+      await dataService.importData(
+        {
+          ...data,
+          items: data.items.filter((_, row) => !badItems.has(row)),
+          removals: data.removals?.filter((_, row) => !badRemovals.has(row)),
+        },
+        mode,
+        false
+      );
+      const count = summary.created + summary.merged;
+      showToast(`Imported ${count} item${count === 1 ? "" : "s"}`, "success");
+      dispatch(fetchItems(activeHousehold.id));
+      dispatch(fetchLocations(activeHousehold.id));
+      if (summary.household) void refreshHouseholds();
+      reset();
+    } catch {
+      // Already toasted by apiRequest
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Spreadsheet rows are numbered as the spreadsheet does (header = 1)
+  const rowNumber = (row: number) => row + (csv ? 2 : 1);
+  const importing = result ? result.summary.created + result.summary.merged : 0;
+  const badRemovals = result ? invalidRows(result.removals).size : 0;
+
+  return (
+    <section className="card bg-base-200 p-4 flex flex-col gap-3">
+      <h3 className="font-semibold">Import</h3>
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {step === "file" && (
+        <>
+          <p className="text-sm opacity-70">
+            A Wasteless JSON export brings back everything in it. A spreadsheet
+            (saved as CSV) can have its columns in any order - you'll say which
+            is which next.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.json,.txt,text/csv,application/json"
+            className="file-input file-input-bordered file-input-sm"
+            onChange={(e) => void handleFile(e)}
+            disabled={isBusy}
+          />
+        </>
+      )}
+
+      {step === "map" && csv && mapping && (
+        <>
+          <p className="text-sm opacity-70">
+            {csv.rows.length} rows. Which column holds each field? Fields
+            without one get a default (1 of it, "other", counted in items).
+          </p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {IMPORT_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2">
+                <span className="w-40 text-sm">{label}</span>
+                <select
+                  className="select select-bordered select-sm flex-1"
+                  value={mapping[field] ?? ""}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      [field]:
+                        e.target.value === "" ? null : Number(e.target.value),
+                    })
+                  }
+                >
+                  <option value="">(none)</option>
+                  {csv.header.map((heading, column) => (
+                    <option key={column} value={column}>
+                      {heading || `Column ${column + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="flex items-center gap-2">
+              <span className="w-40 text-sm">Location when empty</span>
+              <select
+                className="select select-bordered select-sm flex-1"
+                value={defaultLocation}
+                onChange={(e) => setDefaultLocation(e.target.value)}
+              >
+                {locations.map((location) => (
+                  <option key={location.id} value={location.name}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button className="btn btn-ghost btn-sm" onClick={reset}>
+              Back
+            </button>
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={checkRows}
+              disabled={isBusy || mapping.name === null}
+            >
+              {isBusy ? "Checking..." : "Check rows"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === "preview" && data && result && (
+        <>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                className="radio radio-sm"
+                checked={mode === "merge"}
+                onChange={() => void preview(data, "merge")}
+                disabled={isBusy}
+              />
+              Add to the inventory
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                className="radio radio-sm"
+                checked={mode === "replace"}
+                onChange={() => void preview(data, "replace")}
+                disabled={isBusy || !isOwner}
+              />
+              Replace the inventory {!isOwner && "(owners only)"}
+            </label>
+          </div>
+
+          <ul className="text-sm">
+            <li>{result.summary.created} new items</li>
+            {result.summary.merged > 0 && (
+              <li>
+                {result.summary.merged} added to items with the same name, unit
+                and location
+              </li>
+            )}
+            {result.summary.deleted > 0 && (
+              <li className="text-error">
+                {result.summary.deleted} items there now will be deleted
+              </li>
+            )}
+            {result.summary.newLocations.length > 0 && (
+              <li>New locations: {result.summary.newLocations.join(", ")}</li>
+            )}
+            {result.removals.length > 0 && (
+              <li>{result.summary.removals} waste log entries</li>
+            )}
+            {result.summary.household?.currency && (
+              <li>Prices will be in {result.summary.household.currency}</li>
+            )}
+            {result.summary.household?.monthlyBudget !== undefined && (
+              <li>
+                {result.summary.household.monthlyBudget === null
+                  ? "No monthly budget"
+                  : `Monthly budget: ${formatMoney(
+                      result.summary.household.monthlyBudget,
+                      result.summary.household.currency ??
+                        activeHousehold?.currency ??
+                        "EUR"
+                    )}`}
+              </li>
+            )}
+            {result.summary.invalid > 0 && (
+              <li className="text-error">
+                {result.summary.invalid} rows with errors will be left out
+              </li>
+            )}
+          </ul>
+
+          <div className="overflow-x-auto max-h-96">
+            <table className="table table-sm table-pin-rows">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Item</th>
+                  <th>Result</th>
+                  <th>Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.items.map((row) => (
+                  <tr key={row.row}>
+                    <td>{rowNumber(row.row)}</td>
+                    <td>{row.name}</td>
+                    <td>
+                      <span
+                        className={`badge badge-sm ${ACTION_BADGES[row.action]}`}
+                      >
+                        {ACTION_LABELS[row.action]}
+                      </span>
+                    </td>
+                    <td className="text-sm text-error">
+                      {row.errors
+                        .map((e) => (e.path ? `${e.path}: ` : "") + e.message)
+                        .join("; ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {badRemovals > 0 && (
+            <p className="text-sm text-error">
+              {badRemovals} waste log entries have errors and will be left out.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => (csv ? setStep("map") : reset())}
+              disabled={isBusy}
+            >
+              Back
+            </button>
+            <button
+              className={`btn btn-sm ${mode === "replace" ? "btn-error" : "btn-primary"}`}
+              onClick={() => void handleImport()}
+              disabled={
+                isBusy || (importing === 0 && result.summary.removals === 0)
+              }
+            >
+              {isBusy ? "Importing..." : `Import ${importing} items`}
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
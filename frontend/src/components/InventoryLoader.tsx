@@ -0,0 +1,111 @@
+/**
+ * ============================================================================
+ * INVENTORY LOADER - Keeps the Redux Inventory in Sync With the Household
+ * ============================================================================
+ *
+ * Rendered once in App.tsx (it draws nothing). It:
+ * 1. Loads the active household's items (plus its locations and shelf-life
+ *    rules) whenever the household changes, so every page can read them
+ *    from Redux without fetching them
+ * 2. Shows ONE summary alert after the first load, e.g.
+ *    "3 items expire in the next 2 days", with a button to see them. It's
+ *    also kept in the notification center under the Navbar bell.
+ *
+ * The alert is shown once per household per app load - not again every time
+ * you visit the Dashboard.
+ */
+
+import { useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchItems,
+  selectAllItems,
+  selectInventoryHouseholdId,
+  selectInventoryStatus,
+} from "../store/inventorySlice";
+import { fetchLocations } from "../store/locationsSlice";
+import { fetchShelfLifeRules } from "../store/shelfLifeSlice";
+import { clearHistory } from "../store/historySlice";
+import { DEFAULT_SETTINGS, summarizeExpiry } from "../lib/expiry";
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+export default function InventoryLoader() {
+  const { user, activeHousehold } = useAuth();
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+
+  const items = useAppSelector(selectAllItems);
+  const status = useAppSelector(selectInventoryStatus);
+  const loadedHouseholdId = useAppSelector(selectInventoryHouseholdId);
+
+  const householdId = activeHousehold?.id;
+  useEffect(() => {
+    // Undo history refers to the previous household's items
+    dispatch(clearHistory());
+    if (householdId) {
+      dispatch(fetchItems(householdId));
+      dispatch(fetchLocations(householdId));
+      dispatch(fetchShelfLifeRules(householdId));
+    }
+  }, [householdId, dispatch]);
+
+  // Households we've already shown the summary for during this app load
+  const alerted = useRef(new Set<string>());
+
+  useEffect(() => {
+    // Wait until THIS household's items have loaded
+    if (
+      !householdId ||
+      loadedHouseholdId !== householdId ||
+      status !== "succeeded"
+    )
+      return;
+    if (alerted.current.has(householdId)) return;
+    alerted.current.add(householdId);
+
+    const settings = user?.settings ?? DEFAULT_SETTINGS;
+    const { expired, pastBestBefore, expiringSoon } = summarizeExpiry(
+      items,
+      settings
+    );
+
+    const parts = [];
+    if (expired > 0) parts.push(`${plural(expired, "item")} expired`);
+    if (pastBestBefore > 0)
+      parts.push(`${plural(pastBestBefore, "item")} past best-before`);
+    if (expiringSoon > 0)
+      parts.push(
+        `${plural(expiringSoon, "item")} expire in the next ${plural(
+          settings.expirySoonDays,
+          "day"
+        )}`
+      );
+    if (parts.length === 0) return;
+
+    // Red when something is actually unsafe, yellow otherwise. Stays until
+    // dismissed - it's the one thing the app most needs you to see.
+    const link = `/dashboard?expiry=${expired + pastBestBefore > 0 ? "expired" : "soon"}`;
+    showToast(parts.join(", "), expired > 0 ? "error" : "warning", {
+      duration: null,
+      notify: true,
+      link,
+      actions: [{ label: "Show me", onClick: () => navigate(link) }],
+    });
+  }, [
+    householdId,
+    loadedHouseholdId,
+    status,
+    items,
+    user,
+    showToast,
+    navigate,
+  ]);
+
+  return null;
+}
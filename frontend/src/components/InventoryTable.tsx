@@ -0,0 +1,330 @@
+import { Fragment, useState } from "react";
+import type { FoodItem, ItemBatch } from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+import type { UserSettings } from "../types/user";
+import { useAppSelector } from "../store/hooks";
+import {
+  selectAllLocations,
+  selectLocationEntities,
+} from "../store/locationsSlice";
+import {
+  DEFAULT_SETTINGS,
+  EXPIRY_BADGE_CLASS,
+  describeExpiry,
+  getExpiryStatus,
+} from "../lib/expiry";
+import { formatQuantity } from "../lib/units";
+import { formatMoney, itemValue } from "../lib/money";
+
+interface InventoryTableProps {
+  items: FoodItem[];
+  onIncrement: (item: FoodItem) => void;
+  onDecrement: (item: FoodItem) => void;
+  onEdit: (item: FoodItem) => void;
+  onDelete: (item: FoodItem) => void;
+  onMove: (item: FoodItem, locationId: InventoryLocation["id"]) => void;
+  onConsume: (item: FoodItem) => void; // "Use part of it"
+  onAddBatch: (item: FoodItem) => void; // "Bought more"
+  onRemoveBatch: (item: FoodItem, batch: ItemBatch) => void;
+  onFinish: (item: FoodItem) => void; // Eaten, wasted...? (logged, then removed)
+  onShowHistory: (item: FoodItem) => void;
+  readOnly?: boolean; // Hide every control that changes an item
+  settings?: UserSettings; // Thresholds for colouring the Expires column
+  currency?: string; // The household's, for what items are worth
+  emptyMessage?: string; // Shown when there are no items
+  // Checkboxes for bulk actions (left out = no checkboxes)
+  selectedIds?: FoodItem["id"][];
+  onSelectionChange?: (ids: FoodItem["id"][]) => void;
+}
+
+export default function InventoryTable({
+  items,
+  onIncrement,
+  onDecrement,
+  onEdit,
+  onDelete,
+  onMove,
+  onConsume,
+  onAddBatch,
+  onRemoveBatch,
+  onFinish,
+  onShowHistory,
+  readOnly = false,
+  settings = DEFAULT_SETTINGS,
+  currency = "EUR",
+  emptyMessage = "No items yet.",
+  selectedIds = [],
+  onSelectionChange,
+}: InventoryTableProps) {
+  const locations = useAppSelector(selectAllLocations);
+  const locationsById = useAppSelector(selectLocationEntities);
+  // Items whose batches are listed under them
+  const [expandedIds, setExpandedIds] = useState<FoodItem["id"][]>([]);
+
+  if (items.length === 0) {
+    return <p className="opacity-70">{emptyMessage}</p>;
+  }
+
+  const selectable = !readOnly && onSelectionChange !== undefined;
+  // Where "Freeze" puts a cooked meal (it keeps for months there)
+  const freezer = locations.find((l) => l.kind === "freezer");
+  const allSelected = items.every((item) => selectedIds.includes(item.id));
+  const toggleItem = (id: FoodItem["id"]) =>
+    onSelectionChange?.(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selected) => selected !== id)
+        : [...selectedIds, id]
+    );
+  const toggleExpanded = (id: FoodItem["id"]) =>
+    setExpandedIds(
+      expandedIds.includes(id)
+        ? expandedIds.filter((expanded) => expanded !== id)
+        : [...expandedIds, id]
+    );
+  const columnCount = selectable ? 7 : 6;
+  // The header checkbox (de)selects every item shown
+  const toggleAll = () =>
+    onSelectionChange?.(allSelected ? [] : items.map((item) => item.id));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="table table-zebra">
+        <thead>
+          <tr>
+            {selectable && (
+              <th>
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  aria-label="Select all"
+                />
+              </th>
+            )}
+            <th>Name</th>
+            <th>Category</th>
+            <th>Location</th>
+            <th>Quantity</th>
+            <th>Expires</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => (
+            <Fragment key={item.id}>
+              <tr>
+                {selectable && (
+                  <td>
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={selectedIds.includes(item.id)}
+                      onChange={() => toggleItem(item.id)}
+                      aria-label={`Select ${item.name}`}
+                    />
+                  </td>
+                )}
+                <td>
+                  <div className="font-medium">{item.name}</div>
+                  {item.notes && (
+                    <div className="text-xs opacity-60">{item.notes}</div>
+                  )}
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.tags.map((tag) => (
+                        <span key={tag} className="badge badge-xs badge-ghost">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </td>
+                <td>
+                  <span className="badge badge-outline">{item.category}</span>
+                </td>
+                <td>
+                  {readOnly ? (
+                    locationsById[item.locationId]?.name
+                  ) : (
+                    // "Move to..." - picking another location moves the item
+                    <select
+                      className="select select-ghost select-xs"
+                      value={item.locationId}
+                      onChange={(e) => onMove(item, e.target.value)}
+                      aria-label={`Move ${item.name} to`}
+                    >
+                      {locations.map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {location.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td>
+                  <div className="flex items-center gap-2">
+                    {!readOnly && (
+                      <button
+                        className="btn btn-xs btn-circle"
+                        onClick={() => onDecrement(item)}
+                        disabled={item.quantity <= 0}
+                        aria-label={
+                          item.unit === "portion"
+                            ? `Eat a portion of ${item.name}`
+                            : `Decrease ${item.name}`
+                        }
+                        title={
+                          item.unit === "portion" ? "Eat a portion" : undefined
+                        }
+                      >
+                        -
+                      </button>
+                    )}
+                    <span>{formatQuantity(item.quantity, item.unit)}</span>
+                    {!readOnly && (
+                      <button
+                        className="btn btn-xs btn-circle"
+                        onClick={() => onIncrement(item)}
+                        aria-label={`Increase ${item.name}`}
+                      >
+                        +
+                      </button>
+                    )}
+                  </div>
+                  {item.batches.length > 1 && (
+                    <button
+                      className="btn btn-link btn-xs px-0"
+                      onClick={() => toggleExpanded(item.id)}
+                      aria-expanded={expandedIds.includes(item.id)}
+                    >
+                      {item.batches.length} batches
+                      {expandedIds.includes(item.id) ? " ▴" : " ▾"}
+                    </button>
+                  )}
+                  {item.price !== null && (
+                    <div
+                      className="text-xs opacity-60"
+                      title={item.store ? `Bought at ${item.store}` : undefined}
+                    >
+                      worth {formatMoney(itemValue(item) ?? 0, currency)}
+                    </div>
+                  )}
+                </td>
+                <td>
+                  {item.expiryDate ? (
+                    <span
+                      className={`badge ${EXPIRY_BADGE_CLASS[getExpiryStatus(item, settings)]}`}
+                      title={describeExpiry(item)}
+                    >
+                      {item.expiryDate}
+                    </span>
+                  ) : (
+                    "-"
+                  )}
+                </td>
+                <td className="flex gap-1 justify-end">
+                  <button
+                    className="btn btn-xs btn-ghost"
+                    onClick={() => onShowHistory(item)}
+                  >
+                    History
+                  </button>
+                  {!readOnly && (
+                    <>
+                      {item.quantity > 0 && (
+                        <button
+                          className="btn btn-xs btn-ghost"
+                          onClick={() => onConsume(item)}
+                        >
+                          Use...
+                        </button>
+                      )}
+                      <button
+                        className="btn btn-xs btn-ghost"
+                        onClick={() => onAddBatch(item)}
+                      >
+                        Bought more...
+                      </button>
+                      {item.category === "meals" &&
+                        freezer &&
+                        item.location !== "freezer" && (
+                          <button
+                            className="btn btn-xs btn-ghost"
+                            onClick={() => onMove(item, freezer.id)}
+                          >
+                            Freeze
+                          </button>
+                        )}
+                      <button
+                        className="btn btn-xs btn-ghost"
+                        onClick={() => onFinish(item)}
+                      >
+                        {item.quantity > 0 ? "Remove..." : "Used up..."}
+                      </button>
+                      <button
+                        className="btn btn-xs btn-ghost"
+                        onClick={() => onEdit(item)}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="btn btn-xs btn-ghost text-error"
+                        onClick={() => onDelete(item)}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+              {expandedIds.includes(item.id) && (
+                // One line per purchase, the one used first on top
+                <tr>
+                  <td colSpan={columnCount}>
+                    <ul className="flex flex-col gap-1 ml-4 text-sm">
+                      {item.batches.map((batch) => (
+                        <li key={batch.id} className="flex items-center gap-3">
+                          <span className="w-24">
+                            {formatQuantity(batch.quantity, item.unit)}
+                          </span>
+                          <span className="w-36 opacity-60">
+                            {batch.purchaseDate
+                              ? `bought ${batch.purchaseDate}`
+                              : "purchase date unknown"}
+                          </span>
+                          {batch.expiryDate ? (
+                            <span
+                              className={`badge badge-sm ${EXPIRY_BADGE_CLASS[getExpiryStatus({ ...item, expiryDate: batch.expiryDate }, settings)]}`}
+                              title={describeExpiry({
+                                ...item,
+                                expiryDate: batch.expiryDate,
+                              })}
+                            >
+                              {batch.expiryDate}
+                            </span>
+                          ) : (
+                            <span className="opacity-60">no expiry date</span>
+                          )}
+                          {!readOnly && (
+                            <button
+                              className="btn btn-xs btn-ghost text-error"
+                              onClick={() => onRemoveBatch(item, batch)}
+                              aria-label={`Remove this batch of ${item.name}`}
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import * as savedViewService from "../services/savedViewService";
+import { FOOD_CATEGORIES } from "../types/inventory";
+import type { SavedView } from "../types/savedView";
+import {
+  DEFAULT_QUERY,
+  EXPIRY_WINDOWS,
+  SORT_FIELDS,
+  isFiltered,
+  parseQuery,
+  toSearchParams,
+} from "../lib/inventoryQuery";
+import type {
+  ExpiryWindow,
+  InventoryQuery,
+  SortField,
+} from "../lib/inventoryQuery";
+
+interface InventoryToolbarProps {
+  query: InventoryQuery;
+  onChange: (query: InventoryQuery) => void;
+  tags: string[]; // Every tag used in the inventory
+}
+
+// Add `value` to the list, or take it out if it's already there
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+/**
+ * Search, filters, sort and the user's saved views for the Dashboard. The
+ * query itself lives in the URL (see lib/inventoryQuery.ts); this only
+ * edits it. Locations are picked with the LocationTabs below it.
+ */
+export default function InventoryToolbar({
+  query,
+  onChange,
+  tags,
+}: InventoryToolbarProps) {
+  const { activeHousehold } = useAuth();
+  const { showToast } = useUI();
+  const [views, setViews] = useState<SavedView[]>([]);
+
+  // Views belong to the household, so reload them when it changes
+  const householdId = activeHousehold?.id;
+  useEffect(() => {
+    setViews([]);
+    if (!householdId) return;
+    // Switching household again before they load cancels the old request
+    const controller = new AbortController();
+    savedViewService
+      .listSavedViews(controller.signal)
+      .then(setViews)
+      // (The API client already toasted the error; the filters still work)
+      .catch(() => setViews([]));
+    return () => controller.abort();
+  }, [householdId]);
+
+  const update = (changes: Partial<InventoryQuery>) =>
+    onChange({ ...query, ...changes });
+
+  const currentQuery = toSearchParams(query).toString();
+
+  const handleSaveView = async () => {
+    const name = window.prompt("Name this view, e.g. Freezer meat")?.trim();
+    if (!name) return;
+    try {
+      const view = await savedViewService.createSavedView({
+        name,
+        query: currentQuery,
+      });
+      setViews((current) =>
+        [...current, view].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      showToast(`Saved view ${name}`, "success");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not save view", "error");
+    }
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete the view ${view.name}?`)) return;
+    try {
+      await savedViewService.deleteSavedView(view.id);
+      setViews((current) => current.filter((v) => v.id !== view.id));
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not delete view", "error");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2 items-end">
+        <label className="form-control grow">
+          <span className="label-text">Search</span>
+          <input
+            type="search"
+            className="input input-bordered input-sm w-full"
+            placeholder="Name, notes or tags - typos are fine"
+            value={query.q}
+            onChange={(e) => update({ q: e.target.value })}
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Expiry</span>
+          <select
+            className="select select-bordered select-sm"
+            value={query.expiry}
+            onChange={(e) => update({ expiry: e.target.value as ExpiryWindow })}
+          >
+            {Object.entries(EXPIRY_WINDOWS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="form-control">
+          <span className="label-text">Sort by</span>
+          <div className="join">
+            <select
+              className="select select-bordered select-sm join-item"
+              value={query.sort}
+              onChange={(e) => update({ sort: e.target.value as SortField })}
+            >
+              {Object.entries(SORT_FIELDS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn btn-sm join-item"
+              onClick={() => update({ descending: !query.descending })}
+              aria-label={
+                query.descending ? "Sort ascending" : "Sort descending"
+              }
+            >
+              {query.descending ? "↓" : "↑"}
+            </button>
+          </div>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-1 items-center">
+        <span className="text-sm opacity-70 mr-1">Category:</span>
+        {FOOD_CATEGORIES.map((category) => (
+          <button
+            key={category}
+            className={`btn btn-xs ${query.categories.includes(category) ? "btn-primary" : "btn-ghost"}`}
+            onClick={() =>
+              update({ categories: toggle(query.categories, category) })
+            }
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 items-center">
+          <span className="text-sm opacity-70 mr-1">Tags:</span>
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              className={`btn btn-xs ${query.tags.includes(tag) ? "btn-secondary" : "btn-ghost"}`}
+              onClick={() => update({ tags: toggle(query.tags, tag) })}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1 items-center">
+        <span className="text-sm opacity-70 mr-1">Views:</span>
+        {views.map((view) => (
+          <div key={view.id} className="join">
+            <button
+              className={`btn btn-xs join-item ${view.query === currentQuery ? "btn-accent" : ""}`}
+              onClick={() =>
+                onChange(parseQuery(new URLSearchParams(view.query)))
+              }
+            >
+              {view.name}
+            </button>
+            <button
+              className="btn btn-xs join-item"
+              onClick={() => handleDeleteView(view)}
+              aria-label={`Delete the view ${view.name}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          className="btn btn-xs btn-outline"
+          onClick={handleSaveView}
+          disabled={currentQuery === ""}
+        >
+          Save this view
+        </button>
+        {isFiltered(query) && (
+          <button
+            className="btn btn-xs btn-ghost"
+            onClick={() =>
+              onChange({
+                ...DEFAULT_QUERY,
+                sort: query.sort,
+                descending: query.descending,
+              })
+            }
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,419 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { EXPIRY_TYPES, FOOD_CATEGORIES, FOOD_UNITS } from "../types/inventory";
+import type { NewFoodItem } from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+import { useAppSelector } from "../store/hooks";
+import { selectAllLocations } from "../store/locationsSlice";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import { todayIso } from "../lib/expiry";
+import { describeSuggestion, suggestExpiry } from "../lib/shelfLife";
+import { convertQuantity } from "../lib/units";
+import type { ExpirySuggestion } from "../lib/shelfLife";
+
+const createEmptyItem = (): NewFoodItem => ({
+  name: "",
+  category: "produce",
+  quantity: 1,
+  unit: "count",
+  purchaseDate: new Date().toISOString().slice(0, 10),
+  expiryDate: null,
+  expiryType: "best-before",
+  locationId: "", // = defaultLocationId, see below
+  notes: "",
+  tags: [],
+  price: null,
+  purchaseQuantity: null,
+  store: "",
+  parLevel: null,
+});
+
+// Copy only the editable fields, so editing a full FoodItem never sends
+// its id/owner/timestamps back as "changes"
+const toFormValues = (item: NewFoodItem): NewFoodItem => ({
+  name: item.name,
+  category: item.category,
+  quantity: item.quantity,
+  unit: item.unit,
+  purchaseDate: item.purchaseDate,
+  expiryDate: item.expiryDate,
+  expiryType: item.expiryType,
+  locationId: item.locationId,
+  notes: item.notes,
+  tags: item.tags,
+  price: item.price,
+  purchaseQuantity: item.purchaseQuantity,
+  store: item.store,
+  parLevel: item.parLevel,
+});
+
+// "Meal prep, kids" → ["meal prep", "kids"]
+const parseTags = (text: string) => [
+  ...new Set(
+    text
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+];
+
+// The price field is either what was paid for everything, or per unit
+type PriceMode = "total" | "unit";
+
+// Changing any of these can change the suggested expiry date
+const SUGGESTION_FIELDS: (keyof NewFoodItem)[] = [
+  "name",
+  "category",
+  "locationId",
+  "purchaseDate",
+];
+
+interface ItemFormProps {
+  initialItem?: NewFoodItem;
+  submitLabel: string;
+  onSubmit: (item: NewFoodItem) => void | Promise<void>;
+  onCancel?: () => void;
+  defaultLocationId?: InventoryLocation["id"]; // Where new items go
+}
+
+export default function ItemForm({
+  initialItem,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  defaultLocationId: preferredLocationId,
+}: ItemFormProps) {
+  const { activeHousehold } = useAuth();
+  const currency = activeHousehold?.currency ?? "EUR";
+  const rules = useAppSelector(selectShelfLifeRules);
+  const locations = useAppSelector(selectAllLocations);
+  const [item, setItem] = useState<NewFoodItem>(() =>
+    initialItem ? toFormValues(initialItem) : createEmptyItem()
+  );
+  // Typed as text and split into tags on submit
+  const [tagsText, setTagsText] = useState(item.tags.join(", "));
+  // Typed as text so it can be left empty (= no price)
+  const [priceText, setPriceText] = useState(
+    item.price === null ? "" : String(item.price)
+  );
+  const [priceMode, setPriceMode] = useState<PriceMode>("total");
+  // Typed as text so it can be left empty (= no par level)
+  const [parLevelText, setParLevelText] = useState(
+    item.parLevel === null ? "" : String(item.parLevel)
+  );
+
+  // Where the expiry date came from: a suggestion, the user ("manual"), or
+  // nothing yet (null). An existing item's saved date counts as manual.
+  const [expirySource, setExpirySource] = useState<
+    ExpirySuggestion | "manual" | null
+  >(() => (initialItem?.expiryDate ? "manual" : null));
+
+  // New items go where the caller asks (e.g. the location being viewed),
+  // else the first fridge - unless the user picks somewhere else
+  const defaultLocationId =
+    (preferredLocationId && locations.some((l) => l.id === preferredLocationId)
+      ? preferredLocationId
+      : (locations.find((l) => l.kind === "fridge") ?? locations[0])?.id) ?? "";
+  const locationId = item.locationId || defaultLocationId;
+
+  /**
+   * Update one field, re-suggesting the expiry date when it depends on it.
+   * A date the user typed is kept - EXCEPT when an existing item moves to
+   * another location, where the old date no longer applies. A move counts
+   * from today; a new item counts from its purchase date.
+   */
+  const update = <K extends keyof NewFoodItem>(
+    field: K,
+    value: NewFoodItem[K]
+  ) => {
+    const next = { ...item, locationId, [field]: value };
+    const kind = locations.find((l) => l.id === next.locationId)?.kind;
+
+    // Switching 1 kg → g keeps the same amount: 1000 g
+    if (field === "unit") {
+      next.quantity =
+        convertQuantity(item.quantity, item.unit, next.unit) ?? next.quantity;
+      if (item.purchaseQuantity !== null) {
+        next.purchaseQuantity =
+          convertQuantity(item.purchaseQuantity, item.unit, next.unit) ??
+          next.purchaseQuantity;
+      }
+      if (parLevelText.trim() !== "") {
+        const parLevel = convertQuantity(
+          Number(parLevelText),
+          item.unit,
+          next.unit
+        );
+        if (parLevel !== null) setParLevelText(String(parLevel));
+      }
+    }
+
+    if (field === "expiryDate" || field === "expiryType") {
+      setExpirySource("manual");
+    } else if (kind && SUGGESTION_FIELDS.includes(field)) {
+      const isMove = initialItem !== undefined && field === "locationId";
+      if (expirySource !== "manual" || isMove) {
+        const fromDate = isMove
+          ? todayIso()
+          : (next.purchaseDate ?? todayIso());
+        const suggestion = suggestExpiry(
+          { ...next, location: kind },
+          rules,
+          fromDate
+        );
+        if (suggestion) {
+          next.expiryDate = suggestion.expiryDate;
+          next.expiryType = suggestion.expiryType ?? next.expiryType;
+          setExpirySource(suggestion);
+        }
+      }
+    }
+
+    setItem(next);
+  };
+
+  /**
+   * The price as the server stores it: what was paid, and for how much.
+   * A newly typed price is for the quantity in the form; an unchanged one
+   * keeps the amount it was for (the item may have been half used since).
+   */
+  const priceFields = (): Pick<NewFoodItem, "price" | "purchaseQuantity"> => {
+    if (priceText.trim() === "") return { price: null, purchaseQuantity: null };
+    const typed = Number(priceText);
+    if (priceMode === "unit") {
+      return { price: typed * item.quantity, purchaseQuantity: item.quantity };
+    }
+    const unchanged = initialItem && typed === initialItem.price;
+    return {
+      price: typed,
+      purchaseQuantity: unchanged ? item.purchaseQuantity : item.quantity,
+    };
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    await onSubmit({
+      ...item,
+      ...priceFields(),
+      locationId,
+      name: item.name.trim(),
+      store: item.store.trim(),
+      tags: parseTags(tagsText),
+      parLevel: parLevelText.trim() === "" ? null : Number(parLevelText),
+    });
+    // Adding (not editing)? Clear the form for the next item
+    if (!initialItem) {
+      setItem(createEmptyItem());
+      setTagsText("");
+      setPriceText("");
+      setParLevelText("");
+      setExpirySource(null);
+    }
+  };
+
+  // Editing a price that was for a different amount than is left now
+  const pricedAmount =
+    priceMode === "total" &&
+    item.purchaseQuantity !== null &&
+    item.purchaseQuantity !== item.quantity &&
+    Number(priceText) === item.price
+      ? item.purchaseQuantity
+      : null;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end"
+    >
+      <label className="form-control col-span-2">
+        <span className="label-text">Name</span>
+        <input
+          className="input input-bordered w-full"
+          value={item.name}
+          onChange={(e) => update("name", e.target.value)}
+          required
+        />
+      </label>
+      <label className="form-control">
+        <span className="label-text">Category</span>
+        <select
+          className="select select-bordered w-full"
+          value={item.category}
+          onChange={(e) =>
+            update("category", e.target.value as NewFoodItem["category"])
+          }
+        >
+          {FOOD_CATEGORIES.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="form-control">
+        <span className="label-text">Location</span>
+        <select
+          className="select select-bordered w-full"
+          value={locationId}
+          onChange={(e) => update("locationId", e.target.value)}
+          required
+        >
+          {locations.map((location) => (
+            <option key={location.id} value={location.id}>
+              {location.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="form-control">
+        <span className="label-text">Quantity</span>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          className="input input-bordered w-full"
+          value={item.quantity}
+          onChange={(e) => update("quantity", Number(e.target.value))}
+          required
+        />
+      </label>
+      <label className="form-control">
+        <span className="label-text">Unit</span>
+        <select
+          className="select select-bordered w-full"
+          value={item.unit}
+          onChange={(e) =>
+            update("unit", e.target.value as NewFoodItem["unit"])
+          }
+        >
+          {FOOD_UNITS.map((unit) => (
+            <option key={unit} value={unit}>
+              {unit}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="form-control">
+        <span className="label-text">Purchased</span>
+        <input
+          type="date"
+          className="input input-bordered w-full"
+          value={item.purchaseDate ?? ""}
+          onChange={(e) => update("purchaseDate", e.target.value || null)}
+        />
+      </label>
+      <label className="form-control">
+        <span className="label-text">Expires</span>
+        <input
+          type="date"
+          className="input input-bordered w-full"
+          value={item.expiryDate ?? ""}
+          onChange={(e) => update("expiryDate", e.target.value || null)}
+        />
+        {expirySource && (
+          <span className="label-text-alt opacity-60 mt-1">
+            {expirySource === "manual"
+              ? "Entered by you"
+              : describeSuggestion(expirySource)}
+          </span>
+        )}
+      </label>
+      <label className="form-control">
+        <span className="label-text">Date type</span>
+        <select
+          className="select select-bordered w-full"
+          value={item.expiryType}
+          onChange={(e) =>
+            update("expiryType", e.target.value as NewFoodItem["expiryType"])
+          }
+        >
+          {EXPIRY_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="form-control">
+        <span className="label-text">Price ({currency})</span>
+        <div className="join w-full">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            className="input input-bordered join-item w-full"
+            placeholder="Optional"
+            value={priceText}
+            onChange={(e) => setPriceText(e.target.value)}
+          />
+          <select
+            className="select select-bordered join-item"
+            value={priceMode}
+            onChange={(e) => setPriceMode(e.target.value as PriceMode)}
+            aria-label="Price is"
+          >
+            <option value="total">total</option>
+            <option value="unit">per {item.unit}</option>
+          </select>
+        </div>
+        {pricedAmount !== null && (
+          <span className="label-text-alt opacity-60 mt-1">
+            Paid for {pricedAmount} {item.unit}
+          </span>
+        )}
+      </label>
+      <label className="form-control">
+        <span className="label-text">Store</span>
+        <input
+          className="input input-bordered w-full"
+          placeholder="Optional"
+          value={item.store}
+          onChange={(e) => update("store", e.target.value)}
+        />
+      </label>
+      <label className="form-control">
+        <span className="label-text">Keep at least</span>
+        <input
+          type="number"
+          min={0.01}
+          step="any"
+          className="input input-bordered w-full"
+          placeholder="No par level"
+          value={parLevelText}
+          onChange={(e) => setParLevelText(e.target.value)}
+        />
+        <span className="label-text-alt opacity-60 mt-1">
+          In {item.unit}; any less goes on the shopping list
+        </span>
+      </label>
+      <label className="form-control col-span-2">
+        <span className="label-text">Notes</span>
+        <input
+          className="input input-bordered w-full"
+          value={item.notes}
+          onChange={(e) => update("notes", e.target.value)}
+        />
+      </label>
+      <label className="form-control col-span-2">
+        <span className="label-text">Tags</span>
+        <input
+          className="input input-bordered w-full"
+          placeholder="e.g. meat, meal prep"
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+        />
+      </label>
+      <div className="flex gap-2">
+        <button type="submit" className="btn btn-primary">
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" className="btn btn-ghost" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
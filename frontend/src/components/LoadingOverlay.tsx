@@ -0,0 +1,37 @@
+/**
+ * LOADING OVERLAY - The Global Spinner
+ *
+ * Rendered once in App.tsx. Covers the page while UIContext.isLoading is
+ * true - i.e. while any API request (or startLoading() job) is running.
+ *
+ * Most requests finish in a few milliseconds, and flashing a dark overlay
+ * on every "+" click would be worse than no spinner at all, so it only
+ * appears once loading has lasted SHOW_AFTER_MS.
+ */
+
+import { useEffect, useState } from "react";
+import { useUI } from "../contexts/UIContext";
+
+const SHOW_AFTER_MS = 400;
+
+export default function LoadingOverlay() {
+  const { isLoading } = useUI();
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading) {
+      setVisible(false);
+      return;
+    }
+    const timer = setTimeout(() => setVisible(true), SHOW_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [isLoading]);
+
+  if (!visible) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <span className="loading loading-spinner loading-lg"></span>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  addLocation,
+  deleteLocation,
+  renameLocation,
+  selectAllLocations,
+  selectLocationItemCounts,
+} from "../store/locationsSlice";
+import { STORAGE_LOCATIONS } from "../types/inventory";
+import type { StorageLocation } from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+
+interface LocationManagerProps {
+  readOnly?: boolean; // Viewers can see the locations but not change them
+}
+
+/**
+ * The household's storage locations: the default Fridge, Freezer and
+ * Pantry plus its own, like "Garage freezer".
+ */
+export default function LocationManager({
+  readOnly = false,
+}: LocationManagerProps) {
+  const dispatch = useAppDispatch();
+  const { showToast } = useUI();
+  const locations = useAppSelector(selectAllLocations);
+  const counts = useAppSelector(selectLocationItemCounts);
+
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<StorageLocation>("freezer");
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      await dispatch(addLocation({ name: name.trim(), kind })).unwrap();
+      showToast(`Added ${name.trim()}`, "success");
+      setName("");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not add location", "error");
+    }
+  };
+
+  const handleRename = async (location: InventoryLocation) => {
+    const newName = window.prompt("New name", location.name)?.trim();
+    if (!newName || newName === location.name) return;
+    try {
+      await dispatch(
+        renameLocation({ id: location.id, name: newName })
+      ).unwrap();
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not rename location", "error");
+    }
+  };
+
+  const handleDelete = async (location: InventoryLocation) => {
+    if (!window.confirm(`Delete ${location.name}?`)) return;
+    try {
+      await dispatch(deleteLocation(location.id)).unwrap();
+      showToast(`Deleted ${location.name}`, "info");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not delete location", "error");
+    }
+  };
+
+  return (
+    <div className="card bg-base-200 p-4 flex flex-col gap-3">
+      <h3 className="font-semibold">Storage locations</h3>
+
+      <table className="table table-sm">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Kind</th>
+            <th>Items</th>
+            {!readOnly && <th></th>}
+          </tr>
+        </thead>
+        <tbody>
+          {locations.map((location) => (
+            <tr key={location.id}>
+              <td>{location.name}</td>
+              <td>{location.kind}</td>
+              <td>{counts[location.id] ?? 0}</td>
+              {!readOnly && (
+                <td className="flex gap-1 justify-end">
+                  <button
+                    className="btn btn-xs btn-ghost"
+                    onClick={() => handleRename(location)}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    className="btn btn-xs btn-ghost text-error"
+                    onClick={() => handleDelete(location)}
+                    disabled={(counts[location.id] ?? 0) > 0}
+                    title="Only empty locations can be deleted"
+                  >
+                    Delete
+                  </button>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="flex flex-wrap gap-2 items-end">
+          <label className="form-control">
+            <span className="label-text">New location</span>
+            <input
+              className="input input-bordered input-sm"
+              placeholder="e.g. Garage freezer"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">Kind</span>
+            <select
+              className="select select-bordered select-sm"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as StorageLocation)}
+            >
+              {STORAGE_LOCATIONS.map((k) => (
+                <option key={k} value={k}>
+                  {k}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="submit" className="btn btn-sm">
+            Add location
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
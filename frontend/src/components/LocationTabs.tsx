@@ -0,0 +1,50 @@
+import { useAppSelector } from "../store/hooks";
+import {
+  selectAllLocations,
+  selectLocationItemCounts,
+} from "../store/locationsSlice";
+import type { InventoryLocation } from "../types/location";
+
+interface LocationTabsProps {
+  selected: InventoryLocation["id"][]; // Empty = every location
+  totalCount: number;
+  onSelect: (locationId: InventoryLocation["id"] | null) => void;
+}
+
+/**
+ * "All | Fridge | Freezer | Pantry | Garage freezer" with item counts, so
+ * you can see what's in the freezer without opening it.
+ */
+export default function LocationTabs({
+  selected,
+  totalCount,
+  onSelect,
+}: LocationTabsProps) {
+  const locations = useAppSelector(selectAllLocations);
+  const counts = useAppSelector(selectLocationItemCounts);
+
+  const tab = (
+    id: InventoryLocation["id"] | null,
+    label: string,
+    count: number
+  ) => (
+    <button
+      key={id ?? "all"}
+      role="tab"
+      className={`tab ${(id === null ? selected.length === 0 : selected.includes(id)) ? "tab-active" : ""}`}
+      onClick={() => onSelect(id)}
+    >
+      {label}
+      <span className="badge badge-sm badge-ghost ml-2">{count}</span>
+    </button>
+  );
+
+  return (
+    <div role="tablist" className="tabs tabs-boxed flex-wrap">
+      {tab(null, "All", totalCount)}
+      {locations.map((location) =>
+        tab(location.id, location.name, counts[location.id] ?? 0)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAppSelector } from "../store/hooks";
+import { selectAllLocations } from "../store/locationsSlice";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import type { FoodItem, FoodUnit, NewMeal } from "../types/inventory";
+import { todayIso } from "../lib/expiry";
+import { describeSuggestion, suggestExpiry } from "../lib/shelfLife";
+import { compatibleUnits, convertQuantity, formatQuantity } from "../lib/units";
+
+interface MealDialogProps {
+  items: FoodItem[]; // What the ingredients can be picked from
+  onSave: (meal: NewMeal) => void | Promise<void>;
+  onClose: () => void;
+}
+
+interface IngredientRow {
+  item: FoodItem;
+  amount: number;
+  unit: FoodUnit; // Any unit that converts to the item's own
+}
+
+/**
+ * Log something cooked (a stew, a week of lunches): pick the ingredients
+ * and how much of each went in, and it's saved as a "meals" item counted
+ * in portions - in the fridge by default, with the short expiry date that
+ * cooked food gets.
+ */
+export default function MealDialog({
+  items,
+  onSave,
+  onClose,
+}: MealDialogProps) {
+  const locations = useAppSelector(selectAllLocations);
+  const rules = useAppSelector(selectShelfLifeRules);
+
+  const [name, setName] = useState("");
+  const [portions, setPortions] = useState(2);
+  const [locationId, setLocationId] = useState(
+    () => (locations.find((l) => l.kind === "fridge") ?? locations[0])?.id ?? ""
+  );
+  // null until the user picks a date themselves
+  const [expiryDate, setExpiryDate] = useState<string | null>(null);
+  const [rows, setRows] = useState<IngredientRow[]>([]);
+
+  const available = items.filter(
+    (item) =>
+      item.quantity > 0 &&
+      item.category !== "meals" &&
+      !rows.some((row) => row.item.id === item.id)
+  );
+
+  const kind = locations.find((l) => l.id === locationId)?.kind;
+  const suggestion = kind
+    ? suggestExpiry({ name, category: "meals", location: kind }, rules)
+    : null;
+
+  const addRow = (id: FoodItem["id"]) => {
+    const item = items.find((i) => i.id === id);
+    if (!item) return;
+    setRows([...rows, { item, amount: item.quantity, unit: item.unit }]);
+  };
+
+  const updateRow = (index: number, changes: Partial<IngredientRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    await onSave({
+      name: name.trim(),
+      portions,
+      locationId,
+      purchaseDate: todayIso(),
+      expiryDate: expiryDate ?? suggestion?.expiryDate ?? null,
+      expiryType: suggestion?.expiryType ?? "use-by",
+      notes: `Made with ${rows.map((row) => row.item.name).join(", ")}`,
+      tags: [],
+      ingredients: rows.map(({ item, amount, unit }) => ({
+        itemId: item.id,
+        amount: convertQuantity(amount, unit, item.unit) ?? amount,
+      })),
+    });
+  };
+
+  return (
+    <div className="modal modal-open" role="dialog">
+      <form className="modal-box flex flex-col gap-3" onSubmit={handleSubmit}>
+        <h3 className="font-bold text-lg">Log a meal</h3>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="form-control col-span-2">
+            <span className="label-text">What did you make?</span>
+            <input
+              className="input input-bordered w-full"
+              placeholder="e.g. Chicken curry"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">Portions</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              step={1}
+              className="input input-bordered w-full"
+              value={portions}
+              onChange={(e) => setPortions(Number(e.target.value))}
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">Kept in</span>
+            <select
+              className="select select-bordered w-full"
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              required
+            >
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-control col-span-2">
+            <span className="label-text">Eat by</span>
+            <input
+              type="date"
+              className="input input-bordered w-full"
+              value={expiryDate ?? suggestion?.expiryDate ?? ""}
+              onChange={(e) => setExpiryDate(e.target.value || null)}
+            />
+            {expiryDate === null && suggestion && (
+              <span className="label-text-alt opacity-60 mt-1">
+                {describeSuggestion(suggestion)}
+              </span>
+            )}
+          </label>
+        </div>
+
+        <h4 className="font-semibold">Ingredients</h4>
+        <ul className="flex flex-col gap-2">
+          {rows.map((row, index) => (
+            <li key={row.item.id} className="flex items-center gap-2">
+              <span className="flex-1">
+                {row.item.name}
+                <span className="text-sm opacity-60">
+                  {" "}
+                  ({formatQuantity(row.item.quantity, row.item.unit)})
+                </span>
+              </span>
+              <input
+                type="number"
+                min={0.001}
+                step="any"
+                className="input input-bordered input-sm w-24"
+                value={row.amount}
+                onChange={(e) =>
+                  updateRow(index, { amount: Number(e.target.value) })
+                }
+                aria-label={`${row.item.name} used`}
+                required
+              />
+              <select
+                className="select select-bordered select-sm"
+                value={row.unit}
+                onChange={(e) =>
+                  updateRow(index, { unit: e.target.value as FoodUnit })
+                }
+                aria-label="Unit"
+              >
+                {compatibleUnits(row.item.unit).map((unit) => (
+                  <option key={unit} value={unit}>
+                    {unit}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="btn btn-ghost btn-sm"
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                aria-label={`Remove ${row.item.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+        <select
+          className="select select-bordered select-sm"
+          value=""
+          onChange={(e) => addRow(e.target.value)}
+          aria-label="Add an ingredient"
+        >
+          <option value="">Add an ingredient...</option>
+          {available.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name} ({formatQuantity(item.quantity, item.unit)})
+            </option>
+          ))}
+        </select>
+        <p className="text-xs opacity-60">
+          The amounts are taken out of the inventory; anything used up is logged
+          as eaten.
+        </p>
+
+        <div className="modal-action">
+          <button type="button" className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={rows.length === 0}
+          >
+            Save meal
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { COMMON_CURRENCIES, formatMoney } from "../lib/money";
+import type { HouseholdSettings } from "../types/household";
+
+interface MoneySettingsProps {
+  currency: string;
+  monthlyBudget: number | null;
+  onSave: (
+    changes: Pick<HouseholdSettings, "currency" | "monthlyBudget">
+  ) => void | Promise<void>;
+  readOnly?: boolean; // Only owners can change them
+}
+
+/**
+ * The household's currency (every price is in it) and its monthly grocery
+ * budget, which the Analytics page compares spending and waste against.
+ */
+export default function MoneySettings({
+  currency: savedCurrency,
+  monthlyBudget,
+  onSave,
+  readOnly = false,
+}: MoneySettingsProps) {
+  const [currency, setCurrency] = useState(savedCurrency);
+  // Typed as text so it can be left empty (= no budget)
+  const [budgetText, setBudgetText] = useState(
+    monthlyBudget === null ? "" : String(monthlyBudget)
+  );
+
+  // The saved currency may not be one of the common ones
+  const currencies = COMMON_CURRENCIES.includes(savedCurrency)
+    ? COMMON_CURRENCIES
+    : [savedCurrency, ...COMMON_CURRENCIES];
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSave({
+      currency,
+      monthlyBudget: budgetText.trim() === "" ? null : Number(budgetText),
+    });
+  };
+
+  if (readOnly) {
+    return (
+      <div className="card bg-base-200 p-4">
+        <h3 className="font-semibold mb-2">Money</h3>
+        <p>
+          Prices are in {savedCurrency}.{" "}
+          {monthlyBudget === null
+            ? "No monthly budget set."
+            : `Monthly budget: ${formatMoney(monthlyBudget, savedCurrency)}.`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="card bg-base-200 p-4 flex flex-col gap-2"
+    >
+      <h3 className="font-semibold">Money</h3>
+      <div className="flex flex-wrap gap-2 items-end">
+        <label className="form-control">
+          <span className="label-text">Currency</span>
+          <select
+            className="select select-bordered select-sm"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+          >
+            {currencies.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="form-control">
+          <span className="label-text">Monthly grocery budget</span>
+          <input
+            type="number"
+            min={0.01}
+            step="any"
+            className="input input-bordered input-sm"
+            placeholder="No budget"
+            value={budgetText}
+            onChange={(e) => setBudgetText(e.target.value)}
+          />
+        </label>
+        <button type="submit" className="btn btn-primary btn-sm">
+          Save
+        </button>
+      </div>
+      <p className="text-xs opacity-60">
+        Changing the currency doesn't convert prices already entered.
+      </p>
+    </form>
+  );
+}
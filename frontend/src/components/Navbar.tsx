@@ -1,6 +1,73 @@
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import NotificationBell from "./NotificationBell";
+import QuickAdd from "./QuickAdd";
+import SyncStatus from "./SyncStatus";
+import OnlineMembers from "./OnlineMembers";
+import { useAppSelector } from "../store/hooks";
+import { selectPendingCount } from "../store/syncSlice";
+import type { User, UserRole } from "../types/user";
+import { canEditInventory } from "../types/household";
+
+/**
+ * Menu links. Each one is only shown to the users who can open it, matching
+ * the route guards in App.tsx.
+ */
+interface NavLink {
+  to: string;
+  label: string;
+  requiresAuth?: boolean;
+  role?: UserRole;
+  devOnly?: boolean;
+}
+
+const NAV_LINKS: NavLink[] = [
+  { to: "/", label: "Homepage" },
+  { to: "/dashboard", label: "Dashboard", requiresAuth: true },
+  { to: "/shopping-list", label: "Shopping list", requiresAuth: true },
+  { to: "/recipes", label: "Recipes", requiresAuth: true },
+  { to: "/analytics", label: "Analytics", requiresAuth: true },
+  { to: "/activity", label: "Activity", requiresAuth: true },
+  { to: "/import-export", label: "Import & export", requiresAuth: true },
+  { to: "/household", label: "Household", requiresAuth: true },
+  { to: "/settings", label: "Settings", requiresAuth: true },
+  { to: "/contextTest", label: "Context test", devOnly: true },
+];
+
+const canSee = (link: NavLink, user: User | null) =>
+  (!link.devOnly || import.meta.env.DEV) &&
+  (!link.requiresAuth || user !== null) &&
+  (!link.role || user?.role === link.role);
 
 export default function Navbar() {
+  const {
+    user,
+    isAuthenticated,
+    logout,
+    households,
+    activeHousehold,
+    switchHousehold,
+  } = useAuth();
+  const { showToast } = useUI();
+  const navigate = useNavigate();
+  const pending = useAppSelector(selectPendingCount);
+
+  const handleLogout = async () => {
+    // Logging out empties the device, unsent changes included
+    if (
+      pending > 0 &&
+      !window.confirm(
+        `${pending} change${pending === 1 ? " hasn't" : "s haven't"} been sent yet and will be lost. Log out anyway?`
+      )
+    ) {
+      return;
+    }
+    await logout();
+    showToast("Logged out", "info");
+    navigate("/");
+  };
+
   return (
     <div className="p-4">
       <div className="navbar bg-primary-content/50 shadow-md rounded-xl border border-blue-900/30">
@@ -25,7 +92,29 @@ export default function Navbar() {
         <Link to="/" className="navbar-center">
           <a className="btn btn-ghost text-xl">wasteless</a>
         </Link>
-        <div className="navbar-end">
+        <div className="navbar-end gap-2">
+          {/* Household switcher - only needed when you're in more than one */}
+          {households.length > 1 && (
+            <select
+              className="select select-bordered select-sm max-w-40"
+              value={activeHousehold?.id ?? ""}
+              onChange={(e) => switchHousehold(e.target.value)}
+              aria-label="Active household"
+            >
+              {households.map((household) => (
+                <option key={household.id} value={household.id}>
+                  {household.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {/* Typing groceries in - for anyone who can change the food */}
+          {isAuthenticated && canEditInventory(activeHousehold?.role) && (
+            <QuickAdd />
+          )}
+          {isAuthenticated && <OnlineMembers />}
+          {isAuthenticated && <SyncStatus />}
+          {isAuthenticated && <NotificationBell />}
           <div className="dropdown dropdown-end">
             <div
               tabIndex={0}
@@ -51,15 +140,28 @@ export default function Navbar() {
               tabIndex={-1}
               className="menu menu-sm dropdown-content bg-base-100 rounded-box z-1 mt-3 w-52 p-2 shadow"
             >
-              <li>
-                <a>Homepage</a>
-              </li>
-              <li>
-                <a>Portfolio</a>
-              </li>
-              <li>
-                <a>About</a>
-              </li>
+              {NAV_LINKS.filter((link) => canSee(link, user)).map((link) => (
+                <li key={link.to}>
+                  <Link to={link.to}>{link.label}</Link>
+                </li>
+              ))}
+              {isAuthenticated ? (
+                <>
+                  <li className="menu-title">{user?.name}</li>
+                  <li>
+                    <button onClick={handleLogout}>Logout</button>
+                  </li>
+                </>
+              ) : (
+                <>
+                  <li>
+                    <Link to="/login">Log in</Link>
+                  </li>
+                  <li>
+                    <Link to="/register">Create account</Link>
+                  </li>
+                </>
+              )}
             </ul>
           </div>
         </div>
@@ -0,0 +1,111 @@
+import { useNavigate } from "react-router-dom";
+import { useUI } from "../contexts/UIContext";
+import type { AppNotification } from "../types/notification";
+
+const DOT_CLASS: Record<AppNotification["type"], string> = {
+  success: "bg-success",
+  error: "bg-error",
+  warning: "bg-warning",
+  info: "bg-info",
+};
+
+/**
+ * The bell in the Navbar: important alerts (see showToast's `notify`) with
+ * an unread count. Opening one marks it read and follows its link.
+ */
+export default function NotificationBell() {
+  const {
+    notifications,
+    unreadCount,
+    markNotificationRead,
+    markAllNotificationsRead,
+    clearNotifications,
+  } = useUI();
+  const navigate = useNavigate();
+
+  const open = (notification: AppNotification) => {
+    markNotificationRead(notification.id);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <div className="dropdown dropdown-end">
+      <div
+        tabIndex={0}
+        role="button"
+        className="btn btn-ghost btn-circle"
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        <div className="indicator">
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+            strokeWidth={1.5}
+            stroke="currentColor"
+            className="size-6"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M14.857 17.082a23.848 23.848 0 0 0 5.454-1.31A8.967 8.967 0 0 1 18 9.75V9A6 6 0 0 0 6 9v.75a8.967 8.967 0 0 1-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 0 1-5.714 0m5.714 0a3 3 0 1 1-5.714 0"
+            />
+          </svg>
+          {unreadCount > 0 && (
+            <span className="badge badge-xs badge-error indicator-item">
+              {unreadCount}
+            </span>
+          )}
+        </div>
+      </div>
+      <div
+        tabIndex={-1}
+        className="dropdown-content bg-base-100 rounded-box z-1 mt-3 w-80 p-2 shadow"
+      >
+        <div className="flex items-center justify-between px-2 py-1">
+          <span className="font-semibold">Notifications</span>
+          <div className="flex gap-1">
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={markAllNotificationsRead}
+              disabled={unreadCount === 0}
+            >
+              Mark all read
+            </button>
+            <button
+              className="btn btn-xs btn-ghost"
+              onClick={clearNotifications}
+              disabled={notifications.length === 0}
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-2 py-3 text-sm opacity-70">Nothing yet.</p>
+        ) : (
+          <ul className="menu menu-sm max-h-96 overflow-y-auto flex-nowrap">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  className={notification.read ? "opacity-60" : "font-medium"}
+                  onClick={() => open(notification)}
+                >
+                  <span
+                    className={`size-2 rounded-full shrink-0 ${notification.read ? "bg-base-300" : DOT_CLASS[notification.type]}`}
+                  ></span>
+                  <span className="flex flex-col items-start">
+                    <span>{notification.message}</span>
+                    <span className="text-xs opacity-60">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * ============================================================================
+ * OFFLINE SYNC - Keeps the Device Copy and the Server in Step
+ * ============================================================================
+ *
+ * Rendered once in App.tsx (it draws nothing). It:
+ * 1. Follows whether the server can be reached (every request tells
+ *    services/http.ts, plus the browser's online/offline events) and how
+ *    many changes are queued, into the sync slice for the Navbar
+ * 2. Sends the queued changes as soon as the server can be reached, and
+ *    checks again every 30 seconds while it can't
+ * 3. Shows what happened to changes that clashed with someone else's
+ *    (kept in the notification center too)
+ * 4. Logs out when the server says the session has expired - keeping the
+ *    unsent changes, which go out once the user logs in again
+ * 5. Saves what's in Redux to the device cache, so changes made online are
+ *    there too if the connection drops later
+ */
+
+import { useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  selectAllItems,
+  selectInventoryHouseholdId,
+  selectInventoryStatus,
+} from "../store/inventorySlice";
+import { selectAllLocations } from "../store/locationsSlice";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import {
+  connectionChanged,
+  pendingChanged,
+  selectPendingCount,
+  syncPending,
+} from "../store/syncSlice";
+import { setConnectionListener } from "../services/http";
+import { saveCachedList, setQueueListener } from "../services/offlineStore";
+import { checkConnection } from "../services/syncService";
+
+const RETRY_MS = 30_000;
+
+export default function OfflineSync() {
+  const { isAuthenticated, expireSession } = useAuth();
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+
+  const online = useAppSelector((state) => state.sync.online);
+  const pending = useAppSelector(selectPendingCount);
+
+  useEffect(() => {
+    setConnectionListener((reachable) =>
+      dispatch(connectionChanged(reachable))
+    );
+    setQueueListener((count) => dispatch(pendingChanged(count)));
+    // The browser knows before any request does
+    const handleOffline = () => dispatch(connectionChanged(false));
+    const handleOnline = () => void checkConnection();
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener("online", handleOnline);
+    return () => {
+      setConnectionListener(null);
+      setQueueListener(null);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [dispatch]);
+
+  // Online with something to send: send it
+  useEffect(() => {
+    if (!isAuthenticated || !online || pending === 0) return;
+    dispatch(syncPending())
+      .unwrap()
+      .then(({ conflicts, expired }) => {
+        for (const conflict of conflicts) {
+          showToast(`${conflict.itemName}: ${conflict.message}`, "warning", {
+            notify: true,
+            duration: null,
+          });
+        }
+        if (expired) {
+          showToast(
+            "Your session has expired - log in again to send your changes",
+            "warning"
+          );
+          expireSession();
+        }
+      })
+      .catch((err: Error) =>
+        showToast(`Could not sync your changes: ${err.message}`, "error")
+      );
+  }, [isAuthenticated, online, pending, dispatch, showToast, expireSession]);
+
+  // Offline: is it back yet?
+  useEffect(() => {
+    if (!isAuthenticated || online) return;
+    const timer = setInterval(() => void checkConnection(), RETRY_MS);
+    return () => clearInterval(timer);
+  }, [isAuthenticated, online]);
+
+  const items = useAppSelector(selectAllItems);
+  const status = useAppSelector(selectInventoryStatus);
+  const householdId = useAppSelector(selectInventoryHouseholdId);
+  const locations = useAppSelector(selectAllLocations);
+  const locationsHouseholdId = useAppSelector(
+    (state) => state.locations.householdId
+  );
+  const rules = useAppSelector(selectShelfLifeRules);
+  const rulesHouseholdId = useAppSelector(
+    (state) => state.shelfLife.householdId
+  );
+
+  useEffect(() => {
+    if (householdId && status === "succeeded") {
+      void saveCachedList(householdId, "items", items);
+    }
+  }, [householdId, status, items]);
+
+  useEffect(() => {
+    if (locationsHouseholdId && locations.length > 0) {
+      void saveCachedList(locationsHouseholdId, "locations", locations);
+    }
+  }, [locationsHouseholdId, locations]);
+
+  useEffect(() => {
+    if (rulesHouseholdId && rules.length > 0) {
+      void saveCachedList(rulesHouseholdId, "shelfLifeRules", rules);
+    }
+  }, [rulesHouseholdId, rules]);
+
+  return null;
+}
@@ -0,0 +1,48 @@
+import { useAuth } from "../contexts/AuthContext";
+import { useAppSelector } from "../store/hooks";
+import { selectMembersOnline } from "../store/presenceSlice";
+
+const MAX_SHOWN = 3;
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((part) => part.charAt(0).toUpperCase())
+    .join("");
+
+/**
+ * "Who's online": the other household members who have the app open right
+ * now, as initials (names on hover). Nothing when it's just you.
+ */
+export default function OnlineMembers() {
+  const { user } = useAuth();
+  const others = useAppSelector(selectMembersOnline).filter(
+    (member) => member.id !== user?.id
+  );
+  if (others.length === 0) return null;
+
+  const names = others.map((member) => member.name).join(", ");
+  return (
+    <div
+      className="avatar-group -space-x-3"
+      title={`Online now: ${names}`}
+      aria-label={`Online now: ${names}`}
+    >
+      {others.slice(0, MAX_SHOWN).map((member) => (
+        <div key={member.id} className="avatar avatar-placeholder">
+          <div className="bg-success text-success-content w-8 rounded-full">
+            <span className="text-xs">{initials(member.name)}</span>
+          </div>
+        </div>
+      ))}
+      {others.length > MAX_SHOWN && (
+        <div className="avatar avatar-placeholder">
+          <div className="bg-neutral text-neutral-content w-8 rounded-full">
+            <span className="text-xs">+{others.length - MAX_SHOWN}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
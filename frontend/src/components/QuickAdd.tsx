@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector, useAppStore } from "../store/hooks";
+import {
+  addBatch,
+  addItem,
+  selectAllItems,
+  selectSameItem,
+} from "../store/inventorySlice";
+import { selectAllLocations } from "../store/locationsSlice";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import { isSameItem } from "../types/inventory";
+import type { NewFoodItem } from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+import type { ShelfLifeRule } from "../types/shelfLife";
+import { todayIso } from "../lib/expiry";
+import { isEditingText } from "../lib/keyboard";
+import { parseQuickAdd } from "../lib/quickAdd";
+import type { QuickAddEntry } from "../lib/quickAdd";
+import { suggestExpiry } from "../lib/shelfLife";
+import { formatQuantity } from "../lib/units";
+
+/**
+ * The item to add for a parsed entry: where it said (or the fridge),
+ * bought today unless it said otherwise, and expiring when it said - or
+ * when the shelf-life rules suggest.
+ */
+function toNewItem(
+  entry: QuickAddEntry,
+  locations: InventoryLocation[],
+  rules: ShelfLifeRule[]
+): NewFoodItem {
+  const location =
+    locations.find((l) => l.id === entry.locationId) ??
+    locations.find((l) => l.kind === "fridge") ??
+    locations[0];
+  const purchaseDate = entry.purchaseDate ?? todayIso();
+  const suggestion = location
+    ? suggestExpiry({ ...entry, location: location.kind }, rules, purchaseDate)
+    : null;
+  return {
+    name: entry.name,
+    category: entry.category,
+    quantity: entry.quantity,
+    unit: entry.unit,
+    purchaseDate,
+    expiryDate: entry.expiryDate ?? suggestion?.expiryDate ?? null,
+    expiryType: entry.expiryType ?? suggestion?.expiryType ?? "best-before",
+    locationId: location?.id ?? "",
+    notes: "",
+    tags: [],
+    price: null,
+    purchaseQuantity: null,
+    store: "",
+    parLevel: null,
+  };
+}
+
+/**
+ * The Navbar's quick-add bar: type groceries as plain text, one per line
+ * or comma-separated ("2 milk fridge exp fri, 1kg chicken freezer"), check
+ * the preview and add them all at once. Opens with "/" or Ctrl+K (Cmd+K on
+ * a Mac). See lib/quickAdd.ts for what it understands.
+ */
+export default function QuickAdd() {
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const store = useAppStore();
+  const locations = useAppSelector(selectAllLocations);
+  const rules = useAppSelector(selectShelfLifeRules);
+  const inventory = useAppSelector(selectAllItems);
+
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const ctrlK =
+        (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k";
+      const slash = event.key === "/" && !isEditingText(event.target);
+      if (ctrlK || slash) {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const entries = useMemo(
+    () => parseQuickAdd(text, locations),
+    [text, locations]
+  );
+  const items = entries
+    .filter((entry) => entry.name)
+    .map((entry) => toNewItem(entry, locations, rules));
+
+  const close = () => {
+    setOpen(false);
+    setText("");
+  };
+
+  // One at a time, so a failure half-way leaves the rest in the box
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setAdding(true);
+    let added = 0;
+    try {
+      for (const item of items) {
+        const same = selectSameItem(store.getState(), item);
+        if (same) {
+          await dispatch(
+            addBatch({
+              id: same.id,
+              batch: {
+                quantity: item.quantity,
+                purchaseDate: item.purchaseDate,
+                expiryDate: item.expiryDate,
+              },
+              source: "quick-add",
+            })
+          ).unwrap();
+        } else {
+          await dispatch(addItem({ ...item, source: "quick-add" })).unwrap();
+        }
+        added++;
+      }
+      showToast(`Added ${added} item${added === 1 ? "" : "s"}`, "success");
+      close();
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not add items", "error");
+      setText(
+        entries
+          .filter((entry) => entry.name)
+          .slice(added)
+          .map((entry) => entry.text)
+          .join("\n")
+      );
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const locationName = (id: InventoryLocation["id"]) =>
+    locations.find((l) => l.id === id)?.name ?? "-";
+
+  return (
+    <>
+      <button
+        className="btn btn-ghost btn-sm gap-2"
+        onClick={() => setOpen(true)}
+        title="Quick add (/ or Ctrl+K)"
+      >
+        + Quick add
+        <kbd className="kbd kbd-xs">/</kbd>
+      </button>
+
+      {open && (
+        <div className="modal modal-open" role="dialog">
+          <form
+            className="modal-box max-w-2xl flex flex-col gap-3"
+            onSubmit={handleSubmit}
+          >
+            <h3 className="font-bold text-lg">Quick add</h3>
+            <textarea
+              className="textarea textarea-bordered w-full font-mono"
+              rows={4}
+              placeholder={
+                "2 milk fridge exp fri\n1kg chicken thighs freezer, 6 eggs"
+              }
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") close();
+              }}
+              aria-label="Items to add"
+              autoFocus
+            />
+            <p className="text-xs opacity-60">
+              One item per line or between commas: how much, what, where
+              ("fridge", "freezer"...) and when it expires ("exp fri", "use by
+              31/1", "bb in 3 days").
+            </p>
+
+            {entries.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="table table-sm">
+                  <thead>
+                    <tr>
+                      <th>Quantity</th>
+                      <th>Name</th>
+                      <th>Category</th>
+                      <th>Location</th>
+                      <th>Expires</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry, index) => {
+                      if (!entry.name) {
+                        return (
+                          <tr key={index}>
+                            <td colSpan={5} className="text-error">
+                              "{entry.text}": what is it?
+                            </td>
+                          </tr>
+                        );
+                      }
+                      const item = toNewItem(entry, locations, rules);
+                      const same = inventory.some((existing) =>
+                        isSameItem(existing, item)
+                      );
+                      return (
+                        <tr key={index}>
+                          <td>{formatQuantity(item.quantity, item.unit)}</td>
+                          <td>
+                            {item.name}
+                            {same && (
+                              <span className="badge badge-ghost badge-sm ml-2">
+                                adds to existing
+                              </span>
+                            )}
+                          </td>
+                          <td>{item.category}</td>
+                          <td className={entry.locationId ? "" : "opacity-60"}>
+                            {locationName(item.locationId)}
+                          </td>
+                          <td
+                            className={entry.expiryDate ? "" : "opacity-60"}
+                            title={
+                              entry.expiryDate
+                                ? undefined
+                                : "Suggested from the shelf-life guide"
+                            }
+                          >
+                            {item.expiryDate ?? "-"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="modal-action">
+              <button type="button" className="btn btn-ghost" onClick={close}>
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={items.length === 0 || adding}
+              >
+                {adding && <span className="loading loading-spinner" />}
+                Add {items.length} item{items.length === 1 ? "" : "s"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,445 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { addItem, selectAllItems } from "../store/inventorySlice";
+import { selectAllLocations } from "../store/locationsSlice";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import { selectAllEntries } from "../store/shoppingListSlice";
+import { FOOD_CATEGORIES, FOOD_UNITS } from "../types/inventory";
+import type {
+  FoodCategory,
+  FoodUnit,
+  NewFoodItem,
+  StorageLocation,
+} from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+import { todayIso } from "../lib/expiry";
+import { guessCategory } from "../lib/quickAdd";
+import { parseReceipt } from "../lib/receipt";
+import type { ReceiptLine } from "../lib/receipt";
+import { describeSuggestion, suggestExpiry } from "../lib/shelfLife";
+
+interface ReceiptDialogProps {
+  onClose: () => void;
+}
+
+// A receipt line as the user has checked it
+interface ReviewRow {
+  text: string; // The line as printed
+  include: boolean;
+  name: string;
+  quantity: number;
+  unit: FoodUnit;
+  category: FoodCategory;
+  locationId: InventoryLocation["id"];
+  expiryDate: string | null; // null until the user picks a date themselves
+  price: number | null;
+}
+
+// Where a new food goes when nothing says otherwise
+const KIND_BY_CATEGORY: Partial<Record<FoodCategory, StorageLocation>> = {
+  frozen: "freezer",
+  pantry: "pantry",
+  snacks: "pantry",
+};
+
+/**
+ * Add a shop's worth of groceries from the receipt: paste its text (from
+ * an e-receipt email, or a photo's text recognition), then check what each
+ * line was read as. Lines that look like something the household already
+ * has (in the inventory or on the shopping list) take that name, category
+ * and place; the rest get a guess. Everything is added as new items, with
+ * what was paid for it.
+ */
+export default function ReceiptDialog({ onClose }: ReceiptDialogProps) {
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const items = useAppSelector(selectAllItems);
+  const entries = useAppSelector(selectAllEntries);
+  const locations = useAppSelector(selectAllLocations);
+  const rules = useAppSelector(selectShelfLifeRules);
+
+  const [text, setText] = useState("");
+  const [store, setStore] = useState("");
+  const [purchaseDate, setPurchaseDate] = useState(todayIso);
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  const known = [...items, ...entries];
+  const knownNames = [...new Set(known.map((k) => k.name))];
+
+  const isKnown = (name: string) =>
+    knownNames.some((k) => k.toLowerCase() === name.trim().toLowerCase());
+
+  // The category and place of a known name - or a guess for a new one
+  const placeFor = (name: string) => {
+    const same = known.find(
+      (k) => k.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    const category = same?.category ?? guessCategory(name);
+    const kind = KIND_BY_CATEGORY[category] ?? "fridge";
+    const locationId =
+      same?.locationId ??
+      (locations.find((l) => l.kind === kind) ?? locations[0])?.id ??
+      "";
+    return { category, locationId };
+  };
+
+  const toRow = (line: ReceiptLine): ReviewRow => {
+    const name = line.match ?? line.name;
+    return {
+      text: line.text,
+      include: true,
+      name,
+      quantity: line.quantity,
+      unit: line.unit,
+      ...placeFor(name),
+      expiryDate: null,
+      price: line.price,
+    };
+  };
+
+  const readReceipt = () => {
+    const parsed = parseReceipt(text, knownNames);
+    setStore(parsed.store);
+    setRows(parsed.lines.map(toRow));
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) =>
+    setRows(
+      (current) =>
+        current?.map((row, i) =>
+          i === index ? { ...row, ...changes } : row
+        ) ?? null
+    );
+
+  // Naming a row after something known also puts it where that is
+  const rename = (index: number, name: string) =>
+    updateRow(index, {
+      name,
+      ...(isKnown(name) ? placeFor(name) : {}),
+    });
+
+  const suggestionFor = (row: ReviewRow) => {
+    const kind = locations.find((l) => l.id === row.locationId)?.kind;
+    return kind
+      ? suggestExpiry({ ...row, location: kind }, rules, purchaseDate)
+      : null;
+  };
+
+  const toNewItem = (row: ReviewRow): NewFoodItem => {
+    const suggestion = suggestionFor(row);
+    return {
+      name: row.name.trim(),
+      category: row.category,
+      quantity: row.quantity,
+      unit: row.unit,
+      purchaseDate,
+      expiryDate: row.expiryDate ?? suggestion?.expiryDate ?? null,
+      expiryType: suggestion?.expiryType ?? "best-before",
+      locationId: row.locationId,
+      notes: "",
+      tags: [],
+      price: row.price,
+      purchaseQuantity: row.price === null ? null : row.quantity,
+      store: store.trim(),
+      parLevel: null,
+    };
+  };
+
+  const included = (rows ?? []).filter(
+    (row) => row.include && row.name.trim() && row.quantity > 0
+  );
+
+  // One at a time, so a failure half-way leaves the rest to try again
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!rows) return;
+    setAdding(true);
+    const added = new Set<ReviewRow>();
+    try {
+      for (const row of included) {
+        await dispatch(
+          addItem({ ...toNewItem(row), source: "receipt" })
+        ).unwrap();
+        added.add(row);
+      }
+      showToast(
+        `Added ${added.size} item${added.size === 1 ? "" : "s"}`,
+        "success"
+      );
+      onClose();
+    } catch {
+      // Already toasted by apiRequest
+      setRows(rows.filter((row) => !added.has(row)));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open" role="dialog">
+      <form
+        className="modal-box max-w-5xl flex flex-col gap-3"
+        onSubmit={handleSubmit}
+      >
+        <h3 className="font-bold text-lg">Add from a receipt</h3>
+
+        {rows === null ? (
+          <>
+            <textarea
+              className="textarea textarea-bordered w-full font-mono"
+              rows={10}
+              placeholder={
+                "ORG BNNA 1.2KG           2.39\nCHKN BRST 2 @ 3.50       7.00\nWHL MLK 2L               1.45"
+              }
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              aria-label="Receipt text"
+              autoFocus
+            />
+            <p className="text-xs opacity-60">
+              Paste the text of an e-receipt, or what your phone's text
+              recognition makes of a paper one. Totals, tax and payment lines
+              are left out; you'll check every line before anything is added.
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <label className="form-control">
+                <span className="label-text">Store</span>
+                <input
+                  className="input input-bordered input-sm"
+                  value={store}
+                  onChange={(e) => setStore(e.target.value)}
+                />
+              </label>
+              <label className="form-control">
+                <span className="label-text">Bought on</span>
+                <input
+                  type="date"
+                  className="input input-bordered input-sm"
+                  value={purchaseDate}
+                  onChange={(e) =>
+                    setPurchaseDate(e.target.value || todayIso())
+                  }
+                />
+              </label>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="opacity-70">
+                No products found - each needs its price at the end of the line.
+              </p>
+            ) : (
+              <div className="overflow-x-auto max-h-96">
+                <datalist id="receipt-known-names">
+                  {knownNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+                <table className="table table-sm table-pin-rows">
+                  <thead>
+                    <tr>
+                      <th>Add</th>
+                      <th>Name</th>
+                      <th>Quantity</th>
+                      <th>Category</th>
+                      <th>Location</th>
+                      <th>Expires</th>
+                      <th>Price</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, index) => {
+                      const suggestion = suggestionFor(row);
+                      return (
+                        <tr
+                          key={index}
+                          className={row.include ? "" : "opacity-50"}
+                        >
+                          <td>
+                            <input
+                              type="checkbox"
+                              className="checkbox checkbox-sm"
+                              checked={row.include}
+                              onChange={(e) =>
+                                updateRow(index, { include: e.target.checked })
+                              }
+                              aria-label={`Add ${row.name}`}
+                            />
+                          </td>
+                          <td>
+                            <input
+                              className="input input-bordered input-sm w-44"
+                              list="receipt-known-names"
+                              value={row.name}
+                              onChange={(e) => rename(index, e.target.value)}
+                              aria-label="Name"
+                            />
+                            <div className="text-xs mt-1">
+                              <span className="opacity-60 font-mono">
+                                {row.text}
+                              </span>
+                              {!isKnown(row.name) && (
+                                <span className="badge badge-ghost badge-sm ml-2">
+                                  new
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          <td>
+                            <div className="flex gap-1">
+                              <input
+                                type="number"
+                                min={0.001}
+                                step="any"
+                                className="input input-bordered input-sm w-20"
+                                value={row.quantity}
+                                onChange={(e) =>
+                                  updateRow(index, {
+                                    quantity: Number(e.target.value),
+                                  })
+                                }
+                                aria-label="Quantity"
+                              />
+                              <select
+                                className="select select-bordered select-sm"
+                                value={row.unit}
+                                onChange={(e) =>
+                                  updateRow(index, {
+                                    unit: e.target.value as FoodUnit,
+                                  })
+                                }
+                                aria-label="Unit"
+                              >
+                                {FOOD_UNITS.map((unit) => (
+                                  <option key={unit} value={unit}>
+                                    {unit}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          </td>
+                          <td>
+                            <select
+                              className="select select-bordered select-sm"
+                              value={row.category}
+                              onChange={(e) =>
+                                updateRow(index, {
+                                  category: e.target.value as FoodCategory,
+                                })
+                              }
+                              aria-label="Category"
+                            >
+                              {FOOD_CATEGORIES.map((category) => (
+                                <option key={category} value={category}>
+                                  {category}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td>
+                            <select
+                              className="select select-bordered select-sm"
+                              value={row.locationId}
+                              onChange={(e) =>
+                                updateRow(index, { locationId: e.target.value })
+                              }
+                              aria-label="Location"
+                            >
+                              {locations.map((location) => (
+                                <option key={location.id} value={location.id}>
+                                  {location.name}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td>
+                            <input
+                              type="date"
+                              className="input input-bordered input-sm"
+                              value={
+                                row.expiryDate ?? suggestion?.expiryDate ?? ""
+                              }
+                              onChange={(e) =>
+                                updateRow(index, {
+                                  expiryDate: e.target.value || null,
+                                })
+                              }
+                              title={
+                                row.expiryDate === null && suggestion
+                                  ? describeSuggestion(suggestion)
+                                  : undefined
+                              }
+                              aria-label="Expires on"
+                            />
+                          </td>
+                          <td>
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              className="input input-bordered input-sm w-24"
+                              value={row.price ?? ""}
+                              onChange={(e) =>
+                                updateRow(index, {
+                                  price:
+                                    e.target.value === ""
+                                      ? null
+                                      : Number(e.target.value),
+                                })
+                              }
+                              aria-label="Price"
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="modal-action">
+          <button type="button" className="btn btn-ghost" onClick={onClose}>
+            Cancel
+          </button>
+          {rows === null ? (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={readReceipt}
+              disabled={!text.trim()}
+            >
+              Read receipt
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={() => setRows(null)}
+                disabled={adding}
+              >
+                Back
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={included.length === 0 || adding}
+              >
+                {adding && <span className="loading loading-spinner" />}
+                Add {included.length} item{included.length === 1 ? "" : "s"}
+              </button>
+            </>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * REQUIRE AUTH - Route Guard for Protected Pages
+ * ============================================================================
+ *
+ * Wrap any route that needs a logged-in user (see App.tsx):
+ *
+ *   <Route element={<RequireAuth />}>
+ *     <Route path="/dashboard" element={<Dashboard />} />
+ *   </Route>
+ *
+ * Admin-only pages pass a role:
+ *
+ *   <Route element={<RequireAuth role="admin" />}> ... </Route>
+ *
+ * WHAT HAPPENS:
+ * - Session still being restored → spinner (don't kick people out too early)
+ * - Not logged in → redirect to /login, remembering where they wanted to go
+ *   in the router state, so Login can send them back afterwards
+ * - Logged in without the right role → "no access" message
+ * - Otherwise → render the page (the nested <Route>s via <Outlet />)
+ *
+ * NOTE: This only hides pages in the browser. The backend must still check
+ * permissions on every request - never rely on the frontend for security.
+ */
+
+import { Link, Navigate, Outlet, useLocation } from "react-router-dom";
+import type { Location } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import type { UserRole } from "../types/user";
+
+/**
+ * What we put in the router state when redirecting to /login.
+ */
+export interface RedirectState {
+  from?: Location;
+}
+
+interface RequireAuthProps {
+  role?: UserRole;
+}
+
+export default function RequireAuth({ role }: RequireAuthProps) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex justify-center">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    );
+  }
+
+  if (!user) {
+    const state: RedirectState = { from: location };
+    return <Navigate to="/login" state={state} replace />;
+  }
+
+  if (role && user.role !== role) {
+    return (
+      <div className="p-4">
+        <h2 className="text-2xl font-bold mb-2">No access</h2>
+        <p className="mb-4">You don't have permission to view this page.</p>
+        <Link to="/dashboard" className="btn btn-primary btn-sm">
+          Back to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  return <Outlet />;
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  addShelfLifeRule,
+  deleteShelfLifeRule,
+  selectShelfLifeRules,
+  updateShelfLifeRule,
+} from "../store/shelfLifeSlice";
+import { FOOD_CATEGORIES, STORAGE_LOCATIONS } from "../types/inventory";
+import type { FoodCategory, StorageLocation } from "../types/inventory";
+import type { ShelfLifeRule } from "../types/shelfLife";
+
+interface ShelfLifeRulesProps {
+  readOnly?: boolean; // Viewers can see the rules but not change them
+}
+
+/**
+ * The household's own shelf-life rules, which win over the built-in guide
+ * in lib/shelfLife.ts when the item form suggests an expiry date.
+ */
+export default function ShelfLifeRules({
+  readOnly = false,
+}: ShelfLifeRulesProps) {
+  const dispatch = useAppDispatch();
+  const { showToast } = useUI();
+  const rules = useAppSelector(selectShelfLifeRules);
+
+  const [keyword, setKeyword] = useState("");
+  const [category, setCategory] = useState<FoodCategory | "">("");
+  const [location, setLocation] = useState<StorageLocation>("fridge");
+  const [days, setDays] = useState(3);
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      await dispatch(
+        addShelfLifeRule({
+          keyword: keyword.trim() || null,
+          category: keyword.trim() ? null : category || null,
+          location,
+          days,
+        })
+      ).unwrap();
+      setKeyword("");
+      setCategory("");
+      showToast("Rule added", "success");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not add rule", "error");
+    }
+  };
+
+  const handleEdit = async (rule: ShelfLifeRule) => {
+    const answer = window.prompt("Keeps for how many days?", String(rule.days));
+    const newDays = Number(answer);
+    if (!answer || !Number.isInteger(newDays) || newDays < 0) return;
+    try {
+      await dispatch(
+        updateShelfLifeRule({ id: rule.id, days: newDays })
+      ).unwrap();
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not update rule", "error");
+    }
+  };
+
+  const handleDelete = async (rule: ShelfLifeRule) => {
+    try {
+      await dispatch(deleteShelfLifeRule(rule.id)).unwrap();
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not delete rule", "error");
+    }
+  };
+
+  return (
+    <div className="card bg-base-200 p-4 flex flex-col gap-3">
+      <div>
+        <h3 className="font-semibold">Shelf-life rules</h3>
+        <p className="text-xs opacity-60">
+          How long food keeps in your household. These win over the built-in
+          guide when a new item's expiry date is suggested.
+        </p>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="opacity-70">No rules yet - using the built-in guide.</p>
+      ) : (
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Matches</th>
+              <th>Location</th>
+              <th>Keeps</th>
+              {!readOnly && <th></th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.id}>
+                <td>
+                  {rule.keyword ? (
+                    `"${rule.keyword}"`
+                  ) : (
+                    <span className="badge badge-outline">{rule.category}</span>
+                  )}
+                </td>
+                <td>{rule.location}</td>
+                <td>
+                  {rule.days} day{rule.days === 1 ? "" : "s"}
+                </td>
+                {!readOnly && (
+                  <td className="flex gap-1 justify-end">
+                    <button
+                      className="btn btn-xs btn-ghost"
+                      onClick={() => handleEdit(rule)}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="btn btn-xs btn-ghost text-error"
+                      onClick={() => handleDelete(rule)}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="flex flex-wrap gap-2 items-end">
+          <label className="form-control">
+            <span className="label-text">Name contains</span>
+            <input
+              className="input input-bordered input-sm"
+              placeholder="e.g. chicken"
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text">...or category</span>
+            <select
+              className="select select-bordered select-sm"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as FoodCategory | "")}
+              disabled={keyword.trim() !== ""}
+            >
+              <option value="">-</option>
+              {FOOD_CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-control">
+            <span className="label-text">In the</span>
+            <select
+              className="select select-bordered select-sm"
+              value={location}
+              onChange={(e) => setLocation(e.target.value as StorageLocation)}
+            >
+              {STORAGE_LOCATIONS.map((l) => (
+                <option key={l} value={l}>
+                  {l}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-control">
+            <span className="label-text">Keeps (days)</span>
+            <input
+              type="number"
+              min={0}
+              className="input input-bordered input-sm w-24"
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              required
+            />
+          </label>
+          <button
+            type="submit"
+            className="btn btn-sm"
+            disabled={!keyword.trim() && !category}
+          >
+            Add rule
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useAppSelector } from "../store/hooks";
+import {
+  selectLastSyncedAt,
+  selectPendingCount,
+  selectSyncStatus,
+} from "../store/syncSlice";
+
+/**
+ * The Navbar's connection badge: "offline" (with how many changes are
+ * waiting to be sent), "syncing", or "up to date".
+ */
+export default function SyncStatus() {
+  const status = useAppSelector(selectSyncStatus);
+  const pending = useAppSelector(selectPendingCount);
+  const lastSyncedAt = useAppSelector(selectLastSyncedAt);
+
+  if (status === "offline") {
+    return (
+      <span
+        className="badge badge-warning gap-1"
+        title="Changes are saved on this device and sent when you're back online"
+      >
+        offline
+        {pending > 0 && ` · ${pending} unsent`}
+      </span>
+    );
+  }
+  if (status === "syncing") {
+    return (
+      <span className="badge badge-info gap-1">
+        <span className="loading loading-spinner loading-xs" />
+        syncing
+      </span>
+    );
+  }
+  return (
+    <span
+      className="badge badge-ghost"
+      title={
+        lastSyncedAt
+          ? `Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}`
+          : undefined
+      }
+    >
+      up to date
+    </span>
+  );
+}
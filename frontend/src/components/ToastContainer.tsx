@@ -81,7 +81,8 @@ export default function ToastContainer() {
    * - The outer div is the container (positioned fixed in corner)
    * - We .map() over the toasts array to render each one
    * - Each toast has a key (required by React for lists)
-   * - The X button calls removeToast to dismiss it early
+   * - The X button calls removeToast to dismiss it early; toasts with no
+   *   duration stay until it (or one of their actions) is clicked
    */
   return (
     // Fixed container in top-right corner, high z-index so it's above everything
@@ -96,8 +97,27 @@ export default function ToastContainer() {
           key={toast.id} // React requires unique keys for list items
           className={`alert ${getAlertClass(toast.type)} shadow-lg`}
         >
-          {/* The toast message */}
-          <span>{toast.message}</span>
+          {/* The toast message, with "×3" if it was shown 3 times */}
+          <span>
+            {toast.message}
+            {toast.count > 1 && (
+              <span className="badge badge-sm ml-2">×{toast.count}</span>
+            )}
+          </span>
+
+          {/* Action buttons ("Undo", "View item") - each also dismisses */}
+          {toast.actions.map((action) => (
+            <button
+              key={action.label}
+              className="btn btn-sm"
+              onClick={() => {
+                action.onClick();
+                removeToast(toast.id);
+              }}
+            >
+              {action.label}
+            </button>
+          ))}
 
           {/* X button to dismiss toast early */}
           <button
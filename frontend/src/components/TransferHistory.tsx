@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import * as inventoryService from "../services/inventoryService";
+import { isAbortError } from "../services/http";
+import type { FoodItem } from "../types/inventory";
+import type { ItemTransfer } from "../types/location";
+
+interface TransferHistoryProps {
+  item: FoodItem;
+  onClose: () => void;
+}
+
+/**
+ * Where an item has been moved, newest first. Loaded straight from the
+ * API each time it's opened - it's only needed here.
+ */
+export default function TransferHistory({
+  item,
+  onClose,
+}: TransferHistoryProps) {
+  const [transfers, setTransfers] = useState<ItemTransfer[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTransfers(null);
+    setError(null);
+    // Closed or switched item before it loaded? Drop the old request
+    const controller = new AbortController();
+    inventoryService
+      .listTransfers(item.id, controller.signal)
+      .then(setTransfers)
+      .catch((err: Error) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+    // Reload when the item is moved again while the history is open
+  }, [item.id, item.locationId]);
+
+  return (
+    <div className="card bg-base-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">Where {item.name} has been</h3>
+        <button className="btn btn-ghost btn-sm" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {error && <div className="alert alert-error">{error}</div>}
+      {!transfers && !error && (
+        <span className="loading loading-spinner loading-sm"></span>
+      )}
+      {transfers?.length === 0 && (
+        <p className="opacity-70">Never moved since it was added.</p>
+      )}
+      {transfers && transfers.length > 0 && (
+        <ul className="flex flex-col gap-1">
+          {transfers.map((transfer) => (
+            <li key={transfer.id}>
+              <span className="opacity-60">
+                {new Date(transfer.movedAt).toLocaleString()}
+              </span>{" "}
+              {transfer.movedBy.name} moved it from{" "}
+              <strong>{transfer.from?.name ?? "a deleted location"}</strong> to{" "}
+              <strong>{transfer.to?.name ?? "a deleted location"}</strong>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { PeriodSavings } from "../lib/wasteStats";
+import { formatMoney } from "../lib/money";
+
+interface WasteChartProps {
+  periods: PeriodSavings[]; // Oldest first
+  currency: string;
+}
+
+// "3 Mar: 2 of 9 items wasted, worth €4.20 (usually €6.00)"
+function describe(period: PeriodSavings, currency: string) {
+  let text = `${period.label}: ${period.wasted} of ${period.total} items wasted`;
+  if (period.moneyWasted > 0) {
+    text += `, worth ${formatMoney(period.moneyWasted, currency)}`;
+  }
+  if (period.baseline !== null) {
+    text += ` (usually ${formatMoney(period.baseline, currency)})`;
+  }
+  return text;
+}
+
+/**
+ * Waste over time: one bar per week/month, as tall as the number of items
+ * removed, with the wasted part in red and the waste % on top. Hovering a
+ * bar shows what the waste was worth. Plain divs - it's a bar chart, not
+ * worth a charting library.
+ */
+export default function WasteChart({ periods, currency }: WasteChartProps) {
+  const tallest = Math.max(1, ...periods.map((p) => p.total));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-end gap-1 h-48">
+        {periods.map((period) => (
+          <div
+            key={period.start}
+            className="flex-1 h-full flex flex-col justify-end items-center gap-1"
+            title={describe(period, currency)}
+          >
+            <span className="text-xs opacity-70">
+              {period.total > 0 ? `${period.percent}%` : ""}
+            </span>
+            <div
+              className="w-full flex flex-col justify-end rounded-t overflow-hidden bg-success/60"
+              style={{ height: `${(period.total / tallest) * 100}%` }}
+            >
+              <div
+                className="bg-error"
+                style={{
+                  height: `${period.total > 0 ? (period.wasted / period.total) * 100 : 0}%`,
+                }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {periods.map((period) => (
+          <span
+            key={period.start}
+            className="flex-1 text-center text-xs opacity-70 truncate"
+          >
+            {period.label}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-4 text-xs">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-error" /> Wasted or
+          composted
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-success/60" /> Eaten
+          or donated
+        </span>
+      </div>
+    </div>
+  );
+}
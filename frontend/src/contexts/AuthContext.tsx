@@ -18,11 +18,28 @@
  * This is called "prop drilling" and gets messy fast. Context solves this by
  * letting ANY component access the user state directly with useAuth().
  *
- * IS LOCALSTORAGE SET UP?
- * YES! ✅ See the useEffect on line ~35 and the login/logout functions.
- * - When user logs in → saved to localStorage (persists across browser refreshes)
- * - When app loads → checks localStorage and restores user automatically
- * - When user logs out → removed from localStorage
+ * HOW DOES LOGIN WORK?
+ * login()/register() send the email + password to the backend
+ * (services/authService.ts). The backend answers with the user AND a signed
+ * session token. We keep the token in two places:
+ * - services/http.ts (setAuthToken) → sent with every API request
+ * - the device's IndexedDB (services/offlineStore.ts), with the user's
+ *   households → so the session survives a browser refresh, and the app
+ *   can start with no connection
+ *
+ * HOUSEHOLDS
+ * Food belongs to a household, and a user can be in several. Right after
+ * logging in we load the user's households and pick the ACTIVE one (the one
+ * used last on this device, or the first). The active household id is sent
+ * with every API request; switchHousehold() changes it.
+ *
+ * IS THE SAVED SESSION TRUSTED?
+ * NO. On app start we only take the TOKEN from it and ask the server who
+ * it belongs to (/api/auth/me). If the server says the session is expired
+ * or revoked, the user is logged out. Editing the saved data by hand can't
+ * make you someone else. Only when the server can't be reached at all do
+ * we start from the saved user and households - offline, showing the
+ * cached food - and check with the server once it's back.
  *
  * THE PATTERN (used in most React apps):
  * 1. Create a Context (the "container" for shared state)
@@ -30,26 +47,44 @@
  * 3. Create a custom hook (easy way for components to access the state)
  */
 
-import { createContext, useContext, useState, useEffect } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useRef,
+  useState,
+  useEffect,
+} from "react";
 import type { ReactNode } from "react";
+import type { User, UserSettings } from "../types/user";
+import type { Household } from "../types/household";
+import * as authService from "../services/authService";
+import * as householdService from "../services/householdService";
+import {
+  ApiError,
+  isNetworkError,
+  setActiveHouseholdId,
+  setAuthToken,
+} from "../services/http";
+import {
+  clearOfflineData,
+  dropOthersPending,
+  readSession,
+  saveSession,
+} from "../services/offlineStore";
+import type { SavedSession } from "../services/offlineStore";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { clearInventory } from "../store/inventorySlice";
+import { clearLocations } from "../store/locationsSlice";
+import { clearShelfLifeRules } from "../store/shelfLifeSlice";
+import { clearHistory } from "../store/historySlice";
+import { clearShoppingList } from "../store/shoppingListSlice";
+import { clearPresence } from "../store/presenceSlice";
 
-/**
- * USER INTERFACE
- * Defines what a "user" object looks like in your app.
- * When you connect to a real backend, update this to match your API response.
- *
- * Example: Your backend might return:
- * { id: "abc123", email: "user@example.com", name: "John", avatar: "url", role: "admin" }
- */
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  // TODO: Add more fields as your app grows:
-  // avatar?: string;
-  // role?: 'user' | 'admin';
-  // token?: string;  // JWT token for API authentication
-}
+// Where older versions saved the session, in localStorage ({ ...user,
+// token }) - moved to IndexedDB the first time the app starts
+const LEGACY_STORAGE_KEY = "wasteless_user";
+const LEGACY_HOUSEHOLD_STORAGE_KEY = "wasteless_household";
 
 /**
  * AUTH CONTEXT TYPE
@@ -57,15 +92,27 @@ interface User {
  *
  * Think of this as the "API" of your auth system. Any component can:
  * - Read the current user
- * - Call login() to log someone in
- * - Call logout() to log them out
+ * - Call login() / register() to start a session
+ * - Call logout() to end it
  * - Check isAuthenticated to see if someone is logged in
+ * - Check isLoading / error to show spinners and messages
+ * - Read their households and switch the active one
  */
 interface AuthContextType {
   user: User | null; // The current user, or null if not logged in
-  login: (userData: User) => void; // Function to log in
-  logout: () => void; // Function to log out
+  login: (email: string, password: string) => Promise<boolean>; // true on success
+  register: (name: string, email: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>; // Function to log out
+  expireSession: () => void; // The server turned the token down: log out, keeping unsent changes
   isAuthenticated: boolean; // Quick check: is someone logged in?
+  isLoading: boolean; // Restoring the session or waiting for the server
+  error: string | null; // Message from the last failed login/register
+  clearError: () => void;
+  households: Household[]; // Every household the user belongs to
+  activeHousehold: Household | null; // The one whose food we're looking at
+  switchHousehold: (id: Household["id"]) => void;
+  refreshHouseholds: () => Promise<void>; // Reload after create/join/leave
+  updateSettings: (changes: Partial<UserSettings>) => Promise<void>; // Throws on failure
 }
 
 /**
@@ -79,6 +126,31 @@ interface AuthContextType {
  */
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+/**
+ * Read the session saved by a previous visit, if any (moving one saved by
+ * an older version out of localStorage).
+ */
+async function readSavedSession(): Promise<SavedSession | null> {
+  const saved = await readSession();
+  if (saved) return saved;
+  try {
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return legacy
+      ? {
+          user: JSON.parse(legacy) as User,
+          households: [],
+          activeHouseholdId: localStorage.getItem(LEGACY_HOUSEHOLD_STORAGE_KEY),
+        }
+      : null;
+  } catch {
+    // Corrupted data - treat it as "no session"
+    return null;
+  } finally {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_HOUSEHOLD_STORAGE_KEY);
+  }
+}
+
 /**
  * AUTH PROVIDER COMPONENT
  *
@@ -102,73 +174,267 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
 
   /**
-   * LOAD USER FROM LOCALSTORAGE ON APP START
+   * HOUSEHOLD STATE
+   * All of the user's households, and which one is active.
+   */
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [activeHouseholdId, setActiveId] = useState<string | null>(null);
+  // The household to pick when the list is (re)loaded: the active one, or
+  // the one active last time on this device
+  const preferredHouseholdId = useRef<string | null>(null);
+
+  /**
+   * LOADING + ERROR STATE
+   * isLoading starts as true while the saved session is read and checked,
+   * so protected pages can wait instead of flashing "please log in".
+   */
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Started from the saved session because the server couldn't be reached
+  const [isOfflineSession, setIsOfflineSession] = useState(false);
+
+  const dispatch = useAppDispatch();
+  const online = useAppSelector((state) => state.sync.online);
+
+  /**
+   * ACTIVATE A HOUSEHOLD
+   * Updates React state and the API client header together.
+   */
+  const activateHousehold = useCallback((id: Household["id"] | null) => {
+    setActiveId(id);
+    setActiveHouseholdId(id);
+    preferredHouseholdId.current = id;
+  }, []);
+
+  /**
+   * LOAD HOUSEHOLDS
+   * Fetch the list and keep the active one if it's still in it (we might
+   * have just left it); otherwise fall back to the first.
+   */
+  const loadHouseholds = useCallback(async () => {
+    const list = await householdService.listHouseholds();
+    setHouseholds(list);
+
+    const active =
+      list.find((h) => h.id === preferredHouseholdId.current) ??
+      list[0] ??
+      null;
+    activateHousehold(active?.id ?? null);
+  }, [activateHousehold]);
+
+  /**
+   * START / END A SESSION
+   * The only places that write the token, so React state and the API
+   * client never disagree (the effect below saves them on the device).
+   * Ending a session also empties the Redux inventory and everything kept
+   * on the device, so the next user never sees the previous user's food.
+   * Unsent changes go only when the user logs out: a session that expired
+   * keeps them, and they're sent once the same user logs in again
+   * (starting a session drops anyone else's).
+   *
+   * Starting a session loads the households BEFORE setting the user, so
+   * pages never see a logged-in user without an active household.
+   *
+   * useCallback keeps them the same function between renders, so the
+   * restore effect below can list them as dependencies and still run once.
+   */
+  const startSession = useCallback(
+    async (sessionUser: User, token: string) => {
+      const userWithToken = { ...sessionUser, token };
+      setAuthToken(token);
+      await dropOthersPending(sessionUser.id);
+      await loadHouseholds();
+      setUser(userWithToken);
+      setIsOfflineSession(false);
+    },
+    [loadHouseholds]
+  );
+
+  // No connection: carry on as the saved user, with the saved households
+  const startOfflineSession = useCallback(
+    (saved: SavedSession) => {
+      setHouseholds(saved.households);
+      activateHousehold(
+        saved.households.find((h) => h.id === saved.activeHouseholdId)?.id ??
+          saved.households[0]?.id ??
+          null
+      );
+      setUser(saved.user);
+      setIsOfflineSession(true);
+    },
+    [activateHousehold]
+  );
+
+  const endSession = useCallback(
+    (dropPending = false) => {
+      setAuthToken(null);
+      setUser(null);
+      setHouseholds([]);
+      activateHousehold(null);
+      setIsOfflineSession(false);
+      void clearOfflineData(dropPending);
+      dispatch(clearInventory());
+      dispatch(clearLocations());
+      dispatch(clearShelfLifeRules());
+      dispatch(clearHistory());
+      dispatch(clearShoppingList());
+      dispatch(clearPresence());
+    },
+    [activateHousehold, dispatch]
+  );
+
+  /**
+   * RESTORE THE SESSION ON APP START
    *
-   * useEffect with [] runs ONCE when the component first mounts (app starts).
+   * This effect runs ONCE when the component first mounts (app starts).
    *
-   * This is how we "remember" the user across browser refreshes:
-   * 1. User logs in → we save to localStorage (see login function below)
-   * 2. User closes browser, comes back later
-   * 3. This useEffect runs, finds the saved user, restores them!
+   * 1. Look for a saved session
+   * 2. Ask the server who its token belongs to (/api/auth/me)
+   * 3. Valid → log that user in. Rejected (401) → forget the session.
    *
-   * Without this, users would have to log in every time they refresh the page.
+   * If the server can't be reached we start OFFLINE from the saved user
+   * and households (the effect after this one checks with the server once
+   * it's back). With nothing saved to start from, we keep the token so the
+   * next refresh can try again, but nobody is logged in until the server
+   * confirms.
    */
   useEffect(() => {
-    // Try to get saved user data from browser's localStorage
-    const savedUser = localStorage.getItem("wasteless_user");
+    const restore = async () => {
+      const saved = await readSavedSession();
+      const token = saved?.user.token;
+      if (!saved || !token) return;
 
-    if (savedUser) {
+      setAuthToken(token);
+      preferredHouseholdId.current = saved.activeHouseholdId;
       try {
-        // Parse the JSON string back into an object and set as current user
-        setUser(JSON.parse(savedUser));
-        console.log("✅ User restored from localStorage");
-      } catch (error) {
-        // If the data is corrupted/invalid, clean it up
-        console.error("Failed to parse saved user:", error);
-        localStorage.removeItem("wasteless_user");
+        await startSession(await authService.me(), token);
+        console.log("✅ Session restored");
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 401) {
+          endSession();
+        } else if (isNetworkError(err) && saved.households.length > 0) {
+          startOfflineSession(saved);
+        } else {
+          setAuthToken(null);
+          setError("Could not reach the server to restore your session");
+        }
       }
+    };
+    void restore().finally(() => setIsLoading(false));
+  }, [startSession, endSession, startOfflineSession]); // All stable = run only once on mount
+
+  /**
+   * BACK ONLINE AFTER AN OFFLINE START
+   * Now the server can say whether the saved session is still valid.
+   */
+  useEffect(() => {
+    if (!isOfflineSession || !online || !user?.token) return;
+    const token = user.token;
+    authService
+      .me()
+      .then((sessionUser) => startSession(sessionUser, token))
+      .catch((err) => {
+        if (err instanceof ApiError && err.status === 401) endSession();
+      });
+  }, [isOfflineSession, online, user, startSession, endSession]);
+
+  /**
+   * SAVE THE SESSION ON THE DEVICE
+   * Whenever the user (their settings), their households or the active one
+   * change, so the next visit starts where this one left off.
+   */
+  useEffect(() => {
+    if (user) void saveSession({ user, households, activeHouseholdId });
+  }, [user, households, activeHouseholdId]);
+
+  /**
+   * RUN AN AUTH REQUEST
+   * Shared by login and register: flips isLoading, stores the session on
+   * success, and turns failures into the `error` message.
+   */
+  const authenticate = async (
+    request: () => ReturnType<typeof authService.login>
+  ) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { user: sessionUser, token } = await request();
+      await startSession(sessionUser, token);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      return false;
+    } finally {
+      setIsLoading(false);
     }
-  }, []); // Empty array = run only once on mount
+  };
 
   /**
-   * LOGIN FUNCTION
-   *
-   * When you call login(userData), this:
-   * 1. Sets the user in React state (updates the UI immediately)
-   * 2. Saves to localStorage (persists across refreshes)
+   * LOGIN / REGISTER
    *
-   * In a real app, you'd call this AFTER your API confirms the login:
+   * Both resolve to true on success, so a page can do:
    *
-   * const handleLogin = async (email, password) => {
-   *   const response = await api.login(email, password);
-   *   if (response.success) {
-   *     login(response.user);  // ← This function
+   * const handleSubmit = async () => {
+   *   if (await login(email, password)) {
+   *     navigate("/dashboard");
    *   }
+   *   // otherwise `error` holds the message to show
    * }
    */
-  const login = (userData: User) => {
-    setUser(userData);
-    localStorage.setItem("wasteless_user", JSON.stringify(userData));
-    console.log("✅ User logged in and saved to localStorage");
-  };
+  const login = (email: string, password: string) =>
+    authenticate(() => authService.login(email, password));
+
+  const register = (name: string, email: string, password: string) =>
+    authenticate(() => authService.register(name, email, password));
 
   /**
    * LOGOUT FUNCTION
    *
-   * Clears the user from:
+   * Tells the server to revoke the session, then clears the user from:
    * 1. React state (updates UI immediately)
-   * 2. localStorage (so they stay logged out on refresh)
+   * 2. the device (so they stay logged out on refresh), unsent changes
+   *    included - the Navbar asks first when there are any
    *
-   * In a real app, you might also:
-   * - Call an API to invalidate the session/token
-   * - Redirect to the login page
-   */
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("wasteless_user");
-    console.log("✅ User logged out and removed from localStorage");
+   * We log out locally even if the server call fails - the user asked to
+   * be logged out on THIS device.
+   */
+  const logout = async () => {
+    try {
+      await authService.logout();
+    } catch (err) {
+      console.error("Failed to revoke session:", err);
+    }
+    endSession(true);
+    console.log("✅ User logged out");
   };
 
+  const clearError = () => setError(null);
+
+  /**
+   * UPDATE SETTINGS
+   * Saves on the server first, then swaps in the returned user (keeping
+   * the token). Errors are thrown so the Settings page can show them.
+   */
+  const updateSettings = async (changes: Partial<UserSettings>) => {
+    const updated = await authService.updateSettings(changes);
+    if (!user) return;
+    setUser({ ...updated, token: user.token });
+  };
+
+  /**
+   * SWITCH HOUSEHOLD
+   * Only households the user belongs to can be activated. Pages that show
+   * food (like the Dashboard) reload when activeHousehold changes.
+   */
+  const switchHousehold = (id: Household["id"]) => {
+    if (households.some((h) => h.id === id)) {
+      activateHousehold(id);
+    }
+  };
+
+  const activeHousehold =
+    households.find((h) => h.id === activeHouseholdId) ?? null;
+
   /**
    * HELPER: IS AUTHENTICATED
    * Quick boolean check - is someone logged in?
@@ -190,8 +456,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const value = {
     user, // The current user object (or null)
     login, // Function to log in
+    register, // Function to create an account
     logout, // Function to log out
+    expireSession: endSession, // Log out after a 401, keeping unsent changes
     isAuthenticated, // Boolean: is someone logged in?
+    isLoading, // Boolean: waiting for the server?
+    error, // Last auth error message (or null)
+    clearError,
+    households, // All of the user's households
+    activeHousehold, // The household whose food we're showing
+    switchHousehold, // Make another household active
+    refreshHouseholds: loadHouseholds, // Reload the list from the server
+    updateSettings, // Save expiry thresholds etc.
   };
 
   /**
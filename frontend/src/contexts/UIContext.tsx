@@ -15,16 +15,25 @@
  *
  * ✅ LOADING STATE - Very useful!
  *    Without this, you'd need to manage loading state in EVERY component
- *    that fetches data. With this, any component can:
- *    - Set loading: setIsLoading(true)
- *    - Show a global spinner overlay
- *    - Clear loading: setIsLoading(false)
+ *    that fetches data. With this, every API request (services/http.ts)
+ *    shows the global spinner overlay in App.tsx automatically. isLoading
+ *    COUNTS running work, so two requests at once don't switch it off
+ *    when the first finishes. For other slow work:
+ *    - const done = startLoading()
+ *    - ...
+ *    - done()
  *
  * ✅ TOAST NOTIFICATIONS - Very useful!
  *    Without this, you'd need to pass toast functions through props everywhere.
  *    With this, ANY component can show a notification:
  *    - showToast("Saved!", "success")
  *    - showToast("Something went wrong", "error")
+ *    - showToast("Deleted Milk", "info", { actions: [{ label: "Undo", ... }] })
+ *    Failed API requests show an error toast on their own.
+ *
+ * ✅ NOTIFICATION CENTER - For things you shouldn't miss
+ *    showToast(..., { notify: true }) also keeps the message under the bell
+ *    in the Navbar (see NotificationBell.tsx).
  *
  * You COULD technically manage these locally in each component, but:
  * - Loading overlays would be duplicated everywhere
@@ -35,13 +44,23 @@
  * that makes your app much cleaner and more consistent. Most production
  * apps have something like this.
  *
- * NOTE: This does NOT use localStorage (unlike AuthContext).
- * UI state is temporary - we don't need to remember if a toast was showing
- * after the user refreshes the page.
+ * NOTE: Toasts are NOT saved - we don't need to remember if a toast was
+ * showing after the user refreshes the page. The notification center IS
+ * saved in localStorage (per user), so read/unread survives a refresh.
  */
 
-import { createContext, useContext, useState } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 import type { ReactNode } from "react";
+import { setRequestListener } from "../services/http";
+import { useAuth } from "./AuthContext";
+import type { AppNotification } from "../types/notification";
 
 /**
  * TOAST INTERFACE
@@ -51,11 +70,55 @@ import type { ReactNode } from "react";
  * - id: Unique identifier (used to remove specific toasts)
  * - message: The text to display
  * - type: Determines the color/style (success=green, error=red, etc.)
+ * - actions: Buttons like "Undo" or "View item"
+ * - duration: How long it stays (ms), or null to stay until dismissed
+ * - count: How many times it was shown - the same message shown again
+ *   while it's still on screen bumps this instead of stacking a copy
  */
 interface Toast {
   id: string;
   message: string;
   type: "success" | "error" | "info" | "warning";
+  actions: ToastAction[];
+  duration: number | null;
+  count: number;
+}
+
+/**
+ * A button on a toast. Clicking it runs onClick and dismisses the toast.
+ */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+/**
+ * The optional third argument to showToast().
+ */
+export interface ToastOptions {
+  actions?: ToastAction[];
+  duration?: number | null; // ms; null = until dismissed
+  notify?: boolean; // Also keep it in the notification center
+  link?: string; // Where its notification takes you when clicked
+}
+
+// 3 seconds, or 6 when there's a button to reach for
+const DEFAULT_DURATION_MS = 3000;
+const ACTION_DURATION_MS = 6000;
+// More than this on screen at once and the oldest ones make way
+const MAX_TOASTS = 4;
+// The notification center keeps this many, newest first
+const MAX_NOTIFICATIONS = 50;
+
+const NOTIFICATIONS_STORAGE_KEY = "wasteless_notifications";
+
+function readNotifications(storageKey: string | null): AppNotification[] {
+  if (!storageKey) return [];
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) ?? "[]");
+  } catch {
+    return [];
+  }
 }
 
 /**
@@ -68,11 +131,21 @@ interface Toast {
  * - Remove specific toasts
  */
 interface UIContextType {
-  isLoading: boolean; // Is something loading globally?
-  setIsLoading: (loading: boolean) => void; // Turn loading on/off
+  isLoading: boolean; // Is anything loading globally?
+  startLoading: () => () => void; // Start some work; call the result when done
   toasts: Toast[]; // Array of active toasts
-  showToast: (message: string, type: Toast["type"]) => void; // Show a toast
+  // Show a toast; returns its id (for removeToast)
+  showToast: (
+    message: string,
+    type: Toast["type"],
+    options?: ToastOptions
+  ) => string;
   removeToast: (id: string) => void; // Remove a specific toast
+  notifications: AppNotification[]; // The notification center, newest first
+  unreadCount: number;
+  markNotificationRead: (id: string) => void;
+  markAllNotificationsRead: () => void;
+  clearNotifications: () => void;
 }
 
 /**
@@ -81,25 +154,42 @@ interface UIContextType {
  */
 const UIContext = createContext<UIContextType | undefined>(undefined);
 
+// Makes every toast and notification id unique
+let idCounter = 0;
+const nextId = () => `${Date.now()}-${++idCounter}`;
+
 /**
  * UI PROVIDER COMPONENT
  *
  * Wraps your app (see App.tsx) and provides UI state to all children.
- * This sits inside AuthProvider, so UI components can also access auth if needed.
+ * This sits inside AuthProvider, so it can keep each user's notifications
+ * separately.
  */
 export function UIProvider({ children }: { children: ReactNode }) {
   /**
    * LOADING STATE
    *
-   * When true, you might show a spinner overlay (see contextDummy.tsx).
-   * Set to true before API calls, false when done.
+   * How many requests (or other slow jobs) are running. App.tsx shows a
+   * spinner overlay while it's above zero.
    *
-   * Example usage:
-   * setIsLoading(true);
-   * await fetch('/api/data');
-   * setIsLoading(false);
+   * Example usage (API requests do this for you):
+   * const done = startLoading();
+   * await somethingSlow();
+   * done();
    */
-  const [isLoading, setIsLoading] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const isLoading = pendingCount > 0;
+
+  const startLoading = useCallback(() => {
+    setPendingCount((count) => count + 1);
+    // Calling done() twice must not hide someone else's spinner
+    let finished = false;
+    return () => {
+      if (finished) return;
+      finished = true;
+      setPendingCount((count) => count - 1);
+    };
+  }, []);
 
   /**
    * TOASTS STATE
@@ -109,8 +199,111 @@ export function UIProvider({ children }: { children: ReactNode }) {
    *
    * Why an array? Multiple toasts can show at once!
    * Try clicking "Show Success Toast" multiple times quickly.
+   *
+   * toastsRef always holds the latest array too, so two toasts shown in
+   * the same tick can see each other (for merging), and `timers` holds
+   * each toast's auto-remove timer so it can be restarted or cancelled.
    */
   const [toasts, setToasts] = useState<Toast[]>([]);
+  const toastsRef = useRef<Toast[]>([]);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const commitToasts = useCallback((next: Toast[]) => {
+    toastsRef.current = next;
+    setToasts(next);
+  }, []);
+
+  /**
+   * REMOVE A TOAST
+   *
+   * Called when:
+   * 1. User clicks the X button (or an action button) on a toast
+   * 2. Auto-remove timer fires
+   *
+   * Uses .filter() to keep all toasts EXCEPT the one with matching id
+   */
+  const removeToast = useCallback(
+    (id: string) => {
+      clearTimeout(timers.current.get(id));
+      timers.current.delete(id);
+      commitToasts(toastsRef.current.filter((toast) => toast.id !== id));
+    },
+    [commitToasts]
+  );
+
+  // (Re)start a toast's countdown; null = stay until dismissed
+  const scheduleRemoval = useCallback(
+    (id: string, duration: number | null) => {
+      clearTimeout(timers.current.get(id));
+      if (duration === null) return;
+      // setTimeout schedules a function to run after X milliseconds
+      timers.current.set(
+        id,
+        setTimeout(() => removeToast(id), duration)
+      );
+    },
+    [removeToast]
+  );
+
+  /**
+   * NOTIFICATION CENTER STATE
+   *
+   * Saved per user, so switching accounts on a shared device never shows
+   * someone else's notifications. When the user changes we load theirs
+   * (React's "adjust state while rendering" pattern, so there's never a
+   * render with one user's key and another's list).
+   */
+  const { user } = useAuth();
+  const storageKey = user ? `${NOTIFICATIONS_STORAGE_KEY}_${user.id}` : null;
+  const [loadedKey, setLoadedKey] = useState(storageKey);
+  const [notifications, setNotifications] = useState(() =>
+    readNotifications(storageKey)
+  );
+  if (loadedKey !== storageKey) {
+    setLoadedKey(storageKey);
+    setNotifications(readNotifications(storageKey));
+  }
+
+  useEffect(() => {
+    if (storageKey && loadedKey === storageKey) {
+      localStorage.setItem(storageKey, JSON.stringify(notifications));
+    }
+  }, [storageKey, loadedKey, notifications]);
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  const addNotification = useCallback(
+    (message: string, type: Toast["type"], link: string | null) => {
+      const notification: AppNotification = {
+        id: nextId(),
+        message,
+        type,
+        link,
+        createdAt: new Date().toISOString(),
+        read: false,
+      };
+      // The same message again replaces the old one instead of piling up
+      setNotifications((prev) =>
+        [notification, ...prev.filter((n) => n.message !== message)].slice(
+          0,
+          MAX_NOTIFICATIONS
+        )
+      );
+    },
+    []
+  );
+
+  const markNotificationRead = useCallback((id: string) => {
+    setNotifications((prev) =>
+      prev.map((n) => (n.id === id ? { ...n, read: true } : n))
+    );
+  }, []);
+
+  const markAllNotificationsRead = useCallback(() => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+  }, []);
+
+  const clearNotifications = useCallback(() => setNotifications([]), []);
 
   /**
    * SHOW A TOAST NOTIFICATION
@@ -119,54 +312,111 @@ export function UIProvider({ children }: { children: ReactNode }) {
    *   showToast("Hello!", "info")
    *   showToast("Saved!", "success")
    *   showToast("Error!", "error")
+   *   showToast("Deleted Milk", "info", {
+   *     actions: [{ label: "Undo", onClick: restoreMilk }],
+   *   })
+   *   showToast("3 items expire tomorrow", "warning", { notify: true })
    *
    * How it works:
-   * 1. Create a unique ID using timestamp (simple but works)
-   * 2. Add the new toast to the array
-   * 3. Set a timer to auto-remove after 3 seconds
+   * 1. The same message already showing? Bump its count and restart its
+   *    timer (a failed request is toasted by the API client AND often by
+   *    the page that made it - that should be one toast)
+   * 2. Otherwise add a new toast, dropping the oldest if there are too many
+   * 3. Set a timer to auto-remove it (unless duration is null)
+   * 4. notify: also add it to the notification center
    *
    * The ToastContainer component (see ToastContainer.tsx) watches this
    * array and renders the actual toast UI.
    */
-  const showToast = (message: string, type: Toast["type"] = "info") => {
-    // Create unique ID - Date.now() gives milliseconds since 1970
-    // Good enough for our purposes (very unlikely to have duplicates)
-    const id = Date.now().toString();
-
-    // Create the toast object
-    const newToast: Toast = { id, message, type };
-
-    // Add to array - using functional update to ensure we have latest state
-    // [...prev, newToast] = keep all existing toasts, add new one at end
-    setToasts((prev) => [...prev, newToast]);
-
-    // Auto-remove after 3 seconds
-    // setTimeout schedules a function to run after X milliseconds
-    setTimeout(() => {
-      removeToast(id);
-    }, 3000); // 3000ms = 3 seconds
-  };
+  const showToast = useCallback(
+    (
+      message: string,
+      type: Toast["type"] = "info",
+      options: ToastOptions = {}
+    ) => {
+      const actions = options.actions ?? [];
+      const duration =
+        options.duration !== undefined
+          ? options.duration
+          : actions.length > 0
+            ? ACTION_DURATION_MS
+            : DEFAULT_DURATION_MS;
+
+      if (options.notify) {
+        addNotification(message, type, options.link ?? null);
+      }
+
+      const current = toastsRef.current;
+      const same = current.find(
+        (t) => t.message === message && t.type === type
+      );
+      if (same) {
+        // Newer actions win - they belong to the latest event
+        commitToasts(
+          current.map((t) =>
+            t.id === same.id
+              ? {
+                  ...t,
+                  count: t.count + 1,
+                  duration,
+                  actions: actions.length > 0 ? actions : t.actions,
+                }
+              : t
+          )
+        );
+        scheduleRemoval(same.id, duration);
+        return same.id;
+      }
+
+      const toast: Toast = {
+        id: nextId(),
+        message,
+        type,
+        actions,
+        duration,
+        count: 1,
+      };
+      // [...current, toast] = keep the existing toasts, add the new one at
+      // the end; then keep only the newest MAX_TOASTS
+      const next = [...current, toast];
+      const dropped = next.slice(0, Math.max(0, next.length - MAX_TOASTS));
+      dropped.forEach((t) => {
+        clearTimeout(timers.current.get(t.id));
+        timers.current.delete(t.id);
+      });
+      commitToasts(next.slice(dropped.length));
+      scheduleRemoval(toast.id, duration);
+      return toast.id;
+    },
+    [addNotification, commitToasts, scheduleRemoval]
+  );
 
   /**
-   * REMOVE A TOAST
-   *
-   * Called when:
-   * 1. User clicks the X button on a toast
-   * 2. Auto-remove timer fires (after 3 seconds)
-   *
-   * Uses .filter() to keep all toasts EXCEPT the one with matching id
+   * LISTEN TO EVERY API REQUEST
+   * services/http.ts tells us when requests start, end and fail, so pages
+   * get the spinner and error toasts without doing anything.
    */
-  const removeToast = (id: string) => {
-    setToasts((prev) => prev.filter((toast) => toast.id !== id));
-  };
+  useEffect(() => {
+    setRequestListener({
+      onStart: () => setPendingCount((count) => count + 1),
+      onEnd: () => setPendingCount((count) => count - 1),
+      onError: (error) => showToast(error.message, "error"),
+    });
+    return () => setRequestListener(null);
+  }, [showToast]);
 
   // Bundle everything we want to share
   const value = {
     isLoading,
-    setIsLoading,
+    startLoading,
     toasts,
     showToast,
     removeToast,
+    notifications,
+    unreadCount,
+    markNotificationRead,
+    markAllNotificationsRead,
+    clearNotifications,
   };
 
   return <UIContext.Provider value={value}>{children}</UIContext.Provider>;
@@ -181,7 +431,7 @@ export function UIProvider({ children }: { children: ReactNode }) {
  * import { useUI } from '../contexts/UIContext';
  *
  * function MyComponent() {
- *   const { showToast, setIsLoading } = useUI();
+ *   const { showToast, startLoading } = useUI();
  *   showToast("Hello!", "success");
  * }
  */
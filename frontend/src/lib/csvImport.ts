@@ -0,0 +1,224 @@
+/**
+ * ============================================================================
+ * CSV IMPORT - A Spreadsheet Into Inventory Items
+ * ============================================================================
+ *
+ * Spreadsheets come with any columns, in any order. Importing one:
+ * 1. parseCsv() reads the file into rows of text - with commas, semicolons
+ *    or tabs between the fields, whichever the header row uses
+ * 2. guessMapping() matches each item field to a column by its heading
+ *    ("Item", "Qty", "Best before"...); the user can change it
+ * 3. toImportItems() turns each row into an item for /api/data/import
+ *
+ * This only converts text ("1,5" → 1.5, "milk; dairy" → two tags,
+ * "31/1/2025" → "2025-01-31"). Whether the result is a valid item is the
+ * server's call - it checks every row and says what's wrong with each.
+ */
+
+import type { InventoryLocation } from "../types/location";
+
+export type ImportField =
+  | "name"
+  | "category"
+  | "quantity"
+  | "unit"
+  | "location"
+  | "purchaseDate"
+  | "expiryDate"
+  | "expiryType"
+  | "notes"
+  | "tags"
+  | "price"
+  | "purchaseQuantity"
+  | "store"
+  | "parLevel";
+
+// Which column each field comes from (null = none)
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: {
+  field: ImportField;
+  label: string;
+  aliases: string[]; // Other headings that mean this field
+}[] = [
+  { field: "name", label: "Name", aliases: ["item", "product", "food"] },
+  { field: "category", label: "Category", aliases: ["type", "group"] },
+  { field: "quantity", label: "Quantity", aliases: ["qty", "amount"] },
+  { field: "unit", label: "Unit", aliases: ["units", "uom"] },
+  {
+    field: "location",
+    label: "Location",
+    aliases: ["storage", "place", "where"],
+  },
+  {
+    field: "purchaseDate",
+    label: "Bought on",
+    aliases: ["purchased", "bought", "boughton", "purchasedon"],
+  },
+  {
+    field: "expiryDate",
+    label: "Expires on",
+    aliases: ["expiry", "expires", "bestbefore", "useby", "expirationdate"],
+  },
+  { field: "expiryType", label: "Expiry type", aliases: [] },
+  { field: "notes", label: "Notes", aliases: ["note", "comment", "comments"] },
+  { field: "tags", label: "Tags", aliases: ["labels", "tag"] },
+  { field: "price", label: "Price", aliases: ["cost", "paid"] },
+  {
+    field: "purchaseQuantity",
+    label: "Price is for (quantity)",
+    aliases: ["pricefor"],
+  },
+  { field: "store", label: "Store", aliases: ["shop", "supermarket"] },
+  { field: "parLevel", label: "Par level", aliases: ["minimum", "min"] },
+];
+
+// A field with no column (or an empty cell) gets this
+const DEFAULTS: Partial<Record<ImportField, string | number>> = {
+  category: "other",
+  quantity: 1,
+  unit: "count",
+};
+
+const DELIMITERS = [",", ";", "\t"];
+
+/**
+ * The file's rows, each a list of fields (RFC 4180: quoted fields can hold
+ * the delimiter, line breaks and "" for a quote). Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+// Headings are compared without case, spaces or punctuation
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * The column each field most likely comes from, going by the headings.
+ */
+export function guessMapping(header: string[]): ColumnMapping {
+  const headings = header.map(normalize);
+  const mapping = {} as ColumnMapping;
+  for (const { field, label, aliases } of IMPORT_FIELDS) {
+    const names = [field, label, ...aliases].map(normalize);
+    const column = headings.findIndex((heading) => names.includes(heading));
+    mapping[field] = column === -1 ? null : column;
+  }
+  return mapping;
+}
+
+// "1,5" and "€2.49" are numbers too. Anything else is left as it is, for
+// the server to say it isn't one.
+function toNumber(text: string): number | string {
+  const cleaned = text.replace(/[^\d.,-]/g, "");
+  const value = Number(
+    cleaned.includes(".")
+      ? cleaned.replace(/,/g, "")
+      : cleaned.replace(",", ".")
+  );
+  return cleaned && Number.isFinite(value) ? value : text;
+}
+
+// "31/1/2025" and "31.01.2025" (day first, like quick-add) → "2025-01-31"
+function toIsoDate(text: string): string {
+  const match = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  if (!match) return text;
+  const [, day, month, year] = match;
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+const NUMBER_FIELDS: ImportField[] = [
+  "quantity",
+  "price",
+  "purchaseQuantity",
+  "parLevel",
+];
+const DATE_FIELDS: ImportField[] = ["purchaseDate", "expiryDate"];
+// Empty means "not given" for these, rather than ""
+const NULLABLE_FIELDS: ImportField[] = [
+  "purchaseDate",
+  "expiryDate",
+  "price",
+  "purchaseQuantity",
+  "parLevel",
+];
+
+/**
+ * Each row (header row left out) as an item for /api/data/import. Rows
+ * without a location go to `defaultLocation`.
+ */
+export function toImportItems(
+  rows: string[][],
+  mapping: ColumnMapping,
+  defaultLocation: InventoryLocation["name"]
+): Record<string, unknown>[] {
+  return rows.map((row) => {
+    const item: Record<string, unknown> = {};
+    for (const { field } of IMPORT_FIELDS) {
+      const column = mapping[field];
+      const text = column === null ? "" : (row[column] ?? "").trim();
+      if (text === "") {
+        if (field === "location") item.location = defaultLocation;
+        else if (field in DEFAULTS) item[field] = DEFAULTS[field];
+        else if (NULLABLE_FIELDS.includes(field)) item[field] = null;
+        else if (field === "tags") item.tags = [];
+        else if (column !== null) item[field] = "";
+      } else if (NUMBER_FIELDS.includes(field)) {
+        item[field] = toNumber(text);
+      } else if (DATE_FIELDS.includes(field)) {
+        item[field] = toIsoDate(text);
+      } else if (field === "tags") {
+        item.tags = text
+          .split(/[;,|]/)
+          .map((tag) => tag.trim())
+          .filter(Boolean);
+      } else {
+        item[field] = text;
+      }
+    }
+    return item;
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * ============================================================================
+ * DOWNLOAD - Saving Files the App Fetched
+ * ============================================================================
+ *
+ * Exports come from apiDownload() as a Blob (the request needs the session
+ * and household headers, so a plain link to the URL wouldn't work). This
+ * hands one to the browser to save like any other download.
+ */
+
+export function saveFile(file: Blob, filename: string) {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,131 @@
+/**
+ * ============================================================================
+ * EXPIRY - How Urgent Is Each Item?
+ * ============================================================================
+ *
+ * Pure functions (no React, no Redux) that turn an item's expiry date into
+ * an urgency level. The Dashboard, the load-time alert and anything else
+ * that cares about expiry all use these, so they always agree.
+ *
+ * URGENCY LEVELS (most → least urgent):
+ * - "expired":          past a USE-BY date - not safe to eat
+ * - "past-best-before": past a BEST-BEFORE date - check it before eating
+ * - "urgent":           expires within the user's expiryUrgentDays
+ * - "soon":             expires within the user's expirySoonDays
+ * - "ok":               further away than that
+ * - "none":             no expiry date set
+ */
+
+import type { FoodItem } from "../types/inventory";
+import type { UserSettings } from "../types/user";
+
+export type ExpiryStatus =
+  "expired" | "past-best-before" | "urgent" | "soon" | "ok" | "none";
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  expirySoonDays: 3,
+  expiryUrgentDays: 1,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Today as "YYYY-MM-DD" in the user's LOCAL timezone (toISOString would
+ * give the UTC date, which is wrong late in the evening in some places).
+ */
+export function todayIso(now = new Date()) {
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Whole days from `today` until `date` (both "YYYY-MM-DD").
+ * 0 = today, 1 = tomorrow, -1 = yesterday.
+ */
+export function daysUntil(date: string, today = todayIso()) {
+  return Math.round((Date.parse(date) - Date.parse(today)) / MS_PER_DAY);
+}
+
+/**
+ * The "YYYY-MM-DD" date `days` days after `date`.
+ */
+export function addDays(date: string, days: number) {
+  return new Date(Date.parse(date) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function getExpiryStatus(
+  item: Pick<FoodItem, "expiryDate" | "expiryType">,
+  settings: UserSettings = DEFAULT_SETTINGS,
+  today = todayIso()
+): ExpiryStatus {
+  if (!item.expiryDate) return "none";
+
+  const days = daysUntil(item.expiryDate, today);
+  if (days < 0) {
+    return item.expiryType === "use-by" ? "expired" : "past-best-before";
+  }
+  if (days <= settings.expiryUrgentDays) return "urgent";
+  if (days <= settings.expirySoonDays) return "soon";
+  return "ok";
+}
+
+/**
+ * Statuses that belong in the "Expiring soon / Expired" section.
+ */
+export const needsAttention = (status: ExpiryStatus) =>
+  status !== "ok" && status !== "none";
+
+/**
+ * DaisyUI badge colour for each status.
+ */
+export const EXPIRY_BADGE_CLASS: Record<ExpiryStatus, string> = {
+  expired: "badge-error",
+  "past-best-before": "badge-warning",
+  urgent: "badge-error badge-outline",
+  soon: "badge-warning badge-outline",
+  ok: "badge-ghost",
+  none: "badge-ghost",
+};
+
+/**
+ * Human label, e.g. "Expired 2 days ago", "Expires tomorrow", "Best before today".
+ */
+export function describeExpiry(
+  item: Pick<FoodItem, "expiryDate" | "expiryType">,
+  today = todayIso()
+) {
+  if (!item.expiryDate) return "No expiry date";
+
+  const days = daysUntil(item.expiryDate, today);
+  const verb = item.expiryType === "use-by" ? "Use by" : "Best before";
+  if (days < 0) {
+    const ago = -days === 1 ? "yesterday" : `${-days} days ago`;
+    return item.expiryType === "use-by"
+      ? `Expired ${ago}`
+      : `Best before ${ago}`;
+  }
+  if (days === 0) return `${verb} today`;
+  if (days === 1) return `${verb} tomorrow`;
+  return `${verb} in ${days} days`;
+}
+
+/**
+ * Counts for the load-time alert.
+ */
+export function summarizeExpiry(
+  items: FoodItem[],
+  settings: UserSettings = DEFAULT_SETTINGS,
+  today = todayIso()
+) {
+  const summary = { expired: 0, pastBestBefore: 0, expiringSoon: 0 };
+  for (const item of items) {
+    const status = getExpiryStatus(item, settings, today);
+    if (status === "expired") summary.expired++;
+    else if (status === "past-best-before") summary.pastBestBefore++;
+    else if (status === "urgent" || status === "soon") summary.expiringSoon++;
+  }
+  return summary;
+}
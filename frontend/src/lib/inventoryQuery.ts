@@ -0,0 +1,170 @@
+/**
+ * ============================================================================
+ * INVENTORY QUERY - The Dashboard's Search, Filters and Sort
+ * ============================================================================
+ *
+ * The whole state of the Dashboard toolbar is one InventoryQuery, and it
+ * lives in the URL query string so a view can be bookmarked or shared:
+ *
+ *   /dashboard?q=chicken&location=<id>&tag=meat&expiry=week&sort=expiry
+ *
+ * Repeated params (category, location, tag) are combined with OR within
+ * the same filter and AND across filters: "fridge OR freezer" AND "meat".
+ * Saved views store the same query string.
+ */
+
+import type { FoodCategory, FoodItem } from "../types/inventory";
+import { FOOD_CATEGORIES } from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+import type { UserSettings } from "../types/user";
+import { daysUntil, getExpiryStatus, todayIso } from "./expiry";
+import { fuzzyMatch } from "./search";
+
+export const EXPIRY_WINDOWS = {
+  any: "Any expiry",
+  expired: "Expired / past best-before",
+  soon: "Expiring soon",
+  week: "Within 7 days",
+  month: "Within 30 days",
+  none: "No expiry date",
+} as const;
+export type ExpiryWindow = keyof typeof EXPIRY_WINDOWS;
+
+export const SORT_FIELDS = {
+  name: "Name",
+  expiry: "Expiry date",
+  quantity: "Quantity",
+  added: "Date added",
+} as const;
+export type SortField = keyof typeof SORT_FIELDS;
+
+export interface InventoryQuery {
+  q: string; // Free-text search
+  categories: FoodCategory[];
+  locations: InventoryLocation["id"][];
+  tags: string[];
+  expiry: ExpiryWindow;
+  sort: SortField;
+  descending: boolean;
+}
+
+export const DEFAULT_QUERY: InventoryQuery = {
+  q: "",
+  categories: [],
+  locations: [],
+  tags: [],
+  expiry: "any",
+  sort: "name",
+  descending: false,
+};
+
+const isExpiryWindow = (value: string | null): value is ExpiryWindow =>
+  value !== null && value in EXPIRY_WINDOWS;
+const isSortField = (value: string | null): value is SortField =>
+  value !== null && value in SORT_FIELDS;
+
+/**
+ * Read a query from the URL. Unknown values fall back to the defaults, so
+ * a hand-edited or outdated link never breaks the page.
+ */
+export function parseQuery(params: URLSearchParams): InventoryQuery {
+  const expiry = params.get("expiry");
+  const sort = params.get("sort");
+  return {
+    q: params.get("q") ?? "",
+    categories: params
+      .getAll("category")
+      .filter((c): c is FoodCategory =>
+        (FOOD_CATEGORIES as readonly string[]).includes(c)
+      ),
+    locations: params.getAll("location"),
+    tags: params.getAll("tag"),
+    expiry: isExpiryWindow(expiry) ? expiry : DEFAULT_QUERY.expiry,
+    sort: isSortField(sort) ? sort : DEFAULT_QUERY.sort,
+    descending: params.get("dir") === "desc",
+  };
+}
+
+/**
+ * The URL params for a query, leaving out anything that's the default so
+ * links stay short.
+ */
+export function toSearchParams(query: InventoryQuery) {
+  const params = new URLSearchParams();
+  if (query.q) params.set("q", query.q);
+  query.categories.forEach((c) => params.append("category", c));
+  query.locations.forEach((l) => params.append("location", l));
+  query.tags.forEach((t) => params.append("tag", t));
+  if (query.expiry !== "any") params.set("expiry", query.expiry);
+  if (query.sort !== "name") params.set("sort", query.sort);
+  if (query.descending) params.set("dir", "desc");
+  return params;
+}
+
+export const isFiltered = (query: InventoryQuery) =>
+  query.q !== "" ||
+  query.categories.length > 0 ||
+  query.locations.length > 0 ||
+  query.tags.length > 0 ||
+  query.expiry !== "any";
+
+function inExpiryWindow(
+  item: FoodItem,
+  window: ExpiryWindow,
+  settings: UserSettings,
+  today: string
+) {
+  if (window === "any") return true;
+  if (window === "none") return item.expiryDate === null;
+  if (!item.expiryDate) return false;
+
+  const status = getExpiryStatus(item, settings, today);
+  if (window === "expired") {
+    return status === "expired" || status === "past-best-before";
+  }
+  if (window === "soon") return status === "urgent" || status === "soon";
+  const days = daysUntil(item.expiryDate, today);
+  return days >= 0 && days <= (window === "week" ? 7 : 30);
+}
+
+// Items without an expiry date sort after every dated one
+const compareExpiry = (a: FoodItem, b: FoodItem) =>
+  (a.expiryDate ?? "9999-12-31").localeCompare(b.expiryDate ?? "9999-12-31");
+
+const COMPARATORS: Record<SortField, (a: FoodItem, b: FoodItem) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  expiry: compareExpiry,
+  quantity: (a, b) => a.quantity - b.quantity,
+  added: (a, b) => a.createdAt.localeCompare(b.createdAt),
+};
+
+/**
+ * Filter and sort `items` (which should already be sorted by name, so
+ * ties stay alphabetical).
+ */
+export function applyQuery(
+  items: FoodItem[],
+  query: InventoryQuery,
+  settings: UserSettings,
+  today = todayIso()
+) {
+  const filtered = items.filter(
+    (item) =>
+      (!query.q ||
+        fuzzyMatch(
+          query.q,
+          `${item.name} ${item.notes} ${item.tags.join(" ")}`
+        )) &&
+      (query.categories.length === 0 ||
+        query.categories.includes(item.category)) &&
+      (query.locations.length === 0 ||
+        query.locations.includes(item.locationId)) &&
+      (query.tags.length === 0 ||
+        query.tags.some((tag) => item.tags.includes(tag))) &&
+      inExpiryWindow(item, query.expiry, settings, today)
+  );
+
+  const compare = COMPARATORS[query.sort];
+  const direction = query.descending ? -1 : 1;
+  return filtered.sort((a, b) => direction * compare(a, b));
+}
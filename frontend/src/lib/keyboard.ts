@@ -0,0 +1,17 @@
+/**
+ * ============================================================================
+ * KEYBOARD - Shared Helpers for Global Shortcuts
+ * ============================================================================
+ *
+ * Shortcuts are listened for on the window, so they must stay out of the
+ * way while the user is typing: Ctrl+Z in a text field undoes the typing,
+ * and "/" is just a slash.
+ */
+
+/**
+ * Is the event's target somewhere the user types?
+ */
+export const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * MONEY - Prices, Values and Currencies
+ * ============================================================================
+ *
+ * An item stores what was paid for it and how much that bought:
+ *
+ *   price 3.00, purchaseQuantity 6 (count)  → 0.50 per egg
+ *
+ * so whatever is left of it is worth price × quantity / purchaseQuantity -
+ * the same sum the server uses for the waste log's `value`. Prices are in
+ * the household's currency (Household.currency); there is no conversion.
+ */
+
+import type { FoodItem } from "../types/inventory";
+
+// Offered in the Household settings; any ISO 4217 code works
+export const COMMON_CURRENCIES = [
+  "EUR",
+  "USD",
+  "GBP",
+  "CHF",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+  "CAD",
+  "AUD",
+  "JPY",
+];
+
+type Priced = Pick<FoodItem, "price" | "purchaseQuantity" | "quantity">;
+
+/**
+ * The price of one unit of the item (one egg, one gram), or null without a
+ * price.
+ */
+export function unitPrice(item: Priced) {
+  if (item.price === null) return null;
+  const bought = item.purchaseQuantity ?? item.quantity;
+  return bought > 0 ? item.price / bought : 0;
+}
+
+/**
+ * What `quantity` of the item is worth (by default: what's left of it).
+ */
+export function itemValue(item: Priced, quantity = item.quantity) {
+  const perUnit = unitPrice(item);
+  return perUnit === null ? null : perUnit * quantity;
+}
+
+/**
+ * "€3.50", "$12.00" - in the user's locale. An unknown currency code falls
+ * back to "3.50 XYZ" instead of throwing.
+ */
+export function formatMoney(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * ============================================================================
+ * QUICK ADD - Typing Groceries the Way You'd Say Them
+ * ============================================================================
+ *
+ * After a big shop, filling in the item form once per item is too slow.
+ * The quick-add bar takes a line per item (or commas between them) and
+ * picks out what it can:
+ *
+ *   "2 milk fridge exp fri"          → 2 × milk, Fridge, expires Friday
+ *   "1kg chicken thighs freezer"     → 1 kg chicken thighs, Freezer
+ *   "3 packs of pasta bought mon"    → 3 packs pasta, bought on Monday
+ *
+ * - QUANTITY + UNIT: the first number, with its unit glued on ("1kg") or
+ *   as the next word ("500 g", "2 packs"). None = 1 of it. A decimal comma
+ *   ("1,5 kg rice") is a decimal point, not the start of the next item.
+ * - LOCATION: one of the household's locations by name ("garage freezer"),
+ *   or a kind ("fridge", "freezer", "pantry"/"cupboard").
+ * - DATES: after "exp"/"expires", "use by" or "bb"/"best before" for the
+ *   expiry date, after "bought" for the purchase date. Dates can be
+ *   "today", "tomorrow", a weekday ("fri" - the next one, or the last one
+ *   for "bought"), "in 3 days", "2w", "3 days ago", "31/1", "31 jan" or
+ *   "2025-01-31".
+ * - NAME: whatever is left. Its category is guessed from keywords.
+ *
+ * It's plain string matching with no network and no randomness: the same
+ * text (on the same day) always gives the same items.
+ */
+
+import type { ExpiryType, FoodCategory, FoodUnit } from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+import { addDays, todayIso } from "./expiry";
+import { roundQuantity } from "./units";
+
+export interface QuickAddEntry {
+  text: string; // The line as typed
+  name: string; // "" = couldn't find one
+  quantity: number;
+  unit: FoodUnit;
+  category: FoodCategory;
+  locationId: InventoryLocation["id"] | null; // null = not said
+  purchaseDate: string | null; // null = not said
+  expiryDate: string | null; // null = not said
+  expiryType: ExpiryType | null; // Only when said ("use by", "bb")
+}
+
+const UNIT_ALIASES: Record<string, FoodUnit> = {
+  g: "g",
+  gr: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kgs: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  ml: "ml",
+  l: "l",
+  lt: "l",
+  ltr: "l",
+  litre: "l",
+  litres: "l",
+  liter: "l",
+  liters: "l",
+  pack: "pack",
+  packs: "pack",
+  pk: "pack",
+  packet: "pack",
+  packets: "pack",
+  portion: "portion",
+  portions: "portion",
+  x: "count",
+  pc: "count",
+  pcs: "count",
+  piece: "count",
+  pieces: "count",
+};
+
+const LOCATION_KIND_ALIASES: Record<string, InventoryLocation["kind"]> = {
+  fridge: "fridge",
+  refrigerator: "fridge",
+  freezer: "freezer",
+  pantry: "pantry",
+  cupboard: "pantry",
+};
+
+/**
+ * Words that give away a food's category. Anything else is "other" (the
+ * category milk, meat and cheese are in too).
+ */
+const CATEGORY_KEYWORDS: [FoodCategory, string[]][] = [
+  ["frozen", ["frozen", "ice cream", "fish fingers"]],
+  [
+    "meals",
+    ["leftover", "soup", "stew", "curry", "lasagna", "casserole", "chili"],
+  ],
+  [
+    "snacks",
+    [
+      "chips",
+      "crisps",
+      "chocolate",
+      "cookie",
+      "biscuit",
+      "candy",
+      "cracker",
+      "popcorn",
+      "nuts",
+    ],
+  ],
+  [
+    "produce",
+    [
+      "apple",
+      "banana",
+      "orange",
+      "lemon",
+      "lime",
+      "pear",
+      "grape",
+      "berry",
+      "strawberry",
+      "blueberry",
+      "raspberry",
+      "mango",
+      "melon",
+      "avocado",
+      "tomato",
+      "potato",
+      "onion",
+      "garlic",
+      "carrot",
+      "lettuce",
+      "spinach",
+      "salad",
+      "broccoli",
+      "pepper",
+      "cucumber",
+      "mushroom",
+      "courgette",
+      "zucchini",
+      "aubergine",
+      "eggplant",
+      "celery",
+      "cabbage",
+      "kale",
+      "herb",
+    ],
+  ],
+  [
+    "pantry",
+    [
+      "rice",
+      "pasta",
+      "noodle",
+      "flour",
+      "sugar",
+      "oats",
+      "cereal",
+      "bread",
+      "bean",
+      "lentil",
+      "oil",
+      "sauce",
+      "coffee",
+      "tea",
+      "honey",
+      "jam",
+    ],
+  ],
+];
+
+const WEEKDAYS = [
+  ["sun", "sunday"],
+  ["mon", "monday"],
+  ["tue", "tues", "tuesday"],
+  ["wed", "weds", "wednesday"],
+  ["thu", "thur", "thurs", "thursday"],
+  ["fri", "friday"],
+  ["sat", "saturday"],
+];
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Days per "3 days" / "2w" / "1 month"
+const PERIOD_DAYS: Record<string, number> = {
+  d: 1,
+  day: 1,
+  days: 1,
+  w: 7,
+  wk: 7,
+  wks: 7,
+  week: 7,
+  weeks: 7,
+  month: 30,
+  months: 30,
+};
+
+// Which way a weekday or a year-less date points: ahead for expiry dates,
+// back for purchase dates
+type Direction = 1 | -1;
+
+// The words that come before a date, and what they say about it
+const DATE_KEYWORDS: {
+  words: string[];
+  field: "expiryDate" | "purchaseDate";
+  expiryType: ExpiryType | null;
+}[] = [
+  { words: ["use", "by"], field: "expiryDate", expiryType: "use-by" },
+  { words: ["useby"], field: "expiryDate", expiryType: "use-by" },
+  { words: ["best", "before"], field: "expiryDate", expiryType: "best-before" },
+  { words: ["bb"], field: "expiryDate", expiryType: "best-before" },
+  { words: ["exp"], field: "expiryDate", expiryType: null },
+  { words: ["expires"], field: "expiryDate", expiryType: null },
+  { words: ["expiry"], field: "expiryDate", expiryType: null },
+  { words: ["bought"], field: "purchaseDate", expiryType: null },
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "2025-01-31", or null for a date that doesn't exist ("31/2")
+function isoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? `${year}-${pad(month)}-${pad(day)}`
+    : null;
+}
+
+// A day and month without a year: this year's, unless that's on the wrong
+// side of today ("31 dec" in January is last year's for "bought")
+function nearestDate(
+  month: number,
+  day: number,
+  direction: Direction,
+  today: string
+) {
+  const year = Number(today.slice(0, 4));
+  const date = isoDate(year, month, day);
+  if (!date) return null;
+  if (direction === 1 && date < today) return isoDate(year + 1, month, day);
+  if (direction === -1 && date > today) return isoDate(year - 1, month, day);
+  return date;
+}
+
+const monthOf = (word: string) =>
+  MONTHS.findIndex((month) => word.startsWith(month) && word.length <= 9) + 1;
+
+/**
+ * Read a date from the start of `words`: the date, and how many words it
+ * took - or null if they don't start with one.
+ */
+function parseDate(
+  words: string[],
+  direction: Direction,
+  today: string
+): { date: string; length: number } | null {
+  const [first = "", second = ""] = words;
+
+  if (first === "today") return { date: today, length: 1 };
+  if (["tomorrow", "tmrw", "tmr"].includes(first)) {
+    return { date: addDays(today, 1), length: 1 };
+  }
+  if (first === "yesterday") return { date: addDays(today, -1), length: 1 };
+
+  const weekday = WEEKDAYS.findIndex((names) => names.includes(first));
+  if (weekday !== -1) {
+    const todayWeekday = new Date(Date.parse(today)).getUTCDay();
+    const days = (direction * (weekday - todayWeekday) + 7) % 7;
+    return { date: addDays(today, direction * days), length: 1 };
+  }
+
+  // "in 3 days", "3 days", "3d", "2w" - and "3 days ago"
+  const offset = first === "in" ? 1 : 0;
+  const amount = [words[offset] ?? "", words[offset + 1] ?? ""];
+  const glued = amount[0].match(/^(\d+)([a-z]+)$/);
+  const [count, period, periodLength] = glued
+    ? [glued[1], glued[2], 1]
+    : [amount[0], amount[1], 2];
+  if (/^\d+$/.test(count) && PERIOD_DAYS[period] !== undefined) {
+    const length = offset + periodLength;
+    const ago = words[length] === "ago";
+    const days = Number(count) * PERIOD_DAYS[period];
+    return {
+      date: addDays(today, ago ? -days : days),
+      length: ago ? length + 1 : length,
+    };
+  }
+
+  const iso = first.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const date = isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return date ? { date, length: 1 } : null;
+  }
+
+  // Day first, like the rest of the world: "31/1", "31.01", "31/1/25"
+  const numeric = first.match(/^(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2,4}))?$/);
+  if (numeric) {
+    const [, day, month, year] = numeric.map(Number);
+    const date = numeric[3]
+      ? isoDate(year < 100 ? 2000 + year : year, month, day)
+      : nearestDate(month, day, direction, today);
+    return date ? { date, length: 1 } : null;
+  }
+
+  // "31 jan", "31st jan", "jan 31"
+  const dayFirst = first.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (dayFirst && monthOf(second)) {
+    const date = nearestDate(
+      monthOf(second),
+      Number(dayFirst[1]),
+      direction,
+      today
+    );
+    return date ? { date, length: 2 } : null;
+  }
+  const monthFirst = second.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (monthOf(first) && monthFirst) {
+    const date = nearestDate(
+      monthOf(first),
+      Number(monthFirst[1]),
+      direction,
+      today
+    );
+    return date ? { date, length: 2 } : null;
+  }
+
+  return null;
+}
+
+const startsWith = (words: string[], start: number, phrase: string[]) =>
+  phrase.every((word, i) => words[start + i] === word);
+
+/**
+ * Guess the category from keywords in the name ("berry" also matches
+ * "berries").
+ */
+export function guessCategory(name: string): FoodCategory {
+  const text = name.toLowerCase();
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    const matches = keywords.some((keyword) =>
+      new RegExp(`\\b${keyword.replace(/y$/, "(y|ie)")}`).test(text)
+    );
+    if (matches) return category;
+  }
+  return "other";
+}
+
+/**
+ * One item's worth of text.
+ */
+function parseEntry(
+  text: string,
+  locations: InventoryLocation[],
+  today: string
+): QuickAddEntry {
+  const raw = text.split(/\s+/).filter(Boolean);
+  // Matched against lowercase, without trailing punctuation ("fri.")
+  const words = raw.map((word) => word.toLowerCase().replace(/[.!?:]+$/, ""));
+  const taken = new Array<boolean>(words.length).fill(false);
+  const take = (start: number, length: number) =>
+    taken.fill(true, start, start + length);
+
+  const entry: QuickAddEntry = {
+    text,
+    name: "",
+    quantity: 1,
+    unit: "count",
+    category: "other",
+    locationId: null,
+    purchaseDate: null,
+    expiryDate: null,
+    expiryType: null,
+  };
+
+  // Dates first, so "exp 2 days" isn't read as a quantity
+  for (let i = 0; i < words.length; i++) {
+    const keyword = DATE_KEYWORDS.find((k) => startsWith(words, i, k.words));
+    if (!keyword || taken[i]) continue;
+    let start = i + keyword.words.length;
+    if (words[start] === "on") start++;
+    const found = parseDate(
+      words.slice(start),
+      keyword.field === "purchaseDate" ? -1 : 1,
+      today
+    );
+    if (!found) continue;
+    entry[keyword.field] = found.date;
+    if (keyword.expiryType) entry.expiryType = keyword.expiryType;
+    take(i, start - i + found.length);
+  }
+
+  // Locations: the longest name that matches ("garage freezer" over
+  // "freezer"), then a kind
+  const byName = locations
+    .map((location) => ({
+      location,
+      words: location.name.toLowerCase().split(/\s+/),
+    }))
+    .sort((a, b) => b.words.length - a.words.length);
+  for (let i = 0; i < words.length && !entry.locationId; i++) {
+    if (taken[i]) continue;
+    const named = byName.find((l) => startsWith(words, i, l.words));
+    const kind = LOCATION_KIND_ALIASES[words[i]];
+    const location =
+      named?.location ?? locations.find((l) => kind && l.kind === kind);
+    if (!location) continue;
+    entry.locationId = location.id;
+    const length = named?.words.length ?? 1;
+    // "in the fridge"
+    let start = i;
+    if (words[start - 1] === "the") start--;
+    if (words[start - 1] === "in") start--;
+    take(start, i - start + length);
+  }
+
+  // Quantity: the first number left, with or without its unit
+  for (let i = 0; i < words.length; i++) {
+    if (taken[i]) continue;
+    // "x12" is "12x"
+    const word = words[i].replace(/^x(\d+)$/, "$1x");
+    const match = word.match(/^(\d+(?:[.,]\d+)?|\d+\/\d+)([a-z]+)?$/);
+    if (!match) continue;
+    const [number, unitText] = [match[1].replace(",", "."), match[2]];
+    const glued = unitText !== undefined;
+    if (glued && UNIT_ALIASES[unitText] === undefined) continue;
+    const [top, bottom] = number.split("/").map(Number);
+    const quantity = bottom ? top / bottom : top;
+    if (!(quantity > 0)) continue;
+    entry.quantity = roundQuantity(quantity);
+    let next = i + 1;
+    if (glued) {
+      entry.unit = UNIT_ALIASES[unitText];
+    } else if (!taken[next] && UNIT_ALIASES[words[next]]) {
+      entry.unit = UNIT_ALIASES[words[next]];
+      next++;
+    }
+    // "2 packs of pasta"
+    if (words[next] === "of" && !taken[next]) next++;
+    take(i, next - i);
+    break;
+  }
+
+  entry.name = raw.filter((_, i) => !taken[i]).join(" ");
+  entry.category = guessCategory(entry.name);
+  return entry;
+}
+
+/**
+ * Everything typed into the quick-add bar: one entry per line or per
+ * comma-separated part (a comma between two digits is a decimal comma).
+ */
+export function parseQuickAdd(
+  text: string,
+  locations: InventoryLocation[],
+  today = todayIso()
+): QuickAddEntry[] {
+  return text
+    .split(/[\n;]+|(?<!\d),|,(?!\d)/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => parseEntry(part, locations, today));
+}
@@ -0,0 +1,320 @@
+/**
+ * ============================================================================
+ * RECEIPT - Grocery Receipt Text Into Inventory Items
+ * ============================================================================
+ *
+ * Receipt text - copied from an e-receipt email, or what a phone's text
+ * recognition makes of a paper one - has a line per product, in the
+ * store's shorthand:
+ *
+ *   ORG BNNA 1.2KG           2.39    → 1.2 kg Organic banana, 2.39
+ *   CHKN BRST 2 @ 3.50       7.00    → 2 Chicken breast, 7.00
+ *   WHL MLK 2L               1.45 A  → 2 l Whole milk, 1.45
+ *   MULTIBUY SAVING         -0.50    → 0.50 off the line above
+ *   LOOSE CARROTS                    → 0.456 kg Loose carrots, 1.36
+ *   0.456 kg @ 2.99/kg       1.36
+ *
+ * For each line it works out:
+ * - PRICE: the amount at the end of the line (a tax code like "A" or "*"
+ *   after it is ignored). A negative one is a discount on the line above.
+ * - QUANTITY + UNIT: a weight or volume ("1.2KG", "500 g", "2L"), a count
+ *   ("2 @ 3.50", "3 x", "6PK", or a number before the name). None = 1.
+ * - NAME: what's left, with the store's abbreviations written out.
+ *
+ * An amount on a line of its own ("0.456 kg @ 2.99/kg", "2 @ 1.19") belongs
+ * to the product on the line just above it - one printed without a price
+ * (loose produce, as above), or else the last product read.
+ *
+ * Other lines without a price are headers, addresses and the like - the
+ * first of them is taken to be the store's name. Totals, tax, payment and
+ * change lines are skipped.
+ *
+ * Like lib/quickAdd.ts this is plain string matching: the same text always
+ * gives the same lines, and it can be wrong - the user checks every line
+ * before anything is added.
+ */
+
+import type { FoodUnit } from "../types/inventory";
+import { fuzzyMatch } from "./search";
+import { roundQuantity } from "./units";
+
+export interface ReceiptLine {
+  text: string; // The line as printed
+  name: string; // "Organic banana"
+  quantity: number;
+  unit: FoodUnit;
+  price: number | null; // The line's total, discounts taken off
+  match: string | null; // The known item name it looks like
+}
+
+export interface ParsedReceipt {
+  store: string; // "" = couldn't tell
+  lines: ReceiptLine[];
+}
+
+/**
+ * Shorthand that stores print, and what it stands for.
+ */
+const ABBREVIATIONS: Record<string, string> = {
+  org: "organic",
+  orgnc: "organic",
+  bnna: "banana",
+  bnns: "bananas",
+  appl: "apple",
+  apls: "apples",
+  avo: "avocado",
+  avcdo: "avocado",
+  tom: "tomato",
+  toms: "tomatoes",
+  pot: "potato",
+  pots: "potatoes",
+  onn: "onion",
+  onio: "onion",
+  crt: "carrot",
+  crts: "carrots",
+  lett: "lettuce",
+  spin: "spinach",
+  broc: "broccoli",
+  cuc: "cucumber",
+  mush: "mushrooms",
+  mshrm: "mushrooms",
+  strwb: "strawberries",
+  blbry: "blueberries",
+  grp: "grapes",
+  lmn: "lemon",
+  chkn: "chicken",
+  chk: "chicken",
+  brst: "breast",
+  thgh: "thighs",
+  bf: "beef",
+  grd: "ground",
+  mnc: "mince",
+  prk: "pork",
+  saus: "sausages",
+  bcn: "bacon",
+  slmn: "salmon",
+  bnls: "boneless",
+  sknls: "skinless",
+  mlk: "milk",
+  whl: "whole",
+  skm: "skimmed",
+  ss: "semi-skimmed",
+  chs: "cheese",
+  chse: "cheese",
+  ched: "cheddar",
+  mozz: "mozzarella",
+  btr: "butter",
+  butr: "butter",
+  yog: "yogurt",
+  ygt: "yogurt",
+  grk: "greek",
+  nat: "natural",
+  crm: "cream",
+  brd: "bread",
+  wht: "white",
+  whlml: "wholemeal",
+  pst: "pasta",
+  rce: "rice",
+  crl: "cereal",
+  flr: "flour",
+  sgr: "sugar",
+  cof: "coffee",
+  oj: "orange juice",
+  jce: "juice",
+  frz: "frozen",
+  frzn: "frozen",
+  veg: "vegetables",
+  pzza: "pizza",
+  choc: "chocolate",
+  bisc: "biscuits",
+  crsp: "crisps",
+  wtr: "water",
+  sprk: "sparkling",
+  lrg: "large",
+  sml: "small",
+  med: "medium",
+  fr: "free range",
+};
+
+// Lines that aren't products
+const SKIP_LINE =
+  /\b(sub-?total|total|tax|vat|change|cash|card|visa|mastercard|amex|debit|credit|balance|tender|payment|amount due|items? sold|thank|points|loyalty|member|tel|phone|www|http|receipt|invoice|cashier|store no|till)\b/i;
+
+// "2.39", "£2.39", "2,39", "-0.50", "0.50-", then maybe a tax code
+const PRICE_AT_END =
+  /(-?)\s*[£$€]?\s*(\d+[.,]\d{2})(-?)\s*(?:[A-Z]{1,2}|\*)?\s*$/i;
+
+const WEIGHT_UNITS: Record<string, { unit: FoodUnit; factor: number }> = {
+  kg: { unit: "kg", factor: 1 },
+  g: { unit: "g", factor: 1 },
+  lb: { unit: "kg", factor: 0.4536 },
+  lbs: { unit: "kg", factor: 0.4536 },
+  l: { unit: "l", factor: 1 },
+  ltr: { unit: "l", factor: 1 },
+  ml: { unit: "ml", factor: 1 },
+};
+
+const toNumber = (text: string) => Number(text.replace(",", "."));
+
+// "0.456 kg @ 2.99/kg" or "2 @ 1.19" on a line of its own: the amount of
+// the product on the line above, and what each of it cost
+const AMOUNT_ONLY =
+  /^(\d+(?:[.,]\d+)?)\s*(kg|g|lbs?|l|ltr|ml)?\s*(?:@|x)\s*[£$€]?\s*(\d+[.,]\d{2})(?:\s*\/\s*[a-z]+)?$/i;
+
+interface Amount {
+  quantity: number;
+  unit: FoodUnit;
+}
+
+/**
+ * Find the amount in `text`: it, and the text without it. Null amount =
+ * none found (1 of it).
+ */
+function takeAmount(text: string): { amount: Amount | null; rest: string } {
+  const weight = text.match(/(\d+(?:[.,]\d+)?)\s*(kg|g|lbs?|l|ltr|ml)\b/i);
+  if (weight) {
+    const { unit, factor } = WEIGHT_UNITS[weight[2].toLowerCase()];
+    return {
+      amount: { quantity: roundQuantity(toNumber(weight[1]) * factor), unit },
+      rest: text.replace(weight[0], " "),
+    };
+  }
+  const counted = [
+    /\b(\d+)\s*(?:@|x)\s*[£$€]?\s*\d+[.,]\d{2}/i, // "2 @ 3.50"
+    /\b(\d+)\s*(?:pk|pack|ct)\b/i, // "6PK"
+    /\b(\d+)\s*x\b/i, // "3 x"
+    /\bx\s*(\d+)\b/i, // "x3"
+    /^(\d{1,2})\s+(?=[a-z])/i, // "2 MILK"
+  ];
+  for (const pattern of counted) {
+    const match = text.match(pattern);
+    if (match && Number(match[1]) > 0) {
+      return {
+        amount: { quantity: Number(match[1]), unit: "count" },
+        rest: text.replace(match[0], " "),
+      };
+    }
+  }
+  return { amount: null, rest: text };
+}
+
+// "ORG BNNA" → "Organic banana"; product codes and stray symbols dropped
+function expandName(text: string) {
+  const words = text
+    .replace(/\b\d{4,}\b/g, " ")
+    .split(/[^\p{L}\p{N}'&-]+/u)
+    .filter((word) => /\p{L}/u.test(word))
+    .map((word) => ABBREVIATIONS[word.toLowerCase()] ?? word.toLowerCase());
+  const name = words.join(" ");
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * The known item name `name` most likely is: one whose every word is in it
+ * ("Bananas" for "Organic banana"), the longest first - or failing that,
+ * one it's a shorter way of saying ("Whole milk" for "Milk").
+ */
+export function matchKnownName(name: string, knownNames: string[]) {
+  const byLength = [...knownNames].sort((a, b) => b.length - a.length);
+  return (
+    byLength.find((known) => fuzzyMatch(known, name)) ??
+    byLength.find((known) => fuzzyMatch(name, known)) ??
+    null
+  );
+}
+
+/**
+ * Read pasted receipt text. `knownNames` (the household's items and
+ * shopping list) are what each line is matched against.
+ */
+export function parseReceipt(
+  text: string,
+  knownNames: string[]
+): ParsedReceipt {
+  const lines: ReceiptLine[] = [];
+  let store = "";
+  // The line just above, when it had no price: maybe a product whose
+  // amount and price come on the next line
+  let unpriced: string | null = null;
+
+  // A product: `text` is the line without its price
+  const addLine = (
+    line: string,
+    text: string,
+    price: number | null,
+    amount?: Amount
+  ) => {
+    const taken = takeAmount(text);
+    const name = expandName(taken.rest);
+    if (!name) return;
+    const found = amount ?? taken.amount;
+    lines.push({
+      text: line,
+      name,
+      quantity: found?.quantity ?? 1,
+      unit: found?.unit ?? "count",
+      price,
+      match: matchKnownName(name, knownNames),
+    });
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || SKIP_LINE.test(line)) continue;
+    const previous = lines[lines.length - 1];
+    const product = unpriced;
+    unpriced = null;
+
+    const priceMatch = line.match(PRICE_AT_END);
+    const before = priceMatch ? line.slice(0, priceMatch.index).trim() : line;
+    const price = priceMatch ? toNumber(priceMatch[2]) : null;
+
+    // A discount: off the line above
+    if (priceMatch && (priceMatch[1] || priceMatch[3])) {
+      if (previous && previous.price !== null) {
+        previous.price = Math.max(
+          0,
+          Math.round((previous.price - (price ?? 0)) * 100) / 100
+        );
+      }
+      continue;
+    }
+
+    // The amount of the line above, on a line of its own
+    const amountOnly = before.match(AMOUNT_ONLY) ?? line.match(AMOUNT_ONLY);
+    if (amountOnly && (product || previous)) {
+      const { amount } = takeAmount(amountOnly[0]);
+      const total = amountOnly[0] === line ? null : price;
+      if (product) {
+        // It was printed without a price, so this is its amount and price -
+        // and it wasn't the store's name after all
+        if (store === product) store = "";
+        const each = toNumber(amountOnly[3]);
+        const quantity = amount?.quantity ?? toNumber(amountOnly[1]);
+        addLine(
+          `${product} / ${line}`,
+          product,
+          total ?? Math.round(quantity * each * 100) / 100,
+          amount ?? { quantity, unit: "count" }
+        );
+      } else if (previous) {
+        if (amount) {
+          previous.quantity = amount.quantity;
+          previous.unit = amount.unit;
+        }
+        if (total !== null) previous.price = total;
+      }
+      continue;
+    }
+
+    if (price === null) {
+      if (!store && lines.length === 0 && /\p{L}/u.test(line)) store = line;
+      unpriced = line;
+      continue;
+    }
+
+    addLine(line, before, price);
+  }
+
+  return { store, lines };
+}
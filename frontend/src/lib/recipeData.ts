@@ -0,0 +1,735 @@
+/**
+ * ============================================================================
+ * RECIPE DATA - The Recipes That Ship With the App
+ * ============================================================================
+ *
+ * A small, deliberately ordinary recipe book: everyday dishes that use up
+ * the things that usually go off first (leafy greens, soft fruit, dairy,
+ * bread, leftover cooked food). Quantities are for the servings given.
+ *
+ * Ingredients are matched against item names by lib/recipes.ts, so keep
+ * `matches` to words people actually put on their food ("mince", not
+ * "ground beef 5% fat").
+ */
+
+import type { Recipe } from "../types/recipe";
+
+export const RECIPES: Recipe[] = [
+  {
+    id: "spinach-omelette",
+    name: "Spinach and cheese omelette",
+    minutes: 10,
+    servings: 1,
+    ingredients: [
+      {
+        name: "eggs",
+        matches: ["egg"],
+        quantity: 3,
+        unit: "count",
+        category: "other",
+      },
+      { name: "spinach", quantity: 50, unit: "g", category: "produce" },
+      { name: "cheese", quantity: 30, unit: "g", category: "other" },
+      {
+        name: "butter",
+        quantity: 10,
+        unit: "g",
+        category: "other",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Wilt the spinach in the butter, then take it out of the pan.",
+      "Beat the eggs with a pinch of salt and pour them into the pan.",
+      "When almost set, add the spinach and grated cheese, fold and serve.",
+    ],
+  },
+  {
+    id: "banana-pancakes",
+    name: "Banana pancakes",
+    minutes: 20,
+    servings: 2,
+    ingredients: [
+      {
+        name: "bananas",
+        matches: ["banana"],
+        quantity: 2,
+        unit: "count",
+        category: "produce",
+      },
+      {
+        name: "eggs",
+        matches: ["egg"],
+        quantity: 2,
+        unit: "count",
+        category: "other",
+      },
+      { name: "flour", quantity: 100, unit: "g", category: "pantry" },
+      { name: "milk", quantity: 150, unit: "ml", category: "other" },
+    ],
+    steps: [
+      "Mash the bananas, then whisk in the eggs, flour and milk.",
+      "Fry small ladlefuls in a hot, lightly oiled pan, 2 minutes a side.",
+    ],
+  },
+  {
+    id: "banana-bread",
+    name: "Banana bread",
+    minutes: 70,
+    servings: 8,
+    ingredients: [
+      {
+        name: "bananas",
+        matches: ["banana"],
+        quantity: 3,
+        unit: "count",
+        category: "produce",
+      },
+      { name: "flour", quantity: 250, unit: "g", category: "pantry" },
+      { name: "butter", quantity: 100, unit: "g", category: "other" },
+      {
+        name: "eggs",
+        matches: ["egg"],
+        quantity: 2,
+        unit: "count",
+        category: "other",
+      },
+      {
+        name: "sugar",
+        quantity: 100,
+        unit: "g",
+        category: "pantry",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Mash the bananas and beat in the melted butter, sugar and eggs.",
+      "Fold in the flour with a teaspoon of baking powder.",
+      "Bake in a lined loaf tin at 175 °C for about 55 minutes.",
+    ],
+  },
+  {
+    id: "berry-smoothie",
+    name: "Berry smoothie",
+    minutes: 5,
+    servings: 2,
+    ingredients: [
+      {
+        name: "berries",
+        matches: ["berry", "strawberry", "blueberry", "raspberry"],
+        quantity: 200,
+        unit: "g",
+        category: "produce",
+      },
+      {
+        name: "yogurt",
+        matches: ["yogurt", "yoghurt"],
+        quantity: 200,
+        unit: "g",
+        category: "other",
+      },
+      { name: "banana", quantity: 1, unit: "count", category: "produce" },
+      { name: "milk", quantity: 200, unit: "ml", category: "other" },
+    ],
+    steps: ["Blend everything until smooth. Frozen berries work as well."],
+  },
+  {
+    id: "french-toast",
+    name: "French toast",
+    minutes: 15,
+    servings: 2,
+    ingredients: [
+      { name: "bread", quantity: 4, unit: "count", category: "pantry" },
+      {
+        name: "eggs",
+        matches: ["egg"],
+        quantity: 2,
+        unit: "count",
+        category: "other",
+      },
+      { name: "milk", quantity: 100, unit: "ml", category: "other" },
+      {
+        name: "butter",
+        quantity: 20,
+        unit: "g",
+        category: "other",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Whisk the eggs and milk; soak the slices of bread in it.",
+      "Fry in butter until golden on both sides.",
+    ],
+  },
+  {
+    id: "bread-salad",
+    name: "Tomato and bread salad (panzanella)",
+    minutes: 15,
+    servings: 2,
+    ingredients: [
+      { name: "bread", quantity: 150, unit: "g", category: "pantry" },
+      {
+        name: "tomatoes",
+        matches: ["tomato"],
+        quantity: 4,
+        unit: "count",
+        category: "produce",
+      },
+      { name: "cucumber", quantity: 1, unit: "count", category: "produce" },
+      {
+        name: "red onion",
+        matches: ["onion"],
+        quantity: 1,
+        unit: "count",
+        category: "produce",
+      },
+      {
+        name: "olive oil",
+        matches: ["oil"],
+        quantity: 40,
+        unit: "ml",
+        category: "pantry",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Tear the stale bread into chunks and chop the tomatoes and cucumber.",
+      "Slice the onion thinly, mix everything with oil, vinegar and salt.",
+      "Leave for 10 minutes so the bread soaks up the juices.",
+    ],
+  },
+  {
+    id: "vegetable-soup",
+    name: "Use-everything vegetable soup",
+    minutes: 40,
+    servings: 4,
+    ingredients: [
+      {
+        name: "carrots",
+        matches: ["carrot"],
+        quantity: 3,
+        unit: "count",
+        category: "produce",
+      },
+      {
+        name: "potatoes",
+        matches: ["potato"],
+        quantity: 2,
+        unit: "count",
+        category: "produce",
+      },
+      { name: "onion", quantity: 1, unit: "count", category: "produce" },
+      { name: "celery", quantity: 2, unit: "count", category: "produce" },
+      {
+        name: "stock",
+        matches: ["stock", "broth"],
+        quantity: 1,
+        unit: "l",
+        category: "pantry",
+      },
+    ],
+    steps: [
+      "Chop all the vegetables and soften the onion in a little oil.",
+      "Add the rest and the stock, simmer for 25 minutes.",
+      "Blend, or leave chunky. Season to taste.",
+    ],
+  },
+  {
+    id: "stir-fry",
+    name: "Vegetable stir-fry with rice",
+    minutes: 25,
+    servings: 2,
+    ingredients: [
+      { name: "rice", quantity: 150, unit: "g", category: "pantry" },
+      {
+        name: "peppers",
+        matches: ["pepper", "capsicum"],
+        quantity: 1,
+        unit: "count",
+        category: "produce",
+      },
+      { name: "broccoli", quantity: 200, unit: "g", category: "produce" },
+      { name: "carrot", quantity: 1, unit: "count", category: "produce" },
+      {
+        name: "soy sauce",
+        matches: ["soy"],
+        quantity: 30,
+        unit: "ml",
+        category: "pantry",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Cook the rice.",
+      "Stir-fry the sliced vegetables on high heat for 5 minutes.",
+      "Add the soy sauce and serve on the rice.",
+    ],
+  },
+  {
+    id: "chicken-fried-rice",
+    name: "Chicken fried rice",
+    minutes: 20,
+    servings: 2,
+    ingredients: [
+      { name: "chicken", quantity: 200, unit: "g", category: "other" },
+      { name: "rice", quantity: 150, unit: "g", category: "pantry" },
+      {
+        name: "eggs",
+        matches: ["egg"],
+        quantity: 2,
+        unit: "count",
+        category: "other",
+      },
+      {
+        name: "peas",
+        matches: ["pea"],
+        quantity: 100,
+        unit: "g",
+        category: "frozen",
+      },
+      {
+        name: "spring onions",
+        matches: ["spring onion", "scallion"],
+        quantity: 2,
+        unit: "count",
+        category: "produce",
+      },
+      {
+        name: "soy sauce",
+        matches: ["soy"],
+        quantity: 30,
+        unit: "ml",
+        category: "pantry",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Cook the rice (day-old rice is even better).",
+      "Fry the diced chicken until cooked through, push it aside and scramble the eggs.",
+      "Add the rice, peas and soy sauce; finish with the spring onions.",
+    ],
+  },
+  {
+    id: "bolognese",
+    name: "Spaghetti bolognese",
+    minutes: 45,
+    servings: 4,
+    ingredients: [
+      {
+        name: "mince",
+        matches: ["mince", "ground beef"],
+        quantity: 500,
+        unit: "g",
+        category: "other",
+      },
+      {
+        name: "pasta",
+        matches: ["pasta", "spaghetti"],
+        quantity: 400,
+        unit: "g",
+        category: "pantry",
+      },
+      {
+        name: "chopped tomatoes",
+        matches: ["tomato"],
+        quantity: 400,
+        unit: "g",
+        category: "pantry",
+      },
+      { name: "onion", quantity: 1, unit: "count", category: "produce" },
+      { name: "carrot", quantity: 1, unit: "count", category: "produce" },
+      {
+        name: "garlic",
+        quantity: 2,
+        unit: "count",
+        category: "produce",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Soften the chopped onion, carrot and garlic, then brown the mince.",
+      "Add the tomatoes and simmer for 30 minutes.",
+      "Serve on the cooked pasta.",
+    ],
+  },
+  {
+    id: "salmon-traybake",
+    name: "Salmon and vegetable traybake",
+    minutes: 30,
+    servings: 2,
+    ingredients: [
+      {
+        name: "salmon",
+        matches: ["salmon", "fish"],
+        quantity: 2,
+        unit: "count",
+        category: "other",
+      },
+      {
+        name: "potatoes",
+        matches: ["potato"],
+        quantity: 400,
+        unit: "g",
+        category: "produce",
+      },
+      { name: "broccoli", quantity: 200, unit: "g", category: "produce" },
+      { name: "lemon", quantity: 1, unit: "count", category: "produce" },
+    ],
+    steps: [
+      "Roast the sliced potatoes at 200 °C for 15 minutes.",
+      "Add the broccoli and salmon, squeeze over the lemon, roast 12 minutes more.",
+    ],
+  },
+  {
+    id: "pasta-spinach",
+    name: "Creamy spinach pasta",
+    minutes: 20,
+    servings: 2,
+    ingredients: [
+      {
+        name: "pasta",
+        matches: ["pasta", "spaghetti", "penne"],
+        quantity: 200,
+        unit: "g",
+        category: "pantry",
+      },
+      { name: "spinach", quantity: 150, unit: "g", category: "produce" },
+      { name: "cream", quantity: 150, unit: "ml", category: "other" },
+      {
+        name: "parmesan",
+        matches: ["parmesan", "cheese"],
+        quantity: 40,
+        unit: "g",
+        category: "other",
+      },
+      {
+        name: "garlic",
+        quantity: 1,
+        unit: "count",
+        category: "produce",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Cook the pasta.",
+      "Soften the garlic, wilt the spinach, then add the cream and cheese.",
+      "Toss with the pasta and a splash of its water.",
+    ],
+  },
+  {
+    id: "mushroom-risotto",
+    name: "Mushroom risotto",
+    minutes: 35,
+    servings: 2,
+    ingredients: [
+      {
+        name: "mushrooms",
+        matches: ["mushroom"],
+        quantity: 250,
+        unit: "g",
+        category: "produce",
+      },
+      {
+        name: "risotto rice",
+        matches: ["rice"],
+        quantity: 160,
+        unit: "g",
+        category: "pantry",
+      },
+      {
+        name: "stock",
+        matches: ["stock", "broth"],
+        quantity: 750,
+        unit: "ml",
+        category: "pantry",
+      },
+      {
+        name: "parmesan",
+        matches: ["parmesan", "cheese"],
+        quantity: 40,
+        unit: "g",
+        category: "other",
+      },
+      { name: "onion", quantity: 1, unit: "count", category: "produce" },
+    ],
+    steps: [
+      "Fry the onion and mushrooms, then stir in the rice.",
+      "Add the hot stock a ladle at a time, stirring, for about 20 minutes.",
+      "Stir in the cheese off the heat.",
+    ],
+  },
+  {
+    id: "chickpea-curry",
+    name: "Chickpea and spinach curry",
+    minutes: 30,
+    servings: 3,
+    ingredients: [
+      {
+        name: "chickpeas",
+        matches: ["chickpea", "garbanzo"],
+        quantity: 400,
+        unit: "g",
+        category: "pantry",
+      },
+      { name: "spinach", quantity: 100, unit: "g", category: "produce" },
+      {
+        name: "coconut milk",
+        matches: ["coconut milk"],
+        quantity: 400,
+        unit: "ml",
+        category: "pantry",
+      },
+      {
+        name: "tomatoes",
+        matches: ["tomato"],
+        quantity: 2,
+        unit: "count",
+        category: "produce",
+      },
+      { name: "onion", quantity: 1, unit: "count", category: "produce" },
+      {
+        name: "curry paste",
+        matches: ["curry paste", "curry powder"],
+        quantity: 30,
+        unit: "g",
+        category: "pantry",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Soften the onion with the curry paste.",
+      "Add the chopped tomatoes, chickpeas and coconut milk; simmer 15 minutes.",
+      "Stir in the spinach until wilted. Serve with rice or bread.",
+    ],
+  },
+  {
+    id: "greek-salad",
+    name: "Greek salad",
+    minutes: 10,
+    servings: 2,
+    ingredients: [
+      {
+        name: "tomatoes",
+        matches: ["tomato"],
+        quantity: 3,
+        unit: "count",
+        category: "produce",
+      },
+      { name: "cucumber", quantity: 1, unit: "count", category: "produce" },
+      { name: "feta", quantity: 150, unit: "g", category: "other" },
+      {
+        name: "olives",
+        matches: ["olive"],
+        quantity: 50,
+        unit: "g",
+        category: "pantry",
+      },
+      {
+        name: "red onion",
+        matches: ["onion"],
+        quantity: 0.5,
+        unit: "count",
+        category: "produce",
+      },
+    ],
+    steps: ["Chop everything into chunks, top with the feta, oil and oregano."],
+  },
+  {
+    id: "quesadillas",
+    name: "Cheese and pepper quesadillas",
+    minutes: 15,
+    servings: 2,
+    ingredients: [
+      {
+        name: "tortillas",
+        matches: ["tortilla", "wrap"],
+        quantity: 4,
+        unit: "count",
+        category: "pantry",
+      },
+      { name: "cheese", quantity: 150, unit: "g", category: "other" },
+      {
+        name: "peppers",
+        matches: ["pepper", "capsicum"],
+        quantity: 1,
+        unit: "count",
+        category: "produce",
+      },
+      {
+        name: "beans",
+        matches: ["bean"],
+        quantity: 200,
+        unit: "g",
+        category: "pantry",
+      },
+    ],
+    steps: [
+      "Fill half of each tortilla with cheese, sliced pepper and beans; fold.",
+      "Toast in a dry pan until crisp and the cheese has melted.",
+    ],
+  },
+  {
+    id: "leftover-frittata",
+    name: "Leftover vegetable frittata",
+    minutes: 25,
+    servings: 3,
+    ingredients: [
+      {
+        name: "eggs",
+        matches: ["egg"],
+        quantity: 6,
+        unit: "count",
+        category: "other",
+      },
+      {
+        name: "vegetables",
+        matches: [
+          "zucchini",
+          "courgette",
+          "pepper",
+          "broccoli",
+          "mushroom",
+          "spinach",
+        ],
+        quantity: 300,
+        unit: "g",
+        category: "produce",
+      },
+      { name: "cheese", quantity: 50, unit: "g", category: "other" },
+      { name: "milk", quantity: 50, unit: "ml", category: "other" },
+    ],
+    steps: [
+      "Fry the chopped vegetables in an ovenproof pan.",
+      "Pour over the eggs beaten with the milk, scatter the cheese on top.",
+      "Cook gently for 5 minutes, then finish under the grill.",
+    ],
+  },
+  {
+    id: "yogurt-parfait",
+    name: "Yogurt and fruit parfait",
+    minutes: 5,
+    servings: 2,
+    ingredients: [
+      {
+        name: "yogurt",
+        matches: ["yogurt", "yoghurt"],
+        quantity: 300,
+        unit: "g",
+        category: "other",
+      },
+      {
+        name: "fruit",
+        matches: [
+          "berry",
+          "strawberry",
+          "blueberry",
+          "raspberry",
+          "banana",
+          "apple",
+        ],
+        quantity: 200,
+        unit: "g",
+        category: "produce",
+      },
+      {
+        name: "oats",
+        matches: ["oat", "granola", "muesli"],
+        quantity: 60,
+        unit: "g",
+        category: "pantry",
+      },
+    ],
+    steps: ["Layer the yogurt, fruit and oats in glasses."],
+  },
+  {
+    id: "apple-crumble",
+    name: "Apple crumble",
+    minutes: 45,
+    servings: 4,
+    ingredients: [
+      {
+        name: "apples",
+        matches: ["apple"],
+        quantity: 5,
+        unit: "count",
+        category: "produce",
+      },
+      { name: "flour", quantity: 150, unit: "g", category: "pantry" },
+      { name: "butter", quantity: 100, unit: "g", category: "other" },
+      {
+        name: "oats",
+        matches: ["oat"],
+        quantity: 50,
+        unit: "g",
+        category: "pantry",
+      },
+      {
+        name: "sugar",
+        quantity: 80,
+        unit: "g",
+        category: "pantry",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Slice the apples into a baking dish.",
+      "Rub the butter into the flour, oats and sugar; scatter on top.",
+      "Bake at 190 °C for 30 minutes.",
+    ],
+  },
+  {
+    id: "ham-cheese-toastie",
+    name: "Ham and cheese toastie",
+    minutes: 10,
+    servings: 1,
+    ingredients: [
+      { name: "bread", quantity: 2, unit: "count", category: "pantry" },
+      { name: "ham", quantity: 50, unit: "g", category: "other" },
+      { name: "cheese", quantity: 40, unit: "g", category: "other" },
+      {
+        name: "butter",
+        quantity: 10,
+        unit: "g",
+        category: "other",
+        staple: true,
+      },
+    ],
+    steps: [
+      "Butter the outside of the bread, fill and toast in a pan or press.",
+    ],
+  },
+  {
+    id: "potato-leek-soup",
+    name: "Potato and leek soup",
+    minutes: 35,
+    servings: 4,
+    ingredients: [
+      {
+        name: "potatoes",
+        matches: ["potato"],
+        quantity: 500,
+        unit: "g",
+        category: "produce",
+      },
+      {
+        name: "leeks",
+        matches: ["leek"],
+        quantity: 2,
+        unit: "count",
+        category: "produce",
+      },
+      {
+        name: "stock",
+        matches: ["stock", "broth"],
+        quantity: 1,
+        unit: "l",
+        category: "pantry",
+      },
+      { name: "cream", quantity: 100, unit: "ml", category: "other" },
+    ],
+    steps: [
+      "Soften the sliced leeks, add the diced potatoes and stock.",
+      "Simmer 20 minutes, blend, and stir in the cream.",
+    ],
+  },
+];
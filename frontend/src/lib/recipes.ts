@@ -0,0 +1,185 @@
+/**
+ * ============================================================================
+ * RECIPES - What to Cook With What's About to Go Off
+ * ============================================================================
+ *
+ * Each ingredient of each bundled recipe (lib/recipeData.ts) is matched
+ * against the inventory by name, and taken from the matching items that
+ * expire SOONEST first:
+ *
+ *   "spinach 150 g"  +  Baby spinach 100 g (expires tomorrow)
+ *                    +  Spinach 200 g (expires next week)
+ *   → 100 g from the baby spinach, 50 g from the other bag, nothing missing
+ *
+ * Recipes are ranked by how many of their ingredients use food that needs
+ * eating soon (the same items as the Dashboard's "Expiring soon"), then by
+ * how few ingredients are missing. Food past its use-by date is never
+ * suggested.
+ */
+
+import type { FoodItem } from "../types/inventory";
+import type { Recipe, RecipeIngredient } from "../types/recipe";
+import type { NewShoppingListEntry } from "../types/shoppingList";
+import type { UserSettings } from "../types/user";
+import {
+  DEFAULT_SETTINGS,
+  getExpiryStatus,
+  needsAttention,
+  todayIso,
+} from "./expiry";
+import { convertQuantity, roundQuantity } from "./units";
+import { RECIPES } from "./recipeData";
+
+export interface IngredientUse {
+  item: FoodItem;
+  // How much to take, in the ITEM's unit - or null when the units don't
+  // convert ("150 g" of spinach from "1 pack"), so only the cook can say
+  amount: number | null;
+}
+
+export interface IngredientMatch {
+  ingredient: RecipeIngredient;
+  uses: IngredientUse[]; // Soonest-expiring first
+  missing: number; // Still to buy, in the ingredient's unit (0 = enough)
+  expiring: boolean; // Uses food that needs eating soon
+}
+
+export interface RecipeSuggestion {
+  recipe: Recipe;
+  ingredients: IngredientMatch[];
+  expiringCount: number; // Ingredients that use up expiring food
+  missingCount: number; // Ingredients to buy (staples never count)
+}
+
+const words = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// "egg" is "egg", "eggs"; "berry" is also "berries" - but not "eggplant"
+const wordIs = (word: string, singular: string) =>
+  word === singular ||
+  word === `${singular}s` ||
+  word === `${singular}es` ||
+  word === singular.replace(/y$/, "ies");
+
+/**
+ * Does the item name contain one of the ingredient's words or phrases?
+ */
+export function ingredientMatches(ingredient: RecipeIngredient, name: string) {
+  const nameWords = words(name);
+  return (ingredient.matches ?? [ingredient.name]).some((phrase) => {
+    const phraseWords = words(phrase);
+    return nameWords.some((_, start) =>
+      phraseWords.every(
+        (word, offset) =>
+          start + offset < nameWords.length &&
+          wordIs(nameWords[start + offset], word)
+      )
+    );
+  });
+}
+
+// Soonest expiry first; items without a date last
+const bySoonestExpiry = (a: FoodItem, b: FoodItem) =>
+  (a.expiryDate ?? "9999").localeCompare(b.expiryDate ?? "9999");
+
+/**
+ * Match one ingredient, taking from `left` (how much of each item the
+ * recipe's earlier ingredients haven't already claimed).
+ */
+function matchIngredient(
+  ingredient: RecipeIngredient,
+  items: FoodItem[],
+  left: Map<FoodItem["id"], number>,
+  settings: UserSettings,
+  today: string
+): IngredientMatch {
+  const uses: IngredientUse[] = [];
+  let needed = ingredient.quantity;
+
+  for (const item of items) {
+    if (needed <= 0) break;
+    if (!ingredientMatches(ingredient, item.name)) continue;
+    const available = left.get(item.id) ?? item.quantity;
+    if (available <= 0) continue;
+
+    const neededHere = convertQuantity(needed, ingredient.unit, item.unit);
+    if (neededHere === null) {
+      // Can't tell how much is there - assume it's enough
+      uses.push({ item, amount: null });
+      needed = 0;
+      continue;
+    }
+    const amount = Math.min(available, neededHere);
+    uses.push({ item, amount });
+    left.set(item.id, roundQuantity(available - amount));
+    needed = roundQuantity(
+      needed - (convertQuantity(amount, item.unit, ingredient.unit) ?? 0)
+    );
+  }
+
+  return {
+    ingredient,
+    uses,
+    missing: ingredient.staple ? 0 : Math.max(0, needed),
+    expiring: uses.some(({ item }) =>
+      needsAttention(getExpiryStatus(item, settings, today))
+    ),
+  };
+}
+
+/**
+ * Every recipe that uses at least one thing in the inventory, best first.
+ */
+export function suggestRecipes(
+  items: FoodItem[],
+  settings: UserSettings = DEFAULT_SETTINGS,
+  recipes: Recipe[] = RECIPES,
+  today = todayIso()
+): RecipeSuggestion[] {
+  const usable = items
+    .filter(
+      (item) =>
+        item.quantity > 0 &&
+        getExpiryStatus(item, settings, today) !== "expired"
+    )
+    .sort(bySoonestExpiry);
+
+  return recipes
+    .map((recipe) => {
+      const left = new Map<FoodItem["id"], number>();
+      const ingredients = recipe.ingredients.map((ingredient) =>
+        matchIngredient(ingredient, usable, left, settings, today)
+      );
+      return {
+        recipe,
+        ingredients,
+        expiringCount: ingredients.filter((i) => i.expiring).length,
+        missingCount: ingredients.filter((i) => i.missing > 0).length,
+      };
+    })
+    .filter(({ ingredients }) =>
+      ingredients.some((i) => !i.ingredient.staple && i.uses.length > 0)
+    )
+    .sort(
+      (a, b) =>
+        b.expiringCount - a.expiringCount ||
+        a.missingCount - b.missingCount ||
+        a.recipe.name.localeCompare(b.recipe.name)
+    );
+}
+
+/**
+ * The shopping list entries for what a recipe is missing.
+ */
+export const missingEntries = (
+  suggestion: RecipeSuggestion
+): NewShoppingListEntry[] =>
+  suggestion.ingredients
+    .filter(({ missing }) => missing > 0)
+    .map(({ ingredient, missing }) => ({
+      name: ingredient.name,
+      category: ingredient.category,
+      quantity: missing,
+      unit: ingredient.unit,
+      locationId: null,
+    }));
@@ -0,0 +1,134 @@
+/**
+ * ============================================================================
+ * SEARCH - Forgiving Text Search for Food Names
+ * ============================================================================
+ *
+ * People type fast on a phone and call the same food different things, so
+ * the Dashboard search:
+ * - tolerates typos: "chiken" finds "Chicken breast" (edit distance)
+ * - knows synonyms: "capsicum" finds "Red bell pepper" - as whole words
+ *   only, so "soda" finds "Pop" but not "Popcorn"
+ * - matches word starts: "straw" finds "Strawberries"
+ *
+ * Every word of the query has to match something (name, notes or tags).
+ */
+
+/**
+ * Groups of words that mean the same food. Multi-word names are fine.
+ */
+const SYNONYM_GROUPS = [
+  ["capsicum", "bell pepper", "pepper"],
+  ["zucchini", "courgette"],
+  ["eggplant", "aubergine"],
+  ["cilantro", "coriander"],
+  ["scallion", "spring onion", "green onion"],
+  ["chickpea", "garbanzo"],
+  ["shrimp", "prawn"],
+  ["arugula", "rocket"],
+  ["mince", "ground beef", "minced beef"],
+  ["cookie", "biscuit"],
+  ["yogurt", "yoghurt"],
+  ["fries", "chips"],
+  ["candy", "sweets"],
+  ["soda", "pop", "soft drink"],
+  ["beetroot", "beet"],
+];
+
+const SYNONYMS = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  for (const word of group) {
+    SYNONYMS.set(word, group);
+  }
+}
+
+const words = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) once it's clear the
+ * two words are further apart than `max`.
+ */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Short words must match exactly; longer ones may have a typo or two
+const allowedTypos = (word: string) =>
+  word.length <= 3 ? 0 : word.length <= 7 ? 1 : 2;
+
+function wordMatches(queryWord: string, textWord: string) {
+  if (textWord.startsWith(queryWord)) return true;
+  // Compare against the start of the text word too, so "chiken" ~ "chicken"
+  // and "strawbery" ~ "strawberries"
+  const max = allowedTypos(queryWord);
+  return (
+    max > 0 &&
+    (editDistance(queryWord, textWord, max) <= max ||
+      editDistance(queryWord, textWord.slice(0, queryWord.length + 1), max) <=
+        max)
+  );
+}
+
+// A synonym the user didn't type isn't a word start or a typo: it's the
+// word itself, give or take a plural
+const wholeWordMatches = (word: string, textWord: string) =>
+  textWord === word || textWord === `${word}s` || textWord === `${word}es`;
+
+// Does `phrase` (one or more words) appear in `textWords`, each word
+// matching as `matches` says?
+function phraseMatches(
+  phrase: string,
+  textWords: string[],
+  matches = wordMatches
+) {
+  const phraseWords = words(phrase);
+  return textWords.some((_, start) =>
+    phraseWords.every(
+      (word, offset) =>
+        start + offset < textWords.length &&
+        matches(word, textWords[start + offset])
+    )
+  );
+}
+
+/**
+ * Does `text` match the search `query`? An empty query matches everything.
+ */
+export function fuzzyMatch(query: string, text: string) {
+  const textWords = words(text);
+  const queryText = query.toLowerCase().trim();
+  // What was typed matches loosely, its synonyms only as whole words
+  const matchesTyped = (typed: string) => (phrase: string) =>
+    phraseMatches(
+      phrase,
+      textWords,
+      phrase === typed ? wordMatches : wholeWordMatches
+    );
+
+  // A whole multi-word synonym ("bell pepper") first...
+  const group = SYNONYMS.get(queryText);
+  if (group) {
+    return group.some(matchesTyped(queryText));
+  }
+  // ...otherwise every word on its own, each with its synonyms
+  return words(queryText).every((word) =>
+    (SYNONYMS.get(word) ?? [word]).some(matchesTyped(word))
+  );
+}
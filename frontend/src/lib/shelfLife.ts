@@ -0,0 +1,222 @@
+/**
+ * ============================================================================
+ * SHELF LIFE - Suggested Expiry Dates Without Typing Them In
+ * ============================================================================
+ *
+ * Typing an expiry date for every grocery item is the main reason people
+ * stop logging, so the item form fills one in from:
+ *
+ *   the item name or category  +  where it's stored  →  how many days it keeps
+ *
+ * e.g. "chicken" in the fridge keeps 2 days, in the freezer 270.
+ *
+ * The built-in table below ships with the app, so suggestions work offline.
+ * A household's own rules (types/shelfLife.ts) win over it.
+ *
+ * WHICH RULE WINS (first match):
+ * 1. Household rule for a keyword in the name
+ * 2. Household rule for the category
+ * 3. Built-in entry for a keyword in the name
+ * 4. Built-in entry for the category
+ * Within 1 and 3 the LONGEST matching keyword wins, so "chicken nuggets"
+ * can have a different rule from "chicken".
+ */
+
+import type {
+  ExpiryType,
+  FoodCategory,
+  FoodItem,
+  StorageLocation,
+} from "../types/inventory";
+import type { ShelfLifeRule } from "../types/shelfLife";
+import { addDays, todayIso } from "./expiry";
+
+type DaysByLocation = Partial<Record<StorageLocation, number>>;
+
+interface BuiltInEntry {
+  keywords: string[];
+  days: DaysByLocation;
+  expiryType?: ExpiryType; // Set for foods that are unsafe after the date
+}
+
+/**
+ * Rough, conservative home-storage guidelines (days).
+ */
+const BUILT_IN_BY_NAME: BuiltInEntry[] = [
+  {
+    keywords: ["chicken", "turkey", "duck"],
+    days: { fridge: 2, freezer: 270 },
+    expiryType: "use-by",
+  },
+  {
+    keywords: ["mince", "ground beef", "sausage", "burger"],
+    days: { fridge: 2, freezer: 120 },
+    expiryType: "use-by",
+  },
+  {
+    keywords: ["beef", "pork", "lamb", "steak", "veal"],
+    days: { fridge: 3, freezer: 180 },
+    expiryType: "use-by",
+  },
+  {
+    keywords: ["fish", "salmon", "cod", "tuna steak", "shrimp", "prawn"],
+    days: { fridge: 2, freezer: 180 },
+    expiryType: "use-by",
+  },
+  {
+    keywords: ["ham", "bacon", "salami", "deli"],
+    days: { fridge: 7, freezer: 30 },
+    expiryType: "use-by",
+  },
+  {
+    keywords: ["milk", "cream"],
+    days: { fridge: 7, freezer: 90 },
+    expiryType: "use-by",
+  },
+  { keywords: ["yogurt", "yoghurt"], days: { fridge: 14, freezer: 60 } },
+  { keywords: ["cheese"], days: { fridge: 28, freezer: 180 } },
+  { keywords: ["butter"], days: { fridge: 60, freezer: 270 } },
+  { keywords: ["egg"], days: { fridge: 28 } },
+  { keywords: ["tofu"], days: { fridge: 5, freezer: 150 } },
+  {
+    keywords: ["bread", "bagel", "bun"],
+    days: { pantry: 5, fridge: 7, freezer: 90 },
+  },
+  { keywords: ["lettuce", "spinach", "salad", "herb"], days: { fridge: 5 } },
+  {
+    keywords: ["berry", "strawberry", "blueberry", "raspberry", "grape"],
+    days: { fridge: 5, freezer: 240 },
+  },
+  { keywords: ["banana"], days: { pantry: 5, freezer: 90 } },
+  { keywords: ["apple", "orange", "lemon"], days: { pantry: 10, fridge: 30 } },
+  { keywords: ["tomato", "avocado"], days: { pantry: 4, fridge: 7 } },
+  {
+    keywords: ["carrot", "broccoli", "pepper"],
+    days: { fridge: 14, freezer: 240 },
+  },
+  {
+    keywords: ["eggplant", "aubergine", "zucchini", "courgette"],
+    days: { fridge: 7 },
+  },
+  { keywords: ["potato", "onion", "garlic"], days: { pantry: 30 } },
+  {
+    keywords: ["rice", "pasta", "flour", "oats", "cereal"],
+    days: { pantry: 365 },
+  },
+  {
+    keywords: ["leftover", "soup", "stew", "curry"],
+    days: { fridge: 3, freezer: 90 },
+  },
+];
+
+const BUILT_IN_BY_CATEGORY: Record<FoodCategory, DaysByLocation> = {
+  meals: { fridge: 3, freezer: 90 },
+  produce: { pantry: 5, fridge: 7, freezer: 240 },
+  pantry: { pantry: 180, fridge: 180, freezer: 365 },
+  snacks: { pantry: 60, fridge: 60, freezer: 180 },
+  frozen: { freezer: 180, fridge: 2 },
+  other: { pantry: 30, fridge: 7, freezer: 90 },
+};
+
+export type SuggestionSource =
+  | "household-keyword"
+  | "household-category"
+  | "built-in-keyword"
+  | "built-in-category";
+
+export interface ExpirySuggestion {
+  expiryDate: string; // "YYYY-MM-DD"
+  days: number;
+  expiryType: ExpiryType | null; // null = leave the item's type alone
+  source: SuggestionSource;
+  matched: string; // The keyword or category that matched
+  location: StorageLocation;
+}
+
+// "chicken" matches "Chicken breast" and "roast chicken", but "ham" doesn't
+// match "graham crackers". "berry" also matches "berries".
+const nameMatches = (name: string, keyword: string) => {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const plural = escaped.replace(/y$/, "(y|ies)");
+  return new RegExp(`\\b${plural}`).test(name.toLowerCase());
+};
+
+const longestFirst = (a: string, b: string) => b.length - a.length;
+
+/**
+ * Suggest an expiry date for an item kept in `item.location`, counting
+ * from `fromDate` (the purchase date, or today when an item is moved).
+ * Returns null when nothing matches that location.
+ */
+export function suggestExpiry(
+  item: Pick<FoodItem, "name" | "category" | "location">,
+  householdRules: ShelfLifeRule[] = [],
+  fromDate = todayIso()
+): ExpirySuggestion | null {
+  const { name, category, location } = item;
+  const suggest = (
+    days: number,
+    source: SuggestionSource,
+    matched: string,
+    expiryType: ExpiryType | null = null
+  ): ExpirySuggestion => ({
+    expiryDate: addDays(fromDate, days),
+    days,
+    expiryType,
+    source,
+    matched,
+    location,
+  });
+
+  const rulesHere = householdRules.filter((r) => r.location === location);
+
+  const keywordRule = rulesHere
+    .filter((r) => r.keyword && nameMatches(name, r.keyword))
+    .sort((a, b) => longestFirst(a.keyword!, b.keyword!))[0];
+  if (keywordRule) {
+    return suggest(keywordRule.days, "household-keyword", keywordRule.keyword!);
+  }
+
+  const categoryRule = rulesHere.find((r) => r.category === category);
+  if (categoryRule) {
+    return suggest(categoryRule.days, "household-category", category);
+  }
+
+  const builtIn = BUILT_IN_BY_NAME.flatMap((entry) =>
+    entry.keywords
+      .filter((keyword) => nameMatches(name, keyword))
+      .map((keyword) => ({ entry, keyword }))
+  )
+    .filter(({ entry }) => entry.days[location] !== undefined)
+    .sort((a, b) => longestFirst(a.keyword, b.keyword))[0];
+  if (builtIn) {
+    return suggest(
+      builtIn.entry.days[location]!,
+      "built-in-keyword",
+      builtIn.keyword,
+      builtIn.entry.expiryType
+    );
+  }
+
+  const categoryDays = BUILT_IN_BY_CATEGORY[category][location];
+  if (categoryDays !== undefined) {
+    return suggest(categoryDays, "built-in-category", category);
+  }
+
+  return null;
+}
+
+/**
+ * Where a suggestion came from, for the item form, e.g.
+ * 'Your household\'s rule: "chicken" in the fridge keeps 2 days'.
+ */
+export function describeSuggestion(suggestion: ExpirySuggestion) {
+  const { source, matched, location, days } = suggestion;
+  const what = source.endsWith("keyword")
+    ? `"${matched}"`
+    : `${matched} (category)`;
+  const who = source.startsWith("household")
+    ? "Your household's rule"
+    : "Built-in guide";
+  return `${who}: ${what} in the ${location} keeps ${days} day${days === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,77 @@
+/**
+ * ============================================================================
+ * UNITS - Converting and Stepping Quantities
+ * ============================================================================
+ *
+ * Real food comes in grams, litres, packs and "half a bag". Units that
+ * measure the same thing (a DIMENSION) convert into each other:
+ *
+ *   mass:   g  ⇄ kg    (1 kg = 1000 g)
+ *   volume: ml ⇄ l     (1 l  = 1000 ml)
+ *   count / pack / portion: only themselves
+ *
+ * So "use 250 g" of a 1 kg bag leaves 0.75 kg.
+ */
+
+import type { FoodUnit } from "../types/inventory";
+
+type Dimension = "mass" | "volume" | "count" | "pack" | "portion";
+
+// Each unit's dimension and its size in that dimension's base unit
+const UNITS: Record<FoodUnit, { dimension: Dimension; factor: number }> = {
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  ml: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  count: { dimension: "count", factor: 1 },
+  pack: { dimension: "pack", factor: 1 },
+  portion: { dimension: "portion", factor: 1 },
+};
+
+/**
+ * How much one "+" / "-" press changes a quantity in each unit.
+ */
+export const UNIT_STEP: Record<FoodUnit, number> = {
+  count: 1,
+  pack: 1,
+  portion: 1,
+  g: 100,
+  kg: 0.1,
+  ml: 100,
+  l: 0.1,
+};
+
+/**
+ * Round away floating-point noise (0.1 + 0.2 = 0.30000000000000004).
+ */
+export const roundQuantity = (quantity: number) =>
+  Math.round(quantity * 1000) / 1000;
+
+/**
+ * The units `unit` converts to (including itself), e.g. g → [g, kg].
+ */
+export function compatibleUnits(unit: FoodUnit): FoodUnit[] {
+  const { dimension } = UNITS[unit];
+  return (Object.keys(UNITS) as FoodUnit[]).filter(
+    (other) => UNITS[other].dimension === dimension
+  );
+}
+
+/**
+ * Convert `amount` from one unit to another, or null if they measure
+ * different things (you can't turn grams into packs).
+ */
+export function convertQuantity(amount: number, from: FoodUnit, to: FoodUnit) {
+  if (UNITS[from].dimension !== UNITS[to].dimension) return null;
+  return roundQuantity((amount * UNITS[from].factor) / UNITS[to].factor);
+}
+
+/**
+ * "2", "250 g", "0.5 pack", "3 portions" - counts don't show their unit.
+ */
+export function formatQuantity(quantity: number, unit: FoodUnit) {
+  if (unit === "count") return `${quantity}`;
+  if (unit === "portion")
+    return `${quantity} portion${quantity === 1 ? "" : "s"}`;
+  return `${quantity} ${unit}`;
+}
@@ -0,0 +1,235 @@
+/**
+ * ============================================================================
+ * WASTE STATS - The Analytics Page's Numbers
+ * ============================================================================
+ *
+ * Pure functions that add up the waste log (see types/removal.ts). Every
+ * entry counts as ONE item, whatever was left of it: amounts are in
+ * different units (a 500 g bag, 2 yoghurts), so "3 of the 10 things you
+ * finished were wasted" is the number that can honestly be compared.
+ *
+ * "Waste" means the outcomes in WASTE_OUTCOMES - wasted and composted.
+ * Donated food was rescued, so it counts with eaten.
+ *
+ * MONEY
+ * Entries for items that had a price carry what the part removed was worth
+ * (see lib/money.ts), so money wasted CAN be added up across units. Money
+ * "saved" compares a period with a rolling baseline: the average wasted in
+ * the few periods before it. Spending is what was paid for the items
+ * bought in a month - the ones still in the inventory plus the ones in the
+ * log.
+ *
+ * PERIODS
+ * Entries are grouped by the WEEK (starting Monday) or MONTH they were
+ * removed in, using the user's local date. A period is named by its first
+ * day, e.g. "2025-03-03" for the week of 3 March.
+ */
+
+import { isWaste } from "../types/inventory";
+import type { FoodItem } from "../types/inventory";
+import type { ItemRemoval } from "../types/removal";
+import { addDays, todayIso } from "./expiry";
+
+export const PERIODS = { week: "Weekly", month: "Monthly" } as const;
+export type Period = keyof typeof PERIODS;
+
+export interface WasteTotals {
+  total: number; // Items removed
+  wasted: number; // ...of which wasted or composted
+  percent: number; // wasted / total, 0-100 (0 when nothing was removed)
+  moneyWasted: number; // What the wasted items were worth (priced ones only)
+}
+
+export interface PeriodTotals extends WasteTotals {
+  start: string; // First day, "YYYY-MM-DD"
+  label: string; // "3 Mar" or "Mar 2025"
+}
+
+export interface PeriodSavings extends PeriodTotals {
+  baseline: number | null; // Usual money wasted (null = no history yet)
+  saved: number | null; // baseline - moneyWasted; negative = worse
+}
+
+export interface WasteCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * Overall totals for everything in `removals`.
+ */
+export function summarizeWaste(removals: ItemRemoval[]): WasteTotals {
+  const wasted = removals.filter((r) => isWaste(r.outcome));
+  const total = removals.length;
+  return {
+    total,
+    wasted: wasted.length,
+    percent: total === 0 ? 0 : Math.round((wasted.length / total) * 100),
+    moneyWasted: wasted.reduce((sum, r) => sum + (r.value ?? 0), 0),
+  };
+}
+
+/**
+ * The local day ("YYYY-MM-DD") an entry was removed on.
+ */
+export const removedOn = (removal: ItemRemoval) =>
+  todayIso(new Date(removal.removedAt));
+
+/**
+ * The first day of the week/month that `day` ("YYYY-MM-DD") is in.
+ */
+export function periodStart(day: string, period: Period) {
+  if (period === "month") return `${day.slice(0, 7)}-01`;
+  // getUTCDay because Date.parse reads a bare date as UTC midnight
+  const sinceMonday = (new Date(Date.parse(day)).getUTCDay() + 6) % 7;
+  return addDays(day, -sinceMonday);
+}
+
+// The period before the one starting on `start`
+function previousStart(start: string, period: Period) {
+  if (period === "week") return addDays(start, -7);
+  const [year, month] = start.split("-").map(Number);
+  return month === 1
+    ? `${year - 1}-12-01`
+    : `${year}-${String(month - 1).padStart(2, "0")}-01`;
+}
+
+function periodLabel(start: string, period: Period) {
+  return new Date(Date.parse(start)).toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    ...(period === "week"
+      ? { day: "numeric", month: "short" }
+      : { month: "short", year: "numeric" }),
+  });
+}
+
+/**
+ * The first day of the oldest of the last `count` periods - what to ask
+ * the server for with listRemovals(since).
+ */
+export function rangeStart(period: Period, count: number, today = todayIso()) {
+  let start = periodStart(today, period);
+  for (let i = 1; i < count; i++) start = previousStart(start, period);
+  return start;
+}
+
+/**
+ * Totals for each of the last `count` periods, oldest first. Periods with
+ * nothing removed are included (as zeros), so a chart has no gaps.
+ */
+export function wasteOverTime(
+  removals: ItemRemoval[],
+  period: Period,
+  count: number,
+  today = todayIso()
+): PeriodTotals[] {
+  const byPeriod = new Map<string, ItemRemoval[]>();
+  for (const removal of removals) {
+    const start = periodStart(removedOn(removal), period);
+    const group = byPeriod.get(start) ?? [];
+    group.push(removal);
+    byPeriod.set(start, group);
+  }
+
+  const result: PeriodTotals[] = [];
+  let start = periodStart(today, period);
+  for (let i = 0; i < count; i++) {
+    result.unshift({
+      start,
+      label: periodLabel(start, period),
+      ...summarizeWaste(byPeriod.get(start) ?? []),
+    });
+    start = previousStart(start, period);
+  }
+  return result;
+}
+
+/**
+ * Each period compared with its baseline: the average money wasted in the
+ * `window` periods before it. Periods before the household had logged
+ * anything don't count towards it. The first `window` periods only serve
+ * as history, so they're left out of the result:
+ *
+ *   withBaseline(wasteOverTime(removals, "month", 12 + 3), 3) → 12 months
+ */
+export function withBaseline(
+  periods: PeriodTotals[],
+  window: number
+): PeriodSavings[] {
+  return periods.slice(window).map((period, i) => {
+    const history = periods.slice(i, i + window).filter((p) => p.total > 0);
+    const baseline =
+      history.length === 0
+        ? null
+        : history.reduce((sum, p) => sum + p.moneyWasted, 0) / history.length;
+    return {
+      ...period,
+      baseline,
+      saved: baseline === null ? null : baseline - period.moneyWasted,
+    };
+  });
+}
+
+// "2025-03-14" or "2025-03-14T09:30:00.000Z" → "2025-03". Purchase dates
+// are stored as UTC midnight, so the UTC month is the right one for them.
+const monthOf = (value: string) => value.slice(0, 7);
+
+/**
+ * What was spent on groceries bought in `month` ("YYYY-MM"): the prices of
+ * the items still in the inventory plus those already removed. An item's
+ * purchase date decides its month, or when it was added if it has none.
+ */
+export function monthlySpending(
+  items: FoodItem[],
+  removals: ItemRemoval[],
+  month = todayIso().slice(0, 7)
+) {
+  let spent = 0;
+  for (const item of items) {
+    if (monthOf(item.purchaseDate ?? item.createdAt) === month) {
+      spent += item.price ?? 0;
+    }
+  }
+  for (const removal of removals) {
+    if (removal.purchasedAt && monthOf(removal.purchasedAt) === month) {
+      spent += removal.price ?? 0;
+    }
+  }
+  return spent;
+}
+
+// How many wasted entries share each key, most first
+function countWasted(
+  removals: ItemRemoval[],
+  keyOf: (removal: ItemRemoval) => string | null,
+  limit: number
+): WasteCount[] {
+  const counts = new Map<string, number>();
+  for (const removal of removals) {
+    const key = isWaste(removal.outcome) ? keyOf(removal) : null;
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * The categories wasted most often.
+ */
+export const topWastedCategories = (removals: ItemRemoval[], limit = 6) =>
+  countWasted(removals, (r) => r.category, limit);
+
+/**
+ * The items wasted most often. Names are matched ignoring case, so
+ * "Milk" and "milk" are the same item.
+ */
+export const topWastedItems = (removals: ItemRemoval[], limit = 10) =>
+  countWasted(removals, (r) => r.itemName.trim().toLowerCase(), limit);
+
+/**
+ * Why food was thrown away (entries without a reason are left out).
+ */
+export const wasteReasons = (removals: ItemRemoval[]) =>
+  countWasted(removals, (r) => r.reason, Infinity);
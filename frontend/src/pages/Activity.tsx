@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import * as activityService from "../services/activityService";
+import * as householdService from "../services/householdService";
+import { isAbortError } from "../services/http";
+import type {
+  ActivityAction,
+  ActivityEvent,
+  ActivityFilters,
+  ActivitySnapshot,
+} from "../types/activity";
+import type { HouseholdMember } from "../types/household";
+import { todayIso } from "../lib/expiry";
+import { saveFile } from "../lib/download";
+
+const ACTION_BADGES: Record<ActivityAction, string> = {
+  created: "badge-success",
+  updated: "badge-ghost",
+  moved: "badge-info",
+  consumed: "badge-ghost",
+  restocked: "badge-success",
+  finished: "badge-warning",
+  deleted: "badge-error",
+  restored: "badge-info",
+  cooked: "badge-success",
+};
+
+const FIELD_LABELS: Record<keyof ActivitySnapshot, string> = {
+  name: "name",
+  category: "category",
+  quantity: "quantity",
+  unit: "unit",
+  location: "location",
+  purchaseDate: "bought",
+  expiryDate: "expires",
+  expiryType: "expiry type",
+  notes: "notes",
+  tags: "tags",
+  price: "price",
+  purchaseQuantity: "price for",
+  store: "store",
+  parLevel: "par level",
+};
+
+const showValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "-";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "-";
+  return String(value);
+};
+
+/**
+ * What changed, field by field: "quantity 1 → 0.5". An item that was added
+ * or removed lists what it was instead.
+ */
+function describeChanges({ before, after }: ActivityEvent): string[] {
+  if (before && after) {
+    return (Object.keys(after) as (keyof ActivitySnapshot)[]).map(
+      (key) =>
+        `${FIELD_LABELS[key]} ${showValue(before[key])} → ${showValue(after[key])}`
+    );
+  }
+  const item = after ?? before;
+  if (!item) return [];
+  return [`${showValue(item.quantity)} ${showValue(item.unit)}`].concat(
+    item.location ? [`in ${item.location}`] : [],
+    item.expiryDate ? [`expires ${item.expiryDate}`] : []
+  );
+}
+
+/**
+ * The household's activity log: every change anyone made to its items,
+ * newest first, filterable by member, item and date. Owners can export it.
+ */
+export default function Activity() {
+  const { activeHousehold } = useAuth();
+  const [filters, setFilters] = useState<ActivityFilters>({});
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [events, setEvents] = useState<ActivityEvent[] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const householdId = activeHousehold?.id;
+  useEffect(() => {
+    setMembers([]);
+    setFilters({});
+    if (!householdId) return;
+    householdService
+      .getHousehold(householdId)
+      .then((details) => setMembers(details.members))
+      .catch(() => setMembers([]));
+  }, [householdId]);
+
+  useEffect(() => {
+    setEvents(null);
+    setNextCursor(null);
+    setError(null);
+    if (!householdId) return;
+    const controller = new AbortController();
+    activityService
+      .listActivity(filters, undefined, controller.signal)
+      .then((page) => {
+        setEvents(page.events);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err: Error) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [householdId, filters]);
+
+  if (!activeHousehold) {
+    return (
+      <div className="p-4">
+        <h2 className="text-2xl font-bold mb-2">Activity</h2>
+        <p className="mb-4">
+          You're not in a household yet. Create one or join with an invite.
+        </p>
+        <Link to="/household" className="btn btn-primary btn-sm">
+          Set up a household
+        </Link>
+      </div>
+    );
+  }
+
+  const setFilter = (key: keyof ActivityFilters, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await activityService.listActivity(filters, nextCursor);
+      setEvents((current) => [...(current ?? []), ...page.events]);
+      setNextCursor(page.nextCursor);
+    } catch {
+      // Already toasted by apiRequest
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    try {
+      const file = await activityService.exportActivity(filters, format);
+      saveFile(file, `activity-${todayIso()}.${format}`);
+    } catch {
+      // Already toasted by apiRequest
+    }
+  };
+
+  const isOwner = activeHousehold.role === "owner";
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="p-4 flex flex-col gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Activity</h2>
+          <p className="opacity-70">
+            Every change to {activeHousehold.name}'s food, newest first
+          </p>
+        </div>
+        {isOwner && (
+          <div className="join">
+            <button
+              className="btn btn-sm join-item"
+              onClick={() => void handleExport("csv")}
+            >
+              Export CSV
+            </button>
+            <button
+              className="btn btn-sm join-item"
+              onClick={() => void handleExport("json")}
+            >
+              Export JSON
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-sm">Member</span>
+          <select
+            className="select select-sm"
+            value={filters.member ?? ""}
+            onChange={(e) => setFilter("member", e.target.value)}
+          >
+            <option value="">Everyone</option>
+            {members.map((member) => (
+              <option key={member.userId} value={member.userId}>
+                {member.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-sm">Item</span>
+          <input
+            type="search"
+            className="input input-sm"
+            placeholder="e.g. milk"
+            value={filters.item ?? ""}
+            onChange={(e) => setFilter("item", e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-sm">From</span>
+          <input
+            type="date"
+            className="input input-sm"
+            value={filters.from ?? ""}
+            max={filters.to}
+            onChange={(e) => setFilter("from", e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-sm">To</span>
+          <input
+            type="date"
+            className="input input-sm"
+            value={filters.to ?? ""}
+            min={filters.from}
+            onChange={(e) => setFilter("to", e.target.value)}
+          />
+        </label>
+        {hasFilters && (
+          <button
+            className="btn btn-ghost btn-sm"
+            onClick={() => setFilters({})}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {!events && !error && (
+        <span className="loading loading-spinner loading-md"></span>
+      )}
+
+      {events &&
+        (events.length === 0 ? (
+          <p className="opacity-70">
+            {hasFilters
+              ? "No changes match these filters."
+              : "Nothing has changed yet. Adding, using or removing food shows up here."}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Who</th>
+                  <th>What</th>
+                  <th>Item</th>
+                  <th>Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr key={event.id}>
+                    <td className="whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </td>
+                    <td>{event.actor?.name ?? "A former member"}</td>
+                    <td>
+                      <span
+                        className={`badge badge-sm ${ACTION_BADGES[event.action]}`}
+                      >
+                        {event.action}
+                      </span>
+                      {event.source !== "ui" && (
+                        <span className="badge badge-sm badge-outline ml-1">
+                          {event.source}
+                        </span>
+                      )}
+                    </td>
+                    <td>{event.itemName}</td>
+                    <td>
+                      <ul className="text-sm">
+                        {describeChanges(event).map((change) => (
+                          <li key={change}>{change}</li>
+                        ))}
+                        {event.note && (
+                          <li className="opacity-60">{event.note}</li>
+                        )}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+      {nextCursor && (
+        <button
+          className="btn btn-sm self-center"
+          onClick={() => void loadMore()}
+          disabled={loadingMore}
+        >
+          {loadingMore ? "Loading..." : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+}
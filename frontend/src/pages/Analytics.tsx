@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useAppSelector } from "../store/hooks";
+import { selectAllItems } from "../store/inventorySlice";
+import * as removalService from "../services/removalService";
+import { isAbortError } from "../services/http";
+import WasteChart from "../components/WasteChart";
+import CountBars from "../components/CountBars";
+import { WASTE_REASON_LABELS, isWaste } from "../types/inventory";
+import type { WasteReason } from "../types/inventory";
+import type { ItemRemoval } from "../types/removal";
+import {
+  PERIODS,
+  monthlySpending,
+  rangeStart,
+  removedOn,
+  summarizeWaste,
+  topWastedCategories,
+  topWastedItems,
+  wasteOverTime,
+  wasteReasons,
+  withBaseline,
+} from "../lib/wasteStats";
+import type { Period } from "../lib/wasteStats";
+import { formatMoney } from "../lib/money";
+import { todayIso } from "../lib/expiry";
+
+// How many weeks/months the page covers
+const PERIOD_COUNT = 12;
+// How many periods before each one make up its "usual" money wasted
+const BASELINE_PERIODS = 4;
+// Entries shown in the log at the bottom
+const RECENT_COUNT = 20;
+
+/**
+ * The waste log and what it adds up to: how much of what the household
+ * removed was wasted, week by week or month by month, and which
+ * categories, items and reasons come up most.
+ */
+export default function Analytics() {
+  const { activeHousehold } = useAuth();
+  const items = useAppSelector(selectAllItems);
+  const [period, setPeriod] = useState<Period>("week");
+  const [removals, setRemovals] = useState<ItemRemoval[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const householdId = activeHousehold?.id;
+  useEffect(() => {
+    setRemovals(null);
+    setError(null);
+    if (!householdId) return;
+    const controller = new AbortController();
+    removalService
+      .listRemovals(
+        rangeStart(period, PERIOD_COUNT + BASELINE_PERIODS),
+        controller.signal
+      )
+      .then(setRemovals)
+      .catch((err: Error) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [householdId, period]);
+
+  if (!activeHousehold) {
+    return (
+      <div className="p-4">
+        <h2 className="text-2xl font-bold mb-2">Analytics</h2>
+        <p className="mb-4">
+          You're not in a household yet. Create one or join with an invite.
+        </p>
+        <Link to="/household" className="btn btn-primary btn-sm">
+          Set up a household
+        </Link>
+      </div>
+    );
+  }
+
+  const currency = activeHousehold.currency;
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  // The extra periods fetched for the baseline aren't shown themselves
+  const since = rangeStart(period, PERIOD_COUNT);
+  const shown = removals?.filter((r) => removedOn(r) >= since);
+  const summary = shown && summarizeWaste(shown);
+  const periods =
+    removals &&
+    withBaseline(
+      wasteOverTime(removals, period, PERIOD_COUNT + BASELINE_PERIODS),
+      BASELINE_PERIODS
+    );
+  const saved = periods?.reduce((sum, p) => sum + (p.saved ?? 0), 0) ?? 0;
+  const hasBaseline = periods?.some((p) => p.saved !== null) ?? false;
+
+  // This calendar month, for the budget
+  const month = todayIso().slice(0, 7);
+  const spentThisMonth = removals ? monthlySpending(items, removals, month) : 0;
+  const wastedThisMonth = removals
+    ? summarizeWaste(removals.filter((r) => removedOn(r).slice(0, 7) === month))
+        .moneyWasted
+    : 0;
+  const budget = activeHousehold.monthlyBudget;
+
+  return (
+    <div className="p-4 flex flex-col gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Waste analytics</h2>
+          <p className="opacity-70">
+            {activeHousehold.name}, last {PERIOD_COUNT}{" "}
+            {period === "week" ? "weeks" : "months"}
+          </p>
+        </div>
+        <div className="join">
+          {Object.entries(PERIODS).map(([value, label]) => (
+            <button
+              key={value}
+              className={`btn btn-sm join-item ${period === value ? "btn-active" : ""}`}
+              onClick={() => setPeriod(value as Period)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {!removals && !error && (
+        <span className="loading loading-spinner loading-md"></span>
+      )}
+
+      {shown && summary && periods && (
+        <>
+          <div className="stats stats-vertical sm:stats-horizontal bg-base-200">
+            <div className="stat">
+              <div className="stat-title">Items removed</div>
+              <div className="stat-value">{summary.total}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Wasted or composted</div>
+              <div className="stat-value text-error">{summary.wasted}</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Waste</div>
+              <div className="stat-value">{summary.percent}%</div>
+              <div className="stat-desc">of everything removed</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Money wasted</div>
+              <div className="stat-value text-error">
+                {money(summary.moneyWasted)}
+              </div>
+              <div className="stat-desc">
+                {hasBaseline
+                  ? `${money(Math.abs(saved))} ${saved >= 0 ? "less" : "more"} than usual`
+                  : "Not enough history to compare yet"}
+              </div>
+            </div>
+          </div>
+
+          <section className="card bg-base-200 p-4 flex flex-col gap-3">
+            <h3 className="font-semibold">This month's groceries</h3>
+            <div className="flex flex-wrap gap-x-6 gap-y-1">
+              <span>
+                Spent <strong>{money(spentThisMonth)}</strong>
+                {budget !== null && <> of {money(budget)}</>}
+              </span>
+              <span>
+                Wasted{" "}
+                <strong className="text-error">{money(wastedThisMonth)}</strong>
+                {spentThisMonth > 0 &&
+                  ` (${Math.round((wastedThisMonth / spentThisMonth) * 100)}% of spending)`}
+              </span>
+            </div>
+            {budget !== null ? (
+              <progress
+                className={`progress ${spentThisMonth > budget ? "progress-error" : "progress-success"}`}
+                value={Math.min(spentThisMonth, budget)}
+                max={budget}
+              />
+            ) : (
+              <p className="text-sm opacity-70">
+                No monthly budget set - a household owner can set one on the
+                Household page.
+              </p>
+            )}
+            <p className="text-xs opacity-60">
+              Only items with a price count. Add prices when logging food to see
+              where the money goes.
+            </p>
+          </section>
+
+          <section className="card bg-base-200 p-4 flex flex-col gap-3">
+            <h3 className="font-semibold">Waste over time</h3>
+            <WasteChart periods={periods} currency={currency} />
+          </section>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <section className="card bg-base-200 p-4 flex flex-col gap-3">
+              <h3 className="font-semibold">Most wasted categories</h3>
+              <CountBars
+                counts={topWastedCategories(shown)}
+                emptyMessage="Nothing wasted - well done!"
+              />
+            </section>
+            <section className="card bg-base-200 p-4 flex flex-col gap-3">
+              <h3 className="font-semibold">Most wasted items</h3>
+              <CountBars
+                counts={topWastedItems(shown)}
+                emptyMessage="Nothing wasted - well done!"
+              />
+            </section>
+            <section className="card bg-base-200 p-4 flex flex-col gap-3">
+              <h3 className="font-semibold">Why it was wasted</h3>
+              <CountBars
+                counts={wasteReasons(shown)}
+                label={(reason) => WASTE_REASON_LABELS[reason as WasteReason]}
+                emptyMessage="No reasons given yet."
+              />
+            </section>
+          </div>
+
+          <section className="flex flex-col gap-3">
+            <h3 className="font-semibold">Waste log</h3>
+            {shown.length === 0 ? (
+              <p className="opacity-70">
+                Nothing removed yet. When you finish or remove an item on the
+                Dashboard, say what happened to it and it shows up here.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table table-sm">
+                  <thead>
+                    <tr>
+                      <th>When</th>
+                      <th>Item</th>
+                      <th>Left</th>
+                      <th>Outcome</th>
+                      <th>Why</th>
+                      <th>By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.slice(0, RECENT_COUNT).map((removal) => (
+                      <tr key={removal.id}>
+                        <td>
+                          {new Date(removal.removedAt).toLocaleDateString()}
+                        </td>
+                        <td>
+                          {removal.itemName}{" "}
+                          <span className="opacity-60">{removal.category}</span>
+                        </td>
+                        <td>
+                          {removal.quantity} {removal.unit}
+                        </td>
+                        <td>
+                          <span
+                            className={`badge badge-sm ${isWaste(removal.outcome) ? "badge-error" : "badge-success"}`}
+                          >
+                            {removal.outcome}
+                          </span>
+                        </td>
+                        <td>
+                          {removal.reason
+                            ? WASTE_REASON_LABELS[removal.reason]
+                            : ""}
+                        </td>
+                        <td>{removal.removedBy.name}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,557 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import ItemForm from "../components/ItemForm";
+import InventoryTable from "../components/InventoryTable";
+import ExpiringSoon from "../components/ExpiringSoon";
+import LocationTabs from "../components/LocationTabs";
+import InventoryToolbar from "../components/InventoryToolbar";
+import TransferHistory from "../components/TransferHistory";
+import HistoryControls from "../components/HistoryControls";
+import ConsumeDialog from "../components/ConsumeDialog";
+import FinishItemDialog from "../components/FinishItemDialog";
+import MealDialog from "../components/MealDialog";
+import ReceiptDialog from "../components/ReceiptDialog";
+import BatchDialog from "../components/BatchDialog";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector, useAppStore } from "../store/hooks";
+import {
+  addBatch,
+  addItem,
+  adjustQuantity,
+  consumeItem,
+  deleteItem,
+  deleteItems,
+  finishItem,
+  logMeal,
+  moveItem,
+  moveItems,
+  redo,
+  removeBatch,
+  selectAllItems,
+  selectCategoryCounts,
+  selectInventoryError,
+  selectInventoryStatus,
+  selectItemsNeedingAttention,
+  selectSameItem,
+  undo,
+  updateItem,
+} from "../store/inventorySlice";
+import type { BulkResult } from "../store/inventorySlice";
+import {
+  selectAllLocations,
+  selectLocationById,
+} from "../store/locationsSlice";
+import { selectLastCommand, selectNextRedo } from "../store/historySlice";
+import type { InventoryCommand } from "../store/historySlice";
+import { isWaste } from "../types/inventory";
+import type {
+  FoodItem,
+  FoodUnit,
+  ItemBatch,
+  ItemFinish,
+  NewFoodItem,
+  NewItemBatch,
+  NewMeal,
+} from "../types/inventory";
+import type { InventoryLocation } from "../types/location";
+import { canEditInventory } from "../types/household";
+import { DEFAULT_SETTINGS } from "../lib/expiry";
+import { UNIT_STEP } from "../lib/units";
+import {
+  applyQuery,
+  isFiltered,
+  parseQuery,
+  toSearchParams,
+} from "../lib/inventoryQuery";
+import type { InventoryQuery } from "../lib/inventoryQuery";
+
 export default function Dashboard() {
-  return <h2 className="p-4">Welcome to the Dashboard</h2>;
+  const { user, activeHousehold } = useAuth();
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const store = useAppStore();
+
+  const items = useAppSelector(selectAllItems);
+  const categoryCounts = useAppSelector(selectCategoryCounts);
+  const status = useAppSelector(selectInventoryStatus);
+  const error = useAppSelector(selectInventoryError);
+
+  // (The inventory itself is loaded by InventoryLoader in App.tsx)
+  const settings = user?.settings ?? DEFAULT_SETTINGS;
+  const expiringItems = useAppSelector((state) =>
+    selectItemsNeedingAttention(state, settings)
+  );
+
+  // Search, filters and sort live in the URL so views can be bookmarked,
+  // e.g. ?location=<id>&tag=meat (see lib/inventoryQuery.ts)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseQuery(searchParams), [searchParams]);
+  const setQuery = (next: InventoryQuery) =>
+    setSearchParams(toSearchParams(next), { replace: true });
+
+  // Exactly one location picked: new items go there too
+  const viewedLocation = useAppSelector((state) =>
+    query.locations.length === 1
+      ? selectLocationById(state, query.locations[0])
+      : undefined
+  );
+  const shownItems = useMemo(
+    () => applyQuery(items, query, settings),
+    [items, query, settings]
+  );
+  const allTags = useMemo(
+    () => [...new Set(items.flatMap((item) => item.tags))].sort(),
+    [items]
+  );
+
+  const locations = useAppSelector(selectAllLocations);
+  // Checked rows for bulk actions (ignoring any that have since gone)
+  const [selectedIds, setSelectedIds] = useState<FoodItem["id"][]>([]);
+  const selected = selectedIds.filter((id) =>
+    items.some((item) => item.id === id)
+  );
+
+  const [editingItem, setEditingItem] = useState<FoodItem | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<FoodItem["id"] | null>(
+    null
+  );
+  const historyItem = items.find((item) => item.id === historyItemId);
+  const [consumingItem, setConsumingItem] = useState<FoodItem | null>(null);
+  // An item that just reached zero: ask whether it was eaten or wasted
+  const [finishingItem, setFinishingItem] = useState<FoodItem | null>(null);
+  const [loggingMeal, setLoggingMeal] = useState(false);
+  const [pastingReceipt, setPastingReceipt] = useState(false);
+  const [batchItem, setBatchItem] = useState<FoodItem | null>(null);
+
+  if (!activeHousehold) {
+    return (
+      <div className="p-4">
+        <h2 className="text-2xl font-bold mb-2">Dashboard</h2>
+        <p className="mb-4">
+          You're not in a household yet. Create one or join with an invite.
+        </p>
+        <Link to="/household" className="btn btn-primary btn-sm">
+          Set up a household
+        </Link>
+      </div>
+    );
+  }
+
+  // Viewers can look but not touch
+  const canEdit = canEditInventory(activeHousehold.role);
+
+  /**
+   * UNDO / REDO
+   * Both are applied on the server. A toast's "Undo" passes its change's
+   * id, so it can't undo something newer by accident.
+   */
+  const runHistory = async (
+    direction: "undo" | "redo",
+    commandId?: InventoryCommand["id"]
+  ) => {
+    const state = store.getState();
+    const next =
+      direction === "undo" ? selectLastCommand(state) : selectNextRedo(state);
+    if (!next) return; // Nothing to undo - Ctrl+Z just does nothing
+    try {
+      const command = await dispatch(
+        (direction === "undo" ? undo : redo)(commandId)
+      ).unwrap();
+      showToast(
+        `${direction === "undo" ? "Undone" : "Redone"}: ${command.label}`,
+        "info"
+      );
+    } catch (err) {
+      // Still busy with the previous undo (key held down) - not an error
+      if ((err as Error).name === "ConditionError") return;
+      showToast((err as Error).message ?? `Could not ${direction}`, "error");
+    }
+  };
+
+  // A toast for a change, with an "Undo" button for exactly that change
+  const toastUndoable = (message: string, type: "success" | "info") => {
+    const command = selectLastCommand(store.getState());
+    showToast(message, type, {
+      actions: command
+        ? [{ label: "Undo", onClick: () => runHistory("undo", command.id) }]
+        : [],
+    });
+  };
+
+  const handleAdd = async (item: NewFoodItem) => {
+    // The same food in the same place: it's another batch of that item
+    const same = selectSameItem(store.getState(), item);
+    if (same) {
+      await handleAddBatch(same, {
+        quantity: item.quantity,
+        purchaseDate: item.purchaseDate,
+        expiryDate: item.expiryDate,
+      });
+      return;
+    }
+    try {
+      await dispatch(addItem(item)).unwrap();
+      toastUndoable(`Added ${item.name}`, "success");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not add item", "error");
+    }
+  };
+
+  const handleSaveEdit = async (changes: NewFoodItem) => {
+    if (!editingItem) return;
+    try {
+      await dispatch(updateItem({ id: editingItem.id, changes })).unwrap();
+      setEditingItem(null);
+      toastUndoable(`Saved ${changes.name}`, "success");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not save item", "error");
+    }
+  };
+
+  const handleDelete = async (item: FoodItem) => {
+    try {
+      await dispatch(deleteItem(item.id)).unwrap();
+      toastUndoable(`Deleted ${item.name}`, "info");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not delete item", "error");
+    }
+  };
+
+  const handleMove = async (
+    item: FoodItem,
+    locationId: InventoryLocation["id"]
+  ) => {
+    try {
+      const moved = await dispatch(
+        moveItem({ id: item.id, locationId })
+      ).unwrap();
+      toastUndoable(
+        moved.expiryDate !== item.expiryDate
+          ? `Moved ${item.name} - now expires ${moved.expiryDate}`
+          : `Moved ${item.name}`,
+        "success"
+      );
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not move item", "error");
+    }
+  };
+
+  const handleAddBatch = async (item: FoodItem, batch: NewItemBatch) => {
+    try {
+      await dispatch(addBatch({ id: item.id, batch })).unwrap();
+      setBatchItem(null);
+      showToast(`Added another batch of ${item.name}`, "success");
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not add the batch", "error");
+    }
+  };
+
+  const handleRemoveBatch = async (item: FoodItem, batch: ItemBatch) => {
+    if (!window.confirm(`Remove this batch of ${item.name}?`)) return;
+    try {
+      const updated = await dispatch(
+        removeBatch({ id: item.id, batchId: batch.id })
+      ).unwrap();
+      askIfUsedUp(updated);
+    } catch (err) {
+      showToast(
+        (err as Error).message ?? "Could not remove the batch",
+        "error"
+      );
+    }
+  };
+
+  const handleLogMeal = async (meal: NewMeal) => {
+    try {
+      const { finishedIds } = await dispatch(logMeal(meal)).unwrap();
+      setLoggingMeal(false);
+      showToast(
+        finishedIds.length > 0
+          ? `Saved ${meal.name} - used up ${finishedIds.length} ingredient${finishedIds.length === 1 ? "" : "s"}`
+          : `Saved ${meal.name}`,
+        "success"
+      );
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not save the meal", "error");
+    }
+  };
+
+  // The ones that didn't go through stay selected, to try again
+  const reportFailed = (verb: string, failed: BulkResult["failed"]) => {
+    setSelectedIds(failed.map(({ item }) => item.id));
+    if (failed.length === 0) return;
+    showToast(
+      `Could not ${verb} ${failed
+        .map(({ item, message }) => `${item.name} (${message})`)
+        .join(", ")}`,
+      "error"
+    );
+  };
+
+  const handleBulkDelete = async () => {
+    if (!window.confirm(`Delete ${selected.length} items?`)) return;
+    try {
+      const { done, failed } = await dispatch(deleteItems(selected)).unwrap();
+      if (done.length > 0)
+        toastUndoable(`Deleted ${done.length} items`, "info");
+      reportFailed("delete", failed);
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not delete items", "error");
+    }
+  };
+
+  const handleBulkMove = async (locationId: InventoryLocation["id"]) => {
+    try {
+      const { done, failed } = await dispatch(
+        moveItems({ ids: selected, locationId })
+      ).unwrap();
+      if (done.length > 0)
+        toastUndoable(`Moved ${done.length} items`, "success");
+      reportFailed("move", failed);
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not move items", "error");
+    }
+  };
+
+  const selectLocation = (locationId: InventoryLocation["id"] | null) =>
+    setQuery({ ...query, locations: locationId ? [locationId] : [] });
+
+  const askIfUsedUp = (updated: FoodItem) => {
+    if (updated.quantity === 0) {
+      setFinishingItem(updated);
+    }
+  };
+
+  // "+" / "-" change the quantity by one step of its unit (1 pack, 100 g...)
+  const handleAdjust = (item: FoodItem, direction: 1 | -1) => {
+    dispatch(
+      adjustQuantity({ id: item.id, delta: direction * UNIT_STEP[item.unit] })
+    )
+      .unwrap()
+      .then(askIfUsedUp)
+      .catch((err: Error) => showToast(err.message, "error"));
+  };
+
+  const handleConsume = async (
+    amount: number,
+    unit: FoodUnit,
+    batchId?: ItemBatch["id"]
+  ) => {
+    if (!consumingItem) return;
+    try {
+      const updated = await dispatch(
+        consumeItem({ id: consumingItem.id, amount, unit, batchId })
+      ).unwrap();
+      setConsumingItem(null);
+      askIfUsedUp(updated);
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not update item", "error");
+    }
+  };
+
+  const handleFinish = async (finish: ItemFinish) => {
+    if (!finishingItem) return;
+    try {
+      await dispatch(finishItem({ id: finishingItem.id, ...finish })).unwrap();
+      showToast(
+        `${finishingItem.name} logged as ${finish.outcome}`,
+        isWaste(finish.outcome) ? "info" : "success"
+      );
+      setFinishingItem(null);
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not remove item", "error");
+    }
+  };
+
+  return (
+    <div className="p-4 flex flex-col gap-6">
+      <div>
+        <h2 className="text-2xl font-bold">{activeHousehold.name}</h2>
+        <div className="flex flex-wrap gap-2 mt-2">
+          <span className="badge badge-primary">{items.length} items</span>
+          {Object.entries(categoryCounts).map(([category, count]) => (
+            <span key={category} className="badge badge-ghost">
+              {category}: {count}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {status === "succeeded" && (
+        <ExpiringSoon items={expiringItems} settings={settings} />
+      )}
+
+      {canEdit ? (
+        <div className="card bg-base-200 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold">
+              {editingItem ? `Edit ${editingItem.name}` : "Add an item"}
+            </h3>
+            {!editingItem && (
+              <div className="flex gap-2">
+                <button
+                  className="btn btn-sm btn-outline"
+                  onClick={() => setPastingReceipt(true)}
+                >
+                  Paste a receipt
+                </button>
+                <button
+                  className="btn btn-sm btn-outline"
+                  onClick={() => setLoggingMeal(true)}
+                >
+                  Log a cooked meal
+                </button>
+              </div>
+            )}
+          </div>
+          {editingItem ? (
+            <ItemForm
+              key={editingItem.id}
+              initialItem={editingItem}
+              submitLabel="Save"
+              onSubmit={handleSaveEdit}
+              onCancel={() => setEditingItem(null)}
+            />
+          ) : (
+            <ItemForm
+              key={viewedLocation?.id ?? "all"}
+              submitLabel="Add"
+              onSubmit={handleAdd}
+              defaultLocationId={viewedLocation?.id}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="alert alert-info">
+          You're a viewer in this household, so you can't change its food.
+        </div>
+      )}
+
+      {status === "loading" && (
+        <span className="loading loading-spinner loading-md"></span>
+      )}
+      {status === "failed" && <div className="alert alert-error">{error}</div>}
+      {consumingItem && (
+        <ConsumeDialog
+          item={consumingItem}
+          onConsume={handleConsume}
+          onClose={() => setConsumingItem(null)}
+        />
+      )}
+      {batchItem && (
+        <BatchDialog
+          item={batchItem}
+          onSave={(batch) => handleAddBatch(batchItem, batch)}
+          onClose={() => setBatchItem(null)}
+        />
+      )}
+      {loggingMeal && (
+        <MealDialog
+          items={items}
+          onSave={handleLogMeal}
+          onClose={() => setLoggingMeal(false)}
+        />
+      )}
+      {pastingReceipt && (
+        <ReceiptDialog onClose={() => setPastingReceipt(false)} />
+      )}
+      {finishingItem && (
+        <FinishItemDialog
+          item={finishingItem}
+          onFinish={handleFinish}
+          onKeep={() => setFinishingItem(null)}
+        />
+      )}
+
+      {historyItem && (
+        <TransferHistory
+          item={historyItem}
+          onClose={() => setHistoryItemId(null)}
+        />
+      )}
+
+      {status === "succeeded" && (
+        <div className="flex flex-col gap-3">
+          <InventoryToolbar query={query} onChange={setQuery} tags={allTags} />
+          {canEdit && (
+            <div className="flex flex-wrap items-center gap-2">
+              <HistoryControls
+                onUndo={() => runHistory("undo")}
+                onRedo={() => runHistory("redo")}
+              />
+              {selected.length > 0 && (
+                <>
+                  <span className="text-sm">{selected.length} selected</span>
+                  <select
+                    className="select select-bordered select-sm"
+                    value=""
+                    onChange={(e) => handleBulkMove(e.target.value)}
+                    aria-label="Move selected items to"
+                  >
+                    <option value="" disabled>
+                      Move to...
+                    </option>
+                    {locations.map((location) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="btn btn-sm btn-error btn-outline"
+                    onClick={handleBulkDelete}
+                  >
+                    Delete
+                  </button>
+                  <button
+                    className="btn btn-sm btn-ghost"
+                    onClick={() => setSelectedIds([])}
+                  >
+                    Clear selection
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          <LocationTabs
+            selected={query.locations}
+            totalCount={items.length}
+            onSelect={selectLocation}
+          />
+          {viewedLocation && (
+            <h3 className="font-semibold">
+              What's in the {viewedLocation.name.toLowerCase()}
+            </h3>
+          )}
+          {isFiltered(query) && (
+            <p className="text-sm opacity-70">
+              Showing {shownItems.length} of {items.length} items
+            </p>
+          )}
+          <InventoryTable
+            items={shownItems}
+            emptyMessage={
+              isFiltered(query) ? "No items match these filters." : undefined
+            }
+            settings={settings}
+            currency={activeHousehold.currency}
+            onIncrement={(item) => handleAdjust(item, 1)}
+            onDecrement={(item) => handleAdjust(item, -1)}
+            onEdit={setEditingItem}
+            onDelete={handleDelete}
+            onMove={handleMove}
+            onConsume={setConsumingItem}
+            onAddBatch={setBatchItem}
+            onRemoveBatch={handleRemoveBatch}
+            onFinish={setFinishingItem}
+            onShowHistory={(item) => setHistoryItemId(item.id)}
+            selectedIds={selected}
+            onSelectionChange={setSelectedIds}
+            readOnly={!canEdit}
+          />
+        </div>
+      )}
+    </div>
+  );
 }
@@ -16,17 +16,19 @@ export default function Home() {
         >
           Go to dashboard
         </Link>
-        <Link
-          to="/contextTest"
-          className="
+        {import.meta.env.DEV && (
+          <Link
+            to="/contextTest"
+            className="
       btn btn-outline
       border-blue-900
       text-blue-900
       hover:bg-blue-900/13
     "
-        >
-          Go see test
-        </Link>
+          >
+            Go see test
+          </Link>
+        )}
       </div>
     </div>
   );
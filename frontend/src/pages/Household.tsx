@@ -0,0 +1,436 @@
+import { useCallback, useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import * as householdService from "../services/householdService";
+import LocationManager from "../components/LocationManager";
+import ShelfLifeRules from "../components/ShelfLifeRules";
+import MoneySettings from "../components/MoneySettings";
+import {
+  HOUSEHOLD_ROLES,
+  INVITE_ROLES,
+  canEditInventory,
+} from "../types/household";
+import type {
+  HouseholdDetails,
+  HouseholdRole,
+  InviteRole,
+  ReceivedInvite,
+} from "../types/household";
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : "Something went wrong";
+
+export default function Household() {
+  const { user, activeHousehold, refreshHouseholds, switchHousehold } =
+    useAuth();
+  const { showToast } = useUI();
+
+  const [details, setDetails] = useState<HouseholdDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [receivedInvites, setReceivedInvites] = useState<ReceivedInvite[]>([]);
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("editor");
+  const [newHouseholdName, setNewHouseholdName] = useState("");
+  const [joinCode, setJoinCode] = useState("");
+
+  const householdId = activeHousehold?.id;
+  const isOwner = details?.role === "owner";
+
+  const loadDetails = useCallback(async () => {
+    setDetails(
+      householdId ? await householdService.getHousehold(householdId) : null
+    );
+  }, [householdId]);
+
+  useEffect(() => {
+    setLoadError(null);
+    loadDetails().catch((err) => setLoadError(errorMessage(err)));
+  }, [loadDetails]);
+
+  useEffect(() => {
+    householdService
+      .listReceivedInvites()
+      .then(setReceivedInvites)
+      .catch(() => setReceivedInvites([]));
+  }, []);
+
+  /**
+   * Run a household action, then reload what it changed and toast the result.
+   */
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+    { reloadList = false } = {}
+  ) => {
+    try {
+      await action();
+      if (reloadList) {
+        await refreshHouseholds();
+      }
+      await loadDetails();
+      showToast(successMessage, "success");
+    } catch (err) {
+      showToast(errorMessage(err), "error");
+    }
+  };
+
+  const handleInvite = (event: FormEvent) => {
+    event.preventDefault();
+    if (!householdId) return;
+    run(
+      () => householdService.inviteMember(householdId, inviteEmail, inviteRole),
+      `Invited ${inviteEmail}`
+    ).then(() => setInviteEmail(""));
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      const household =
+        await householdService.createHousehold(newHouseholdName);
+      await refreshHouseholds();
+      switchHousehold(household.id);
+      setNewHouseholdName("");
+      showToast(`Created ${household.name}`, "success");
+    } catch (err) {
+      showToast(errorMessage(err), "error");
+    }
+  };
+
+  const handleJoin = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      const household = await householdService.joinHousehold(joinCode);
+      await refreshHouseholds();
+      switchHousehold(household.id);
+      setJoinCode("");
+      showToast(`Joined ${household.name}`, "success");
+    } catch (err) {
+      showToast(errorMessage(err), "error");
+    }
+  };
+
+  const handleAcceptInvite = async (invite: ReceivedInvite) => {
+    try {
+      const household = await householdService.acceptInvite(invite.id);
+      setReceivedInvites((prev) => prev.filter((i) => i.id !== invite.id));
+      await refreshHouseholds();
+      switchHousehold(household.id);
+      showToast(`Joined ${household.name}`, "success");
+    } catch (err) {
+      showToast(errorMessage(err), "error");
+    }
+  };
+
+  const handleDeclineInvite = async (invite: ReceivedInvite) => {
+    try {
+      await householdService.declineInvite(invite.id);
+      setReceivedInvites((prev) => prev.filter((i) => i.id !== invite.id));
+      showToast("Invite declined", "info");
+    } catch (err) {
+      showToast(errorMessage(err), "error");
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!details) return;
+    const warning =
+      details.members.length === 1
+        ? `You're the last member - leaving deletes ${details.name} and all its food. Continue?`
+        : `Leave ${details.name}?`;
+    if (!window.confirm(warning)) return;
+    try {
+      await householdService.leaveHousehold(details.id);
+      // Falls back to another household; the effect above then reloads details
+      await refreshHouseholds();
+      showToast(`You left ${details.name}`, "info");
+    } catch (err) {
+      showToast(errorMessage(err), "error");
+    }
+  };
+
+  const handleRename = () => {
+    if (!details) return;
+    const name = window.prompt("New household name", details.name)?.trim();
+    if (!name || name === details.name) return;
+    run(
+      () => householdService.renameHousehold(details.id, name),
+      `Renamed to ${name}`,
+      { reloadList: true }
+    );
+  };
+
+  return (
+    <div className="p-4 flex flex-col gap-6 max-w-4xl">
+      {loadError && <div className="alert alert-error">{loadError}</div>}
+
+      {receivedInvites.length > 0 && (
+        <div className="card bg-base-200 p-4">
+          <h3 className="font-semibold mb-3">Invites for you</h3>
+          <ul className="flex flex-col gap-2">
+            {receivedInvites.map((invite) => (
+              <li key={invite.id} className="flex items-center gap-2">
+                <span className="flex-1">
+                  <strong>{invite.invitedBy}</strong> invited you to{" "}
+                  <strong>{invite.household.name}</strong> as {invite.role}
+                </span>
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => handleAcceptInvite(invite)}
+                >
+                  Accept
+                </button>
+                <button
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => handleDeclineInvite(invite)}
+                >
+                  Decline
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {details && (
+        <div className="card bg-base-200 p-4 flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold">{details.name}</h2>
+            <div className="flex gap-2">
+              {isOwner && (
+                <button className="btn btn-ghost btn-sm" onClick={handleRename}>
+                  Rename
+                </button>
+              )}
+              <button
+                className="btn btn-outline btn-error btn-sm"
+                onClick={handleLeave}
+              >
+                Leave household
+              </button>
+            </div>
+          </div>
+
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Member</th>
+                <th>Role</th>
+                {isOwner && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {details.members.map((member) => (
+                <tr key={member.userId}>
+                  <td>
+                    <div className="font-medium">
+                      {member.name}
+                      {member.userId === user?.id && " (you)"}
+                    </div>
+                    <div className="text-xs opacity-60">{member.email}</div>
+                  </td>
+                  <td>
+                    {isOwner ? (
+                      <select
+                        className="select select-bordered select-sm"
+                        value={member.role}
+                        onChange={(e) =>
+                          run(
+                            () =>
+                              householdService.changeMemberRole(
+                                details.id,
+                                member.userId,
+                                e.target.value as HouseholdRole
+                              ),
+                            `${member.name} is now ${e.target.value}`,
+                            { reloadList: member.userId === user?.id }
+                          )
+                        }
+                      >
+                        {HOUSEHOLD_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      member.role
+                    )}
+                  </td>
+                  {isOwner && (
+                    <td>
+                      {member.userId !== user?.id && (
+                        <button
+                          className="btn btn-ghost btn-xs text-error"
+                          onClick={() =>
+                            run(
+                              () =>
+                                householdService.removeMember(
+                                  details.id,
+                                  member.userId
+                                ),
+                              `Removed ${member.name}`
+                            )
+                          }
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {isOwner && (
+            <>
+              <div>
+                <h3 className="font-semibold mb-2">Invite code</h3>
+                <div className="flex items-center gap-2">
+                  <code className="badge badge-lg badge-outline font-mono">
+                    {details.inviteCode}
+                  </code>
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    onClick={() =>
+                      run(
+                        () => householdService.regenerateInviteCode(details.id),
+                        "New invite code created - the old one no longer works"
+                      )
+                    }
+                  >
+                    New code
+                  </button>
+                </div>
+                <p className="text-xs opacity-60 mt-1">
+                  Anyone with this code can join as an editor.
+                </p>
+              </div>
+
+              <form
+                onSubmit={handleInvite}
+                className="flex flex-wrap gap-2 items-end"
+              >
+                <label className="form-control">
+                  <span className="label-text">Invite by email</span>
+                  <input
+                    type="email"
+                    className="input input-bordered input-sm"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    required
+                  />
+                </label>
+                <select
+                  className="select select-bordered select-sm"
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+                  aria-label="Role"
+                >
+                  {INVITE_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+                <button type="submit" className="btn btn-primary btn-sm">
+                  Send invite
+                </button>
+              </form>
+
+              {details.invites.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2">Pending invites</h3>
+                  <ul className="flex flex-col gap-1">
+                    {details.invites.map((invite) => (
+                      <li key={invite.id} className="flex items-center gap-2">
+                        <span className="flex-1">
+                          {invite.email} ({invite.role})
+                        </span>
+                        <button
+                          className="btn btn-ghost btn-xs"
+                          onClick={() =>
+                            run(
+                              () =>
+                                householdService.cancelInvite(
+                                  details.id,
+                                  invite.id
+                                ),
+                              `Cancelled invite for ${invite.email}`
+                            )
+                          }
+                        >
+                          Cancel
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {details && (
+        <>
+          <LocationManager readOnly={!canEditInventory(details.role)} />
+          <ShelfLifeRules readOnly={!canEditInventory(details.role)} />
+          <MoneySettings
+            // Start over when switching household
+            key={details.id}
+            currency={details.currency}
+            monthlyBudget={details.monthlyBudget}
+            readOnly={!isOwner}
+            onSave={(changes) =>
+              run(
+                () => householdService.updateHousehold(details.id, changes),
+                "Money settings saved",
+                // The currency and budget are part of the household list
+                { reloadList: true }
+              )
+            }
+          />
+        </>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <form
+          onSubmit={handleCreate}
+          className="card bg-base-200 p-4 flex flex-col gap-2"
+        >
+          <h3 className="font-semibold">Create a household</h3>
+          <input
+            className="input input-bordered input-sm"
+            placeholder="e.g. Home"
+            value={newHouseholdName}
+            onChange={(e) => setNewHouseholdName(e.target.value)}
+            required
+          />
+          <button type="submit" className="btn btn-sm">
+            Create
+          </button>
+        </form>
+        <form
+          onSubmit={handleJoin}
+          className="card bg-base-200 p-4 flex flex-col gap-2"
+        >
+          <h3 className="font-semibold">Join with an invite code</h3>
+          <input
+            className="input input-bordered input-sm font-mono uppercase"
+            placeholder="ABCD2345"
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value)}
+            required
+          />
+          <button type="submit" className="btn btn-sm">
+            Join
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
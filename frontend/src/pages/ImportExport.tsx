@@ -0,0 +1,95 @@
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import * as dataService from "../services/dataService";
+import ImportWizard from "../components/ImportWizard";
+import { EXPORT_TABLES } from "../types/dataTransfer";
+import type { ExportTable } from "../types/dataTransfer";
+import { canEditInventory } from "../types/household";
+import { todayIso } from "../lib/expiry";
+import { saveFile } from "../lib/download";
+
+const TABLE_LABELS: Record<ExportTable, string> = {
+  items: "Items",
+  batches: "Batches",
+  locations: "Locations",
+  removals: "Waste log",
+};
+
+/**
+ * Getting the household's food in and out: a full JSON backup (which
+ * imports back with nothing lost, into this household or another), each
+ * table as a spreadsheet, and importing either kind of file.
+ */
+export default function ImportExport() {
+  const { activeHousehold } = useAuth();
+
+  if (!activeHousehold) {
+    return (
+      <div className="p-4">
+        <h2 className="text-2xl font-bold mb-2">Import & export</h2>
+        <p className="mb-4">
+          You're not in a household yet. Create one or join with an invite.
+        </p>
+        <Link to="/household" className="btn btn-primary btn-sm">
+          Set up a household
+        </Link>
+      </div>
+    );
+  }
+
+  const handleExport = async (format: "json" | "csv", table?: ExportTable) => {
+    try {
+      const file = await dataService.exportData(format, table);
+      const name = `wasteless-${todayIso()}`;
+      saveFile(
+        file,
+        format === "json" ? `${name}.json` : `${name}-${table}.csv`
+      );
+    } catch {
+      // Already toasted by apiRequest
+    }
+  };
+
+  return (
+    <div className="p-4 flex flex-col gap-6">
+      <div>
+        <h2 className="text-2xl font-bold">Import & export</h2>
+        <p className="opacity-70">{activeHousehold.name}</p>
+      </div>
+
+      <section className="card bg-base-200 p-4 flex flex-col gap-3">
+        <h3 className="font-semibold">Export</h3>
+        <p className="text-sm opacity-70">
+          The backup has everything - locations, items with their batches and
+          the waste log - and imports back as it was. Spreadsheets have one
+          table each.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={() => void handleExport("json")}
+          >
+            Backup (JSON)
+          </button>
+          {EXPORT_TABLES.map((table) => (
+            <button
+              key={table}
+              className="btn btn-sm"
+              onClick={() => void handleExport("csv", table)}
+            >
+              {TABLE_LABELS[table]} (CSV)
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {canEditInventory(activeHousehold.role) ? (
+        <ImportWizard />
+      ) : (
+        <p className="opacity-70">
+          Viewers can't import - ask a household owner to make you an editor.
+        </p>
+      )}
+    </div>
+  );
+}
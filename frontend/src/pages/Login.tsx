@@ -0,0 +1,71 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import type { RedirectState } from "../components/RequireAuth";
+
+export default function Login() {
+  const { login, isLoading, error } = useAuth();
+  const { showToast } = useUI();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // RequireAuth sends people here with the page they originally asked for
+  const redirectState = location.state as RedirectState | null;
+  const from = redirectState?.from ?? "/dashboard";
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (await login(email, password)) {
+      showToast("Successfully logged in!", "success");
+      navigate(from, { replace: true });
+    }
+  };
+
+  return (
+    <div className="p-4 flex justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="card bg-base-200 p-6 w-full max-w-sm flex flex-col gap-3"
+      >
+        <h2 className="text-2xl font-bold">Log in</h2>
+        {error && <div className="alert alert-error">{error}</div>}
+        <label className="form-control">
+          <span className="label-text">Email</span>
+          <input
+            type="email"
+            className="input input-bordered w-full"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Password</span>
+          <input
+            type="password"
+            className="input input-bordered w-full"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </label>
+        <button type="submit" className="btn btn-primary" disabled={isLoading}>
+          {isLoading ? "Logging in..." : "Log in"}
+        </button>
+        <p className="text-sm">
+          New here?{" "}
+          <Link to="/register" state={redirectState} className="link">
+            Create an account
+          </Link>
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { Link } from "react-router-dom";
+
+export default function NotFound() {
+  return (
+    <div className="p-4">
+      <h2 className="text-2xl font-bold mb-2">Page not found</h2>
+      <p className="mb-4">We couldn't find the page you were looking for.</p>
+      <Link to="/" className="btn btn-primary btn-sm">
+        Go home
+      </Link>
+    </div>
+  );
+}
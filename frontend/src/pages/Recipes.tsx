@@ -0,0 +1,223 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  logMeal,
+  selectAllItems,
+  selectInventoryStatus,
+} from "../store/inventorySlice";
+import { addEntry } from "../store/shoppingListSlice";
+import { canEditInventory } from "../types/household";
+import type { NewMeal } from "../types/inventory";
+import CookDialog from "../components/CookDialog";
+import { DEFAULT_SETTINGS } from "../lib/expiry";
+import { missingEntries, suggestRecipes } from "../lib/recipes";
+import type { IngredientMatch, RecipeSuggestion } from "../lib/recipes";
+import { formatQuantity } from "../lib/units";
+
+// How an ingredient is shown: uses expiring food, in stock, to buy
+const ingredientClass = ({
+  ingredient,
+  uses,
+  missing,
+  expiring,
+}: IngredientMatch) =>
+  expiring
+    ? "badge-warning"
+    : missing > 0 && !ingredient.staple
+      ? "badge-ghost opacity-60"
+      : uses.length > 0
+        ? "badge-success badge-outline"
+        : "badge-ghost";
+
+/**
+ * Recipes from the bundled recipe book that use what's in the inventory,
+ * ranked so the ones that save food that's about to go off come first.
+ * "Cook this" takes the ingredients out of the inventory; the missing ones
+ * can go straight on the shopping list.
+ */
+export default function Recipes() {
+  const { user, activeHousehold } = useAuth();
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const items = useAppSelector(selectAllItems);
+  const status = useAppSelector(selectInventoryStatus);
+  const [canMakeNow, setCanMakeNow] = useState(false);
+  const [cooking, setCooking] = useState<RecipeSuggestion | null>(null);
+
+  const settings = user?.settings ?? DEFAULT_SETTINGS;
+  const suggestions = useMemo(
+    () => suggestRecipes(items, settings),
+    [items, settings]
+  );
+
+  if (!activeHousehold) {
+    return (
+      <div className="p-4">
+        <h2 className="text-2xl font-bold mb-2">Recipes</h2>
+        <p className="mb-4">
+          You're not in a household yet. Create one or join with an invite.
+        </p>
+        <Link to="/household" className="btn btn-primary btn-sm">
+          Set up a household
+        </Link>
+      </div>
+    );
+  }
+
+  // Viewers can look but not touch
+  const canEdit = canEditInventory(activeHousehold.role);
+  const shown = canMakeNow
+    ? suggestions.filter((s) => s.missingCount === 0)
+    : suggestions;
+
+  /**
+   * Logged as a meal, so the server takes every amount out at once - or
+   * none, if one can't be. Items used up are logged as eaten (and go back
+   * on the shopping list if they have a par level), like answering "Eaten"
+   * when the Dashboard asks. Like any meal, it can't be undone.
+   */
+  const handleCook = async (meal: NewMeal) => {
+    if (!cooking) return;
+    try {
+      await dispatch(logMeal(meal)).unwrap();
+      showToast(`Enjoy the ${cooking.recipe.name.toLowerCase()}!`, "success");
+      setCooking(null);
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not update items", "error");
+    }
+  };
+
+  const handleAddMissing = async (suggestion: RecipeSuggestion) => {
+    const entries = missingEntries(suggestion);
+    try {
+      for (const entry of entries) {
+        await dispatch(addEntry(entry)).unwrap();
+      }
+      showToast(
+        `Added ${entries.length} item${entries.length === 1 ? "" : "s"} to the shopping list`,
+        "success"
+      );
+    } catch (err) {
+      showToast(
+        (err as Error).message ?? "Could not add to the shopping list",
+        "error"
+      );
+    }
+  };
+
+  return (
+    <div className="p-4 flex flex-col gap-4">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Recipe ideas</h2>
+          <p className="opacity-70">
+            Using up what expires first, with the least to buy
+          </p>
+        </div>
+        <label className="label cursor-pointer gap-2">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={canMakeNow}
+            onChange={(e) => setCanMakeNow(e.target.checked)}
+          />
+          <span className="label-text">Only what I can make now</span>
+        </label>
+      </div>
+
+      {status === "loading" && <span className="loading loading-spinner" />}
+      {status === "succeeded" && shown.length === 0 && (
+        <p className="opacity-70">
+          {canMakeNow
+            ? "Nothing can be made with only what's in stock."
+            : "No recipes match what's in the inventory."}
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {shown.map((suggestion) => {
+          const { recipe, ingredients, expiringCount, missingCount } =
+            suggestion;
+          return (
+            <div key={recipe.id} className="card bg-base-200 p-4 gap-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="font-semibold text-lg flex-1">{recipe.name}</h3>
+                {expiringCount > 0 && (
+                  <span className="badge badge-warning">
+                    Uses {expiringCount} expiring
+                  </span>
+                )}
+                <span
+                  className={`badge ${missingCount === 0 ? "badge-success" : "badge-ghost"}`}
+                >
+                  {missingCount === 0
+                    ? "Nothing to buy"
+                    : `${missingCount} missing`}
+                </span>
+              </div>
+              <p className="text-sm opacity-60">
+                {recipe.minutes} min · serves {recipe.servings}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {ingredients.map((match) => (
+                  <span
+                    key={match.ingredient.name}
+                    className={`badge ${ingredientClass(match)}`}
+                    title={
+                      match.uses.length > 0
+                        ? `From: ${match.uses.map((u) => u.item.name).join(", ")}`
+                        : undefined
+                    }
+                  >
+                    {formatQuantity(
+                      match.ingredient.quantity,
+                      match.ingredient.unit
+                    )}{" "}
+                    {match.ingredient.name}
+                  </span>
+                ))}
+              </div>
+              <details>
+                <summary className="cursor-pointer text-sm">Method</summary>
+                <ol className="list-decimal ml-5 mt-2 text-sm flex flex-col gap-1">
+                  {recipe.steps.map((step) => (
+                    <li key={step}>{step}</li>
+                  ))}
+                </ol>
+              </details>
+              {canEdit && (
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    className="btn btn-primary btn-sm"
+                    onClick={() => setCooking(suggestion)}
+                  >
+                    Cook this
+                  </button>
+                  {missingCount > 0 && (
+                    <button
+                      className="btn btn-outline btn-sm"
+                      onClick={() => handleAddMissing(suggestion)}
+                    >
+                      Add missing to shopping list
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {cooking && (
+        <CookDialog
+          suggestion={cooking}
+          onCook={handleCook}
+          onClose={() => setCooking(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import type { RedirectState } from "../components/RequireAuth";
+
+export default function Register() {
+  const { register, isLoading, error } = useAuth();
+  const { showToast } = useUI();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Passed along from Login, so new users also land where they were headed
+  const redirectState = location.state as RedirectState | null;
+  const from = redirectState?.from ?? "/dashboard";
+
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (await register(name, email, password)) {
+      showToast(`Welcome to Wasteless, ${name}!`, "success");
+      navigate(from, { replace: true });
+    }
+  };
+
+  return (
+    <div className="p-4 flex justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="card bg-base-200 p-6 w-full max-w-sm flex flex-col gap-3"
+      >
+        <h2 className="text-2xl font-bold">Create an account</h2>
+        {error && <div className="alert alert-error">{error}</div>}
+        <label className="form-control">
+          <span className="label-text">Name</span>
+          <input
+            className="input input-bordered w-full"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoComplete="name"
+            required
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Email</span>
+          <input
+            type="email"
+            className="input input-bordered w-full"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text">Password</span>
+          <input
+            type="password"
+            className="input input-bordered w-full"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+            minLength={8}
+            required
+          />
+        </label>
+        <button type="submit" className="btn btn-primary" disabled={isLoading}>
+          {isLoading ? "Creating account..." : "Create account"}
+        </button>
+        <p className="text-sm">
+          Already have an account?{" "}
+          <Link to="/login" state={redirectState} className="link">
+            Log in
+          </Link>
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { DEFAULT_SETTINGS } from "../lib/expiry";
+import type { UserSettings } from "../types/user";
+
+export default function Settings() {
+  const { user, updateSettings } = useAuth();
+  const { showToast } = useUI();
+
+  const [values, setValues] = useState<UserSettings>(
+    () => user?.settings ?? DEFAULT_SETTINGS
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (field: keyof UserSettings, value: number) =>
+    setValues((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await updateSettings(values);
+      showToast("Settings saved", "success");
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Something went wrong",
+        "error"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 flex justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="card bg-base-200 p-6 w-full max-w-md flex flex-col gap-3"
+      >
+        <h2 className="text-2xl font-bold">Settings</h2>
+        <h3 className="font-semibold">Expiry alerts</h3>
+        <label className="form-control">
+          <span className="label-text">
+            "Expiring soon" means within (days)
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={60}
+            className="input input-bordered w-full"
+            value={values.expirySoonDays}
+            onChange={(e) => update("expirySoonDays", Number(e.target.value))}
+            required
+          />
+        </label>
+        <label className="form-control">
+          <span className="label-text">"Urgent" means within (days)</span>
+          <input
+            type="number"
+            min={0}
+            max={values.expirySoonDays}
+            className="input input-bordered w-full"
+            value={values.expiryUrgentDays}
+            onChange={(e) => update("expiryUrgentDays", Number(e.target.value))}
+            required
+          />
+        </label>
+        <button type="submit" className="btn btn-primary" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save"}
+        </button>
+      </form>
+    </div>
+  );
+}
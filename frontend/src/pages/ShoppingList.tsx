@@ -0,0 +1,288 @@
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useUI } from "../contexts/UIContext";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  addEntry,
+  checkInEntries,
+  fetchShoppingList,
+  removeEntry,
+  selectAllEntries,
+  selectShoppingListStatus,
+  toggleEntry,
+} from "../store/shoppingListSlice";
+import { selectAllItems } from "../store/inventorySlice";
+import { selectAllLocations } from "../store/locationsSlice";
+import { selectShelfLifeRules } from "../store/shelfLifeSlice";
+import { FOOD_CATEGORIES, FOOD_UNITS } from "../types/inventory";
+import type { FoodCategory, FoodUnit, NewFoodItem } from "../types/inventory";
+import { canEditInventory } from "../types/household";
+import type { CheckIn, ShoppingListEntry } from "../types/shoppingList";
+import { todayIso } from "../lib/expiry";
+import { suggestExpiry } from "../lib/shelfLife";
+
+/**
+ * The household's shared shopping list, made for a phone in the shop: big
+ * tick boxes, one add field, and "Check in" at the end to put everything
+ * that was bought into the inventory in one go - each item where its entry
+ * says (or the fridge), with a suggested expiry date.
+ */
+export default function ShoppingList() {
+  const { activeHousehold } = useAuth();
+  const { showToast } = useUI();
+  const dispatch = useAppDispatch();
+  const entries = useAppSelector(selectAllEntries);
+  const status = useAppSelector(selectShoppingListStatus);
+  const items = useAppSelector(selectAllItems);
+  const locations = useAppSelector(selectAllLocations);
+  const rules = useAppSelector(selectShelfLifeRules);
+
+  const [name, setName] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [unit, setUnit] = useState<FoodUnit>("count");
+  const [category, setCategory] = useState<FoodCategory>("other");
+  const [checkingIn, setCheckingIn] = useState(false);
+
+  // Par-level entries change whenever items do, so re-read on every visit
+  const householdId = activeHousehold?.id;
+  useEffect(() => {
+    if (householdId) dispatch(fetchShoppingList(householdId));
+  }, [householdId, dispatch]);
+
+  if (!activeHousehold) {
+    return (
+      <div className="p-4">
+        <h2 className="text-2xl font-bold mb-2">Shopping list</h2>
+        <p className="mb-4">
+          You're not in a household yet. Create one or join with an invite.
+        </p>
+        <Link to="/household" className="btn btn-primary btn-sm">
+          Set up a household
+        </Link>
+      </div>
+    );
+  }
+
+  // Viewers can look but not touch
+  const canEdit = canEditInventory(activeHousehold.role);
+  const checked = entries.filter((entry) => entry.checked);
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      await dispatch(
+        addEntry({ name: trimmed, category, quantity, unit, locationId: null })
+      ).unwrap();
+      setName("");
+      setQuantity(1);
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not add to the list", "error");
+    }
+  };
+
+  const handleToggle = async (entry: ShoppingListEntry) => {
+    try {
+      await dispatch(
+        toggleEntry({ id: entry.id, checked: !entry.checked })
+      ).unwrap();
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not tick it off", "error");
+    }
+  };
+
+  const handleRemove = async (entry: ShoppingListEntry) => {
+    try {
+      await dispatch(removeEntry(entry.id)).unwrap();
+    } catch (err) {
+      showToast(
+        (err as Error).message ?? `Could not remove ${entry.name}`,
+        "error"
+      );
+    }
+  };
+
+  /**
+   * The inventory item to log for a bought entry: where it was on the list
+   * for (or the fridge), bought today, expiring when the shelf-life rules
+   * say. A restocked item keeps its par level.
+   */
+  const toItem = (entry: ShoppingListEntry): NewFoodItem => {
+    const location =
+      locations.find((l) => l.id === entry.locationId) ??
+      locations.find((l) => l.kind === "fridge") ??
+      locations[0];
+    const today = todayIso();
+    const suggestion = location
+      ? suggestExpiry({ ...entry, location: location.kind }, rules, today)
+      : null;
+    const restocked = items.find((item) => item.id === entry.itemId);
+    return {
+      name: entry.name,
+      category: entry.category,
+      quantity: entry.quantity,
+      unit: entry.unit,
+      purchaseDate: today,
+      expiryDate: suggestion?.expiryDate ?? null,
+      expiryType: suggestion?.expiryType ?? "best-before",
+      locationId: location?.id ?? "",
+      notes: "",
+      tags: [],
+      price: null,
+      purchaseQuantity: null,
+      store: "",
+      parLevel: restocked?.parLevel ?? null,
+    };
+  };
+
+  const handleCheckIn = async () => {
+    if (locations.length === 0) {
+      showToast("Add a location first, to put things in", "error");
+      return;
+    }
+    const bought: CheckIn[] = checked.map((entry) => ({
+      id: entry.id,
+      item: toItem(entry),
+    }));
+    setCheckingIn(true);
+    try {
+      const added = await dispatch(checkInEntries(bought)).unwrap();
+      showToast(
+        `Checked in ${added.length} item${added.length === 1 ? "" : "s"}`,
+        "success"
+      );
+      // Some may still be below their par level
+      dispatch(fetchShoppingList(activeHousehold.id));
+    } catch (err) {
+      showToast((err as Error).message ?? "Could not check in", "error");
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  return (
+    <div className="p-4 pb-24 max-w-xl mx-auto flex flex-col gap-4">
+      <div>
+        <h2 className="text-2xl font-bold">Shopping list</h2>
+        <p className="opacity-70">{activeHousehold.name}</p>
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="flex flex-col gap-2">
+          <div className="join w-full">
+            <input
+              className="input input-bordered join-item w-full"
+              placeholder="Add something..."
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              aria-label="Name"
+            />
+            <button type="submit" className="btn btn-primary join-item">
+              Add
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0.01}
+              step="any"
+              className="input input-bordered input-sm w-20"
+              value={quantity}
+              onChange={(e) => setQuantity(Number(e.target.value))}
+              aria-label="Quantity"
+            />
+            <select
+              className="select select-bordered select-sm"
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as FoodUnit)}
+              aria-label="Unit"
+            >
+              {FOOD_UNITS.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+            <select
+              className="select select-bordered select-sm flex-1"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as FoodCategory)}
+              aria-label="Category"
+            >
+              {FOOD_CATEGORIES.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </div>
+        </form>
+      )}
+
+      {status === "loading" && entries.length === 0 && (
+        <span className="loading loading-spinner" />
+      )}
+      {status === "failed" && (
+        <div className="alert alert-error">Could not load the list.</div>
+      )}
+      {status === "succeeded" && entries.length === 0 && (
+        <p className="opacity-70">
+          Nothing to buy. Items with a par level show up here by themselves when
+          they run low.
+        </p>
+      )}
+
+      <ul className="flex flex-col divide-y divide-base-300">
+        {entries.map((entry) => (
+          <li key={entry.id} className="flex items-center gap-3 py-2">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-lg"
+              checked={entry.checked}
+              disabled={!canEdit}
+              onChange={() => handleToggle(entry)}
+              aria-label={`Bought ${entry.name}`}
+            />
+            <div
+              className={`flex-1 ${entry.checked ? "line-through opacity-50" : ""}`}
+            >
+              <div className="font-medium">{entry.name}</div>
+              <div className="text-sm opacity-70">
+                {entry.quantity} {entry.unit} · {entry.category}
+                {entry.source === "par-level" && (
+                  <span className="badge badge-ghost badge-sm ml-2">
+                    running low
+                  </span>
+                )}
+              </div>
+            </div>
+            {canEdit && (
+              <button
+                className="btn btn-ghost btn-sm"
+                onClick={() => handleRemove(entry)}
+                aria-label={`Remove ${entry.name}`}
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && checked.length > 0 && (
+        <div className="fixed bottom-0 inset-x-0 p-4 bg-base-100 border-t border-base-300">
+          <button
+            className="btn btn-primary w-full max-w-xl mx-auto flex"
+            disabled={checkingIn}
+            onClick={handleCheckIn}
+          >
+            Check in {checked.length} item{checked.length === 1 ? "" : "s"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
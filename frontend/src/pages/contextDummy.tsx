@@ -9,7 +9,7 @@
  *
  * HOW TO USE:
  * 1. Navigate to /contextTest in your browser
- * 2. Try logging in - notice the UI updates AND it persists after refresh
+ * 2. Log in on /login - notice the UI updates AND it persists after refresh
  * 3. Try the toast buttons - see different colors appear
  * 4. Try "Load Data" - see the loading overlay
  *
@@ -17,15 +17,20 @@
  * ─────────────────────────
  * ✅ How to import and use the custom hooks (useAuth, useUI)
  * ✅ Reading state (user, isAuthenticated, isLoading)
- * ✅ Calling functions (login, logout, showToast, setIsLoading)
+ * ✅ Calling functions (logout, showToast, startLoading)
  * ✅ Conditional rendering based on state
- * ✅ How toasts and loading overlays work
+ * ✅ How toasts and the loading overlay (in App.tsx) work
+ *
+ * DEV ONLY:
+ * The route is wrapped in <DevOnly> (see App.tsx), so production builds
+ * show the 404 page instead.
  *
  * DELETE THIS PAGE LATER:
  * This is just for learning/testing. Once you understand contexts,
  * you can delete this page and apply the patterns to real features.
  */
 
+import { Link } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { useUI } from "../contexts/UIContext";
 
@@ -33,8 +38,8 @@ export default function ContextDummy() {
   /**
    * ACCESS THE CONTEXTS WITH HOOKS
    *
-   * useAuth() returns: { user, login, logout, isAuthenticated }
-   * useUI() returns: { isLoading, setIsLoading, toasts, showToast, removeToast }
+   * useAuth() returns: { user, login, register, logout, isAuthenticated, isLoading, error, clearError }
+   * useUI() returns: { isLoading, startLoading, toasts, showToast, removeToast }
    *
    * We're using "destructuring" to pull out just what we need.
    * This is the same as:
@@ -46,63 +51,28 @@ export default function ContextDummy() {
    *
    * But destructuring is cleaner!
    */
-  const { user, login, logout, isAuthenticated } = useAuth();
-  const { isLoading, setIsLoading, showToast } = useUI();
-
-  /**
-   * MOCK LOGIN HANDLER
-   *
-   * In a real app, this would:
-   * 1. Call your backend API with email/password
-   * 2. Get back user data + token
-   * 3. Call login() with that data
-   *
-   * For now, we just create a fake user to demonstrate.
-   *
-   * TRY THIS:
-   * 1. Click "Login (Mock)"
-   * 2. See the UI update to show "Logged in as: John Doe"
-   * 3. Refresh the page
-   * 4. You're STILL logged in! (localStorage at work)
-   */
-  const handleLogin = () => {
-    // Fake user data - in real app, this comes from your API
-    const mockUser = {
-      id: "123",
-      email: "user@wasteless.com",
-      name: "John Doe",
-    };
-
-    // Call login() from AuthContext
-    // This sets user in state AND saves to localStorage
-    login(mockUser);
-
-    // Show a success toast
-    showToast("Successfully logged in!", "success");
-  };
+  const { user, logout, isAuthenticated } = useAuth();
+  const { isLoading, startLoading, showToast } = useUI();
 
   /**
    * MOCK DATA LOADING HANDLER
    *
    * Demonstrates how to use loading state for async operations.
    *
-   * In a real app:
-   *   setIsLoading(true);
-   *   const data = await fetch('/api/data');
-   *   setIsLoading(false);
+   * In a real app you don't need to: every apiRequest() (see
+   * services/http.ts) counts as loading while it runs.
    *
-   * Here we use setTimeout to simulate a 2-second API call.
+   * Here we use setTimeout to simulate a 2-second API call. Click twice
+   * quickly - the overlay stays until BOTH have finished.
    */
   const handleLoadData = () => {
-    // Turn on loading (shows the overlay)
-    setIsLoading(true);
+    // Start loading (shows the overlay); done() ends it
+    const done = startLoading();
     showToast("Loading data...", "info");
 
     // Simulate API call with setTimeout
-    // In real app: await fetch('/api/something')
     setTimeout(() => {
-      // Turn off loading (hides the overlay)
-      setIsLoading(false);
+      done();
       showToast("Data loaded successfully!", "success");
     }, 2000); // 2000ms = 2 seconds
   };
@@ -110,11 +80,11 @@ export default function ContextDummy() {
   /**
    * LOGOUT HANDLER
    *
-   * Clears user from state and localStorage.
-   * The UI will update to show "Not logged in" state.
+   * Revokes the session on the server and clears it from state and
+   * localStorage. The UI will update to show "Not logged in" state.
    */
-  const handleLogout = () => {
-    logout(); // From AuthContext
+  const handleLogout = async () => {
+    await logout(); // From AuthContext
     showToast("Logged out", "info");
   };
 
@@ -130,7 +100,7 @@ export default function ContextDummy() {
         This section demonstrates:
         - Reading isAuthenticated to show different UI
         - Displaying user data when logged in
-        - Calling login/logout functions
+        - Calling logout (logging in happens on the /login page)
         
         TRY: Log in, refresh page, you're still logged in!
       */}
@@ -168,9 +138,9 @@ export default function ContextDummy() {
           // LOGGED OUT STATE
           <div>
             <p className="mb-4">❌ Not logged in</p>
-            <button className="btn btn-primary btn-sm" onClick={handleLogin}>
-              Login (Mock)
-            </button>
+            <Link to="/login" className="btn btn-primary btn-sm">
+              Go to Login
+            </Link>
           </div>
         )}
       </div>
@@ -181,7 +151,7 @@ export default function ContextDummy() {
         ════════════════════════════════════════════════════════════════
         
         This section demonstrates:
-        - setIsLoading() to show/hide loading overlay
+        - startLoading() to show/hide the loading overlay
         - showToast() with different types
         
         TRY: Click each button and watch the toasts appear!
@@ -222,33 +192,6 @@ export default function ContextDummy() {
           </button>
         </div>
       </div>
-
-      {/*
-        ════════════════════════════════════════════════════════════════
-        LOADING OVERLAY
-        ════════════════════════════════════════════════════════════════
-        
-        This only renders when isLoading is true.
-        
-        {isLoading && <div>...</div>}
-        
-        This is a "short-circuit" - if isLoading is false, React stops
-        evaluating and renders nothing. If true, it renders the div.
-        
-        The overlay:
-        - Fixed positioning (covers entire screen)
-        - Semi-transparent black background (bg-black/50)
-        - High z-index (z-50) to appear above other content
-        - Centered spinner
-        
-        NOTE: In a real app, you might move this to App.tsx so it shows
-        on ALL pages, not just this one!
-      */}
-      {isLoading && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <span className="loading loading-spinner loading-lg"></span>
-        </div>
-      )}
     </div>
   );
 }
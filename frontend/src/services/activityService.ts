@@ -0,0 +1,43 @@
+/**
+ * ACTIVITY SERVICE
+ * Reads the activity log (every change to the household's items) from
+ * /api/activity, for the household in the X-Household-Id header that
+ * apiRequest sends.
+ */
+
+import { apiDownload, apiRequest } from "./http";
+import type { ActivityFilters, ActivityPage } from "../types/activity";
+
+// Only the filters that are set, as a query string ("" for none)
+function toQuery(params: Record<string, string | undefined>) {
+  const query = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] =>
+      Boolean(entry[1])
+    )
+  ).toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * One page of the log, newest first. Pass the previous page's `nextCursor`
+ * as `cursor` for the one after it.
+ */
+export function listActivity(
+  filters: ActivityFilters,
+  cursor?: string,
+  signal?: AbortSignal
+): Promise<ActivityPage> {
+  return apiRequest(`/activity${toQuery({ ...filters, cursor })}`, {
+    signal,
+  });
+}
+
+/**
+ * The whole (filtered) log as a file (owners only).
+ */
+export function exportActivity(
+  filters: ActivityFilters,
+  format: "csv" | "json"
+): Promise<Blob> {
+  return apiDownload(`/activity/export${toQuery({ ...filters, format })}`);
+}
@@ -0,0 +1,58 @@
+/**
+ * AUTH SERVICE
+ * Thin wrappers around /api/auth/*. AuthContext is the only caller - pages
+ * should use useAuth() instead. Session requests are `quiet`: AuthContext
+ * shows their errors on the login form itself.
+ */
+
+import { apiRequest } from "./http";
+import type { User, UserSettings } from "../types/user";
+
+interface SessionResponse {
+  user: User;
+  token: string;
+}
+
+export function register(
+  name: string,
+  email: string,
+  password: string
+): Promise<SessionResponse> {
+  return apiRequest("/auth/register", {
+    method: "POST",
+    quiet: true,
+    body: JSON.stringify({ name, email, password }),
+  });
+}
+
+export function login(
+  email: string,
+  password: string
+): Promise<SessionResponse> {
+  return apiRequest("/auth/login", {
+    method: "POST",
+    quiet: true,
+    body: JSON.stringify({ email, password }),
+  });
+}
+
+export function logout(): Promise<void> {
+  return apiRequest("/auth/logout", { method: "POST", quiet: true });
+}
+
+export async function me(): Promise<User> {
+  const { user } = await apiRequest<{ user: User }>("/auth/me", {
+    quiet: true,
+  });
+  return user;
+}
+
+export async function updateSettings(
+  changes: Partial<UserSettings>
+): Promise<User> {
+  const { user } = await apiRequest<{ user: User }>("/auth/me/settings", {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
+  return user;
+}
@@ -0,0 +1,43 @@
+/**
+ * DATA SERVICE
+ * Exports the household's whole inventory from /api/data/export, and
+ * imports a file's worth back with /api/data/import - for the household in
+ * the X-Household-Id header that apiRequest sends.
+ */
+
+import { apiDownload, apiRequest } from "./http";
+import type {
+  ExportTable,
+  ImportDocument,
+  ImportMode,
+  ImportResult,
+} from "../types/dataTransfer";
+
+/**
+ * Everything as a versioned JSON document, or one table as CSV.
+ */
+export function exportData(
+  format: "json" | "csv",
+  table: ExportTable = "items"
+): Promise<Blob> {
+  const query = format === "csv" ? `&table=${table}` : "";
+  return apiDownload(`/data/export?format=${format}${query}`);
+}
+
+/**
+ * Import `data`. With `dryRun` nothing is saved: the result says what
+ * would happen to each row, and what's wrong with the ones that can't be
+ * imported. (Those are the caller's to show, so the preview isn't toasted.)
+ */
+export function importData(
+  data: ImportDocument,
+  mode: ImportMode,
+  dryRun: boolean
+): Promise<ImportResult> {
+  return apiRequest("/data/import", {
+    method: "POST",
+    body: JSON.stringify({ data, mode, dryRun }),
+    source: "import",
+    quiet: dryRun,
+  });
+}
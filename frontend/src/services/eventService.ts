@@ -0,0 +1,156 @@
+/**
+ * ============================================================================
+ * EVENT SERVICE - The Household's Live Update Stream
+ * ============================================================================
+ *
+ * Keeps GET /api/events open (Server-Sent Events) and hands each event to
+ * the caller as it arrives:
+ *
+ *   const stop = listenToHousehold(householdId, {
+ *     onItem: (event) => ...,       // someone else added/changed/removed one
+ *     onPresence: (members) => ..., // who has the app open
+ *     onResync: () => ...,          // missed too much: reload the items
+ *     onConnectionChange: (connected) => ...,
+ *   });
+ *
+ * fetch() rather than EventSource, because EventSource can't send the
+ * Authorization and X-Household-Id headers. When the connection drops it
+ * reconnects by itself (waiting longer after each failure, up to 30
+ * seconds) and sends the id of the last event it saw, so the server can
+ * send the ones it missed.
+ */
+
+import { ApiError, openStream } from "./http";
+import type { Household } from "../types/household";
+import type { ItemEvent, OnlineMember } from "../types/events";
+
+export interface HouseholdEventHandlers {
+  onItem: (event: ItemEvent) => void;
+  onPresence: (members: OnlineMember[]) => void;
+  onResync: () => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+const FIRST_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30_000;
+
+interface StreamEvent {
+  id?: string;
+  type: string;
+  data: string;
+}
+
+// One "id: …\nevent: …\ndata: …" block (lines starting with ":" are
+// keep-alive comments)
+function parseEvent(block: string): StreamEvent | null {
+  const event: StreamEvent = { type: "message", data: "" };
+  for (const line of block.split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const field = line.slice(0, colon);
+    const value = line.slice(colon + 1).replace(/^ /, "");
+    if (field === "id") event.id = value;
+    else if (field === "event") event.type = value;
+    else if (field === "data") event.data += value;
+  }
+  return event.data ? event : null;
+}
+
+/**
+ * Read the stream until it ends, calling `onEvent` for each event.
+ */
+async function readEvents(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+) {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value.replace(/\r\n?/g, "\n");
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      const event = parseEvent(block);
+      if (event) onEvent(event);
+    }
+  }
+}
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+/**
+ * Listen to `householdId`'s events until the returned function is called.
+ */
+export function listenToHousehold(
+  householdId: Household["id"],
+  handlers: HouseholdEventHandlers
+): () => void {
+  const controller = new AbortController();
+  const { signal } = controller;
+  let lastEventId: string | null = null;
+
+  const handle = (event: StreamEvent) => {
+    if (event.id) lastEventId = event.id;
+    const data: unknown = JSON.parse(event.data);
+    switch (event.type) {
+      case "ready":
+        handlers.onConnectionChange(true);
+        break;
+      case "presence":
+        handlers.onPresence((data as { members: OnlineMember[] }).members);
+        break;
+      case "resync":
+        handlers.onResync();
+        break;
+      case "item.created":
+      case "item.updated":
+      case "item.deleted":
+        handlers.onItem({
+          ...(data as ItemEvent),
+          type: event.type,
+        } as ItemEvent);
+        break;
+    }
+  };
+
+  const run = async () => {
+    let retryMs = FIRST_RETRY_MS;
+    while (!signal.aborted) {
+      try {
+        const response = await openStream("/events", {
+          signal,
+          headers: {
+            "X-Household-Id": householdId,
+            ...(lastEventId && { "Last-Event-ID": lastEventId }),
+          },
+        });
+        retryMs = FIRST_RETRY_MS;
+        await readEvents(response, handle);
+      } catch (err) {
+        if (signal.aborted) return;
+        // Logged out, or no longer in the household: nothing to come back to
+        if (err instanceof ApiError && [401, 403, 404].includes(err.status)) {
+          handlers.onConnectionChange(false);
+          return;
+        }
+      }
+      if (signal.aborted) return;
+      handlers.onConnectionChange(false);
+      await wait(retryMs, signal);
+      retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+    }
+  };
+  void run();
+
+  return () => controller.abort();
+}
@@ -0,0 +1,108 @@
+/**
+ * HOUSEHOLD SERVICE
+ * Wrappers around /api/households/* and /api/invites/*.
+ */
+
+import { apiRequest } from "./http";
+import type {
+  Household,
+  HouseholdDetails,
+  HouseholdInvite,
+  HouseholdRole,
+  HouseholdSettings,
+  InviteRole,
+  ReceivedInvite,
+} from "../types/household";
+import type { User } from "../types/user";
+
+export function listHouseholds(): Promise<Household[]> {
+  return apiRequest("/households");
+}
+
+export function createHousehold(name: string): Promise<Household> {
+  return apiRequest("/households", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+}
+
+export function joinHousehold(code: string): Promise<Household> {
+  return apiRequest("/households/join", {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+}
+
+export function getHousehold(id: Household["id"]): Promise<HouseholdDetails> {
+  return apiRequest(`/households/${id}`);
+}
+
+export function renameHousehold(id: Household["id"], name: string) {
+  return updateHousehold(id, { name });
+}
+
+export function updateHousehold(
+  id: Household["id"],
+  changes: Partial<HouseholdSettings>
+) {
+  return apiRequest<void>(`/households/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
+}
+
+export function regenerateInviteCode(
+  id: Household["id"]
+): Promise<{ inviteCode: string }> {
+  return apiRequest(`/households/${id}/invite-code`, { method: "POST" });
+}
+
+export function inviteMember(
+  id: Household["id"],
+  email: string,
+  role: InviteRole
+): Promise<HouseholdInvite> {
+  return apiRequest(`/households/${id}/invites`, {
+    method: "POST",
+    body: JSON.stringify({ email, role }),
+  });
+}
+
+export function cancelInvite(id: Household["id"], inviteId: string) {
+  return apiRequest<void>(`/households/${id}/invites/${inviteId}`, {
+    method: "DELETE",
+  });
+}
+
+export function changeMemberRole(
+  id: Household["id"],
+  userId: User["id"],
+  role: HouseholdRole
+) {
+  return apiRequest<void>(`/households/${id}/members/${userId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function removeMember(id: Household["id"], userId: User["id"]) {
+  return apiRequest<void>(`/households/${id}/members/${userId}`, {
+    method: "DELETE",
+  });
+}
+
+export function leaveHousehold(id: Household["id"]) {
+  return apiRequest<void>(`/households/${id}/leave`, { method: "POST" });
+}
+
+export function listReceivedInvites(): Promise<ReceivedInvite[]> {
+  return apiRequest("/invites");
+}
+
+export function acceptInvite(inviteId: string): Promise<Household> {
+  return apiRequest(`/invites/${inviteId}/accept`, { method: "POST" });
+}
+
+export function declineInvite(inviteId: string) {
+  return apiRequest<void>(`/invites/${inviteId}/decline`, { method: "POST" });
+}
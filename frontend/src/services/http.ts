@@ -0,0 +1,352 @@
+/**
+ * ============================================================================
+ * HTTP - The One Place That Talks to the Backend
+ * ============================================================================
+ *
+ * Every service (auth, inventory, ...) calls apiRequest() instead of fetch()
+ * so they all get the same things for free:
+ * - the /api prefix and JSON headers
+ * - the session token (set by AuthContext with setAuthToken)
+ * - the active household (set by AuthContext with setActiveHouseholdId)
+ * - this app's client id, so live updates about its own changes aren't
+ *   sent back to it (services/eventService.ts)
+ * - errors turned into ApiError with the server's code and message
+ * - retries when the network drops (only for reads: a change that did
+ *   reach the server before the answer got lost would be made twice, or a
+ *   repeated DELETE would answer 404 for an item it did delete)
+ * - cancelling: pass an AbortController's `signal`
+ * - the global loading spinner and an error toast (UIContext listens with
+ *   setRequestListener)
+ * - whether the server can be reached at all (OfflineSync listens with
+ *   setConnectionListener)
+ *
+ * Forms that want to show validation errors next to their fields use
+ * apiResult() instead, which returns them rather than throwing.
+ */
+
+import type { ChangeSource } from "../types/activity";
+
+/**
+ * Error responses from the API look like:
+ * { "error": { "code": "NOT_FOUND", "message": "Item not found" } }
+ * Validation errors also list every bad field in `issues`.
+ */
+interface ApiErrorBody {
+  error?: {
+    code: string;
+    message: string;
+    issues?: { path: string; message: string }[];
+  };
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly issues: { path: string; message: string }[];
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(body.error?.message ?? `Request failed (${status})`);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = body.error?.code ?? "UNKNOWN";
+    this.issues = body.error?.issues ?? [];
+  }
+
+  get isValidationError() {
+    return this.code === "VALIDATION_ERROR";
+  }
+
+  /**
+   * The issues as { field: message }, e.g. { name: "Required" }. Only the
+   * first message per field is kept - that's all a form shows.
+   */
+  get fieldErrors(): Record<string, string> {
+    const errors: Record<string, string> = {};
+    for (const issue of this.issues) {
+      errors[issue.path] ??= issue.message;
+    }
+    return errors;
+  }
+}
+
+/**
+ * Was this request cancelled with its AbortController? Callers usually
+ * just ignore these - whoever cancelled it no longer wants the answer.
+ */
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === "AbortError";
+
+/**
+ * Did the request fail because the server couldn't be reached at all (no
+ * connection, server down)? fetch() rejects with a TypeError for those.
+ */
+export const isNetworkError = (err: unknown) => err instanceof TypeError;
+
+/**
+ * THE CURRENT SESSION TOKEN
+ * Kept here (not read from React state) because services run outside of
+ * components. AuthContext calls setAuthToken on login, restore and logout.
+ */
+let authToken: string | null = null;
+
+export function setAuthToken(token: string | null) {
+  authToken = token;
+}
+
+/**
+ * THE ACTIVE HOUSEHOLD
+ * The inventory routes need to know WHICH of the user's households to use.
+ */
+let activeHouseholdId: string | null = null;
+
+export function setActiveHouseholdId(id: string | null) {
+  activeHouseholdId = id;
+}
+
+export const getActiveHouseholdId = () => activeHouseholdId;
+
+// Different in every tab: the server skips this one when telling the
+// household about a change it made
+const clientId = crypto.randomUUID();
+
+function requestHeaders(extra?: HeadersInit): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    "X-Client-Id": clientId,
+    ...(authToken && { Authorization: `Bearer ${authToken}` }),
+    ...(activeHouseholdId && { "X-Household-Id": activeHouseholdId }),
+    ...extra,
+  };
+}
+
+/**
+ * WHO IS WATCHING REQUESTS
+ * UIContext registers itself here to count running requests (for the
+ * loading spinner) and toast failures. Same reason as the token: services
+ * can't call hooks.
+ */
+export interface RequestListener {
+  onStart: () => void;
+  onEnd: () => void;
+  onError: (error: Error) => void; // Not called for cancelled or quiet requests
+}
+
+let requestListener: RequestListener | null = null;
+
+export function setRequestListener(listener: RequestListener | null) {
+  requestListener = listener;
+}
+
+/**
+ * IS THE SERVER REACHABLE?
+ * Worked out from every request: yes when the server answered (even with
+ * an error), no when it couldn't be reached. The listener hears each time.
+ */
+let serverReachable = true;
+let connectionListener: ((online: boolean) => void) | null = null;
+
+export function setConnectionListener(
+  listener: ((online: boolean) => void) | null
+) {
+  connectionListener = listener;
+}
+
+export const isServerReachable = () => serverReachable;
+
+function connectionChanged(online: boolean) {
+  serverReachable = online;
+  connectionListener?.(online);
+}
+
+export interface ApiRequestOptions extends RequestInit {
+  // Don't toast a failure - the caller shows it some other way (a form
+  // message, an inline alert)
+  quiet?: boolean;
+  // Don't toast a network failure either - the caller queues the change to
+  // send once the server can be reached
+  queueable?: boolean;
+  // How many times to retry a read after a network failure (default 2)
+  retries?: number;
+  // Where a change to the inventory came from, for the activity log
+  // (default "ui")
+  source?: ChangeSource;
+}
+
+// Reads: repeating them can't change anything, or answer differently
+// because the first try got through
+const RETRY_METHODS = ["GET", "HEAD", "OPTIONS"];
+const RETRY_DELAY_MS = 500; // Doubles after each attempt
+
+// Wait `ms`, or stop early (throwing AbortError) if the request is cancelled
+function wait(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * fetch() with retries. It only rejects (with a TypeError) when the server
+ * couldn't be reached at all - an HTTP error status is an answer, not a
+ * network failure, so those are never retried.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  retries: number
+): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+  const canRetry = RETRY_METHODS.includes(method);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetch(url, init);
+    } catch (err) {
+      if (isAbortError(err) || !canRetry || attempt >= retries) throw err;
+      await wait(RETRY_DELAY_MS * 2 ** attempt, init.signal);
+    }
+  }
+}
+
+async function send(
+  path: string,
+  init: RequestInit,
+  retries: number
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetchWithRetry(
+      `/api${path}`,
+      { ...init, headers: requestHeaders(init.headers) },
+      retries
+    );
+  } catch (err) {
+    if (isNetworkError(err)) connectionChanged(false);
+    throw err;
+  }
+  connectionChanged(true);
+
+  await throwIfFailed(response);
+  return response;
+}
+
+async function throwIfFailed(response: Response) {
+  if (!response.ok) {
+    const body: ApiErrorBody = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, body);
+  }
+}
+
+// Tell the listener about a failure, unless it was cancelled
+function reportError(err: unknown) {
+  if (isAbortError(err)) return;
+  requestListener?.onError(
+    isNetworkError(err)
+      ? new Error("Could not reach the server - check your connection")
+      : (err as Error)
+  );
+}
+
+export async function apiRequest<T>(
+  path: string,
+  options: ApiRequestOptions = {}
+): Promise<T> {
+  const response = await request(path, options);
+  // 204 No Content (DELETE, logout) has no body to parse
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+/**
+ * FILES
+ * Like apiRequest, for a response that's a file to save rather than JSON
+ * (the activity log export).
+ */
+export async function apiDownload(
+  path: string,
+  options: ApiRequestOptions = {}
+): Promise<Blob> {
+  const response = await request(path, options);
+  return response.blob();
+}
+
+async function request(
+  path: string,
+  options: ApiRequestOptions
+): Promise<Response> {
+  const {
+    quiet = false,
+    queueable = false,
+    retries = 2,
+    source,
+    ...init
+  } = options;
+  const headers = source
+    ? { "X-Change-Source": source, ...init.headers }
+    : init.headers;
+  requestListener?.onStart();
+  try {
+    return await send(path, { ...init, headers }, retries);
+  } catch (err) {
+    if (!quiet && !(queueable && isNetworkError(err))) reportError(err);
+    throw err;
+  } finally {
+    requestListener?.onEnd();
+  }
+}
+
+/**
+ * TYPED RESULTS FOR FORMS
+ * Like apiRequest, but a validation error comes back as a value instead of
+ * being thrown (and isn't toasted), so a form can show it by each field:
+ *
+ *   const result = await apiResult<Household>("/households", {...});
+ *   if (!result.ok) setErrors(result.fieldErrors);
+ *
+ * Every other error is still thrown.
+ */
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError; fieldErrors: Record<string, string> };
+
+export async function apiResult<T>(
+  path: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResult<T>> {
+  try {
+    const data = await apiRequest<T>(path, { ...options, quiet: true });
+    return { ok: true, data };
+  } catch (err) {
+    if (err instanceof ApiError && err.isValidationError) {
+      return { ok: false, error: err, fieldErrors: err.fieldErrors };
+    }
+    if (!options.quiet) reportError(err);
+    throw err;
+  }
+}
+
+/**
+ * STREAMS
+ * For a response that keeps coming (the live updates in
+ * services/eventService.ts): the same headers and errors as apiRequest,
+ * but the Response is handed back as soon as it starts, for the caller to
+ * read as it arrives. Never toasted or counted by the loading spinner - it
+ * doesn't "finish".
+ */
+export async function openStream(
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    headers: requestHeaders(init.headers),
+  });
+  await throwIfFailed(response);
+  return response;
+}
@@ -0,0 +1,446 @@
+/**
+ * ============================================================================
+ * INVENTORY SERVICE - Where Food Items Are Loaded From and Saved To
+ * ============================================================================
+ *
+ * The Redux thunks in store/inventorySlice.ts never touch storage directly;
+ * they call these functions instead. That keeps the slice the same no matter
+ * where the data actually lives.
+ *
+ * Items live in the backend (backend/src/routes/items.ts). The server works
+ * out whose items to return from the session token that apiRequest sends,
+ * so none of these functions need a user id.
+ *
+ * OFFLINE: adding, changing, using and deleting items also work with no
+ * connection. The change is queued on the device (services/offlineStore.ts)
+ * and the answer worked out here from the cached items; the server gets it
+ * once it can be reached (services/syncService.ts). Everything else -
+ * finishing, meals, batches - needs the server.
+ */
+
+import {
+  apiRequest,
+  getActiveHouseholdId,
+  isNetworkError,
+  isServerReachable,
+} from "./http";
+import type { ApiRequestOptions } from "./http";
+import {
+  cachedList,
+  enqueue,
+  hasPending,
+  readCachedList,
+  readSession,
+  saveCachedList,
+} from "./offlineStore";
+import type {
+  FoodItem,
+  FoodItemChanges,
+  ItemBatch,
+  ItemFinish,
+  LoggedMeal,
+  NewFoodItem,
+  NewItemBatch,
+  NewMeal,
+} from "../types/inventory";
+import type { InventoryLocation, ItemTransfer } from "../types/location";
+import type { NewPendingMutation } from "../types/sync";
+import type { ChangeSource } from "../types/activity";
+import { roundQuantity } from "../lib/units";
+
+/**
+ * OFFLINE
+ * Send the change - or, when the server can't be reached, queue it and
+ * answer from the cache. Once anything is queued for the household, new
+ * changes queue up behind it until the sync has sent it all, so they reach
+ * the server in the order they were made.
+ */
+async function orQueue<T>(
+  send: () => Promise<T>,
+  queue: (householdId: string) => Promise<T>
+): Promise<T> {
+  const householdId = getActiveHouseholdId();
+  if (!householdId) return send();
+  if (isServerReachable() && !(await hasPending(householdId))) {
+    try {
+      return await send();
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+  return queue(householdId);
+}
+
+const QUEUEABLE: ApiRequestOptions = { queueable: true };
+
+async function cachedItem(householdId: string, id: FoodItem["id"]) {
+  const items = await readCachedList<FoodItem>(householdId, "items");
+  const item = items?.find((i) => i.id === id);
+  if (!item) {
+    throw new Error("That item isn't saved on this device - try again online");
+  }
+  return item;
+}
+
+// Put `item` in the cached list (or take it out, with `remove`)
+async function saveCachedItem(item: FoodItem, remove = false) {
+  const items =
+    (await readCachedList<FoodItem>(item.householdId, "items")) ?? [];
+  const others = items.filter((i) => i.id !== item.id);
+  await saveCachedList(
+    item.householdId,
+    "items",
+    remove ? others : [...others, item]
+  );
+}
+
+async function locationKind(
+  householdId: string,
+  locationId: InventoryLocation["id"],
+  fallback: FoodItem["location"]
+) {
+  const locations = await readCachedList<InventoryLocation>(
+    householdId,
+    "locations"
+  );
+  return locations?.find((l) => l.id === locationId)?.kind ?? fallback;
+}
+
+async function queueChange(mutation: NewPendingMutation, item: FoodItem) {
+  await enqueue(mutation);
+  await saveCachedItem(item, mutation.kind === "delete");
+  return item;
+}
+
+// An item added offline, as the server would have made it
+const queueCreate = (item: FoodItem, source?: ChangeSource) =>
+  queueChange(
+    {
+      kind: "create",
+      householdId: item.householdId,
+      itemId: item.id,
+      itemName: item.name,
+      item,
+      source,
+    },
+    item
+  );
+
+// An item put back offline (undo), as it was
+const queueRestore = (item: FoodItem) =>
+  queueChange(
+    {
+      kind: "restore",
+      householdId: item.householdId,
+      itemId: item.id,
+      itemName: item.name,
+      item,
+    },
+    item
+  );
+
+export function listItems(): Promise<FoodItem[]> {
+  return cachedList("items", () => apiRequest("/items"));
+}
+
+export function createItem(
+  data: NewFoodItem,
+  source?: ChangeSource
+): Promise<FoodItem> {
+  return orQueue(
+    () =>
+      apiRequest("/items", {
+        ...QUEUEABLE,
+        source,
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+    async (householdId) => {
+      const session = await readSession();
+      const now = new Date().toISOString();
+      return queueCreate(
+        {
+          ...data,
+          id: crypto.randomUUID(),
+          householdId,
+          ownerId: session?.user.id ?? "",
+          location: await locationKind(householdId, data.locationId, "pantry"),
+          batches:
+            data.quantity > 0
+              ? [
+                  {
+                    id: crypto.randomUUID(),
+                    quantity: data.quantity,
+                    purchaseDate: data.purchaseDate,
+                    expiryDate: data.expiryDate,
+                  },
+                ]
+              : [],
+          createdAt: now,
+          updatedAt: now,
+        },
+        source
+      );
+    }
+  );
+}
+
+export function updateItem(
+  id: FoodItem["id"],
+  changes: FoodItemChanges
+): Promise<FoodItem> {
+  return orQueue(
+    () =>
+      apiRequest(`/items/${id}`, {
+        ...QUEUEABLE,
+        method: "PATCH",
+        body: JSON.stringify(changes),
+      }),
+    async (householdId) => {
+      const item = await cachedItem(householdId, id);
+      const before = Object.fromEntries(
+        Object.keys(changes).map((key) => [
+          key,
+          item[key as keyof FoodItemChanges],
+        ])
+      ) as FoodItemChanges;
+      return queueChange(
+        {
+          kind: "update",
+          householdId,
+          itemId: id,
+          itemName: item.name,
+          changes,
+          before,
+        },
+        {
+          ...item,
+          ...changes,
+          location: changes.locationId
+            ? await locationKind(householdId, changes.locationId, item.location)
+            : item.location,
+          updatedAt: new Date().toISOString(),
+        }
+      );
+    }
+  );
+}
+
+/**
+ * Use `amount` (in the item's unit), from the batch that expires first -
+ * or from `batchId` first when the user picked one.
+ */
+export function consumeItem(
+  id: FoodItem["id"],
+  amount: number,
+  batchId?: ItemBatch["id"]
+): Promise<FoodItem> {
+  return orQueue(
+    () =>
+      apiRequest(`/items/${id}/consume`, {
+        ...QUEUEABLE,
+        method: "POST",
+        body: JSON.stringify({ amount, batchId }),
+      }),
+    async (householdId) => {
+      const item = await cachedItem(householdId, id);
+      return queueChange(
+        {
+          kind: "consume",
+          householdId,
+          itemId: id,
+          itemName: item.name,
+          amount,
+          batchId,
+        },
+        takeFromBatches(item, amount, batchId)
+      );
+    }
+  );
+}
+
+// What the server does for "use some" (backend/src/lib/batches.ts), on the
+// cached item: the picked batch first, then the soonest-expiring
+function takeFromBatches(
+  item: FoodItem,
+  amount: number,
+  batchId?: ItemBatch["id"]
+): FoodItem {
+  let left = amount;
+  const batches: ItemBatch[] = [];
+  const ordered = [
+    ...item.batches.filter((b) => b.id === batchId),
+    ...item.batches.filter((b) => b.id !== batchId),
+  ];
+  for (const batch of ordered) {
+    const taken = Math.min(batch.quantity, left);
+    left -= taken;
+    const quantity = roundQuantity(batch.quantity - taken);
+    if (quantity > 0) batches.push({ ...batch, quantity });
+  }
+  batches.sort((a, b) =>
+    (a.expiryDate ?? "9999").localeCompare(b.expiryDate ?? "9999")
+  );
+  return {
+    ...item,
+    quantity: Math.max(0, roundQuantity(item.quantity - amount)),
+    expiryDate: batches[0]?.expiryDate ?? item.expiryDate,
+    batches,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * BATCHES
+ * Bought more of an item, or correcting one purchase. Each answers with
+ * the whole item, its quantity and expiry worked out again.
+ */
+export function addBatch(
+  id: FoodItem["id"],
+  batch: NewItemBatch,
+  source?: ChangeSource
+): Promise<FoodItem> {
+  return apiRequest(`/items/${id}/batches`, {
+    source,
+    method: "POST",
+    body: JSON.stringify(batch),
+  });
+}
+
+/**
+ * Undo "use some": each of `taken` (a batch, with the amount that came out
+ * of it as its quantity) gets that amount back - or comes back, if it was
+ * used up.
+ */
+export function restoreBatches(
+  id: FoodItem["id"],
+  taken: ItemBatch[]
+): Promise<FoodItem> {
+  return apiRequest(`/items/${id}/batches/restore`, {
+    method: "POST",
+    body: JSON.stringify({ batches: taken }),
+  });
+}
+
+export function updateBatch(
+  id: FoodItem["id"],
+  batchId: ItemBatch["id"],
+  changes: Partial<NewItemBatch>
+): Promise<FoodItem> {
+  return apiRequest(`/items/${id}/batches/${batchId}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
+}
+
+export function deleteBatch(
+  id: FoodItem["id"],
+  batchId: ItemBatch["id"]
+): Promise<FoodItem> {
+  return apiRequest(`/items/${id}/batches/${batchId}`, { method: "DELETE" });
+}
+
+/**
+ * The item is gone: log what happened to it (and why, if it was wasted),
+ * then delete it.
+ */
+export function finishItem(
+  id: FoodItem["id"],
+  finish: ItemFinish
+): Promise<void> {
+  return apiRequest(`/items/${id}/finish`, {
+    method: "POST",
+    body: JSON.stringify(finish),
+  });
+}
+
+/**
+ * Log a cooked meal, taking its ingredients out of the inventory.
+ */
+export function logMeal(meal: NewMeal): Promise<LoggedMeal> {
+  return apiRequest("/items/meals", {
+    method: "POST",
+    body: JSON.stringify(meal),
+  });
+}
+
+/**
+ * Put a deleted item back exactly as it was, same id (for undo).
+ */
+export function restoreItem(item: FoodItem): Promise<FoodItem> {
+  return orQueue(
+    () =>
+      apiRequest("/items/restore", { ...QUEUEABLE, ...restoreRequest(item) }),
+    () => queueRestore(item)
+  );
+}
+
+// What the user gave for `item` - without what the server fills in
+const itemFields = (item: FoodItem): NewFoodItem => ({
+  name: item.name,
+  category: item.category,
+  quantity: item.quantity,
+  unit: item.unit,
+  purchaseDate: item.purchaseDate,
+  expiryDate: item.expiryDate,
+  expiryType: item.expiryType,
+  locationId: item.locationId,
+  notes: item.notes,
+  tags: item.tags,
+  price: item.price,
+  purchaseQuantity: item.purchaseQuantity,
+  store: item.store,
+  parLevel: item.parLevel,
+});
+
+/**
+ * The request that puts `item` back (for undo, or sending one put back
+ * offline).
+ */
+export function restoreRequest(item: FoodItem): ApiRequestOptions {
+  return {
+    method: "POST",
+    body: JSON.stringify({
+      ...itemFields(item),
+      id: item.id,
+      ownerId: item.ownerId,
+      createdAt: item.createdAt,
+      batches: item.batches,
+    }),
+  };
+}
+
+/**
+ * The request that adds an item made offline - keeping the id it got
+ * there, and where it was added from (quick add, a receipt...).
+ */
+export function createRequest(
+  item: FoodItem,
+  source?: ChangeSource
+): ApiRequestOptions {
+  return {
+    source,
+    method: "POST",
+    body: JSON.stringify({ ...itemFields(item), id: item.id }),
+  };
+}
+
+export function deleteItem(id: FoodItem["id"]): Promise<void> {
+  return orQueue(
+    () => apiRequest(`/items/${id}`, { ...QUEUEABLE, method: "DELETE" }),
+    async (householdId) => {
+      const item = await cachedItem(householdId, id);
+      await queueChange(
+        { kind: "delete", householdId, itemId: id, itemName: item.name },
+        item
+      );
+    }
+  );
+}
+
+export function listTransfers(
+  id: FoodItem["id"],
+  signal?: AbortSignal
+): Promise<ItemTransfer[]> {
+  return apiRequest(`/items/${id}/transfers`, { signal });
+}
@@ -0,0 +1,39 @@
+/**
+ * LOCATION SERVICE
+ * Wrappers around /api/locations, for the household in the X-Household-Id
+ * header that apiRequest sends.
+ */
+
+import { apiRequest } from "./http";
+import { cachedList } from "./offlineStore";
+import type {
+  InventoryLocation,
+  NewInventoryLocation,
+} from "../types/location";
+
+export function listLocations(): Promise<InventoryLocation[]> {
+  return cachedList("locations", () => apiRequest("/locations"));
+}
+
+export function createLocation(
+  data: NewInventoryLocation
+): Promise<InventoryLocation> {
+  return apiRequest("/locations", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export function renameLocation(
+  id: InventoryLocation["id"],
+  name: string
+): Promise<InventoryLocation> {
+  return apiRequest(`/locations/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify({ name }),
+  });
+}
+
+export function deleteLocation(id: InventoryLocation["id"]): Promise<void> {
+  return apiRequest(`/locations/${id}`, { method: "DELETE" });
+}
@@ -0,0 +1,213 @@
+/**
+ * ============================================================================
+ * OFFLINE STORE - What the App Keeps on the Device (IndexedDB)
+ * ============================================================================
+ *
+ * People update the fridge list in the kitchen or in the supermarket
+ * basement, often with no signal. So the "wasteless" IndexedDB database
+ * keeps:
+ *
+ *   session    the logged-in user (with the token), their households and
+ *              the active one - so the app can start with no connection
+ *   cache      the last lists loaded for each household: its items,
+ *              locations and shelf-life rules
+ *   mutations  inventory changes made offline, oldest first, waiting to be
+ *              sent (services/syncService.ts replays them)
+ *
+ * Logging out empties all three. When the session just expires, the
+ * unsent changes are kept until the same user logs in again.
+ *
+ * Without IndexedDB (some private browsing modes) reads find nothing and
+ * the app works online only - except queueing, which fails loudly rather
+ * than losing a change.
+ */
+
+import type { Household } from "../types/household";
+import type { NewPendingMutation, PendingMutation } from "../types/sync";
+import type { User } from "../types/user";
+import { getActiveHouseholdId, isNetworkError } from "./http";
+
+const DB_NAME = "wasteless";
+const DB_VERSION = 1;
+
+type StoreName = "session" | "cache" | "mutations";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("session");
+      db.createObjectStore("cache");
+      db.createObjectStore("mutations", { keyPath: "id", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+// One request in a transaction of its own
+async function run<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(
+      db.transaction(storeName, mode).objectStore(storeName)
+    );
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Writes that only make things faster next time: failing is fine
+const bestEffort = (write: Promise<unknown>) =>
+  write.catch((err) => console.warn("Could not save offline data:", err));
+
+/**
+ * SESSION
+ */
+export interface SavedSession {
+  user: User; // Including the token
+  households: Household[];
+  activeHouseholdId: Household["id"] | null;
+}
+
+export const readSession = () =>
+  run<SavedSession | undefined>("session", "readonly", (store) =>
+    store.get("current")
+  ).catch(() => undefined);
+
+export const saveSession = (session: SavedSession) =>
+  bestEffort(
+    run("session", "readwrite", (store) => store.put(session, "current"))
+  );
+
+/**
+ * Forget everything (logging out): the next person on this device starts
+ * from nothing. Without `dropPending` the unsent changes stay, for when
+ * their user logs in again.
+ */
+export function clearOfflineData(dropPending: boolean) {
+  const stores: StoreName[] = dropPending
+    ? ["session", "cache", "mutations"]
+    : ["session", "cache"];
+  return bestEffort(
+    Promise.all(
+      stores.map((name) => run(name, "readwrite", (store) => store.clear()))
+    ).then(notifyQueue)
+  );
+}
+
+/**
+ * CACHE
+ */
+type CachedListName = "items" | "locations" | "shelfLifeRules";
+
+const cacheKey = (householdId: Household["id"], name: CachedListName) =>
+  `${householdId}:${name}`;
+
+export const readCachedList = <T>(
+  householdId: Household["id"],
+  name: CachedListName
+) =>
+  run<T[] | undefined>("cache", "readonly", (store) =>
+    store.get(cacheKey(householdId, name))
+  ).catch(() => undefined);
+
+export const saveCachedList = <T>(
+  householdId: Household["id"],
+  name: CachedListName,
+  list: T[]
+) =>
+  bestEffort(
+    run("cache", "readwrite", (store) =>
+      store.put(list, cacheKey(householdId, name))
+    )
+  );
+
+/**
+ * Load one of the active household's lists from the server and keep a
+ * copy - or, with no connection, answer with the copy kept last time.
+ */
+export async function cachedList<T>(
+  name: CachedListName,
+  load: () => Promise<T[]>
+): Promise<T[]> {
+  const householdId = getActiveHouseholdId();
+  try {
+    const list = await load();
+    if (householdId) await saveCachedList(householdId, name, list);
+    return list;
+  } catch (err) {
+    const cached =
+      isNetworkError(err) && householdId
+        ? await readCachedList<T>(householdId, name)
+        : undefined;
+    if (!cached) throw err;
+    return cached;
+  }
+}
+
+/**
+ * MUTATION QUEUE
+ * The count of waiting changes is pushed to a listener (OfflineSync puts
+ * it in Redux for the Navbar).
+ */
+let queueListener: ((pending: number) => void) | null = null;
+
+export function setQueueListener(listener: ((pending: number) => void) | null) {
+  queueListener = listener;
+  void notifyQueue();
+}
+
+async function notifyQueue() {
+  queueListener?.((await listPending()).length);
+}
+
+export const listPending = () =>
+  run<PendingMutation[]>("mutations", "readonly", (store) =>
+    store.getAll()
+  ).catch(() => [] as PendingMutation[]);
+
+/**
+ * Anything still waiting for this household? Then new changes queue up
+ * behind it, so the server gets them in the order they were made.
+ */
+export const hasPending = async (householdId: Household["id"]) =>
+  (await listPending()).some((m) => m.householdId === householdId);
+
+export async function enqueue(mutation: NewPendingMutation) {
+  const session = await readSession();
+  await run("mutations", "readwrite", (store) =>
+    store.add({
+      ...mutation,
+      userId: session?.user.id ?? "",
+      queuedAt: new Date().toISOString(),
+    })
+  );
+  await notifyQueue();
+}
+
+export async function removePending(id: PendingMutation["id"]) {
+  await run("mutations", "readwrite", (store) => store.delete(id));
+  await notifyQueue();
+}
+
+/**
+ * Someone logged in: drop the changes left behind by anyone else, whose
+ * session expired before they could be sent.
+ */
+export async function dropOthersPending(userId: User["id"]) {
+  for (const mutation of await listPending()) {
+    if (mutation.userId !== userId) {
+      await run("mutations", "readwrite", (store) => store.delete(mutation.id));
+    }
+  }
+  await notifyQueue();
+}
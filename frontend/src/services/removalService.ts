@@ -0,0 +1,19 @@
+/**
+ * REMOVAL SERVICE
+ * Reads the waste log from /api/removals, for the household in the
+ * X-Household-Id header that apiRequest sends.
+ */
+
+import { apiRequest } from "./http";
+import type { ItemRemoval } from "../types/removal";
+
+/**
+ * The log, newest first. `since` ("YYYY-MM-DD") leaves out older entries.
+ */
+export function listRemovals(
+  since?: string,
+  signal?: AbortSignal
+): Promise<ItemRemoval[]> {
+  const query = since ? `?since=${since}` : "";
+  return apiRequest(`/removals${query}`, { signal });
+}
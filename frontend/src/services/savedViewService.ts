@@ -0,0 +1,23 @@
+/**
+ * SAVED VIEW SERVICE
+ * Wrappers around /api/saved-views, for the logged-in user in the
+ * household in the X-Household-Id header that apiRequest sends.
+ */
+
+import { apiRequest } from "./http";
+import type { NewSavedView, SavedView } from "../types/savedView";
+
+export function listSavedViews(signal?: AbortSignal): Promise<SavedView[]> {
+  return apiRequest("/saved-views", { signal });
+}
+
+export function createSavedView(data: NewSavedView): Promise<SavedView> {
+  return apiRequest("/saved-views", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export function deleteSavedView(id: SavedView["id"]): Promise<void> {
+  return apiRequest(`/saved-views/${id}`, { method: "DELETE" });
+}
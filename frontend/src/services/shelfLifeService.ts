@@ -0,0 +1,34 @@
+/**
+ * SHELF-LIFE SERVICE
+ * Wrappers around /api/shelf-life-rules. Like the items, the rules belong
+ * to the household in the X-Household-Id header that apiRequest sends.
+ */
+
+import { apiRequest } from "./http";
+import { cachedList } from "./offlineStore";
+import type { NewShelfLifeRule, ShelfLifeRule } from "../types/shelfLife";
+
+export function listRules(): Promise<ShelfLifeRule[]> {
+  return cachedList("shelfLifeRules", () => apiRequest("/shelf-life-rules"));
+}
+
+export function createRule(data: NewShelfLifeRule): Promise<ShelfLifeRule> {
+  return apiRequest("/shelf-life-rules", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export function updateRule(
+  id: ShelfLifeRule["id"],
+  days: number
+): Promise<ShelfLifeRule> {
+  return apiRequest(`/shelf-life-rules/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify({ days }),
+  });
+}
+
+export function deleteRule(id: ShelfLifeRule["id"]): Promise<void> {
+  return apiRequest(`/shelf-life-rules/${id}`, { method: "DELETE" });
+}
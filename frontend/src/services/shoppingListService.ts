@@ -0,0 +1,52 @@
+/**
+ * SHOPPING LIST SERVICE
+ * Wrappers around /api/shopping-list, for the household in the
+ * X-Household-Id header that apiRequest sends.
+ */
+
+import { apiRequest } from "./http";
+import type { FoodItem } from "../types/inventory";
+import type {
+  CheckIn,
+  NewShoppingListEntry,
+  ShoppingListEntry,
+  ShoppingListEntryChanges,
+} from "../types/shoppingList";
+
+export function listEntries(): Promise<ShoppingListEntry[]> {
+  return apiRequest("/shopping-list");
+}
+
+export function createEntry(
+  data: NewShoppingListEntry
+): Promise<ShoppingListEntry> {
+  return apiRequest("/shopping-list", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export function updateEntry(
+  id: ShoppingListEntry["id"],
+  changes: ShoppingListEntryChanges
+): Promise<ShoppingListEntry> {
+  return apiRequest(`/shopping-list/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
+}
+
+export function deleteEntry(id: ShoppingListEntry["id"]): Promise<void> {
+  return apiRequest(`/shopping-list/${id}`, { method: "DELETE" });
+}
+
+/**
+ * Log the bought entries as inventory and take them off the list. Returns
+ * the items created (or refilled).
+ */
+export function checkIn(entries: CheckIn[]): Promise<FoodItem[]> {
+  return apiRequest("/shopping-list/check-in", {
+    method: "POST",
+    body: JSON.stringify({ entries }),
+  });
+}
@@ -0,0 +1,213 @@
+/**
+ * ============================================================================
+ * SYNC SERVICE - Sending Changes Made Offline
+ * ============================================================================
+ *
+ * Replays the queued changes (services/offlineStore.ts) oldest first, each
+ * to the household it was made in. A change that can't be sent because
+ * the connection dropped again stays queued, with everything after it -
+ * and so does everything when the session has expired, until the user
+ * logs in again.
+ *
+ * CONFLICTS: someone else in the household may have changed the same item
+ * while we were offline. The rule is field by field - the change that got
+ * to the server first wins:
+ * - a queued change to a field is applied only if the field still has the
+ *   value it had when we changed it; otherwise theirs is kept
+ * - quantities add up instead: if we used 1 and they used 2, 3 are gone
+ * - an item someone else deleted stays deleted; changes to it are dropped
+ * Every change that didn't go through as made comes back as a SyncConflict
+ * for the user to see.
+ */
+
+import { ApiError, apiRequest, isNetworkError } from "./http";
+import type { ApiRequestOptions } from "./http";
+import { createRequest, restoreRequest } from "./inventoryService";
+import { listPending, removePending } from "./offlineStore";
+import type { FoodItem, FoodItemChanges } from "../types/inventory";
+import type { PendingMutation, SyncConflict } from "../types/sync";
+import { formatQuantity, roundQuantity } from "../lib/units";
+
+export interface SyncResult {
+  conflicts: SyncConflict[];
+  done: boolean; // false: the connection dropped, some are still queued
+  expired: boolean; // The server no longer takes the session's token
+}
+
+// Each change goes to the household it was made in, whichever is active now
+const sendOptions = (
+  mutation: PendingMutation,
+  options: ApiRequestOptions = {}
+): ApiRequestOptions => ({
+  ...options,
+  quiet: true,
+  headers: { "X-Household-Id": mutation.householdId },
+});
+
+// "expiryDate" -> "expiry date"
+const fieldLabel = (field: string) =>
+  field === "locationId"
+    ? "location"
+    : field.replace(/[A-Z]/g, (c) => ` ${c.toLowerCase()}`);
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const isNotFound = (err: unknown) =>
+  err instanceof ApiError && err.status === 404;
+
+// The item as it is on the server now, or null if someone deleted it
+async function currentItem(mutation: PendingMutation) {
+  try {
+    return await apiRequest<FoodItem>(
+      `/items/${mutation.itemId}`,
+      sendOptions(mutation)
+    );
+  } catch (err) {
+    if (isNotFound(err)) return null;
+    throw err;
+  }
+}
+
+const GONE = "Someone else removed it first - your change wasn't saved";
+
+/**
+ * Send one queued change, adding to `conflicts` whatever didn't go through
+ * as it was made.
+ */
+async function replay(mutation: PendingMutation, conflicts: SyncConflict[]) {
+  const conflict = (message: string) =>
+    conflicts.push({ itemName: mutation.itemName, message });
+
+  switch (mutation.kind) {
+    case "create":
+    case "restore":
+      try {
+        await apiRequest(
+          mutation.kind === "create" ? "/items" : "/items/restore",
+          sendOptions(
+            mutation,
+            mutation.kind === "create"
+              ? createRequest(mutation.item, mutation.source)
+              : restoreRequest(mutation.item)
+          )
+        );
+      } catch (err) {
+        // Already sent last time, before the connection dropped
+        if (!(err instanceof ApiError && err.status === 409)) throw err;
+      }
+      return;
+
+    case "update": {
+      const server = await currentItem(mutation);
+      if (!server) return conflict(GONE);
+
+      const changes: FoodItemChanges = {};
+      const theirs: string[] = [];
+      for (const field of Object.keys(
+        mutation.changes
+      ) as (keyof FoodItemChanges)[]) {
+        const ours = mutation.changes[field];
+        if (field === "quantity" && typeof ours === "number") {
+          const was = mutation.before.quantity ?? server.quantity;
+          changes.quantity = Math.max(
+            0,
+            roundQuantity(server.quantity + ours - was)
+          );
+          if (server.quantity !== was) {
+            conflict(
+              `Someone else changed the quantity too - both changes counted (${formatQuantity(changes.quantity, server.unit)})`
+            );
+          }
+        } else if (sameValue(server[field], mutation.before[field])) {
+          Object.assign(changes, { [field]: ours });
+        } else if (!sameValue(server[field], ours)) {
+          theirs.push(fieldLabel(field));
+        }
+      }
+      if (theirs.length > 0) {
+        conflict(
+          `Someone else changed its ${theirs.join(", ")} first - kept theirs`
+        );
+      }
+      if (Object.keys(changes).length > 0) {
+        await apiRequest(
+          `/items/${mutation.itemId}`,
+          sendOptions(mutation, {
+            method: "PATCH",
+            body: JSON.stringify(changes),
+          })
+        );
+      }
+      return;
+    }
+
+    case "consume": {
+      const server = await currentItem(mutation);
+      if (!server) return conflict(GONE);
+      if (server.quantity === 0) {
+        return conflict("Someone else used it up first");
+      }
+      const batchId = server.batches.some((b) => b.id === mutation.batchId)
+        ? mutation.batchId
+        : undefined;
+      await apiRequest(
+        `/items/${mutation.itemId}/consume`,
+        sendOptions(mutation, {
+          method: "POST",
+          body: JSON.stringify({ amount: mutation.amount, batchId }),
+        })
+      );
+      return;
+    }
+
+    case "delete":
+      try {
+        await apiRequest(
+          `/items/${mutation.itemId}`,
+          sendOptions(mutation, { method: "DELETE" })
+        );
+      } catch (err) {
+        if (!isNotFound(err)) throw err; // Already gone: fine
+      }
+      return;
+  }
+}
+
+/**
+ * Send everything queued, oldest first. A change the server turns down
+ * (the location was deleted, it was no longer allowed...) is dropped and
+ * reported; the connection dropping again or the session expiring stops
+ * it, keeping the rest.
+ */
+export async function replayPending(): Promise<SyncResult> {
+  const conflicts: SyncConflict[] = [];
+  for (const mutation of await listPending()) {
+    try {
+      await replay(mutation, conflicts);
+    } catch (err) {
+      if (isNetworkError(err)) {
+        return { conflicts, done: false, expired: false };
+      }
+      if (!(err instanceof ApiError)) throw err;
+      if (err.status === 401) return { conflicts, done: false, expired: true };
+      conflicts.push({
+        itemName: mutation.itemName,
+        message: `Not saved: ${err.message}`,
+      });
+    }
+    await removePending(mutation.id);
+  }
+  return { conflicts, done: true, expired: false };
+}
+
+/**
+ * Is the server back? A cheap request, for checking now and then while
+ * offline with nothing queued (the answer reaches OfflineSync through the
+ * connection listener).
+ */
+export function checkConnection(): Promise<void> {
+  return apiRequest<void>("/health", { quiet: true, retries: 0 }).catch(
+    () => undefined
+  );
+}
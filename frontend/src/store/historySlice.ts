@@ -0,0 +1,128 @@
+/**
+ * ============================================================================
+ * HISTORY SLICE - Undo / Redo for Inventory Changes
+ * ============================================================================
+ *
+ * Every change made through the inventory thunks (create, edit, delete,
+ * quantity, move, bulk) is recorded here as a COMMAND: enough data to do
+ * it again and to reverse it. The thunks that actually undo and redo live
+ * in inventorySlice.ts, because they change items; this slice only keeps
+ * the two stacks:
+ *
+ *   past:   [add Milk, move Chicken, delete Eggs]   ← Ctrl+Z pops from here
+ *   future: [edit Bread]                            ← Ctrl+Shift+Z pops here
+ *
+ * Undoing sends the reverse change to the SERVER (delete → restore with the
+ * same id, edit → patch the old values back, use some → give each batch
+ * back what was taken from it), so other household members see it too.
+ *
+ * The history is per session: it lives only in memory, and is cleared on
+ * logout and when switching households.
+ */
+
+import { createSlice, nanoid } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "./index";
+import type { FoodItem, FoodItemChanges, ItemBatch } from "../types/inventory";
+
+/**
+ * One undoable change. Items are stored whole (create/delete) or as the
+ * changed fields before and after (update), so either direction can be
+ * replayed without asking the server what things used to be.
+ */
+export type InventoryCommand = { id: string; label: string } & (
+  | { kind: "create"; item: FoodItem }
+  | { kind: "delete"; item: FoodItem }
+  | {
+      kind: "update";
+      itemId: FoodItem["id"];
+      before: FoodItemChanges;
+      after: FoodItemChanges;
+    }
+  | {
+      kind: "consume";
+      itemId: FoodItem["id"];
+      amount: number; // In the item's unit
+      batchId?: ItemBatch["id"]; // The batch the user picked, if any
+      taken: ItemBatch[]; // Each batch as it was, `quantity` = what came out
+    }
+  | { kind: "bulk"; commands: InventoryCommand[] } // Undone all at once
+);
+
+// Distributes Omit over the union, so each kind keeps its own fields
+type WithoutId<T> = T extends unknown ? Omit<T, "id"> : never;
+export type NewInventoryCommand = WithoutId<InventoryCommand>;
+
+// Give a command its id (bulk commands' steps need one too)
+export const newCommand = (command: NewInventoryCommand) =>
+  ({ ...command, id: nanoid() }) as InventoryCommand;
+
+// Older commands fall off the bottom
+const MAX_HISTORY = 50;
+
+interface HistoryState {
+  past: InventoryCommand[]; // Oldest first
+  future: InventoryCommand[]; // Next to redo LAST
+  applying: boolean; // An undo/redo is on its way to the server
+}
+
+const initialState: HistoryState = {
+  past: [],
+  future: [],
+  applying: false,
+};
+
+const historySlice = createSlice({
+  name: "history",
+  initialState,
+  reducers: {
+    // A new change: it can be undone, and anything undone before it can
+    // no longer be redone
+    commandRecorded: {
+      reducer: (state, action: PayloadAction<InventoryCommand>) => {
+        state.past.push(action.payload);
+        state.past.splice(0, state.past.length - MAX_HISTORY);
+        state.future = [];
+      },
+      prepare: (command: NewInventoryCommand) => ({
+        payload: newCommand(command),
+      }),
+    },
+    applyingChanged: (state, action: PayloadAction<boolean>) => {
+      state.applying = action.payload;
+    },
+    undone: (state) => {
+      const command = state.past.pop();
+      if (command) state.future.push(command);
+    },
+    redone: (state) => {
+      const command = state.future.pop();
+      if (command) state.past.push(command);
+    },
+    // The server refused to apply it (e.g. someone else deleted the item
+    // meanwhile) - drop it so the rest of the history still works
+    commandDropped: (state, action: PayloadAction<InventoryCommand["id"]>) => {
+      state.past = state.past.filter((c) => c.id !== action.payload);
+      state.future = state.future.filter((c) => c.id !== action.payload);
+    },
+    // Called on logout and when switching households
+    clearHistory: () => initialState,
+  },
+});
+
+export const {
+  commandRecorded,
+  applyingChanged,
+  undone,
+  redone,
+  commandDropped,
+  clearHistory,
+} = historySlice.actions;
+export default historySlice.reducer;
+
+export const selectLastCommand = (state: RootState) =>
+  state.history.past.at(-1) ?? null;
+export const selectNextRedo = (state: RootState) =>
+  state.history.future.at(-1) ?? null;
+export const selectHistoryApplying = (state: RootState) =>
+  state.history.applying;
@@ -0,0 +1,19 @@
+/**
+ * TYPED REDUX HOOKS
+ *
+ * Use these instead of plain useDispatch/useSelector so TypeScript knows
+ * the shape of the state and that thunks can be dispatched:
+ *
+ *   const dispatch = useAppDispatch();
+ *   const items = useAppSelector(selectAllItems);
+ *
+ * useAppStore is for reading state once inside an event handler (without
+ * re-rendering when it changes): useAppStore().getState().
+ */
+
+import { useDispatch, useSelector, useStore } from "react-redux";
+import type { AppDispatch, AppStore, RootState } from "./index";
+
+export const useAppDispatch = useDispatch.withTypes<AppDispatch>();
+export const useAppSelector = useSelector.withTypes<RootState>();
+export const useAppStore = useStore.withTypes<AppStore>();
@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * REDUX STORE - Combines Every Slice Into One Store
+ * ============================================================================
+ *
+ * The store is provided to the whole app in App.tsx with <Provider>.
+ * Add new slices to the `reducer` object below.
+ *
+ * RootState and AppDispatch are INFERRED from the store itself, so they
+ * stay correct automatically as slices are added.
+ */
+
+import { configureStore } from "@reduxjs/toolkit";
+import inventoryReducer from "./inventorySlice";
+import locationsReducer from "./locationsSlice";
+import shelfLifeReducer from "./shelfLifeSlice";
+import historyReducer from "./historySlice";
+import shoppingListReducer from "./shoppingListSlice";
+import syncReducer from "./syncSlice";
+import presenceReducer from "./presenceSlice";
+
+export const store = configureStore({
+  reducer: {
+    inventory: inventoryReducer,
+    locations: locationsReducer,
+    shelfLife: shelfLifeReducer,
+    history: historyReducer,
+    shoppingList: shoppingListReducer,
+    sync: syncReducer,
+    presence: presenceReducer,
+  },
+});
+
+export type AppStore = typeof store;
+export type RootState = ReturnType<typeof store.getState>;
+export type AppDispatch = typeof store.dispatch;
@@ -0,0 +1,723 @@
+/**
+ * ============================================================================
+ * INVENTORY SLICE - The Single Source of Truth for Food Items
+ * ============================================================================
+ *
+ * WHAT IS THIS FILE?
+ * A Redux Toolkit "slice": the inventory state, the reducers that change it,
+ * the async thunks that load/save it, and the selectors that read it.
+ *
+ * WHY REDUX AND NOT ANOTHER CONTEXT?
+ * AuthContext and UIContext hold small, app-wide values. The inventory is
+ * the app's main data: many screens read it, filter it and change it.
+ * Redux gives us one store, memoized selectors and devtools for that.
+ *
+ * NORMALIZED STATE
+ * Items are stored with createEntityAdapter, which keeps them as:
+ *   { ids: ["a", "b"], entities: { a: {...}, b: {...} } }
+ * Looking up or updating one item is then O(1) instead of searching an array.
+ *
+ * THE FLOW:
+ *   Component → dispatch(addItem(...))
+ *        ↓
+ *   Thunk calls services/inventoryService (async)
+ *        ↓
+ *   Reducer stores the result (extraReducers below)
+ *        ↓
+ *   Components using selectors re-render
+ *
+ * UNDO / REDO
+ * Every thunk that changes an item also records a command in the history
+ * slice (historySlice.ts), and undo/redo below replay those commands
+ * against the server. Finishing an item (eaten/wasted) is NOT undoable:
+ * it's already counted in the household's waste log.
+ */
+
+import {
+  createAsyncThunk,
+  createEntityAdapter,
+  createSelector,
+  createSlice,
+} from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "./index";
+import type {
+  FoodCategory,
+  FoodItem,
+  FoodItemChanges,
+  FoodUnit,
+  ItemBatch,
+  ItemFinish,
+  NewFoodItem,
+  NewItemBatch,
+  NewMeal,
+} from "../types/inventory";
+import { isSameItem } from "../types/inventory";
+import type { Household } from "../types/household";
+import type { UserSettings } from "../types/user";
+import type { InventoryLocation } from "../types/location";
+import type { ChangeSource } from "../types/activity";
+import { getExpiryStatus, needsAttention } from "../lib/expiry";
+import { suggestExpiry } from "../lib/shelfLife";
+import { convertQuantity, roundQuantity } from "../lib/units";
+import * as inventoryService from "../services/inventoryService";
+import { ApiError } from "../services/http";
+import { selectShelfLifeRules } from "./shelfLifeSlice";
+import {
+  applyingChanged,
+  commandDropped,
+  commandRecorded,
+  newCommand,
+  redone,
+  selectHistoryApplying,
+  selectLastCommand,
+  selectNextRedo,
+  undone,
+} from "./historySlice";
+import type { InventoryCommand, NewInventoryCommand } from "./historySlice";
+import { checkInEntries } from "./shoppingListSlice";
+
+/**
+ * ENTITY ADAPTER
+ * Keeps ids sorted alphabetically by name (README: "Alphabetical sorting
+ * for all items"), so selectAllItems already returns them in order.
+ */
+const itemsAdapter = createEntityAdapter<FoodItem>({
+  sortComparer: (a, b) => a.name.localeCompare(b.name),
+});
+
+/**
+ * SLICE STATE
+ * The normalized items plus the status of the last load.
+ */
+interface InventoryState {
+  householdId: Household["id"] | null; // Whose items are loaded (or loading)
+  status: "idle" | "loading" | "succeeded" | "failed";
+  error: string | null;
+}
+
+const initialState = itemsAdapter.getInitialState<InventoryState>({
+  householdId: null,
+  status: "idle",
+  error: null,
+});
+
+/**
+ * ASYNC THUNKS
+ * Each one calls the service and returns what the reducer should store.
+ * createAsyncThunk dispatches pending/fulfilled/rejected actions for us.
+ */
+type ThunkConfig = { state: RootState };
+
+// An item's values for `keys` - what an update changed them from or to
+const pickFields = (item: FoodItem, keys: (keyof FoodItemChanges)[]) =>
+  Object.fromEntries(keys.map((key) => [key, item[key]])) as FoodItemChanges;
+
+const updateCommand = (
+  label: string,
+  before: FoodItem,
+  after: FoodItem,
+  keys: (keyof FoodItemChanges)[]
+): NewInventoryCommand => ({
+  kind: "update",
+  label,
+  itemId: before.id,
+  before: pickFields(before, keys),
+  after: pickFields(after, keys),
+});
+
+// What "use some" took out of each batch: the batches as they were, each
+// with the amount taken as its quantity
+const takenFrom = (before: FoodItem, after: FoodItem): ItemBatch[] =>
+  before.batches.flatMap((batch) => {
+    const left = after.batches.find((b) => b.id === batch.id)?.quantity ?? 0;
+    const taken = roundQuantity(batch.quantity - left);
+    return taken > 0 ? [{ ...batch, quantity: taken }] : [];
+  });
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+function findItem(state: RootState, id: FoodItem["id"]) {
+  const item = selectItemById(state, id);
+  if (!item) {
+    throw new Error(`Item ${id} not found`);
+  }
+  return item;
+}
+export const fetchItems = createAsyncThunk(
+  "inventory/fetchItems",
+  async (householdId: Household["id"]) => {
+    const items = await inventoryService.listItems();
+    return { householdId, items };
+  }
+);
+
+// `source`: where the item came from, for the activity log (default "ui")
+export const addItem = createAsyncThunk<
+  FoodItem,
+  NewFoodItem & { source?: ChangeSource },
+  ThunkConfig
+>("inventory/addItem", async ({ source, ...newItem }, { dispatch }) => {
+  const item = await inventoryService.createItem(newItem, source);
+  dispatch(
+    commandRecorded({ kind: "create", label: `Add ${item.name}`, item })
+  );
+  return item;
+});
+
+export const updateItem = createAsyncThunk<
+  FoodItem,
+  { id: FoodItem["id"]; changes: FoodItemChanges },
+  ThunkConfig
+>("inventory/updateItem", async ({ id, changes }, { getState, dispatch }) => {
+  const before = findItem(getState(), id);
+  const item = await inventoryService.updateItem(id, changes);
+  dispatch(
+    commandRecorded(
+      updateCommand(
+        `Edit ${before.name}`,
+        before,
+        item,
+        Object.keys(changes) as (keyof FoodItemChanges)[]
+      )
+    )
+  );
+  return item;
+});
+
+export const deleteItem = createAsyncThunk<
+  FoodItem["id"],
+  FoodItem["id"],
+  ThunkConfig
+>("inventory/deleteItem", async (id, { getState, dispatch }) => {
+  const item = findItem(getState(), id);
+  await inventoryService.deleteItem(id);
+  dispatch(
+    commandRecorded({ kind: "delete", label: `Delete ${item.name}`, item })
+  );
+  return id;
+});
+
+/**
+ * ADJUST QUANTITY
+ * The "+" / "-" buttons. Reads the current quantity from the store so
+ * callers only pass the change (delta, in the item's unit - see UNIT_STEP
+ * in lib/units.ts), and never goes below zero.
+ */
+export const adjustQuantity = createAsyncThunk<
+  FoodItem,
+  { id: FoodItem["id"]; delta: number },
+  ThunkConfig
+>("inventory/adjustQuantity", async ({ id, delta }, { getState, dispatch }) => {
+  const item = findItem(getState(), id);
+  const quantity = Math.max(0, roundQuantity(item.quantity + delta));
+  const updated = await inventoryService.updateItem(id, { quantity });
+  dispatch(
+    commandRecorded(
+      updateCommand(`Change ${item.name} quantity`, item, updated, ["quantity"])
+    )
+  );
+  return updated;
+});
+
+/**
+ * CONSUME PART
+ * "Use 250 g" of a 1 kg bag: the amount is converted into the item's unit
+ * first, so the bag is left with 0.75 kg. Never goes below zero. It comes
+ * out of the batch that expires first unless `batchId` picks another;
+ * undoing it puts back what came out of each batch.
+ */
+export const consumeItem = createAsyncThunk<
+  FoodItem,
+  {
+    id: FoodItem["id"];
+    amount: number;
+    unit: FoodUnit;
+    batchId?: ItemBatch["id"];
+  },
+  ThunkConfig
+>(
+  "inventory/consumeItem",
+  async ({ id, amount, unit, batchId }, { getState, dispatch }) => {
+    const item = findItem(getState(), id);
+    const used = convertQuantity(amount, unit, item.unit);
+    if (used === null) {
+      throw new Error(
+        `Can't use ${unit} of something measured in ${item.unit}`
+      );
+    }
+    const updated = await inventoryService.consumeItem(id, used, batchId);
+    const label = `Use ${amount} ${unit} of ${item.name}`;
+    const taken = takenFrom(item, updated);
+    dispatch(
+      commandRecorded(
+        // An item from before batches has none to put it back into
+        taken.length > 0
+          ? { kind: "consume", label, itemId: id, amount: used, batchId, taken }
+          : updateCommand(label, item, updated, ["quantity"])
+      )
+    );
+    return updated;
+  }
+);
+
+/**
+ * BATCHES
+ * "Bought more" adds a batch to an item; a batch can also be corrected or
+ * removed on its own. Undoing these would have to know which batch to put
+ * back, so - like finishing - they aren't recorded in the history.
+ */
+export const addBatch = createAsyncThunk(
+  "inventory/addBatch",
+  async ({
+    id,
+    batch,
+    source,
+  }: {
+    id: FoodItem["id"];
+    batch: NewItemBatch;
+    source?: ChangeSource;
+  }) => inventoryService.addBatch(id, batch, source)
+);
+
+export const updateBatch = createAsyncThunk(
+  "inventory/updateBatch",
+  async ({
+    id,
+    batchId,
+    changes,
+  }: {
+    id: FoodItem["id"];
+    batchId: ItemBatch["id"];
+    changes: Partial<NewItemBatch>;
+  }) => inventoryService.updateBatch(id, batchId, changes)
+);
+
+export const removeBatch = createAsyncThunk(
+  "inventory/removeBatch",
+  async ({ id, batchId }: { id: FoodItem["id"]; batchId: ItemBatch["id"] }) =>
+    inventoryService.deleteBatch(id, batchId)
+);
+
+/**
+ * FINISH ITEM
+ * Asked when an item reaches zero (or is removed before that): was it
+ * eaten, wasted, donated or composted - and if wasted, why? The server
+ * logs the answer in the waste log and removes the item.
+ */
+export const finishItem = createAsyncThunk(
+  "inventory/finishItem",
+  async ({ id, ...finish }: { id: FoodItem["id"] } & ItemFinish) => {
+    await inventoryService.finishItem(id, finish);
+    return id;
+  }
+);
+
+/**
+ * LOG MEAL
+ * A cooked meal takes its ingredients out of the inventory and becomes an
+ * item of its own, counted in portions. Ingredients that are used up go
+ * (the server logs them as eaten). Like finishing an item, it can't be
+ * undone.
+ */
+export const logMeal = createAsyncThunk(
+  "inventory/logMeal",
+  async (meal: NewMeal) => inventoryService.logMeal(meal)
+);
+
+/**
+ * MOVE ITEM
+ * The "Move to..." action. Where food is kept changes how long it lasts
+ * (chicken: days in the fridge, months in the freezer), so the expiry date
+ * is re-suggested for the new location, counting from today. The server
+ * records the move in the item's transfer history.
+ */
+// The fields a move changes (undoing it puts all of them back)
+const MOVE_FIELDS: (keyof FoodItemChanges)[] = [
+  "locationId",
+  "expiryDate",
+  "expiryType",
+];
+
+function moveChanges(
+  state: RootState,
+  item: FoodItem,
+  locationId: InventoryLocation["id"]
+): FoodItemChanges {
+  // (Read directly: locationsSlice imports this file's selectors)
+  const location = state.locations.entities[locationId];
+  if (!location) {
+    throw new Error("Location not found");
+  }
+  const suggestion = suggestExpiry(
+    { ...item, location: location.kind },
+    selectShelfLifeRules(state)
+  );
+  return {
+    locationId,
+    ...(suggestion && {
+      expiryDate: suggestion.expiryDate,
+      expiryType: suggestion.expiryType ?? item.expiryType,
+    }),
+  };
+}
+
+export const moveItem = createAsyncThunk<
+  FoodItem,
+  { id: FoodItem["id"]; locationId: InventoryLocation["id"] },
+  ThunkConfig
+>("inventory/moveItem", async ({ id, locationId }, { getState, dispatch }) => {
+  const state = getState();
+  const item = findItem(state, id);
+  const updated = await inventoryService.updateItem(
+    id,
+    moveChanges(state, item, locationId)
+  );
+  const locationName = state.locations.entities[locationId]?.name ?? "";
+  dispatch(
+    commandRecorded(
+      updateCommand(
+        `Move ${item.name} to ${locationName}`,
+        item,
+        updated,
+        MOVE_FIELDS
+      )
+    )
+  );
+  return updated;
+});
+
+/**
+ * BULK ACTIONS
+ * Delete or move several selected items. They're sent one by one (so each
+ * can be queued offline) and recorded as ONE command, so a single undo
+ * brings back all that were done. One failing doesn't stop the rest: the
+ * answer says which went through and which didn't, and why.
+ */
+export interface BulkResult {
+  done: FoodItem["id"][];
+  failed: { item: FoodItem; message: string }[];
+}
+
+const failure = (item: FoodItem, err: unknown) => ({
+  item,
+  message: err instanceof Error ? err.message : "Something went wrong",
+});
+
+export const deleteItems = createAsyncThunk<
+  BulkResult,
+  FoodItem["id"][],
+  ThunkConfig
+>("inventory/deleteItems", async (ids, { getState, dispatch }) => {
+  const items = ids.map((id) => findItem(getState(), id));
+  const done: InventoryCommand[] = [];
+  const removed: FoodItem["id"][] = [];
+  const failed: BulkResult["failed"] = [];
+  for (const item of items) {
+    try {
+      await inventoryService.deleteItem(item.id);
+    } catch (err) {
+      failed.push(failure(item, err));
+      continue;
+    }
+    removed.push(item.id);
+    done.push(
+      newCommand({ kind: "delete", label: `Delete ${item.name}`, item })
+    );
+  }
+  dispatch(itemsChanged({ removed }));
+  if (done.length > 0) {
+    dispatch(
+      commandRecorded({
+        kind: "bulk",
+        label: `Delete ${plural(done.length, "item")}`,
+        commands: done,
+      })
+    );
+  }
+  return { done: removed, failed };
+});
+
+export const moveItems = createAsyncThunk<
+  BulkResult,
+  { ids: FoodItem["id"][]; locationId: InventoryLocation["id"] },
+  ThunkConfig
+>(
+  "inventory/moveItems",
+  async ({ ids, locationId }, { getState, dispatch }) => {
+    const state = getState();
+    const items = ids.map((id) => findItem(state, id));
+    const locationName = state.locations.entities[locationId]?.name ?? "";
+    const done: InventoryCommand[] = [];
+    const upserted: FoodItem[] = [];
+    const failed: BulkResult["failed"] = [];
+    for (const item of items) {
+      if (item.locationId === locationId) continue;
+      let updated: FoodItem;
+      try {
+        updated = await inventoryService.updateItem(
+          item.id,
+          moveChanges(state, item, locationId)
+        );
+      } catch (err) {
+        failed.push(failure(item, err));
+        continue;
+      }
+      upserted.push(updated);
+      done.push(
+        newCommand(
+          updateCommand(
+            `Move ${item.name} to ${locationName}`,
+            item,
+            updated,
+            MOVE_FIELDS
+          )
+        )
+      );
+    }
+    dispatch(itemsChanged({ upserted }));
+    if (done.length > 0) {
+      dispatch(
+        commandRecorded({
+          kind: "bulk",
+          label: `Move ${plural(done.length, "item")} to ${locationName}`,
+          commands: done,
+        })
+      );
+    }
+    return { done: upserted.map((item) => item.id), failed };
+  }
+);
+
+/**
+ * Replay a command in either direction against the server, collecting
+ * what changed so the store can be updated in one go - even if a bulk
+ * command fails half-way.
+ */
+interface ItemsChange {
+  upserted?: FoodItem[];
+  removed?: FoodItem["id"][];
+}
+
+async function replay(
+  command: InventoryCommand,
+  direction: "undo" | "redo",
+  change: Required<ItemsChange>
+): Promise<void> {
+  // Undoing a create is a delete and vice versa
+  const create =
+    command.kind === "create" ? direction === "redo" : direction === "undo";
+  switch (command.kind) {
+    case "create":
+    case "delete":
+      if (create) {
+        change.upserted.push(await inventoryService.restoreItem(command.item));
+      } else {
+        await inventoryService.deleteItem(command.item.id);
+        change.removed.push(command.item.id);
+      }
+      return;
+    case "update":
+      change.upserted.push(
+        await inventoryService.updateItem(
+          command.itemId,
+          direction === "undo" ? command.before : command.after
+        )
+      );
+      return;
+    case "consume":
+      change.upserted.push(
+        direction === "undo"
+          ? await inventoryService.restoreBatches(command.itemId, command.taken)
+          : await inventoryService.consumeItem(
+              command.itemId,
+              command.amount,
+              command.batchId
+            )
+      );
+      return;
+    case "bulk": {
+      // Undo in reverse order, redo in the original order
+      const steps =
+        direction === "undo"
+          ? [...command.commands].reverse()
+          : command.commands;
+      for (const step of steps) {
+        await replay(step, direction, change);
+      }
+    }
+  }
+}
+
+function createHistoryThunk(direction: "undo" | "redo") {
+  return createAsyncThunk<
+    InventoryCommand,
+    InventoryCommand["id"] | undefined,
+    ThunkConfig
+  >(
+    `inventory/${direction}`,
+    async (commandId, { getState, dispatch }) => {
+      const command =
+        direction === "undo"
+          ? selectLastCommand(getState())
+          : selectNextRedo(getState());
+      if (!command) {
+        throw new Error(`Nothing to ${direction}`);
+      }
+      // A toast's "Undo" button only undoes its own change
+      if (commandId && command.id !== commandId) {
+        throw new Error(
+          "Newer changes were made since - undo those first (Ctrl+Z)"
+        );
+      }
+
+      dispatch(applyingChanged(true));
+      const change: Required<ItemsChange> = { upserted: [], removed: [] };
+      try {
+        await replay(command, direction, change);
+        dispatch(direction === "undo" ? undone() : redone());
+        return command;
+      } catch (err) {
+        // The server said no (the item is gone, the location was deleted):
+        // this step can never be replayed, so forget it
+        if (err instanceof ApiError) {
+          dispatch(commandDropped(command.id));
+        }
+        throw err;
+      } finally {
+        dispatch(itemsChanged(change));
+        dispatch(applyingChanged(false));
+      }
+    },
+    // Ctrl+Z held down: one at a time
+    { condition: (_, { getState }) => !selectHistoryApplying(getState()) }
+  );
+}
+
+/**
+ * UNDO / REDO
+ * dispatch(undo()) undoes the latest change; dispatch(undo(commandId))
+ * only if that's still the latest (for a toast's "Undo" button).
+ */
+export const undo = createHistoryThunk("undo");
+export const redo = createHistoryThunk("redo");
+
+const inventorySlice = createSlice({
+  name: "inventory",
+  initialState,
+  reducers: {
+    // Called by AuthContext on logout
+    clearInventory: () => initialState,
+    // Several items changed at once (bulk actions, undo/redo), or by
+    // someone else in the household (components/HouseholdLive.tsx)
+    itemsChanged: (state, action: PayloadAction<ItemsChange>) => {
+      itemsAdapter.setMany(state, action.payload.upserted ?? []);
+      itemsAdapter.removeMany(state, action.payload.removed ?? []);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchItems.pending, (state, action) => {
+        state.status = "loading";
+        state.error = null;
+        // Switching households? Don't show the old household's food meanwhile
+        if (state.householdId !== action.meta.arg) {
+          itemsAdapter.removeAll(state);
+          state.householdId = action.meta.arg;
+        }
+      })
+      .addCase(fetchItems.fulfilled, (state, action) => {
+        // A slow response for a household we've since switched away from
+        if (action.payload.householdId !== state.householdId) return;
+        state.status = "succeeded";
+        itemsAdapter.setAll(state, action.payload.items);
+      })
+      .addCase(fetchItems.rejected, (state, action) => {
+        state.status = "failed";
+        state.error = action.error.message ?? "Failed to load items";
+      })
+      .addCase(addItem.fulfilled, itemsAdapter.addOne)
+      .addCase(updateItem.fulfilled, itemsAdapter.setOne)
+      .addCase(adjustQuantity.fulfilled, itemsAdapter.setOne)
+      .addCase(moveItem.fulfilled, itemsAdapter.setOne)
+      .addCase(consumeItem.fulfilled, itemsAdapter.setOne)
+      .addCase(addBatch.fulfilled, itemsAdapter.setOne)
+      .addCase(updateBatch.fulfilled, itemsAdapter.setOne)
+      .addCase(removeBatch.fulfilled, itemsAdapter.setOne)
+      .addCase(finishItem.fulfilled, itemsAdapter.removeOne)
+      .addCase(logMeal.fulfilled, (state, action) => {
+        const { meal, ingredients, finishedIds } = action.payload;
+        if (meal) itemsAdapter.addOne(state, meal);
+        itemsAdapter.setMany(state, ingredients);
+        itemsAdapter.removeMany(state, finishedIds);
+      })
+      .addCase(deleteItem.fulfilled, itemsAdapter.removeOne)
+      // Bought items checked in from the shopping list
+      .addCase(checkInEntries.fulfilled, itemsAdapter.upsertMany);
+  },
+});
+
+export const { clearInventory, itemsChanged } = inventorySlice.actions;
+export default inventorySlice.reducer;
+
+/**
+ * SELECTORS
+ * Components read the inventory ONLY through these, never state.inventory
+ * directly - so the state shape can change without touching every screen.
+ *
+ * createSelector memoizes: the result is only recomputed when its inputs
+ * change, so components don't re-render for nothing.
+ */
+export const {
+  selectAll: selectAllItems,
+  selectById: selectItemById,
+  selectIds: selectItemIds,
+  selectTotal: selectItemCount,
+} = itemsAdapter.getSelectors<RootState>((state) => state.inventory);
+
+export const selectInventoryStatus = (state: RootState) =>
+  state.inventory.status;
+export const selectInventoryError = (state: RootState) => state.inventory.error;
+export const selectInventoryHouseholdId = (state: RootState) =>
+  state.inventory.householdId;
+
+/**
+ * The item that `item` would be more of (see isSameItem), if any.
+ */
+export const selectSameItem = (
+  state: RootState,
+  item: Pick<NewFoodItem, "name" | "unit" | "locationId">
+) => selectAllItems(state).find((existing) => isSameItem(existing, item));
+
+export const selectItemsByCategory = createSelector(
+  [selectAllItems, (_state: RootState, category: FoodCategory) => category],
+  (items, category) => items.filter((item) => item.category === category)
+);
+
+export const selectItemsByLocation = createSelector(
+  [
+    selectAllItems,
+    (_state: RootState, locationId: InventoryLocation["id"]) => locationId,
+  ],
+  (items, locationId) => items.filter((item) => item.locationId === locationId)
+);
+
+export const selectCategoryCounts = createSelector([selectAllItems], (items) =>
+  items.reduce<Partial<Record<FoodCategory, number>>>((counts, item) => {
+    counts[item.category] = (counts[item.category] ?? 0) + 1;
+    return counts;
+  }, {})
+);
+
+/**
+ * Items for the "Expiring soon / Expired" section: anything expired, past
+ * its best-before or inside the user's "soon" window - soonest first.
+ */
+export const selectItemsNeedingAttention = createSelector(
+  [selectAllItems, (_state: RootState, settings: UserSettings) => settings],
+  (items, settings) =>
+    items
+      .filter((item) => needsAttention(getExpiryStatus(item, settings)))
+      .sort((a, b) => (a.expiryDate ?? "").localeCompare(b.expiryDate ?? ""))
+);
@@ -0,0 +1,109 @@
+/**
+ * ============================================================================
+ * LOCATIONS SLICE - The Active Household's Storage Locations
+ * ============================================================================
+ *
+ * Loaded next to the inventory (components/InventoryLoader.tsx). Kept in
+ * the order the server returns them - the default Fridge, Freezer and
+ * Pantry first, then the household's own in the order they were added.
+ */
+
+import {
+  createAsyncThunk,
+  createEntityAdapter,
+  createSelector,
+  createSlice,
+} from "@reduxjs/toolkit";
+import type { RootState } from "./index";
+import type { Household } from "../types/household";
+import type {
+  InventoryLocation,
+  NewInventoryLocation,
+} from "../types/location";
+import * as locationService from "../services/locationService";
+import { selectAllItems } from "./inventorySlice";
+
+const locationsAdapter = createEntityAdapter<InventoryLocation>();
+
+interface LocationsState {
+  householdId: Household["id"] | null; // Whose locations are loaded
+}
+
+const initialState = locationsAdapter.getInitialState<LocationsState>({
+  householdId: null,
+});
+
+export const fetchLocations = createAsyncThunk(
+  "locations/fetchLocations",
+  async (householdId: Household["id"]) => {
+    const locations = await locationService.listLocations();
+    return { householdId, locations };
+  }
+);
+
+export const addLocation = createAsyncThunk(
+  "locations/addLocation",
+  async (location: NewInventoryLocation) =>
+    locationService.createLocation(location)
+);
+
+export const renameLocation = createAsyncThunk(
+  "locations/renameLocation",
+  async ({ id, name }: { id: InventoryLocation["id"]; name: string }) =>
+    locationService.renameLocation(id, name)
+);
+
+export const deleteLocation = createAsyncThunk(
+  "locations/deleteLocation",
+  async (id: InventoryLocation["id"]) => {
+    await locationService.deleteLocation(id);
+    return id;
+  }
+);
+
+const locationsSlice = createSlice({
+  name: "locations",
+  initialState,
+  reducers: {
+    // Called by AuthContext on logout
+    clearLocations: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchLocations.pending, (state, action) => {
+        if (state.householdId !== action.meta.arg) {
+          locationsAdapter.removeAll(state);
+          state.householdId = action.meta.arg;
+        }
+      })
+      .addCase(fetchLocations.fulfilled, (state, action) => {
+        if (action.payload.householdId !== state.householdId) return;
+        locationsAdapter.setAll(state, action.payload.locations);
+      })
+      .addCase(addLocation.fulfilled, locationsAdapter.addOne)
+      .addCase(renameLocation.fulfilled, locationsAdapter.setOne)
+      .addCase(deleteLocation.fulfilled, locationsAdapter.removeOne);
+  },
+});
+
+export const { clearLocations } = locationsSlice.actions;
+export default locationsSlice.reducer;
+
+export const {
+  selectAll: selectAllLocations,
+  selectById: selectLocationById,
+  selectEntities: selectLocationEntities,
+} = locationsAdapter.getSelectors<RootState>((state) => state.locations);
+
+/**
+ * How many items are in each location, e.g. { "<fridge id>": 12 }.
+ * Counted from the loaded inventory, so it's always up to date.
+ */
+export const selectLocationItemCounts = createSelector(
+  [selectAllItems],
+  (items) =>
+    items.reduce<Record<InventoryLocation["id"], number>>((counts, item) => {
+      counts[item.locationId] = (counts[item.locationId] ?? 0) + 1;
+      return counts;
+    }, {})
+);
@@ -0,0 +1,47 @@
+/**
+ * ============================================================================
+ * PRESENCE SLICE - Who Else Has the App Open
+ * ============================================================================
+ *
+ * Filled in by components/HouseholdLive.tsx from the household's live
+ * update stream, for the Navbar's "who's online".
+ */
+
+import { createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "./index";
+import type { OnlineMember } from "../types/events";
+
+interface PresenceState {
+  connected: boolean; // Is the live update stream open?
+  members: OnlineMember[]; // Everyone with the app open, us included
+}
+
+const initialState: PresenceState = {
+  connected: false,
+  members: [],
+};
+
+const presenceSlice = createSlice({
+  name: "presence",
+  initialState,
+  reducers: {
+    // Called by AuthContext on logout
+    clearPresence: () => initialState,
+    liveConnectionChanged: (state, action: PayloadAction<boolean>) => {
+      state.connected = action.payload;
+      // Nobody can be seen from here while it's closed
+      if (!action.payload) state.members = [];
+    },
+    membersOnlineChanged: (state, action: PayloadAction<OnlineMember[]>) => {
+      state.members = action.payload;
+    },
+  },
+});
+
+export const { clearPresence, liveConnectionChanged, membersOnlineChanged } =
+  presenceSlice.actions;
+
+export const selectMembersOnline = (state: RootState) => state.presence.members;
+
+export default presenceSlice.reducer;
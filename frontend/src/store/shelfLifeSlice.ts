@@ -0,0 +1,93 @@
+/**
+ * ============================================================================
+ * SHELF-LIFE SLICE - The Active Household's Own Shelf-Life Rules
+ * ============================================================================
+ *
+ * Loaded next to the inventory (components/InventoryLoader.tsx) so the item
+ * form can suggest expiry dates without waiting for a request. The
+ * suggestion logic itself is in lib/shelfLife.ts.
+ */
+
+import {
+  createAsyncThunk,
+  createEntityAdapter,
+  createSlice,
+} from "@reduxjs/toolkit";
+import type { RootState } from "./index";
+import type { Household } from "../types/household";
+import type { NewShelfLifeRule, ShelfLifeRule } from "../types/shelfLife";
+import * as shelfLifeService from "../services/shelfLifeService";
+
+const ruleLabel = (rule: ShelfLifeRule) => rule.keyword ?? rule.category ?? "";
+
+const rulesAdapter = createEntityAdapter<ShelfLifeRule>({
+  sortComparer: (a, b) =>
+    ruleLabel(a).localeCompare(ruleLabel(b)) ||
+    a.location.localeCompare(b.location),
+});
+
+interface ShelfLifeState {
+  householdId: Household["id"] | null; // Whose rules are loaded
+}
+
+const initialState = rulesAdapter.getInitialState<ShelfLifeState>({
+  householdId: null,
+});
+
+export const fetchShelfLifeRules = createAsyncThunk(
+  "shelfLife/fetchRules",
+  async (householdId: Household["id"]) => {
+    const rules = await shelfLifeService.listRules();
+    return { householdId, rules };
+  }
+);
+
+export const addShelfLifeRule = createAsyncThunk(
+  "shelfLife/addRule",
+  async (rule: NewShelfLifeRule) => shelfLifeService.createRule(rule)
+);
+
+export const updateShelfLifeRule = createAsyncThunk(
+  "shelfLife/updateRule",
+  async ({ id, days }: { id: ShelfLifeRule["id"]; days: number }) =>
+    shelfLifeService.updateRule(id, days)
+);
+
+export const deleteShelfLifeRule = createAsyncThunk(
+  "shelfLife/deleteRule",
+  async (id: ShelfLifeRule["id"]) => {
+    await shelfLifeService.deleteRule(id);
+    return id;
+  }
+);
+
+const shelfLifeSlice = createSlice({
+  name: "shelfLife",
+  initialState,
+  reducers: {
+    // Called by AuthContext on logout
+    clearShelfLifeRules: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchShelfLifeRules.pending, (state, action) => {
+        if (state.householdId !== action.meta.arg) {
+          rulesAdapter.removeAll(state);
+          state.householdId = action.meta.arg;
+        }
+      })
+      .addCase(fetchShelfLifeRules.fulfilled, (state, action) => {
+        if (action.payload.householdId !== state.householdId) return;
+        rulesAdapter.setAll(state, action.payload.rules);
+      })
+      .addCase(addShelfLifeRule.fulfilled, rulesAdapter.addOne)
+      .addCase(updateShelfLifeRule.fulfilled, rulesAdapter.setOne)
+      .addCase(deleteShelfLifeRule.fulfilled, rulesAdapter.removeOne);
+  },
+});
+
+export const { clearShelfLifeRules } = shelfLifeSlice.actions;
+export default shelfLifeSlice.reducer;
+
+export const { selectAll: selectShelfLifeRules } =
+  rulesAdapter.getSelectors<RootState>((state) => state.shelfLife);
@@ -0,0 +1,147 @@
+/**
+ * ============================================================================
+ * SHOPPING LIST SLICE - The Active Household's Shopping List
+ * ============================================================================
+ *
+ * Loaded by the Shopping list page when it opens (not with the inventory):
+ * the server adds par-level entries whenever items change, so the list is
+ * re-read each time rather than kept from earlier.
+ *
+ * Ticking an entry off is OPTIMISTIC - it shows as checked straight away
+ * and is put back if the server says no - because it's done one-handed in
+ * a shop, often on a bad connection.
+ *
+ * Checking entries in creates inventory items; inventorySlice.ts adds them
+ * to the inventory when checkInEntries succeeds.
+ */
+
+import {
+  createAsyncThunk,
+  createEntityAdapter,
+  createSlice,
+} from "@reduxjs/toolkit";
+import type { RootState } from "./index";
+import type { Household } from "../types/household";
+import type {
+  CheckIn,
+  NewShoppingListEntry,
+  ShoppingListEntry,
+  ShoppingListEntryChanges,
+} from "../types/shoppingList";
+import * as shoppingListService from "../services/shoppingListService";
+
+// Still to buy first, then by category and name - the order of a walk
+// round the shop (roughly)
+const entriesAdapter = createEntityAdapter<ShoppingListEntry>({
+  sortComparer: (a, b) =>
+    Number(a.checked) - Number(b.checked) ||
+    a.category.localeCompare(b.category) ||
+    a.name.localeCompare(b.name),
+});
+
+interface ShoppingListState {
+  householdId: Household["id"] | null; // Whose list is loaded
+  status: "idle" | "loading" | "succeeded" | "failed";
+}
+
+const initialState = entriesAdapter.getInitialState<ShoppingListState>({
+  householdId: null,
+  status: "idle",
+});
+
+export const fetchShoppingList = createAsyncThunk(
+  "shoppingList/fetchShoppingList",
+  async (householdId: Household["id"]) => {
+    const entries = await shoppingListService.listEntries();
+    return { householdId, entries };
+  }
+);
+
+export const addEntry = createAsyncThunk(
+  "shoppingList/addEntry",
+  async (entry: NewShoppingListEntry) => shoppingListService.createEntry(entry)
+);
+
+export const updateEntry = createAsyncThunk(
+  "shoppingList/updateEntry",
+  async ({
+    id,
+    changes,
+  }: {
+    id: ShoppingListEntry["id"];
+    changes: ShoppingListEntryChanges;
+  }) => shoppingListService.updateEntry(id, changes)
+);
+
+export const toggleEntry = createAsyncThunk(
+  "shoppingList/toggleEntry",
+  async ({ id, checked }: { id: ShoppingListEntry["id"]; checked: boolean }) =>
+    shoppingListService.updateEntry(id, { checked })
+);
+
+export const removeEntry = createAsyncThunk(
+  "shoppingList/removeEntry",
+  async (id: ShoppingListEntry["id"]) => {
+    await shoppingListService.deleteEntry(id);
+    return id;
+  }
+);
+
+export const checkInEntries = createAsyncThunk(
+  "shoppingList/checkInEntries",
+  async (entries: CheckIn[]) => shoppingListService.checkIn(entries)
+);
+
+const shoppingListSlice = createSlice({
+  name: "shoppingList",
+  initialState,
+  reducers: {
+    // Called by AuthContext on logout
+    clearShoppingList: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchShoppingList.pending, (state, action) => {
+        if (state.householdId !== action.meta.arg) {
+          entriesAdapter.removeAll(state);
+          state.householdId = action.meta.arg;
+        }
+        state.status = "loading";
+      })
+      .addCase(fetchShoppingList.fulfilled, (state, action) => {
+        if (action.payload.householdId !== state.householdId) return;
+        entriesAdapter.setAll(state, action.payload.entries);
+        state.status = "succeeded";
+      })
+      .addCase(fetchShoppingList.rejected, (state, action) => {
+        if (action.meta.arg === state.householdId) state.status = "failed";
+      })
+      .addCase(addEntry.fulfilled, entriesAdapter.addOne)
+      .addCase(updateEntry.fulfilled, entriesAdapter.setOne)
+      .addCase(toggleEntry.pending, (state, action) => {
+        const { id, checked } = action.meta.arg;
+        entriesAdapter.updateOne(state, { id, changes: { checked } });
+      })
+      .addCase(toggleEntry.fulfilled, entriesAdapter.setOne)
+      .addCase(toggleEntry.rejected, (state, action) => {
+        const { id, checked } = action.meta.arg;
+        entriesAdapter.updateOne(state, { id, changes: { checked: !checked } });
+      })
+      .addCase(removeEntry.fulfilled, entriesAdapter.removeOne)
+      .addCase(checkInEntries.fulfilled, (state, action) => {
+        entriesAdapter.removeMany(
+          state,
+          action.meta.arg.map((entry) => entry.id)
+        );
+      });
+  },
+});
+
+export const { clearShoppingList } = shoppingListSlice.actions;
+export default shoppingListSlice.reducer;
+
+export const { selectAll: selectAllEntries } =
+  entriesAdapter.getSelectors<RootState>((state) => state.shoppingList);
+
+export const selectShoppingListStatus = (state: RootState) =>
+  state.shoppingList.status;
@@ -0,0 +1,92 @@
+/**
+ * ============================================================================
+ * SYNC SLICE - Online, Offline and Changes Waiting to Be Sent
+ * ============================================================================
+ *
+ * components/OfflineSync.tsx keeps this up to date (whether the server can
+ * be reached, how many changes are queued) and starts syncPending when
+ * there's something to send; the Navbar shows the result as "offline",
+ * "syncing" or "up to date". The sending itself is in
+ * services/syncService.ts.
+ */
+
+import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import type { PayloadAction } from "@reduxjs/toolkit";
+import type { RootState } from "./index";
+import { fetchItems } from "./inventorySlice";
+import type { SyncStatus } from "../types/sync";
+import * as syncService from "../services/syncService";
+
+interface SyncState {
+  online: boolean; // Did the server answer the last request?
+  syncing: boolean;
+  pending: number; // Changes queued on this device
+  lastSyncedAt: string | null; // ISO timestamp
+}
+
+const initialState: SyncState = {
+  online: true,
+  syncing: false,
+  pending: 0,
+  lastSyncedAt: null,
+};
+
+/**
+ * Send the queued changes, then load the items again - they now have
+ * everyone's changes, including anything someone else did meanwhile.
+ * Answers with the conflicts, for the caller to show, and whether the
+ * session has expired (the rest wait for the user to log in again).
+ */
+export const syncPending = createAsyncThunk<
+  Pick<syncService.SyncResult, "conflicts" | "expired">,
+  void,
+  { state: RootState }
+>(
+  "sync/syncPending",
+  async (_, { getState, dispatch }) => {
+    const { conflicts, done, expired } = await syncService.replayPending();
+    const householdId = getState().inventory.householdId;
+    if (done && householdId) await dispatch(fetchItems(householdId));
+    return { conflicts, expired };
+  },
+  { condition: (_, { getState }) => !getState().sync.syncing }
+);
+
+const syncSlice = createSlice({
+  name: "sync",
+  initialState,
+  reducers: {
+    connectionChanged: (state, action: PayloadAction<boolean>) => {
+      state.online = action.payload;
+    },
+    pendingChanged: (state, action: PayloadAction<number>) => {
+      state.pending = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(syncPending.pending, (state) => {
+        state.syncing = true;
+      })
+      .addCase(syncPending.fulfilled, (state) => {
+        state.syncing = false;
+        state.lastSyncedAt = new Date().toISOString();
+      })
+      .addCase(syncPending.rejected, (state) => {
+        state.syncing = false;
+      });
+  },
+});
+
+export const { connectionChanged, pendingChanged } = syncSlice.actions;
+
+export const selectPendingCount = (state: RootState) => state.sync.pending;
+export const selectLastSyncedAt = (state: RootState) => state.sync.lastSyncedAt;
+
+export const selectSyncStatus = (state: RootState): SyncStatus => {
+  if (!state.sync.online) return "offline";
+  if (state.sync.syncing || state.sync.pending > 0) return "syncing";
+  return "synced";
+};
+
+export default syncSlice.reducer;
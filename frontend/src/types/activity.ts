@@ -0,0 +1,72 @@
+/**
+ * ============================================================================
+ * ACTIVITY TYPES - The Household's Audit Log
+ * ============================================================================
+ *
+ * Every change to an item is logged by the server (backend/src/lib/
+ * activity.ts): who made it, when, the fields before and after, and where
+ * it came from. Read on the Activity page (pages/Activity.tsx).
+ */
+
+import type { FoodItem } from "./inventory";
+import type { OnlineMember } from "./events";
+
+export type ActivityAction =
+  | "created"
+  | "updated"
+  | "moved"
+  | "consumed"
+  | "restocked"
+  | "finished"
+  | "deleted"
+  | "restored"
+  | "cooked";
+
+// Sent with each change (the X-Change-Source header) - "ui" unless said
+// otherwise
+export type ChangeSource = "ui" | "quick-add" | "import" | "receipt";
+
+// The item's fields as the log keeps them: the location by name, dates as
+// "YYYY-MM-DD". Only the changed ones for an update.
+export type ActivitySnapshot = Partial<
+  Pick<
+    FoodItem,
+    | "name"
+    | "quantity"
+    | "unit"
+    | "purchaseDate"
+    | "expiryDate"
+    | "expiryType"
+    | "notes"
+    | "tags"
+    | "price"
+    | "purchaseQuantity"
+    | "store"
+    | "parLevel"
+  > & { category: string; location: string }
+>;
+
+export interface ActivityEvent {
+  id: string;
+  itemId: FoodItem["id"];
+  itemName: string; // As it was then - the item may be gone or renamed
+  action: ActivityAction;
+  source: ChangeSource;
+  before: ActivitySnapshot | null; // null when it was created
+  after: ActivitySnapshot | null; // null when it's gone
+  note: string;
+  actor: OnlineMember | null; // null when that account has been deleted
+  createdAt: string; // ISO timestamp
+}
+
+export interface ActivityFilters {
+  member?: string; // A user id
+  item?: string; // Part of the item's name
+  from?: string; // "YYYY-MM-DD"
+  to?: string; // "YYYY-MM-DD", inclusive
+}
+
+export interface ActivityPage {
+  events: ActivityEvent[];
+  nextCursor: string | null; // null on the last page
+}
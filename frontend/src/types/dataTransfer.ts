@@ -0,0 +1,102 @@
+/**
+ * ============================================================================
+ * DATA TRANSFER TYPES - Importing and Exporting the Whole Inventory
+ * ============================================================================
+ *
+ * The JSON export is one versioned document with everything in it
+ * (backend/src/routes/data.ts). Importing sends the same document back -
+ * a spreadsheet is turned into one first (lib/csvImport.ts). Locations are
+ * referred to by name, so a file imports into any household.
+ */
+
+import type { HouseholdSettings } from "./household";
+import type { FoodItem } from "./inventory";
+import type { ItemRemoval } from "./removal";
+import type { InventoryLocation, NewInventoryLocation } from "./location";
+
+export const EXPORT_VERSION = 1;
+
+export const EXPORT_TABLES = [
+  "items",
+  "batches",
+  "locations",
+  "removals",
+] as const;
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+// merge: add to the inventory, topping up items with the same name, unit
+// and location (and taking the file's price, store, notes and par level).
+// replace: delete every item first (owners only).
+export type ImportMode = "merge" | "replace";
+
+export type ExportedItem = Pick<
+  FoodItem,
+  | "name"
+  | "category"
+  | "quantity"
+  | "unit"
+  | "purchaseDate"
+  | "expiryDate"
+  | "expiryType"
+  | "notes"
+  | "tags"
+  | "price"
+  | "purchaseQuantity"
+  | "store"
+  | "parLevel"
+  | "createdAt"
+> & {
+  location: InventoryLocation["name"];
+  batches: Omit<FoodItem["batches"][number], "id">[];
+};
+
+export type ExportedRemoval = Omit<ItemRemoval, "id" | "removedBy"> & {
+  removedBy: string; // Their name, for reading only
+};
+
+export interface ExportDocument {
+  version: number;
+  exportedAt: string;
+  household: HouseholdSettings;
+  locations: NewInventoryLocation[];
+  items: ExportedItem[];
+  removals: ExportedRemoval[];
+}
+
+/**
+ * What gets imported. Rows are `unknown` until the server has checked
+ * them - a spreadsheet can hold anything.
+ */
+export interface ImportDocument {
+  version: number;
+  // Only an owner's import changes the currency and budget; never the name
+  household?: Partial<HouseholdSettings>;
+  locations?: ExportDocument["locations"];
+  items: unknown[];
+  removals?: unknown[];
+}
+
+// What the import does (or would do) with one row of the file
+export interface ImportRowResult {
+  row: number; // Its index in the file
+  name: string;
+  action: "create" | "merge" | "skip" | "invalid";
+  errors: { path: string; message: string }[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  mode: ImportMode;
+  items: ImportRowResult[];
+  removals: ImportRowResult[];
+  summary: {
+    created: number;
+    merged: number;
+    invalid: number;
+    deleted: number; // Items replaced
+    removals: number; // Waste log entries added
+    newLocations: string[];
+    // The currency and budget it changes, if any
+    household: Partial<Omit<HouseholdSettings, "name">> | null;
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * ============================================================================
+ * EVENT TYPES - Live Updates From the Rest of the Household
+ * ============================================================================
+ *
+ * While the app is open it listens to the household's event stream
+ * (services/eventService.ts, backend/src/lib/events.ts): each item someone
+ * else adds, changes or removes arrives as it happens, along with who has
+ * the app open right now.
+ */
+
+import type { FoodItem } from "./inventory";
+import type { User } from "./user";
+
+export interface OnlineMember {
+  id: User["id"];
+  name: string;
+}
+
+interface EventBase {
+  actor: OnlineMember; // Who made the change
+  at: string; // ISO timestamp
+}
+
+export type ItemEvent = EventBase &
+  (
+    | { type: "item.created" | "item.updated"; item: FoodItem }
+    // Only what's needed to take it off the list (and say what it was)
+    | { type: "item.deleted"; item: Pick<FoodItem, "id" | "name"> }
+  );
@@ -0,0 +1,91 @@
+/**
+ * ============================================================================
+ * HOUSEHOLD TYPES
+ * ============================================================================
+ *
+ * Food waste is a household problem, so the inventory belongs to a
+ * HOUSEHOLD, not to one person. A user can be in several households (e.g.
+ * home and a shared flat) and switches between them in the Navbar.
+ *
+ * ROLES
+ * - owner:  everything, including members and invites
+ * - editor: add, edit and remove food
+ * - viewer: read only
+ */
+
+import type { User } from "./user";
+
+export const HOUSEHOLD_ROLES = ["owner", "editor", "viewer"] as const;
+export type HouseholdRole = (typeof HOUSEHOLD_ROLES)[number];
+
+// An email invite can't make an owner: the address isn't verified, so an
+// owner promotes the member once they've joined instead
+export const INVITE_ROLES = ["editor", "viewer"] as const;
+export type InviteRole = (typeof INVITE_ROLES)[number];
+
+/**
+ * One entry in "my households" - includes MY role in it.
+ */
+export interface Household {
+  id: string;
+  name: string;
+  role: HouseholdRole;
+  memberCount: number;
+  currency: string; // ISO 4217 code every price is in, e.g. "EUR"
+  monthlyBudget: number | null; // Groceries per month, in `currency`
+}
+
+/**
+ * What an owner can change about a household besides its members.
+ */
+export type HouseholdSettings = Pick<
+  Household,
+  "name" | "currency" | "monthlyBudget"
+>;
+
+export interface HouseholdMember {
+  userId: User["id"];
+  name: string;
+  email: string;
+  role: HouseholdRole;
+  joinedAt: string; // ISO timestamp
+}
+
+/**
+ * An invite the household sent to an email address (owners only).
+ */
+export interface HouseholdInvite {
+  id: string;
+  email: string;
+  role: HouseholdRole;
+  createdAt: string;
+}
+
+/**
+ * Everything the Household page shows. inviteCode and invites are only
+ * filled in for owners.
+ */
+export interface HouseholdDetails extends HouseholdSettings {
+  id: string;
+  role: HouseholdRole;
+  inviteCode: string | null;
+  members: HouseholdMember[];
+  invites: HouseholdInvite[];
+}
+
+/**
+ * An invite sent TO the current user.
+ */
+export interface ReceivedInvite {
+  id: string;
+  household: { id: string; name: string };
+  role: HouseholdRole;
+  invitedBy: string;
+  createdAt: string;
+}
+
+/**
+ * Can this role change the inventory?
+ */
+export const canEditInventory = (role: HouseholdRole | undefined) =>
+  role === "owner" || role === "editor";
@@ -0,0 +1,224 @@
+/**
+ * ============================================================================
+ * INVENTORY TYPES - The Food Item Domain Model
+ * ============================================================================
+ *
+ * WHAT IS THIS FILE?
+ * The single definition of what a "food item" is. The Redux inventory slice,
+ * the Dashboard and (later) the API all speak in terms of these types, so
+ * there is exactly one place to change when the model grows.
+ *
+ * DATES ARE STRINGS
+ * Redux state must be serializable, so dates are stored as ISO strings
+ * ("2025-01-31") instead of Date objects. Convert with new Date(...) only
+ * when you need to do date math or display them.
+ */
+
+import type { Household } from "./household";
+import type { InventoryLocation } from "./location";
+import type { User } from "./user";
+
+/**
+ * CATEGORIES
+ * WHAT a food is (not where it is kept). The README lists meals, produce,
+ * pantry and snacks; we add frozen and a catch-all "other".
+ *
+ * The array is the runtime list (for dropdowns/filters), and the type is
+ * derived from it so the two can never drift apart.
+ */
+export const FOOD_CATEGORIES = [
+  "meals",
+  "produce",
+  "pantry",
+  "snacks",
+  "frozen",
+  "other",
+] as const;
+export type FoodCategory = (typeof FOOD_CATEGORIES)[number];
+
+/**
+ * STORAGE LOCATION KINDS
+ * The TYPE of place a food is kept in. A household's actual locations
+ * ("Fridge", "Garage freezer" - see types/location.ts) each have one of
+ * these kinds, which decides how long food keeps there.
+ */
+export const STORAGE_LOCATIONS = ["fridge", "freezer", "pantry"] as const;
+export type StorageLocation = (typeof STORAGE_LOCATIONS)[number];
+
+/**
+ * UNITS
+ * "count" is for things you count ("10 chicken", "2 milk"). Units that
+ * measure the same thing convert into each other (see lib/units.ts).
+ * Cooked meals are counted in portions.
+ */
+export const FOOD_UNITS = [
+  "count",
+  "g",
+  "kg",
+  "ml",
+  "l",
+  "pack",
+  "portion",
+] as const;
+export type FoodUnit = (typeof FOOD_UNITS)[number];
+
+/**
+ * EXPIRY TYPES
+ * - "use-by": a SAFETY date - don't eat it after this (meat, fish, dairy)
+ * - "best-before": a QUALITY date - usually still fine after, just check it
+ */
+export const EXPIRY_TYPES = ["best-before", "use-by"] as const;
+export type ExpiryType = (typeof EXPIRY_TYPES)[number];
+
+/**
+ * OUTCOMES
+ * What happened to an item when it was removed. "wasted" and "composted"
+ * both count as waste (the food wasn't eaten by anyone), and those two can
+ * also say WHY it was thrown away.
+ */
+export const ITEM_OUTCOMES = [
+  "eaten",
+  "wasted",
+  "donated",
+  "composted",
+] as const;
+export type ItemOutcome = (typeof ITEM_OUTCOMES)[number];
+
+export const WASTE_OUTCOMES: readonly ItemOutcome[] = ["wasted", "composted"];
+export const isWaste = (outcome: ItemOutcome) =>
+  WASTE_OUTCOMES.includes(outcome);
+
+export const WASTE_REASONS = [
+  "expired",
+  "spoiled",
+  "forgot",
+  "too-much",
+] as const;
+export type WasteReason = (typeof WASTE_REASONS)[number];
+
+// How the reasons read in the UI
+export const WASTE_REASON_LABELS: Record<WasteReason, string> = {
+  expired: "Expired",
+  spoiled: "Spoiled",
+  forgot: "Forgot about it",
+  "too-much": "Bought too much",
+};
+
+/**
+ * What the user answered when removing an item (the reason is null for
+ * eaten/donated food, or when they didn't say), and whether to put it on
+ * the shopping list to buy again.
+ */
+export interface ItemFinish {
+  outcome: ItemOutcome;
+  reason: WasteReason | null;
+  restock: boolean;
+}
+
+/**
+ * BATCH
+ * One purchase of an item ("the carton bought on Monday"). An item's
+ * quantity is the total of its batches, and its expiryDate the soonest.
+ */
+export interface ItemBatch {
+  id: string;
+  quantity: number; // In the item's unit
+  purchaseDate: string | null; // ISO date
+  expiryDate: string | null; // ISO date
+}
+
+export type NewItemBatch = Omit<ItemBatch, "id">;
+
+/**
+ * FOOD ITEM
+ * One row in the household inventory.
+ */
+export interface FoodItem {
+  id: string;
+  householdId: Household["id"]; // The household it belongs to
+  ownerId: User["id"]; // Who logged this item
+  name: string;
+  category: FoodCategory;
+  quantity: number;
+  unit: FoodUnit;
+  purchaseDate: string | null; // ISO date, e.g. "2025-01-31"
+  expiryDate: string | null; // ISO date
+  expiryType: ExpiryType; // What the expiry date means
+  locationId: InventoryLocation["id"]; // Where it is kept
+  location: StorageLocation; // That location's kind (set by the server)
+  notes: string;
+  tags: string[]; // Free-form labels, lowercase ("meal prep", "kids")
+  price: number | null; // Paid for purchaseQuantity of it (household currency)
+  purchaseQuantity: number | null; // How much the price was for
+  store: string; // Where it was bought ("" = not given)
+  parLevel: number | null; // Below this it goes on the shopping list
+  batches: ItemBatch[]; // Soonest-expiring first (set by the server)
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * NEW FOOD ITEM
+ * What a form submits when logging a new item. The id, household, owner,
+ * location kind, batches and timestamps are filled in for you.
+ */
+export type NewFoodItem = Omit<
+  FoodItem,
+  | "id"
+  | "householdId"
+  | "ownerId"
+  | "location"
+  | "batches"
+  | "createdAt"
+  | "updatedAt"
+>;
+
+/**
+ * Is `item` more of `existing` - the same name (in any case), unit and
+ * location? Then adding it adds a batch instead of a second row.
+ */
+export const isSameItem = (
+  existing: FoodItem,
+  item: Pick<NewFoodItem, "name" | "unit" | "locationId">
+) =>
+  existing.name.toLowerCase() === item.name.trim().toLowerCase() &&
+  existing.unit === item.unit &&
+  existing.locationId === item.locationId;
+
+/**
+ * FOOD ITEM CHANGES
+ * A partial update: only the fields you pass are changed.
+ */
+export type FoodItemChanges = Partial<NewFoodItem>;
+
+/**
+ * NEW MEAL
+ * A cooked meal made from inventory items: `amount` of each ingredient (in
+ * that item's own unit) is taken out, and the meal becomes a "meals" item
+ * counted in portions. With 0 portions it was all eaten straight away:
+ * only the ingredients change.
+ */
+export interface NewMeal extends Pick<
+  NewFoodItem,
+  | "name"
+  | "purchaseDate"
+  | "expiryDate"
+  | "expiryType"
+  | "locationId"
+  | "notes"
+  | "tags"
+> {
+  portions: number;
+  ingredients: { itemId: FoodItem["id"]; amount: number }[];
+}
+
+/**
+ * What logging a meal changed: the new meal (null with no portions kept),
+ * the ingredients that have some left, and the ones that were used up
+ * (logged as eaten and removed).
+ */
+export interface LoggedMeal {
+  meal: FoodItem | null;
+  ingredients: FoodItem[];
+  finishedIds: FoodItem["id"][];
+}
@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * LOCATION TYPES - Where a Household Keeps Its Food
+ * ============================================================================
+ *
+ * WHAT a food is (its category) and WHERE it is kept are separate things.
+ * Every household starts with a Fridge, Freezer and Pantry and can add its
+ * own, like "Garage freezer". Moving an item between locations is recorded
+ * as an ItemTransfer, so you can see where it has been.
+ */
+
+import type { FoodItem, StorageLocation } from "./inventory";
+import type { Household } from "./household";
+import type { User } from "./user";
+
+export interface InventoryLocation {
+  id: string;
+  householdId: Household["id"];
+  name: string; // e.g. "Garage freezer"
+  kind: StorageLocation; // e.g. "freezer"
+}
+
+export type NewInventoryLocation = Pick<InventoryLocation, "name" | "kind">;
+
+/**
+ * One "moved from A to B" entry. `from`/`to` are null if that location has
+ * since been deleted.
+ */
+export interface ItemTransfer {
+  id: string;
+  itemId: FoodItem["id"];
+  from: Pick<InventoryLocation, "id" | "name"> | null;
+  to: Pick<InventoryLocation, "id" | "name"> | null;
+  movedBy: Pick<User, "id" | "name">;
+  movedAt: string; // ISO timestamp
+}
@@ -0,0 +1,19 @@
+/**
+ * ============================================================================
+ * NOTIFICATION TYPES - The Bell in the Navbar
+ * ============================================================================
+ *
+ * Most toasts are gone after a few seconds. Important ones (like "3 items
+ * expire tomorrow") are ALSO kept in the notification center, so you can
+ * read them later. They're saved in localStorage per user, which is how
+ * read/unread survives a refresh.
+ */
+
+export interface AppNotification {
+  id: string;
+  message: string;
+  type: "success" | "error" | "info" | "warning";
+  link: string | null; // Where clicking it takes you, e.g. "/dashboard"
+  createdAt: string; // ISO timestamp
+  read: boolean;
+}
@@ -0,0 +1,32 @@
+/**
+ * ============================================================================
+ * RECIPE TYPES - The Bundled Recipe Book
+ * ============================================================================
+ *
+ * Recipes ship with the app (lib/recipeData.ts), so suggestions work
+ * offline and need no server. lib/recipes.ts matches their ingredients
+ * against the inventory.
+ */
+
+import type { FoodCategory, FoodUnit } from "./inventory";
+
+export interface RecipeIngredient {
+  name: string; // As it goes on the shopping list: "spinach"
+  // Words an inventory item's name may contain to count as this ingredient
+  // (defaults to the name), e.g. ["zucchini", "courgette"]
+  matches?: string[];
+  quantity: number;
+  unit: FoodUnit;
+  category: FoodCategory; // For the shopping list
+  // Salt, oil, spices: assumed to be in the cupboard, never "missing"
+  staple?: boolean;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  minutes: number;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+}
@@ -0,0 +1,33 @@
+/**
+ * ============================================================================
+ * REMOVAL TYPES - The Waste Log
+ * ============================================================================
+ *
+ * Every item removed with "Used up..." / "Remove..." leaves one entry in the
+ * household's log: what it was, how much was left, and what happened to it.
+ * The item itself is gone, so its name, category and amount are copies.
+ * lib/wasteStats.ts turns these into the Analytics page's numbers.
+ */
+
+import type {
+  FoodCategory,
+  FoodUnit,
+  ItemOutcome,
+  WasteReason,
+} from "./inventory";
+import type { User } from "./user";
+
+export interface ItemRemoval {
+  id: string;
+  itemName: string;
+  category: FoodCategory;
+  quantity: number; // What was left when it was removed
+  unit: FoodUnit;
+  outcome: ItemOutcome;
+  reason: WasteReason | null;
+  price: number | null; // What the whole item cost (null = no price given)
+  value: number | null; // What the part removed was worth
+  purchasedAt: string | null; // ISO timestamp
+  removedBy: Pick<User, "id" | "name">;
+  removedAt: string; // ISO timestamp
+}
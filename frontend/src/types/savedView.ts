@@ -0,0 +1,17 @@
+/**
+ * ============================================================================
+ * SAVED VIEW TYPES - Named Dashboard Filters
+ * ============================================================================
+ *
+ * A saved view is a name ("Freezer meat") plus the Dashboard's query string
+ * (see lib/inventoryQuery.ts). Views are personal: each member of a
+ * household has their own.
+ */
+
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string; // URL query string, e.g. "location=<id>&tag=meat"
+}
+
+export type NewSavedView = Omit<SavedView, "id">;
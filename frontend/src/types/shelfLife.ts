@@ -0,0 +1,24 @@
+/**
+ * ============================================================================
+ * SHELF-LIFE TYPES - A Household's Own Expiry Rules
+ * ============================================================================
+ *
+ * The built-in shelf-life table lives in lib/shelfLife.ts. A household can
+ * override it with its own rules, e.g. "our homemade bread lasts 3 days in
+ * the pantry". A rule matches EITHER a keyword in the item name OR a whole
+ * category (exactly one of the two is set).
+ */
+
+import type { FoodCategory, StorageLocation } from "./inventory";
+import type { Household } from "./household";
+
+export interface ShelfLifeRule {
+  id: string;
+  householdId: Household["id"];
+  keyword: string | null; // Lowercase, matched against the item name
+  category: FoodCategory | null;
+  location: StorageLocation;
+  days: number; // How long it keeps there
+}
+
+export type NewShelfLifeRule = Omit<ShelfLifeRule, "id" | "householdId">;
@@ -0,0 +1,53 @@
+/**
+ * ============================================================================
+ * SHOPPING LIST TYPES
+ * ============================================================================
+ *
+ * The household's shared shopping list. Entries come from two places:
+ * - "par-level": added by the server when an item drops below its par
+ *   level, and kept at the shortfall (2 l wanted, 0.5 l left → 1.5 l)
+ * - "manual": typed in, or added by "Used up..." to buy it again
+ *
+ * Checked entries are in the trolley. "Check in" turns them into inventory
+ * items in one go.
+ */
+
+import type {
+  FoodCategory,
+  FoodItem,
+  FoodUnit,
+  NewFoodItem,
+} from "./inventory";
+import type { InventoryLocation } from "./location";
+
+export type ShoppingSource = "manual" | "par-level";
+
+export interface ShoppingListEntry {
+  id: string;
+  name: string;
+  category: FoodCategory;
+  quantity: number;
+  unit: FoodUnit;
+  locationId: InventoryLocation["id"] | null; // Where it goes once bought
+  itemId: FoodItem["id"] | null; // The item it restocks, if still there
+  source: ShoppingSource;
+  checked: boolean;
+  createdAt: string; // ISO timestamp
+}
+
+export type NewShoppingListEntry = Pick<
+  ShoppingListEntry,
+  "name" | "category" | "quantity" | "unit" | "locationId"
+>;
+
+export type ShoppingListEntryChanges = Partial<
+  NewShoppingListEntry & Pick<ShoppingListEntry, "checked">
+>;
+
+/**
+ * One bought entry and the inventory item to log for it.
+ */
+export interface CheckIn {
+  id: ShoppingListEntry["id"];
+  item: NewFoodItem;
+}
@@ -0,0 +1,61 @@
+/**
+ * ============================================================================
+ * SYNC TYPES - Changes Made Offline, Waiting for the Server
+ * ============================================================================
+ *
+ * While there's no connection, inventory changes are saved on the device
+ * as PENDING MUTATIONS and sent to the server, oldest first, once it can
+ * be reached again (services/syncService.ts).
+ *
+ * Each one remembers what it changed FROM, so the sync can tell whether
+ * someone else in the household changed the same thing in the meantime.
+ */
+
+import type { FoodItem, FoodItemChanges } from "./inventory";
+import type { Household } from "./household";
+import type { User } from "./user";
+import type { ChangeSource } from "./activity";
+
+interface MutationBase {
+  id: number; // Queue position (set by IndexedDB)
+  householdId: Household["id"];
+  userId: User["id"]; // Who made it: it's only sent while they're logged in
+  itemId: FoodItem["id"];
+  itemName: string; // For messages about it, even once it's gone
+  queuedAt: string; // ISO timestamp
+}
+
+export type PendingMutation = MutationBase &
+  // Added - replayed as an add from where it was made, with the same id
+  (
+    | { kind: "create"; item: FoodItem; source?: ChangeSource }
+    // Put back by undo, as it was
+    | { kind: "restore"; item: FoodItem }
+    // Only the changed fields, and what they were before
+    | { kind: "update"; changes: FoodItemChanges; before: FoodItemChanges }
+    // "Use some": an amount, so two people's use adds up
+    | { kind: "consume"; amount: number; batchId?: string }
+    | { kind: "delete" }
+  );
+
+// What's queued; the queue fills in the rest. (Omit on each kind of the
+// union separately, so each keeps its own fields.)
+export type NewPendingMutation = PendingMutation extends infer M
+  ? M extends unknown
+    ? Omit<M, "id" | "userId" | "queuedAt">
+    : never
+  : never;
+
+/**
+ * A change that couldn't be applied as it was made, and what happened
+ * instead - shown to the user once the sync is done.
+ */
+export interface SyncConflict {
+  itemName: string;
+  message: string; // e.g. "Someone else moved it first - kept theirs"
+}
+
+/**
+ * What the Navbar shows: no connection, sending changes, or all sent.
+ */
+export type SyncStatus = "offline" | "syncing" | "synced";
@@ -0,0 +1,34 @@
+/**
+ * USER INTERFACE
+ * Defines what a "user" object looks like in your app.
+ * When you connect to a real backend, update this to match your API response.
+ *
+ * Example: Your backend might return:
+ * { id: "abc123", email: "user@example.com", name: "John", avatar: "url", role: "admin" }
+ *
+ * This lives in src/types (instead of inside AuthContext) so that other
+ * models - like FoodItem.ownerId - can point at User["id"].
+ */
+export type UserRole = "user" | "admin";
+
+/**
+ * USER SETTINGS
+ * Per-user preferences, saved on the server (PATCH /api/auth/me/settings).
+ * - expirySoonDays: items expiring within this many days are "expiring soon"
+ * - expiryUrgentDays: ...and within this many days they're "urgent" (red)
+ */
+export interface UserSettings {
+  expirySoonDays: number;
+  expiryUrgentDays: number;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole; // What the user may access (see components/RequireAuth.tsx)
+  settings: UserSettings;
+  token?: string; // Session token for API authentication (from /api/auth/login)
+  // TODO: Add more fields as your app grows:
+  // avatar?: string;
+}
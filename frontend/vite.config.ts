@@ -5,4 +5,10 @@ import tailwindcss from "@tailwindcss/vite";
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  server: {
+    // Send /api/* to the Express backend (see backend/README.md)
+    proxy: {
+      "/api": "http://localhost:4000",
+    },
+  },
 });